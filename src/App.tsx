@@ -2,7 +2,7 @@ import { AppProvider } from './context/app-context';
 import { AppShell } from './components/layout/app-shell';
 import { loadFromLocalStorage } from './utils/storage';
 import { createSeedRegisters } from './utils/seed-data';
-import { SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, type AppState } from './types/register';
+import { SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, BYTE_ORDER_DEFAULT, BIT_NUMBERING_DEFAULT, type AppState } from './types/register';
 
 function getInitialState(): AppState | undefined {
   const saved = loadFromLocalStorage();
@@ -16,8 +16,11 @@ function getInitialState(): AppState | undefined {
   }
   return {
     registers: seedRegisters,
+    groups: [],
     activeRegisterId: seedRegisters[0]?.id ?? null,
     registerValues: seedValues,
+    snapshots: [],
+    valueHistory: {},
     theme: 'dark',
     project: {
       title: 'Example Project',
@@ -29,6 +32,8 @@ function getInitialState(): AppState | undefined {
     mapShowGaps: true,
     mapSortDescending: false,
     addressUnitBits: ADDRESS_UNIT_BITS_DEFAULT,
+    byteOrder: BYTE_ORDER_DEFAULT,
+    bitNumbering: BIT_NUMBERING_DEFAULT,
   };
 }
 
@@ -0,0 +1,136 @@
+import { useMemo, useState } from 'react';
+import { useAppState } from '../../context/app-context';
+import { bulkDecode, bulkDecodeToCsv } from '../../utils/bulk-decode';
+import { expandRegisters } from '../../utils/register-array';
+import { flattenGroups } from '../../utils/register-groups';
+import { formatRegisterValue } from '../../utils/format';
+import { parseSamples } from '../../utils/waveform';
+import { Dialog } from './dialog';
+import { SampleInput, type SampleInputValue } from './sample-input';
+
+interface BulkDecodeDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onDownload: (csv: string, registerName: string) => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const labelClass = 'text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400';
+
+/** How many rows to show; the CSV always has all of them. */
+const MAX_ROWS = 500;
+
+export function BulkDecodeDialog({ open, onClose, onDownload }: BulkDecodeDialogProps) {
+  const { registers, groups, activeRegisterId } = useAppState();
+  const [registerId, setRegisterId] = useState<string | null>(null);
+  const [input, setInput] = useState<SampleInputValue>({ text: '' });
+
+  const flat = useMemo(() => expandRegisters(flattenGroups(registers, groups)), [registers, groups]);
+  // Follow the selected register until another one is picked here
+  const register = flat.find((r) => r.id === (registerId ?? activeRegisterId)) ?? flat[0];
+
+  const parsed = useMemo(
+    () => (register ? parseSamples(input.text, register.width, input.column) : { values: [], skippedLines: [], columns: [] }),
+    [input, register],
+  );
+  const { values, skippedLines, columns, column: valueColumn } = parsed;
+  const table = useMemo(() => (register ? bulkDecode(register, values) : null), [register, values]);
+
+  function handleDownload() {
+    if (register && table) onDownload(bulkDecodeToCsv(register, table), register.name);
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} title="Bulk Decode" wide>
+      {!register ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Add a register to decode values with.</p>
+      ) : (
+        <div className="space-y-3">
+          <label className="block">
+            <span className={labelClass}>Register</span>
+            <select
+              value={register.id}
+              onChange={(e) => setRegisterId(e.target.value)}
+              className={inputClass}
+            >
+              {flat.map((r) => (
+                <option key={r.id} value={r.id}>{r.name}</option>
+              ))}
+            </select>
+          </label>
+
+          <SampleInput
+            label="Values"
+            value={input}
+            onChange={setInput}
+            parsed={parsed}
+            placeholder={'0x00001A03\n0x00001A07\n\nor CSV rows such as time,value'}
+            rows={6}
+          />
+
+          {input.text.trim() !== '' && table && (
+            <div className="space-y-2">
+              {table.rows.length > 0 ? (
+                <div className="max-h-80 overflow-auto border border-gray-200 dark:border-gray-700 rounded">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-gray-50 dark:bg-gray-900 text-xs text-left text-gray-500 dark:text-gray-400">
+                      <tr>
+                        <th className="px-2 py-1 font-semibold">#</th>
+                        <th className="px-2 py-1 font-semibold">Value</th>
+                        {table.fields.map((field) => (
+                          <th key={field.id} className="px-2 py-1 font-semibold whitespace-nowrap">{field.name}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {table.rows.slice(0, MAX_ROWS).map((row, i) => (
+                        <tr key={i} className="border-t border-gray-200 dark:border-gray-700">
+                          <td className="px-2 py-1 text-gray-400 dark:text-gray-500">{i}</td>
+                          <td className="px-2 py-1 font-mono">{formatRegisterValue(row.value, register.width)}</td>
+                          {row.cells.map((cell, j) => (
+                            <td key={table.fields[j].id} className="px-2 py-1 font-mono whitespace-nowrap">
+                              {cell ?? <span className="text-gray-300 dark:text-gray-600">—</span>}
+                            </td>
+                          ))}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {columns.length > 1 && valueColumn === undefined
+                    ? 'Rows hold several numbers; choose the column holding the values.'
+                    : 'No values found.'}
+                </p>
+              )}
+              <p className="text-xs text-gray-400 dark:text-gray-500">
+                {table.rows.length} value{table.rows.length === 1 ? '' : 's'}
+                {table.rows.length > MAX_ROWS && `, first ${MAX_ROWS} shown`}
+                {skippedLines.length > 0 && `; skipped line${skippedLines.length === 1 ? '' : 's'} ${skippedLines.slice(0, 5).join(', ')}${skippedLines.length > 5 ? '…' : ''}`}
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Close
+        </button>
+        <button
+          onClick={handleDownload}
+          disabled={!table || table.rows.length === 0}
+          className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Download CSV
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,64 @@
+import { useMemo, useState } from 'react';
+import { useAppState } from '../../context/app-context';
+import { DEFAULT_C_HEADER_OPTIONS, generateCHeader, type CHeaderOptions, type NameCase } from '../../utils/codegen-c';
+import { CodeExportDialog } from './code-export-dialog';
+
+interface CHeaderDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onDownload: (code: string) => void;
+}
+
+const inputClass =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const labelClass = 'block text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400';
+
+export function CHeaderDialog({ open, onClose, onDownload }: CHeaderDialogProps) {
+  const state = useAppState();
+  const [options, setOptions] = useState<CHeaderOptions>(DEFAULT_C_HEADER_OPTIONS);
+
+  const code = useMemo(
+    () => (open ? generateCHeader(state, options) : ''),
+    [open, state, options],
+  );
+
+  function update(partial: Partial<CHeaderOptions>) {
+    setOptions((prev) => ({ ...prev, ...partial }));
+  }
+
+  return (
+    <CodeExportDialog open={open} onClose={onClose} title="Generate C Header" code={code} onDownload={onDownload}>
+      <label>
+        <span className={labelClass}>Prefix</span>
+        <input
+          type="text"
+          value={options.prefix}
+          onChange={(e) => update({ prefix: e.target.value })}
+          placeholder="e.g. TIM1_"
+          className={`${inputClass} w-32 font-mono`}
+        />
+      </label>
+      <label>
+        <span className={labelClass}>Case</span>
+        <select
+          value={options.nameCase}
+          onChange={(e) => update({ nameCase: e.target.value as NameCase })}
+          className={inputClass}
+        >
+          <option value="upper">UPPER_CASE</option>
+          <option value="lower">lower_case</option>
+          <option value="preserve">As defined</option>
+        </select>
+      </label>
+      <label className="flex items-center gap-2 text-sm py-1">
+        <input
+          type="checkbox"
+          checked={options.inlineHelpers}
+          onChange={(e) => update({ inlineHelpers: e.target.checked })}
+        />
+        Inline get/set helpers
+      </label>
+    </CodeExportDialog>
+  );
+}
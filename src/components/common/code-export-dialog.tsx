@@ -0,0 +1,48 @@
+import type { ReactNode } from 'react';
+import { Dialog } from './dialog';
+import { CopyButton } from './copy-button';
+
+interface CodeExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  title: string;
+  code: string;
+  onDownload: (code: string) => void;
+  /** Generator options rendered above the preview. */
+  children?: ReactNode;
+}
+
+/** Preview of generated source code with copy and download actions. */
+export function CodeExportDialog({ open, onClose, title, code, onDownload, children }: CodeExportDialogProps) {
+  return (
+    <Dialog open={open} onClose={onClose} title={title} wide>
+      {children && <div className="flex flex-wrap items-end gap-4 mb-3">{children}</div>}
+
+      <div className="relative">
+        <pre
+          aria-label="Generated code"
+          className="max-h-[50vh] overflow-auto rounded border border-gray-200 dark:border-gray-700
+            bg-gray-50 dark:bg-gray-900 p-3 text-xs font-mono whitespace-pre"
+        >
+          {code}
+        </pre>
+        <CopyButton value={code} label="Copy to clipboard" className="absolute top-2 right-2" />
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Close
+        </button>
+        <button
+          onClick={() => onDownload(code)}
+          className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          Download
+        </button>
+      </div>
+    </Dialog>
+  );
+}
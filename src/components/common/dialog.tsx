@@ -5,9 +5,11 @@ interface DialogProps {
   onClose: () => void;
   title: string;
   children: ReactNode;
+  /** Use a wider panel, e.g. for code previews. */
+  wide?: boolean;
 }
 
-export function Dialog({ open, onClose, title, children }: DialogProps) {
+export function Dialog({ open, onClose, title, children, wide = false }: DialogProps) {
   const dialogRef = useRef<HTMLDialogElement>(null);
   const titleId = useId();
 
@@ -40,15 +42,15 @@ export function Dialog({ open, onClose, title, children }: DialogProps) {
       onClose={onClose}
       onClick={handleClick}
       aria-labelledby={titleId}
-      className="backdrop:bg-black/50 dark:backdrop:bg-black/70
+      className={`backdrop:bg-black/50 dark:backdrop:bg-black/70
         bg-white dark:bg-gray-800
         text-gray-900 dark:text-gray-100
         border border-gray-200 dark:border-gray-700
         rounded-xl shadow-xl
         p-0 m-auto
-        max-w-lg w-[calc(100%-2rem)]
+        ${wide ? 'max-w-3xl' : 'max-w-lg'} w-[calc(100%-2rem)]
         max-h-[calc(100vh-4rem)]
-        overflow-hidden"
+        overflow-hidden`}
     >
       {open && (
         <div className="flex flex-col max-h-[calc(100vh-4rem)]">
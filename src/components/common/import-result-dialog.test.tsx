@@ -98,6 +98,27 @@ describe('ImportResultDialog', () => {
       );
       expect(screen.getByText(/1 register imported successfully/)).toBeInTheDocument();
     });
+
+    it('describes lossy conversions when nothing was skipped', () => {
+      render(
+        <ImportResultDialog
+          open={true}
+          onClose={vi.fn()}
+          variant="warning"
+          importedCount={3}
+          skippedCount={0}
+          warnings={[{
+            registerIndex: 0,
+            registerName: 'CTRL',
+            errors: [{ message: '"MODE": default enumerated value "OTHER" cannot be represented' }],
+            imported: true,
+          }]}
+        />,
+      );
+      expect(screen.getByText(/Some details could not be converted/)).toBeInTheDocument();
+      expect(screen.queryByText(/skipped due to validation errors/)).not.toBeInTheDocument();
+      expect(screen.getByText('(imported)')).toBeInTheDocument();
+    });
   });
 
   describe('error variant', () => {
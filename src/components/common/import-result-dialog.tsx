@@ -45,7 +45,11 @@ export function ImportResultDialog({
         <p className="text-sm text-gray-500 dark:text-gray-300">
           {variant === 'error'
             ? (errorMessage ?? 'Failed to import: invalid JSON or missing registers array.')
-            : `${importedCount} register${importedCount !== 1 ? 's' : ''} imported successfully. ${skippedCount} skipped due to validation errors:`}
+            : `${importedCount} register${importedCount !== 1 ? 's' : ''} imported successfully. ${
+                skippedCount > 0
+                  ? `${skippedCount} skipped due to validation errors:`
+                  : 'Some details could not be converted:'
+              }`}
         </p>
       </div>
 
@@ -53,7 +57,10 @@ export function ImportResultDialog({
         <div className="max-h-60 overflow-y-auto space-y-2 mb-4">
           {warnings.map((w, i) => (
             <div key={i} className="rounded-md bg-gray-100 dark:bg-gray-900/60 px-3 py-2">
-              <p className="font-mono text-sm text-amber-700 dark:text-amber-300">{w.registerName}</p>
+              <p className="font-mono text-sm text-amber-700 dark:text-amber-300">
+                {w.registerName}
+                {w.imported && <span className="ml-2 font-sans text-xs text-gray-500 dark:text-gray-400">(imported)</span>}
+              </p>
               {w.errors.map((e, j) => (
                 <p key={j} className="text-xs text-gray-500 dark:text-gray-400 mt-0.5">{e.message}</p>
               ))}
@@ -0,0 +1,144 @@
+import { useMemo, useState } from 'react';
+import { useAppState, useAppDispatch } from '../../context/app-context';
+import { formatRegisterValue } from '../../utils/format';
+import { compileLogPatterns, DEFAULT_LOG_PATTERNS, readLogValues, type LogValueMatch } from '../../utils/log-values';
+import { Dialog } from './dialog';
+
+interface LogValuesDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const labelClass = 'text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400';
+
+/** How many issues to list before summarizing. */
+const MAX_ISSUES = 5;
+
+export function LogValuesDialog({ open, onClose }: LogValuesDialogProps) {
+  const state = useAppState();
+  const dispatch = useAppDispatch();
+  const [text, setText] = useState('');
+  const [patternText, setPatternText] = useState(DEFAULT_LOG_PATTERNS.join('\n'));
+
+  const { patterns, errors } = useMemo(() => compileLogPatterns(patternText.split('\n')), [patternText]);
+  const { matches, issues } = useMemo(
+    () => (open ? readLogValues(text, patterns, state) : { matches: [], issues: [] }),
+    [open, text, patterns, state],
+  );
+
+  // The last match of each register wins; keep only the ones that change something
+  const changes = useMemo(() => {
+    const latest = new Map<string, LogValueMatch>();
+    for (const match of matches) latest.set(match.register.id, match);
+    return [...latest.values()].filter((m) => (state.registerValues[m.register.id] ?? 0n) !== m.value);
+  }, [matches, state.registerValues]);
+
+  function handleApply() {
+    // One action, so the whole import is a single undo step
+    const values = Object.fromEntries(changes.map((change) => [change.register.id, change.value]));
+    dispatch({ type: 'SET_REGISTER_VALUES', values });
+    onClose();
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} title="Import Values from Log" wide>
+      <div className="space-y-3">
+        <label className="block">
+          <span className={labelClass}>Log</span>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'CTRL=0x0000_1A03\n[reg 0x40] <= 0xdead'}
+            rows={6}
+            spellCheck={false}
+            className={inputClass + ' font-mono text-xs resize-y'}
+          />
+        </label>
+
+        <label className="block">
+          <span className={labelClass}>Patterns</span>
+          <textarea
+            value={patternText}
+            onChange={(e) => setPatternText(e.target.value)}
+            rows={3}
+            spellCheck={false}
+            aria-invalid={errors.length > 0}
+            className={`${inputClass} font-mono text-xs resize-y ${errors.length > 0 ? 'border-red-500 dark:border-red-400' : ''}`}
+          />
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+            One regular expression per line, with a <span className="font-mono">(?&lt;value&gt;…)</span> group and
+            a <span className="font-mono">(?&lt;name&gt;…)</span> or <span className="font-mono">(?&lt;offset&gt;…)</span> group.
+            Offsets are absolute, in address units.
+          </p>
+          {errors.map((error) => (
+            <p key={error} className="text-xs text-red-500 dark:text-red-400">{error}</p>
+          ))}
+        </label>
+
+        {text.trim() !== '' && (
+          <div className="space-y-2">
+            {changes.length > 0 ? (
+              <div className="max-h-60 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-900/40 text-xs text-left text-gray-500 dark:text-gray-400">
+                    <tr>
+                      <th className="px-2 py-1 font-semibold">Register</th>
+                      <th className="px-2 py-1 font-semibold">Current</th>
+                      <th className="px-2 py-1 font-semibold">New</th>
+                      <th className="px-2 py-1 font-semibold">Line</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {changes.map(({ register, value, line }) => (
+                      <tr key={register.id} className="border-t border-gray-200 dark:border-gray-700">
+                        <td className="px-2 py-1 font-medium">{register.name}</td>
+                        <td className="px-2 py-1 font-mono text-gray-500 dark:text-gray-400">
+                          {formatRegisterValue(state.registerValues[register.id] ?? 0n, register.width)}
+                        </td>
+                        <td className="px-2 py-1 font-mono">{formatRegisterValue(value, register.width)}</td>
+                        <td className="px-2 py-1 text-gray-500 dark:text-gray-400">{line}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {matches.length > 0 ? 'The log matches the current values.' : 'No register values found.'}
+              </p>
+            )}
+            {issues.length > 0 && (
+              <ul className="text-xs text-amber-600 dark:text-amber-400 space-y-0.5">
+                {issues.slice(0, MAX_ISSUES).map((issue, i) => (
+                  <li key={i}>
+                    Line {issue.line}: <span className="font-mono">{issue.text}</span> — {issue.message}
+                  </li>
+                ))}
+                {issues.length > MAX_ISSUES && <li>and {issues.length - MAX_ISSUES} more</li>}
+              </ul>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={changes.length === 0}
+          className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {changes.length > 0 ? `Apply ${changes.length} change${changes.length === 1 ? '' : 's'}` : 'Apply'}
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,134 @@
+import { useMemo, useState } from 'react';
+import type { RegisterDef } from '../../types/register';
+import { useAppState, useAppDispatch } from '../../context/app-context';
+import { matchMemoryDump, parseMemoryDump } from '../../utils/memory-dump';
+import { expandRegisters } from '../../utils/register-array';
+import { BYTE_ORDER_LABELS } from '../../utils/byte-order';
+import { formatOffset } from '../../utils/format';
+import { Dialog } from './dialog';
+
+interface MemoryDumpDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Registers with absolute offsets, as shown in the map. */
+  registers: RegisterDef[];
+}
+
+const inputClass =
+  'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const labelClass = 'text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400';
+
+/** How many unmatched ranges or partial registers to list before summarizing. */
+const MAX_LISTED = 8;
+
+function listed(items: string[]): string {
+  return items.length > MAX_LISTED
+    ? `${items.slice(0, MAX_LISTED).join(', ')} and ${items.length - MAX_LISTED} more`
+    : items.join(', ');
+}
+
+export function MemoryDumpDialog({ open, onClose, registers }: MemoryDumpDialogProps) {
+  const { addressUnitBits, byteOrder } = useAppState();
+  const dispatch = useAppDispatch();
+  const [text, setText] = useState('');
+  const [baseText, setBaseText] = useState('0x0');
+
+  const base = baseText.trim();
+  const baseAddress = /^(0[xX][0-9a-fA-F]+|[0-9]+)$/.test(base) ? Number(base) : NaN;
+  const baseError = !Number.isSafeInteger(baseAddress) ? 'Base address must be a non-negative integer' : null;
+
+  const parsed = useMemo(() => parseMemoryDump(text, byteOrder), [text, byteOrder]);
+  const match = useMemo(
+    () =>
+      baseError === null
+        ? matchMemoryDump(expandRegisters(registers), parsed.bytes, { addressUnitBits, byteOrder, baseAddress })
+        : null,
+    [registers, parsed, addressUnitBits, byteOrder, baseAddress, baseError],
+  );
+  const matched = match ? Object.keys(match.values).length : 0;
+
+  function handleApply() {
+    if (!match || matched === 0) return;
+    dispatch({ type: 'SET_REGISTER_VALUES', values: match.values });
+    onClose();
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} title="Load Memory Dump" wide>
+      <div className="space-y-3">
+        <label className="block">
+          <span className={labelClass}>Dump</span>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={'00000000: 0100 0000 2100 0000  ....!...\n0x40000000:\t0x00000001\t0x00000021'}
+            rows={10}
+            spellCheck={false}
+            className={inputClass + ' font-mono text-xs resize-y'}
+          />
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+            xxd, hexdump -C, GDB x/…x or <span className="font-mono">address: bytes</span> lines.
+            GDB words are read as {BYTE_ORDER_LABELS[byteOrder].toLowerCase()}, the project default.
+          </p>
+        </label>
+
+        <label className="block">
+          <span className={labelClass}>Base address</span>
+          <input
+            type="text"
+            value={baseText}
+            onChange={(e) => setBaseText(e.target.value)}
+            aria-invalid={baseError !== null}
+            className={`${inputClass} font-mono w-40 ${baseError ? 'border-red-500 dark:border-red-400' : ''}`}
+          />
+          <p className={`text-xs mt-1 ${baseError ? 'text-red-500 dark:text-red-400' : 'text-gray-400 dark:text-gray-500'}`}>
+            {baseError ?? 'Byte address of register offset 0 in the dump.'}
+          </p>
+        </label>
+
+        {text.trim() !== '' && match && (
+          <div className="text-sm space-y-1" data-testid="dump-summary">
+            <p>
+              {matched} register{matched === 1 ? '' : 's'} matched from {parsed.bytes.size} byte{parsed.bytes.size === 1 ? '' : 's'}.
+            </p>
+            {match.partial.length > 0 && (
+              <p className="text-amber-600 dark:text-amber-400">
+                Partly covered, not loaded: {listed(match.partial.map((r) => r.name))}
+              </p>
+            )}
+            {match.unmatched.length > 0 && (
+              <p className="text-gray-500 dark:text-gray-400">
+                No register at:{' '}
+                <span className="font-mono">
+                  {listed(match.unmatched.map(([from, to]) => (from === to ? formatOffset(from) : `${formatOffset(from)}–${formatOffset(to)}`)))}
+                </span>
+              </p>
+            )}
+            {parsed.skippedLines.length > 0 && (
+              <p className="text-gray-500 dark:text-gray-400">
+                Skipped unreadable line{parsed.skippedLines.length === 1 ? '' : 's'} {listed(parsed.skippedLines.map(String))}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleApply}
+          disabled={matched === 0}
+          className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Load values
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -1,7 +1,9 @@
 import { useState } from 'react';
-import type { ProjectMetadata } from '../../types/register';
+import type { BitNumbering, ByteOrder, ProjectMetadata } from '../../types/register';
 import { useAppState, useAppDispatch } from '../../context/app-context';
 import { sanitizeProjectMetadata } from '../../utils/storage';
+import { BYTE_ORDER_LABELS } from '../../utils/byte-order';
+import { BIT_NUMBERING_LABELS } from '../../utils/bit-numbering';
 import { Dialog } from './dialog';
 
 interface ProjectSettingsDialogProps {
@@ -89,6 +91,44 @@ export function ProjectSettingsDialog({ open, onClose }: ProjectSettingsDialogPr
           </p>
         </label>
 
+        <label className="block">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Default byte order
+          </span>
+          <select
+            value={state.byteOrder}
+            onChange={(e) =>
+              dispatch({ type: 'SET_BYTE_ORDER', byteOrder: e.target.value as ByteOrder })
+            }
+            className={inputClass}
+          >
+            <option value="little">{BYTE_ORDER_LABELS.little}</option>
+            <option value="big">{BYTE_ORDER_LABELS.big}</option>
+          </select>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+            How register values are laid out as bytes in memory, unless a register sets its own.
+          </p>
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Bit numbering
+          </span>
+          <select
+            value={state.bitNumbering}
+            onChange={(e) =>
+              dispatch({ type: 'SET_BIT_NUMBERING', bitNumbering: e.target.value as BitNumbering })
+            }
+            className={inputClass}
+          >
+            <option value="lsb0">{BIT_NUMBERING_LABELS.lsb0}</option>
+            <option value="msb0">{BIT_NUMBERING_LABELS.msb0}</option>
+          </select>
+          <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">
+            How bit indices are shown and entered. SVD, IP-XACT and C macros always count from LSB 0.
+          </p>
+        </label>
+
         <label className="block">
           <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
             Date
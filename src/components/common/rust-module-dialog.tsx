@@ -0,0 +1,19 @@
+import { useMemo } from 'react';
+import { useAppState } from '../../context/app-context';
+import { generateRustModule } from '../../utils/codegen-rust';
+import { CodeExportDialog } from './code-export-dialog';
+
+interface RustModuleDialogProps {
+  open: boolean;
+  onClose: () => void;
+  onDownload: (code: string) => void;
+}
+
+export function RustModuleDialog({ open, onClose, onDownload }: RustModuleDialogProps) {
+  const state = useAppState();
+  const code = useMemo(() => (open ? generateRustModule(state) : ''), [open, state]);
+
+  return (
+    <CodeExportDialog open={open} onClose={onClose} title="Generate Rust Module" code={code} onDownload={onDownload} />
+  );
+}
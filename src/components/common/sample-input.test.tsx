@@ -0,0 +1,43 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SampleInput } from './sample-input';
+import { parseSamples } from '../../utils/waveform';
+
+describe('SampleInput', () => {
+  const csv = 'addr,reading,timestamp\n0x40,0x12,1000';
+
+  function renderInput(text: string, column?: number) {
+    const onChange = vi.fn();
+    render(
+      <SampleInput
+        label="Values"
+        value={{ text, column }}
+        onChange={onChange}
+        parsed={parseSamples(text, 8, column)}
+        placeholder=""
+        rows={4}
+      />,
+    );
+    return onChange;
+  }
+
+  it('offers a column picker only for multi-column input', () => {
+    renderInput('0x1\n0x2');
+    expect(screen.queryByRole('combobox', { name: 'Value column' })).not.toBeInTheDocument();
+  });
+
+  it('reports the chosen column', () => {
+    const onChange = renderInput(csv);
+    const select = screen.getByRole('combobox', { name: 'Value column' });
+    expect(screen.getAllByRole('option').map((o) => o.textContent)).toEqual([
+      'Choose the column holding the values', 'addr', 'reading', 'timestamp',
+    ]);
+    fireEvent.change(select, { target: { value: '1' } });
+    expect(onChange).toHaveBeenCalledWith({ text: csv, column: 1 });
+  });
+
+  it('drops the chosen column when the text changes', () => {
+    const onChange = renderInput(csv, 1);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Values' }), { target: { value: 'time,value\n0,0x1' } });
+    expect(onChange).toHaveBeenCalledWith({ text: 'time,value\n0,0x1' });
+  });
+});
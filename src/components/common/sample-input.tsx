@@ -0,0 +1,91 @@
+import { useId, useRef } from 'react';
+import type { ParsedSamples } from '../../utils/waveform';
+
+/** What the user entered: the sample text and the CSV column they picked, if any. */
+export interface SampleInputValue {
+  text: string;
+  column?: number;
+}
+
+interface SampleInputProps {
+  label: string;
+  value: SampleInputValue;
+  onChange: (value: SampleInputValue) => void;
+  /** `parseSamples` result for the value, for its CSV columns. */
+  parsed: ParsedSamples;
+  placeholder: string;
+  rows: number;
+}
+
+const inputClass =
+  'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+const labelClass = 'text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400';
+
+/**
+ * Raw register values to work on: a textarea, a file loader and, for CSV
+ * rows with several columns, a picker for the column holding the values.
+ */
+export function SampleInput({ label, value, onChange, parsed, placeholder, rows }: SampleInputProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const textId = useId();
+  const { columns, column } = parsed;
+
+  function handleTextChange(text: string) {
+    // Column indices belong to the previous input
+    onChange({ text });
+  }
+
+  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => handleTextChange(reader.result as string);
+    reader.readAsText(file);
+    // Reset so the same file can be loaded again
+    e.target.value = '';
+  }
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <div className="flex items-center justify-between">
+          <label htmlFor={textId} className={labelClass}>{label}</label>
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="px-2 py-0.5 rounded text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+          >
+            Load file…
+          </button>
+        </div>
+        <textarea
+          id={textId}
+          value={value.text}
+          onChange={(e) => handleTextChange(e.target.value)}
+          placeholder={placeholder}
+          rows={rows}
+          spellCheck={false}
+          className={inputClass + ' font-mono text-xs resize-y'}
+        />
+        <input ref={fileInputRef} type="file" accept=".csv,.txt" onChange={handleFileChange} className="hidden" />
+      </div>
+
+      {columns.length > 1 && (
+        <label className="block">
+          <span className={labelClass}>Value column</span>
+          <select
+            value={column ?? ''}
+            onChange={(e) => onChange({ ...value, column: Number(e.target.value) })}
+            className={inputClass}
+          >
+            {column === undefined && <option value="" disabled>Choose the column holding the values</option>}
+            {columns.map((name, i) => (
+              <option key={i} value={i}>{name || `Column ${i + 1}`}</option>
+            ))}
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
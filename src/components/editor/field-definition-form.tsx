@@ -1,19 +1,32 @@
 import { useState } from 'react';
-import type { Field, FieldDraft, FieldType, EnumEntry, QFormat, Signedness } from '../../types/register';
-import { toField, toFieldDraft } from '../../types/register';
+import type { AccessType, BitName, BitNumbering, Field, FieldDraft, FieldType, EnumEntry, QFormat, Signedness } from '../../types/register';
+import { ACCESS_TYPES, toField, toFieldDraft } from '../../types/register';
+import { ACCESS_LABELS } from '../../utils/access';
+import { clampToWidth } from '../../utils/bitwise';
+import { fieldBitWidth, formatBitRange, isSplitField, parseBitRange, sliceSpan } from '../../utils/field-slices';
+import { displayBit, modelBit } from '../../utils/bit-numbering';
+import { formatResetValue } from '../../utils/format';
+import { sanitizeResetValue } from '../../utils/sanitize';
 import { inputClass, inputClassSans, selectClass } from './editor-styles';
 
 interface Props {
   field: Field;
   regWidth: number;
+  regAccess?: AccessType;
+  bitNumbering: BitNumbering;
   onUpdate: (field: Field) => void;
   onDelete: () => void;
   onDone: () => void;
 }
 
-export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDone }: Props) {
+export function FieldDefinitionForm({ field, regWidth, regAccess, bitNumbering, onUpdate, onDelete, onDone }: Props) {
   const [draft, setDraft] = useState<FieldDraft>(() => toFieldDraft(field));
   const [confirmingDelete, setConfirmingDelete] = useState(false);
+  const [resetText, setResetText] = useState(() => formatResetValue(field.resetValue));
+  const [slicesText, setSlicesText] = useState(() => isSplitField(field) ? formatBitRange(field, bitNumbering, regWidth) : '');
+  const split = isSplitField(draft);
+  const [scaleText, setScaleText] = useState(() => field.type === 'integer' || field.type === 'fixed-point' ? String(field.scaling?.scale ?? '') : '');
+  const [offsetText, setOffsetText] = useState(() => field.type === 'integer' || field.type === 'fixed-point' ? String(field.scaling?.offset ?? '') : '');
 
   function update(partial: Partial<FieldDraft>) {
     const updated = { ...draft, ...partial };
@@ -29,26 +42,67 @@ export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDon
       description: draft.description,
       msb: draft.msb,
       lsb: draft.lsb,
+      slices: draft.slices,
+      access: draft.access,
+      resetValue: draft.resetValue,
       type,
     };
     // Set sensible defaults for the new type
     if (type === 'flag') {
       clean.msb = draft.lsb; // force 1-bit
+      clean.slices = undefined;
+      setSlicesText('');
       clean.flagLabels = draft.flagLabels ?? { clear: 'clear', set: 'set' };
     } else if (type === 'enum') {
       clean.enumEntries = draft.enumEntries?.length ? draft.enumEntries : [{ value: 0, name: 'VALUE_0' }];
     } else if (type === 'integer') {
       clean.signedness = draft.signedness;
+      clean.scaling = draft.scaling;
+    } else if (type === 'bitset') {
+      clean.bitNames = draft.bitNames ?? [];
     } else if (type === 'float') {
       clean.floatType = draft.floatType ?? 'single';
     } else if (type === 'fixed-point') {
-      const bitWidth = draft.msb - draft.lsb + 1;
+      const bitWidth = fieldBitWidth(draft);
       clean.qFormat = draft.qFormat ?? { m: Math.ceil(bitWidth / 2), n: Math.floor(bitWidth / 2) };
+      clean.scaling = draft.scaling;
     }
     setDraft(clean);
     onUpdate(toField(clean));
   }
 
+  /** Apply the scale and offset inputs; an empty scale removes the scaling. */
+  function commitScaling() {
+    if (scaleText.trim() === '') {
+      update({ scaling: undefined });
+      setOffsetText('');
+      return;
+    }
+    const scale = Number(scaleText);
+    const offset = offsetText.trim() === '' ? 0 : Number(offsetText);
+    if (!Number.isFinite(scale) || scale === 0 || !Number.isFinite(offset)) {
+      setScaleText(String(draft.scaling?.scale ?? ''));
+      setOffsetText(String(draft.scaling?.offset ?? ''));
+      return;
+    }
+    update({ scaling: { scale, offset, ...(draft.scaling?.unit && { unit: draft.scaling.unit }) } });
+    setScaleText(String(scale));
+    setOffsetText(String(offset));
+  }
+
+  function commitSlices() {
+    const raw = slicesText.trim();
+    const slices = raw === '' ? [{ msb: draft.msb, lsb: draft.lsb }] : parseBitRange(raw, bitNumbering, regWidth);
+    if (!slices) {
+      setSlicesText(split ? formatBitRange(draft, bitNumbering, regWidth) : '');
+      return;
+    }
+    // A single slice is a plain msb:lsb range
+    const partial = { ...sliceSpan(slices), slices: slices.length > 1 ? slices : undefined };
+    update(partial);
+    setSlicesText(slices.length > 1 ? formatBitRange(partial, bitNumbering, regWidth) : '');
+  }
+
   function addEnumEntry() {
     const entries = [...(draft.enumEntries ?? [])];
     const nextVal = entries.length > 0 ? Math.max(...entries.map((e) => e.value)) + 1 : 0;
@@ -68,6 +122,27 @@ export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDon
     update({ enumEntries: entries });
   }
 
+  function addBitName() {
+    const names = [...(draft.bitNames ?? [])];
+    const used = new Set(names.map((b) => b.bit));
+    let bit = 0;
+    while (used.has(bit)) bit++;
+    names.push({ bit, name: `BIT_${bit}` });
+    update({ bitNames: names });
+  }
+
+  function updateBitName(index: number, entry: BitName) {
+    const names = [...(draft.bitNames ?? [])];
+    names[index] = entry;
+    update({ bitNames: names });
+  }
+
+  function deleteBitName(index: number) {
+    const names = [...(draft.bitNames ?? [])];
+    names.splice(index, 1);
+    update({ bitNames: names });
+  }
+
   return (
     <div className="p-3 rounded border-2 border-blue-400 dark:border-blue-600 bg-gray-50 dark:bg-gray-800/50 space-y-3">
       {/* Row 1: Name, Type */}
@@ -93,6 +168,11 @@ export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDon
             <option value="integer">Integer</option>
             <option value="float">Float</option>
             <option value="fixed-point">Fixed-Point</option>
+            <option value="bcd">BCD</option>
+            <option value="gray">Gray Code</option>
+            <option value="ascii">ASCII</option>
+            <option value="one-hot">One-Hot</option>
+            <option value="bitset">Bit Set</option>
           </select>
         </label>
         <label className="flex flex-col gap-1">
@@ -100,37 +180,91 @@ export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDon
           <div className="flex items-center gap-1">
             <input
               type="number"
-              value={draft.msb}
+              value={displayBit(draft.msb, regWidth, bitNumbering)}
               min={0}
               max={regWidth - 1}
-              onChange={(e) => update({ msb: parseInt(e.target.value) || 0 })}
+              onChange={(e) => update({ msb: modelBit(parseInt(e.target.value) || 0, regWidth, bitNumbering) })}
+              disabled={split}
               className={inputClass + ' w-14'}
-              title="MSB"
+              title={split ? 'MSB of the slices' : 'MSB'}
             />
             <span className="text-gray-400">:</span>
             <input
               type="number"
-              value={draft.lsb}
+              value={displayBit(draft.lsb, regWidth, bitNumbering)}
               min={0}
               max={regWidth - 1}
-              onChange={(e) => update({ lsb: parseInt(e.target.value) || 0 })}
+              onChange={(e) => update({ lsb: modelBit(parseInt(e.target.value) || 0, regWidth, bitNumbering) })}
+              disabled={split}
               className={inputClass + ' w-14'}
-              title="LSB"
+              title={split ? 'LSB of the slices' : 'LSB'}
             />
           </div>
         </label>
       </div>
 
-      {/* Description */}
-      <label className="flex flex-col gap-1">
-        <span className="text-xs text-gray-500 dark:text-gray-400">Description (optional)</span>
-        <input
-          type="text"
-          value={draft.description ?? ''}
-          onChange={(e) => update({ description: e.target.value || undefined })}
-          className={inputClassSans}
-        />
-      </label>
+      {/* Description, Reset, Access */}
+      <div className="grid grid-cols-4 gap-2">
+        <label className="flex flex-col gap-1 col-span-2">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Description (optional)</span>
+          <input
+            type="text"
+            value={draft.description ?? ''}
+            onChange={(e) => update({ description: e.target.value || undefined })}
+            className={inputClassSans}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Reset (optional)</span>
+          <input
+            type="text"
+            value={resetText}
+            placeholder="Register reset"
+            onChange={(e) => setResetText(e.target.value)}
+            onBlur={() => {
+              const raw = resetText.trim();
+              const parsed = raw === '' ? undefined : sanitizeResetValue(raw);
+              if (raw !== '' && parsed === undefined) {
+                setResetText(formatResetValue(draft.resetValue));
+                return;
+              }
+              const value = parsed === undefined ? undefined : clampToWidth(parsed, fieldBitWidth(draft));
+              update({ resetValue: value });
+              setResetText(formatResetValue(value));
+            }}
+            className={inputClass}
+            title="Raw field bits after reset; overrides the register reset value"
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Access</span>
+          <select
+            value={draft.access ?? ''}
+            onChange={(e) => update({ access: (e.target.value || undefined) as AccessType | undefined })}
+            className={selectClass}
+          >
+            <option value="">Register default ({(regAccess ?? 'rw').toUpperCase()})</option>
+            {ACCESS_TYPES.map((a) => (
+              <option key={a} value={a}>{ACCESS_LABELS[a]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {draft.type !== 'flag' && (
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Split slices (optional)</span>
+          <input
+            type="text"
+            value={slicesText}
+            placeholder="e.g. 11:8, 31:28"
+            onChange={(e) => setSlicesText(e.target.value)}
+            onBlur={commitSlices}
+            className={inputClass}
+            title="Register bit ranges joined into one value, most significant part first"
+          />
+        </label>
+      )}
 
       {/* Type-specific options */}
       {draft.type === 'flag' && (
@@ -223,6 +357,46 @@ export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDon
         </div>
       )}
 
+      {(draft.type === 'integer' || draft.type === 'fixed-point') && (
+        <div className="grid grid-cols-4 gap-2">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Scale (optional)</span>
+            <input
+              type="text"
+              value={scaleText}
+              placeholder="e.g. 0.805"
+              onChange={(e) => setScaleText(e.target.value)}
+              onBlur={commitScaling}
+              className={inputClass}
+              title="Physical value = raw × scale + offset"
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Offset</span>
+            <input
+              type="text"
+              value={offsetText}
+              placeholder="0"
+              onChange={(e) => setOffsetText(e.target.value)}
+              onBlur={commitScaling}
+              disabled={!draft.scaling}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Unit</span>
+            <input
+              type="text"
+              value={draft.scaling?.unit ?? ''}
+              placeholder="e.g. mV"
+              onChange={(e) => draft.scaling && update({ scaling: { ...draft.scaling, unit: e.target.value || undefined } })}
+              disabled={!draft.scaling}
+              className={inputClassSans}
+            />
+          </label>
+        </div>
+      )}
+
       {draft.type === 'enum' && (
         <div>
           <span className="text-xs text-gray-500 dark:text-gray-400 block mb-1">Enum values</span>
@@ -263,6 +437,45 @@ export function FieldDefinitionForm({ field, regWidth, onUpdate, onDelete, onDon
         </div>
       )}
 
+      {draft.type === 'bitset' && (
+        <div>
+          <span className="text-xs text-gray-500 dark:text-gray-400 block mb-1">Bit names</span>
+          <div className="space-y-1 mb-2">
+            {(draft.bitNames ?? []).map((entry, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <input
+                  type="number"
+                  value={entry.bit}
+                  min={0}
+                  onChange={(e) => updateBitName(i, { ...entry, bit: Math.max(parseInt(e.target.value) || 0, 0) })}
+                  className={inputClass + ' w-16'}
+                  title="Bit (from the field's LSB)"
+                />
+                <input
+                  type="text"
+                  value={entry.name}
+                  onChange={(e) => updateBitName(i, { ...entry, name: e.target.value })}
+                  className={inputClass + ' flex-1'}
+                  title="Name"
+                />
+                <button
+                  onClick={() => deleteBitName(i)}
+                  className="text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={addBitName}
+            className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            + Add bit name
+          </button>
+        </div>
+      )}
+
       {/* Actions */}
       <div className="flex justify-between pt-2 border-t border-gray-200 dark:border-gray-700">
         {confirmingDelete ? (
@@ -29,8 +29,10 @@ export function JsonConfigEditor({ register, onUpdate }: Props) {
 
       const sanitized = sanitizeRegisterDef(raw as Record<string, unknown>);
 
-      // Preserve the register's existing id
+      // Preserve the register's existing id and group, which the JSON omits
       sanitized.id = register.id;
+      if (register.groupId !== undefined) sanitized.groupId = register.groupId;
+      else delete sanitized.groupId;
 
       const errors = validateRegisterDef(sanitized);
       if (errors.length > 0) {
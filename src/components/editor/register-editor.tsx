@@ -1,12 +1,20 @@
 import { useMemo, useState } from 'react';
-import type { RegisterDef, Field, FlagField } from '../../types/register';
+import type { AccessType, ByteOrder, RegisterDef, RegisterVariant, Field, FlagField } from '../../types/register';
+import { ACCESS_TYPES } from '../../types/register';
 import { useAppState } from '../../context/app-context';
 import { useEditContext } from '../../context/edit-context';
 import { FieldDefinitionForm } from './field-definition-form';
 import { JsonConfigEditor } from './json-config-editor';
-import { formatOffset } from '../../utils/format';
+import { formatOffset, formatResetValue } from '../../utils/format';
+import { clampToWidth } from '../../utils/bitwise';
+import { formatBitRange } from '../../utils/field-slices';
+import { sanitizeResetValue } from '../../utils/sanitize';
+import { baseRegisterId, instanceName, MAX_DIM_COUNT } from '../../utils/register-array';
+import { absoluteOffset, flattenGroups } from '../../utils/register-groups';
 import { MAX_REGISTER_WIDTH, getFieldWarnings, getRegisterOverlapWarnings } from '../../utils/validation';
-import { inputClass, inputClassSans } from './editor-styles';
+import { ACCESS_LABELS } from '../../utils/access';
+import { BYTE_ORDER_LABELS } from '../../utils/byte-order';
+import { inputClass, inputClassSans, selectClass } from './editor-styles';
 
 interface Props {
   draft: RegisterDef;
@@ -18,6 +26,12 @@ interface Props {
 
 type EditorTab = 'gui' | 'json';
 
+/** Parse a comma- or space-separated list of non-negative integers (hex with `0x`), deduplicated. */
+function parseSelectorValues(text: string): number[] {
+  const values = text.split(/[\s,]+/).filter(Boolean).map((t) => (/^0x/i.test(t) ? parseInt(t, 16) : Number(t)));
+  return [...new Set(values.filter((v) => Number.isSafeInteger(v) && v >= 0))];
+}
+
 export function RegisterEditor({
   draft,
   onDraftChange,
@@ -25,7 +39,7 @@ export function RegisterEditor({
   onCancel,
   saveErrors,
 }: Props) {
-  const { registers, addressUnitBits } = useAppState();
+  const { registers, groups, addressUnitBits, byteOrder, bitNumbering } = useAppState();
   const { dirtyCount } = useEditContext();
   const [tab, setTab] = useState<EditorTab>('gui');
   const [editingFieldId, setEditingFieldId] = useState<string | null>(null);
@@ -34,32 +48,51 @@ export function RegisterEditor({
   const [offsetText, setOffsetText] = useState(
     draft.offset != null ? formatOffset(draft.offset) : ''
   );
-  const [prevDraftKey, setPrevDraftKey] = useState(`${draft.id}:${draft.width}:${draft.offset}`);
-  const draftKey = `${draft.id}:${draft.width}:${draft.offset}`;
+  const [resetText, setResetText] = useState(formatResetValue(draft.resetValue));
+  const [countText, setCountText] = useState(String(draft.dim?.count ?? 1));
+  const [strideText, setStrideText] = useState(draft.dim ? String(draft.dim.stride) : '');
+  const draftKey = `${draft.id}:${draft.width}:${draft.offset}:${draft.resetValue}:${draft.dim?.count}:${draft.dim?.stride}`;
+  const [prevDraftKey, setPrevDraftKey] = useState(draftKey);
   if (draftKey !== prevDraftKey) {
     setPrevDraftKey(draftKey);
     setWidthText(String(draft.width));
     setOffsetText(draft.offset != null ? formatOffset(draft.offset) : '');
+    setResetText(formatResetValue(draft.resetValue));
+    setCountText(String(draft.dim?.count ?? 1));
+    setStrideText(draft.dim ? String(draft.dim.stride) : '');
   }
 
-  function updateMeta(partial: Partial<Pick<RegisterDef, 'name' | 'description' | 'width' | 'offset'>>) {
+  function updateMeta(partial: Partial<Pick<RegisterDef, 'name' | 'description' | 'width' | 'offset' | 'access' | 'resetValue' | 'dim' | 'groupId' | 'variantSelectorId' | 'byteOrder'>>) {
     onDraftChange({ ...draft, ...partial });
   }
 
-  function addField() {
-    const id = crypto.randomUUID();
-    const nextLsb = draft.fields.length > 0
-      ? Math.max(...draft.fields.map((f) => f.msb)) + 1
+  /** Default stride: the register's size in address units. */
+  const defaultStride = Math.max(1, Math.ceil(draft.width / addressUnitBits));
+
+  function commitDim(count: number, stride: number) {
+    updateMeta({ dim: count > 1 ? { count, stride } : undefined });
+    setCountText(String(count));
+    setStrideText(count > 1 ? String(stride) : '');
+  }
+
+  /** A 1-bit flag just above the highest bit used by `existing`. */
+  function newField(existing: Field[], name: string): FlagField {
+    const nextLsb = existing.length > 0
+      ? Math.max(...existing.map((f) => f.msb)) + 1
       : 0;
-    const newField: FlagField = {
-      id,
-      name: `FIELD_${draft.fields.length}`,
+    return {
+      id: crypto.randomUUID(),
+      name,
       msb: Math.min(nextLsb, draft.width - 1),
       lsb: Math.min(nextLsb, draft.width - 1),
       type: 'flag',
     };
-    onDraftChange({ ...draft, fields: [...draft.fields, newField] });
-    setEditingFieldId(id);
+  }
+
+  function addField() {
+    const field = newField(draft.fields, `FIELD_${draft.fields.length}`);
+    onDraftChange({ ...draft, fields: [...draft.fields, field] });
+    setEditingFieldId(field.id);
   }
 
   function updateField(updated: Field) {
@@ -73,14 +106,127 @@ export function RegisterEditor({
     onDraftChange({
       ...draft,
       fields: draft.fields.filter((f) => f.id !== fieldId),
+      ...(fieldId === draft.variantSelectorId && { variantSelectorId: undefined }),
     });
     if (editingFieldId === fieldId) setEditingFieldId(null);
   }
 
+  function updateVariant(variantId: string, update: (variant: RegisterVariant) => RegisterVariant) {
+    onDraftChange({
+      ...draft,
+      variants: draft.variants?.map((v) => (v.id === variantId ? update(v) : v)),
+    });
+  }
+
+  function addVariant() {
+    const variants = draft.variants ?? [];
+    const variant: RegisterVariant = {
+      id: crypto.randomUUID(),
+      name: `VARIANT_${variants.length}`,
+      selectorValues: [variants.length],
+      fields: [],
+    };
+    onDraftChange({ ...draft, variants: [...variants, variant] });
+  }
+
+  function deleteVariant(variantId: string) {
+    const variants = draft.variants?.filter((v) => v.id !== variantId);
+    onDraftChange({ ...draft, variants: variants?.length ? variants : undefined });
+  }
+
+  function addVariantField(variant: RegisterVariant) {
+    const field = newField([...draft.fields, ...variant.fields], `${variant.name}_FIELD_${variant.fields.length}`);
+    updateVariant(variant.id, (v) => ({ ...v, fields: [...v.fields, field] }));
+    setEditingFieldId(field.id);
+  }
+
+  function renderFieldList(fields: Field[], onUpdate: (field: Field) => void, onDelete: (fieldId: string) => void) {
+    return (
+      <div className="space-y-2 mb-3">
+        {[...fields].sort((a, b) => b.msb - a.msb).map((field) => (
+          <div key={field.id}>
+            {editingFieldId === field.id ? (
+              <FieldDefinitionForm
+                field={field}
+                regWidth={draft.width}
+                regAccess={draft.access}
+                bitNumbering={bitNumbering}
+                onUpdate={onUpdate}
+                onDelete={() => onDelete(field.id)}
+                onDone={() => setEditingFieldId(null)}
+              />
+            ) : confirmingDeleteFieldId === field.id ? (
+              <div className="flex items-center justify-between px-3 py-2 rounded border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
+                <span className="text-sm text-red-700 dark:text-red-300">Delete {field.name}?</span>
+                <div className="flex gap-1 shrink-0 ml-2">
+                  <button
+                    onClick={() => { onDelete(field.id); setConfirmingDeleteFieldId(null); }}
+                    className="px-2 py-0.5 rounded text-xs font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+                  >
+                    Yes
+                  </button>
+                  <button
+                    onClick={() => setConfirmingDeleteFieldId(null)}
+                    className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                  >
+                    No
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <div
+                onClick={() => setEditingFieldId(field.id)}
+                className={`flex items-center justify-between px-3 py-2 rounded border hover:bg-gray-50 dark:hover:bg-gray-800/50 cursor-pointer ${
+                  warningsByFieldId.has(field.id)
+                    ? 'border-amber-300 dark:border-amber-700 bg-amber-50/50 dark:bg-amber-900/10'
+                    : 'border-gray-200 dark:border-gray-700'
+                }`}
+              >
+                <div className="flex items-center gap-3 min-w-0">
+                  <span className="font-medium text-sm">{field.name}</span>
+                  <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
+                    {formatBitRange(field, bitNumbering, draft.width)}
+                  </span>
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
+                    {field.type}
+                  </span>
+                  {field.id === draft.variantSelectorId && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300">
+                      selector
+                    </span>
+                  )}
+                  {field.access && (
+                    <span className="text-xs px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300 font-mono uppercase">
+                      {field.access}
+                    </span>
+                  )}
+                  {warningsByFieldId.has(field.id) && (() => {
+                    const msgs = warningsByFieldId.get(field.id)!;
+                    return (
+                      <span className="text-xs text-amber-600 dark:text-amber-400 truncate" title={msgs.join('; ')}>
+                        ⚠ {msgs[0]}{msgs.length > 1 ? ` (+${msgs.length - 1} more)` : ''}
+                      </span>
+                    );
+                  })()}
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); setConfirmingDeleteFieldId(field.id); }}
+                  className="text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                >
+                  &times;
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
   const widthParsed = parseInt(widthText, 10);
   const widthHasError = widthText.trim() !== '' && (!Number.isInteger(widthParsed) || widthParsed < 1 || widthParsed > MAX_REGISTER_WIDTH);
 
-  const fieldWarnings = useMemo(() => getFieldWarnings(draft), [draft]);
+  const fieldWarnings = useMemo(() => getFieldWarnings(draft, bitNumbering), [draft, bitNumbering]);
   const warningsByFieldId = useMemo(() => {
     const map = new Map<string, string[]>();
     for (const w of fieldWarnings) {
@@ -97,10 +243,12 @@ export function RegisterEditor({
   // Only recompute when offset or width changes (not on every keystroke for name/description).
   const draftOverlapWarnings = useMemo(() => {
     const registersWithDraft = registers.map((r) => (r.id === draft.id ? draft : r));
-    return getRegisterOverlapWarnings(registersWithDraft, addressUnitBits)
-      .filter((w) => w.registerIds.includes(draft.id));
+    return getRegisterOverlapWarnings(flattenGroups(registersWithDraft, groups), addressUnitBits)
+      .filter((w) => w.registerIds.some((id) => baseRegisterId(id) === draft.id));
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [registers, draft.id, draft.offset, draft.width, addressUnitBits]);
+  }, [registers, groups, draft.id, draft.offset, draft.width, draft.dim, draft.groupId, addressUnitBits]);
+
+  const draftAddress = draft.groupId !== undefined ? absoluteOffset(draft, groups) : undefined;
 
   return (
     <div>
@@ -148,7 +296,7 @@ export function RegisterEditor({
       )}
 
       {/* Register metadata */}
-      <div className="grid grid-cols-3 gap-3 mb-2">
+      <div className="grid grid-cols-4 gap-3 mb-2">
         <label className="flex flex-col gap-1">
           <span className="text-xs text-gray-500 dark:text-gray-400">Name</span>
           <input
@@ -193,7 +341,10 @@ export function RegisterEditor({
           </div>
         </label>
         <label className="flex flex-col gap-1">
-          <span className="text-xs text-gray-500 dark:text-gray-400">Offset</span>
+          <span className="text-xs text-gray-500 dark:text-gray-400">
+            {draft.groupId !== undefined ? 'Offset in group' : 'Offset'}
+            {draftAddress !== undefined && <span className="font-mono"> = {formatOffset(draftAddress)}</span>}
+          </span>
           <input
             type="text"
             value={offsetText}
@@ -217,16 +368,133 @@ export function RegisterEditor({
             className={inputClass}
           />
         </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Default access</span>
+          <select
+            value={draft.access ?? 'rw'}
+            onChange={(e) => {
+              const access = e.target.value as AccessType;
+              updateMeta({ access: access === 'rw' ? undefined : access });
+            }}
+            className={selectClass}
+          >
+            {ACCESS_TYPES.map((a) => (
+              <option key={a} value={a}>{ACCESS_LABELS[a]}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="grid grid-cols-4 gap-3 mb-2">
+        <label className={`${groups.length > 0 ? 'col-span-1' : 'col-span-2'} flex flex-col gap-1`}>
+          <span className="text-xs text-gray-500 dark:text-gray-400">Description</span>
+          <input
+            type="text"
+            value={draft.description ?? ''}
+            onChange={(e) => updateMeta({ description: e.target.value || undefined })}
+            className={inputClassSans}
+          />
+        </label>
+        {groups.length > 0 && (
+          <label className="flex flex-col gap-1">
+            <span className="text-xs text-gray-500 dark:text-gray-400">Group</span>
+            <select
+              value={draft.groupId ?? ''}
+              onChange={(e) => updateMeta({ groupId: e.target.value || undefined })}
+              className={selectClass}
+            >
+              <option value="">None</option>
+              {groups.map((g) => (
+                <option key={g.id} value={g.id}>{g.name} ({formatOffset(g.baseAddress)})</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Reset value</span>
+          <input
+            type="text"
+            value={resetText}
+            placeholder="0x0"
+            onChange={(e) => setResetText(e.target.value)}
+            onBlur={() => {
+              const raw = resetText.trim();
+              if (raw === '' || raw === '0x' || raw === '0X') {
+                updateMeta({ resetValue: undefined });
+                setResetText('');
+                return;
+              }
+              const parsed = sanitizeResetValue(raw);
+              if (parsed !== undefined) {
+                const value = clampToWidth(parsed, draft.width);
+                updateMeta({ resetValue: value });
+                setResetText(formatResetValue(value));
+              } else {
+                setResetText(formatResetValue(draft.resetValue));
+              }
+            }}
+            className={inputClass}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Byte order</span>
+          <select
+            value={draft.byteOrder ?? ''}
+            onChange={(e) => updateMeta({ byteOrder: (e.target.value || undefined) as ByteOrder | undefined })}
+            className={selectClass}
+          >
+            <option value="">Project default ({BYTE_ORDER_LABELS[byteOrder]})</option>
+            <option value="little">{BYTE_ORDER_LABELS.little}</option>
+            <option value="big">{BYTE_ORDER_LABELS.big}</option>
+          </select>
+        </label>
+      </div>
+      <div className="grid grid-cols-4 gap-3 mb-4">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Array instances</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={countText}
+            onChange={(e) => setCountText(e.target.value)}
+            onBlur={() => {
+              const count = parseInt(countText, 10);
+              if (Number.isInteger(count) && count >= 1 && count <= MAX_DIM_COUNT) {
+                commitDim(count, draft.dim?.stride ?? defaultStride);
+              } else {
+                setCountText(String(draft.dim?.count ?? 1));
+              }
+            }}
+            className={inputClass}
+            title={`1 for a single register, up to ${MAX_DIM_COUNT}`}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs text-gray-500 dark:text-gray-400">Stride (address units)</span>
+          <input
+            type="text"
+            value={strideText}
+            placeholder={String(defaultStride)}
+            disabled={!draft.dim}
+            onChange={(e) => setStrideText(e.target.value)}
+            onBlur={() => {
+              if (!draft.dim) return;
+              const raw = strideText.trim();
+              const stride = parseInt(raw, raw.startsWith('0x') || raw.startsWith('0X') ? 16 : 10);
+              if (Number.isInteger(stride) && stride >= 1) {
+                commitDim(draft.dim.count, stride);
+              } else {
+                setStrideText(String(draft.dim.stride));
+              }
+            }}
+            className={`${inputClass} disabled:opacity-50`}
+          />
+        </label>
+        <p className="col-span-2 self-end pb-1.5 text-xs text-gray-500 dark:text-gray-400 truncate">
+          {draft.dim
+            ? <>Instances <span className="font-mono">{instanceName(draft.name, 0)}</span> … <span className="font-mono">{instanceName(draft.name, draft.dim.count - 1)}</span>; use <span className="font-mono">%s</span> in the name for the index</>
+            : 'Set more than one instance to repeat this register at a fixed stride'}
+        </p>
       </div>
-      <label className="flex flex-col gap-1 mb-4">
-        <span className="text-xs text-gray-500 dark:text-gray-400">Description</span>
-        <input
-          type="text"
-          value={draft.description ?? ''}
-          onChange={(e) => updateMeta({ description: e.target.value || undefined })}
-          className={inputClassSans}
-        />
-      </label>
 
       {/* Tab switch */}
       <div className="flex gap-1 mb-3 border-b border-gray-300 dark:border-gray-700">
@@ -260,72 +528,7 @@ export function RegisterEditor({
             </div>
           )}
           {/* Field list */}
-          <div className="space-y-2 mb-3">
-            {[...draft.fields].sort((a, b) => b.msb - a.msb).map((field) => (
-              <div key={field.id}>
-                {editingFieldId === field.id ? (
-                  <FieldDefinitionForm
-                    field={field}
-                    regWidth={draft.width}
-                    onUpdate={updateField}
-                    onDelete={() => deleteField(field.id)}
-                    onDone={() => setEditingFieldId(null)}
-                  />
-                ) : confirmingDeleteFieldId === field.id ? (
-                  <div className="flex items-center justify-between px-3 py-2 rounded border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/20">
-                    <span className="text-sm text-red-700 dark:text-red-300">Delete {field.name}?</span>
-                    <div className="flex gap-1 shrink-0 ml-2">
-                      <button
-                        onClick={() => { deleteField(field.id); setConfirmingDeleteFieldId(null); }}
-                        className="px-2 py-0.5 rounded text-xs font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
-                      >
-                        Yes
-                      </button>
-                      <button
-                        onClick={() => setConfirmingDeleteFieldId(null)}
-                        className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
-                      >
-                        No
-                      </button>
-                    </div>
-                  </div>
-                ) : (
-                  <div
-                    onClick={() => setEditingFieldId(field.id)}
-                    className={`flex items-center justify-between px-3 py-2 rounded border hover:bg-gray-50 dark:hover:bg-gray-800/50 cursor-pointer ${
-                      warningsByFieldId.has(field.id)
-                        ? 'border-amber-300 dark:border-amber-700 bg-amber-50/50 dark:bg-amber-900/10'
-                        : 'border-gray-200 dark:border-gray-700'
-                    }`}
-                  >
-                    <div className="flex items-center gap-3 min-w-0">
-                      <span className="font-medium text-sm">{field.name}</span>
-                      <span className="text-xs text-gray-500 dark:text-gray-400 font-mono">
-                        [{field.msb === field.lsb ? field.msb : `${field.msb}:${field.lsb}`}]
-                      </span>
-                      <span className="text-xs px-1.5 py-0.5 rounded bg-gray-200 dark:bg-gray-700 text-gray-600 dark:text-gray-300">
-                        {field.type}
-                      </span>
-                      {warningsByFieldId.has(field.id) && (() => {
-                        const msgs = warningsByFieldId.get(field.id)!;
-                        return (
-                          <span className="text-xs text-amber-600 dark:text-amber-400 truncate" title={msgs.join('; ')}>
-                            ⚠ {msgs[0]}{msgs.length > 1 ? ` (+${msgs.length - 1} more)` : ''}
-                          </span>
-                        );
-                      })()}
-                    </div>
-                    <button
-                      onClick={(e) => { e.stopPropagation(); setConfirmingDeleteFieldId(field.id); }}
-                      className="text-gray-400 hover:text-red-500 dark:hover:text-red-400"
-                    >
-                      &times;
-                    </button>
-                  </div>
-                )}
-              </div>
-            ))}
-          </div>
+          {renderFieldList(draft.fields, updateField, deleteField)}
           <button
             onClick={addField}
             className="px-3 py-1.5 rounded-md text-sm font-medium
@@ -336,6 +539,100 @@ export function RegisterEditor({
           >
             + Add Field
           </button>
+
+          {/* Variant layouts */}
+          <div className="mt-6">
+            <div className="flex items-center justify-between gap-3 mb-2">
+              <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider">Variants</h3>
+              <label className="flex items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                Selector field
+                <select
+                  value={draft.variantSelectorId ?? ''}
+                  onChange={(e) => updateMeta({ variantSelectorId: e.target.value || undefined })}
+                  className={selectClass}
+                >
+                  <option value="">None</option>
+                  {draft.fields.map((f) => (
+                    <option key={f.id} value={f.id}>{f.name} {formatBitRange(f, bitNumbering, draft.width)}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Alternative field sets for bits whose meaning depends on a mode field. The variant whose selector values
+              include the selector field&apos;s value is shown alongside the fields above.
+            </p>
+            <div className="space-y-3 mb-3">
+              {draft.variants?.map((variant) => (
+                <div key={variant.id} className="rounded-md border border-gray-200 dark:border-gray-700 p-3">
+                  <div className="flex items-end gap-3 mb-3">
+                    <label className="flex flex-col gap-1 flex-1">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Name</span>
+                      <input
+                        type="text"
+                        value={variant.name}
+                        onChange={(e) => updateVariant(variant.id, (v) => ({ ...v, name: e.target.value }))}
+                        className={inputClassSans}
+                      />
+                    </label>
+                    <label className="flex flex-col gap-1 flex-1">
+                      <span className="text-xs text-gray-500 dark:text-gray-400">Selector values</span>
+                      <input
+                        key={variant.selectorValues.join(',')}
+                        type="text"
+                        defaultValue={variant.selectorValues.join(', ')}
+                        placeholder="e.g. 0, 2"
+                        onBlur={(e) => {
+                          const selectorValues = parseSelectorValues(e.target.value);
+                          updateVariant(variant.id, (v) => ({ ...v, selectorValues }));
+                          e.target.value = selectorValues.join(', ');
+                        }}
+                        className={inputClass}
+                      />
+                    </label>
+                    <button
+                      onClick={() => deleteVariant(variant.id)}
+                      className="px-2 py-1 text-sm text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+                      title="Delete variant"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                  {renderFieldList(
+                    variant.fields,
+                    (updated) => updateVariant(variant.id, (v) => ({ ...v, fields: v.fields.map((f) => (f.id === updated.id ? updated : f)) })),
+                    (fieldId) => {
+                      updateVariant(variant.id, (v) => ({ ...v, fields: v.fields.filter((f) => f.id !== fieldId) }));
+                      if (editingFieldId === fieldId) setEditingFieldId(null);
+                    },
+                  )}
+                  <button
+                    onClick={() => addVariantField(variant)}
+                    className="px-3 py-1 rounded-md text-xs font-medium
+                      border border-dashed border-gray-400 dark:border-gray-600
+                      text-gray-600 dark:text-gray-400
+                      hover:border-blue-500 hover:text-blue-500 dark:hover:border-blue-400 dark:hover:text-blue-400
+                      transition-colors"
+                  >
+                    + Add Field
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={addVariant}
+              disabled={!draft.variantSelectorId}
+              title={draft.variantSelectorId ? undefined : 'Choose a selector field first'}
+              className="px-3 py-1.5 rounded-md text-sm font-medium
+                border border-dashed border-gray-400 dark:border-gray-600
+                text-gray-600 dark:text-gray-400
+                hover:border-blue-500 hover:text-blue-500 dark:hover:border-blue-400 dark:hover:text-blue-400
+                disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:border-gray-400 disabled:hover:text-gray-600
+                transition-colors"
+            >
+              + Add Variant
+            </button>
+          </div>
         </div>
       ) : (
         <JsonConfigEditor register={draft} onUpdate={onDraftChange} />
@@ -1,7 +1,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { SIDEBAR_WIDTH_MIN, SIDEBAR_WIDTH_MAX, type AppState } from '../../types/register';
 import { useAppState, useAppDispatch } from '../../context/app-context';
-import { EditProvider } from '../../context/edit-context';
+import { EditProvider, useEditContext } from '../../context/edit-context';
 import { saveToLocalStorage } from '../../utils/storage';
 import { Header } from './header';
 import { Sidebar } from './sidebar';
@@ -9,6 +9,41 @@ import { MainPanel } from '../viewer/main-panel';
 
 const SAVE_DEBOUNCE_MS = 300;
 
+/** True when the key event belongs to a text control, which has its own undo. */
+function isTextInput(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+}
+
+/**
+ * Keyboard shortcuts: Ctrl+Z undoes, Ctrl+Shift+Z or Ctrl+Y redoes (Cmd on
+ * macOS). Off while editing a register definition, whose drafts are not in
+ * the history.
+ */
+function UndoShortcuts() {
+  const dispatch = useAppDispatch();
+  const { isEditing } = useEditContext();
+
+  useEffect(() => {
+    if (isEditing) return;
+    const handler = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        dispatch({ type: 'UNDO' });
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        dispatch({ type: 'REDO' });
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [dispatch, isEditing]);
+
+  return null;
+}
+
 export function AppShell() {
   const state = useAppState();
   const dispatch = useAppDispatch();
@@ -91,6 +126,7 @@ export function AppShell() {
 
   return (
     <EditProvider>
+      <UndoShortcuts />
       <div className="h-screen flex flex-col bg-white dark:bg-gray-950 text-gray-900 dark:text-gray-100">
         <Header />
         <div className="flex flex-1 overflow-hidden relative">
@@ -5,12 +5,19 @@ import { ConfirmClearDialog } from '../common/confirm-clear-dialog';
 import { ExamplesDialog } from '../common/examples-dialog';
 import { ProjectSettingsDialog } from '../common/project-settings-dialog';
 import { ImportResultDialog } from '../common/import-result-dialog';
+import { CHeaderDialog } from '../common/c-header-dialog';
+import { RustModuleDialog } from '../common/rust-module-dialog';
+import { LogValuesDialog } from '../common/log-values-dialog';
+import { BulkDecodeDialog } from '../common/bulk-decode-dialog';
 import { Toast } from '../common/toast';
 import { GitHubIcon } from '../common/github-icon';
 import { GITHUB_URL } from '../../constants';
 import { useAppState, useAppDispatch } from '../../context/app-context';
 import { useEditContext } from '../../context/edit-context';
-import { exportToJson, importFromJson, type ImportWarning } from '../../utils/storage';
+import { exportToJson, importFromJson, type ImportResult, type ImportWarning } from '../../utils/storage';
+import { exportToSvd, importFromSvd } from '../../utils/svd';
+import { exportToSystemRdl, importFromSystemRdl } from '../../utils/systemrdl';
+import { exportToIpxact, importFromIpxact } from '../../utils/ipxact';
 
 function MenuIcon() {
   return (
@@ -22,6 +29,29 @@ function MenuIcon() {
   );
 }
 
+/** Trigger a browser download of `content` as a file. */
+function downloadFile(content: string, fileName: string, mimeType: string) {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/** Pick an importer from the file name, falling back to sniffing the content. */
+function importProjectFile(text: string, fileName?: string): ImportResult | null {
+  const lower = fileName?.toLowerCase() ?? '';
+  if (lower.endsWith('.rdl')) return importFromSystemRdl(text);
+  if (lower.endsWith('.svd')) return importFromSvd(text);
+  if (!lower.endsWith('.json') && text.trimStart().startsWith('<')) {
+    // Generic .xml files may hold either format; each importer rejects the other's root element
+    return importFromIpxact(text) ?? importFromSvd(text);
+  }
+  return importFromJson(text);
+}
+
 type ImportFeedback =
   | { kind: 'success'; message: string }
   | { kind: 'warning'; importedCount: number; skippedCount: number; warnings: ImportWarning[] }
@@ -36,12 +66,21 @@ export function Header() {
   const [clearDialogOpen, setClearDialogOpen] = useState(false);
   const [aboutOpen, setAboutOpen] = useState(false);
   const [projectSettingsOpen, setProjectSettingsOpen] = useState(false);
+  const [cHeaderOpen, setCHeaderOpen] = useState(false);
+  const [rustModuleOpen, setRustModuleOpen] = useState(false);
+  const [logValuesOpen, setLogValuesOpen] = useState(false);
+  const [bulkDecodeOpen, setBulkDecodeOpen] = useState(false);
   const [importFeedback, setImportFeedback] = useState<ImportFeedback | null>(null);
 
-  function applyImportedData(json: string, showSuccessToast = true) {
-    const result = importFromJson(json);
+  function applyImportedData(text: string, showSuccessToast = true, fileName?: string) {
+    const result = importProjectFile(text, fileName);
     if (!result) {
-      setImportFeedback({ kind: 'error', message: 'Failed to import: invalid JSON or missing registers array.' });
+      setImportFeedback({
+        kind: 'error',
+        message: fileName?.toLowerCase().endsWith('.json') === false
+          ? 'Failed to import: not a valid JSON, SVD, IP-XACT or SystemRDL register file.'
+          : 'Failed to import: invalid JSON or missing registers array.',
+      });
       return;
     }
 
@@ -49,7 +88,7 @@ export function Header() {
       setImportFeedback({
         kind: 'warning',
         importedCount: result.registers.length,
-        skippedCount: result.warnings.length,
+        skippedCount: result.warnings.filter((w) => !w.imported).length,
         warnings: result.warnings,
       });
     } else if (showSuccessToast && result.registers.length > 0) {
@@ -63,7 +102,7 @@ export function Header() {
 
     if (result.registers.length > 0) {
       exitEditMode();
-      dispatch({ type: 'IMPORT_STATE', registers: result.registers, values: result.values, project: result.project, addressUnitBits: result.addressUnitBits });
+      dispatch({ type: 'IMPORT_STATE', registers: result.registers, values: result.values, project: result.project, addressUnitBits: result.addressUnitBits, byteOrder: result.byteOrder, bitNumbering: result.bitNumbering, groups: result.groups, snapshots: result.snapshots });
     }
   }
 
@@ -71,19 +110,41 @@ export function Header() {
     applyImportedData(json, false);
   }
 
-  function handleExport() {
-    const json = exportToJson(state);
-    const blob = new Blob([json], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
+  function exportFileName(extension: string) {
     const slug = state.project?.title
       ?.toLowerCase()
       .replace(/[^a-z0-9]+/g, '-')
       .replace(/^-|-$/g, '');
-    a.download = slug ? `${slug}.json` : 'register-definitions.json';
-    a.click();
-    URL.revokeObjectURL(url);
+    return slug ? `${slug}.${extension}` : `register-definitions.${extension}`;
+  }
+
+  function handleExport() {
+    downloadFile(exportToJson(state), exportFileName('json'), 'application/json');
+  }
+
+  function handleExportSvd() {
+    downloadFile(exportToSvd(state), exportFileName('svd'), 'application/xml');
+  }
+
+  function handleExportSystemRdl() {
+    downloadFile(exportToSystemRdl(state), exportFileName('rdl'), 'text/plain');
+  }
+
+  function handleExportIpxact() {
+    downloadFile(exportToIpxact(state), exportFileName('xml'), 'application/xml');
+  }
+
+  function handleDownloadCHeader(code: string) {
+    downloadFile(code, exportFileName('h'), 'text/x-c');
+  }
+
+  function handleDownloadRustModule(code: string) {
+    downloadFile(code, exportFileName('rs').replace(/-/g, '_'), 'text/rust');
+  }
+
+  function handleDownloadBulkDecode(csv: string, registerName: string) {
+    const slug = registerName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    downloadFile(csv, `${slug || 'register'}-decoded.csv`, 'text/csv');
   }
 
   function handleImport() {
@@ -95,7 +156,7 @@ export function Header() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = () => {
-      applyImportedData(reader.result as string);
+      applyImportedData(reader.result as string, true, file.name);
     };
     reader.readAsText(file);
     // Reset so the same file can be imported again
@@ -110,8 +171,16 @@ export function Header() {
     { kind: 'action', label: 'Project settings', onAction: () => setProjectSettingsOpen(true) },
     { kind: 'separator' },
     { kind: 'action', label: 'Import', onAction: handleImport },
+    { kind: 'action', label: 'Import values from log', onAction: () => setLogValuesOpen(true) },
+    { kind: 'action', label: 'Bulk decode values', onAction: () => setBulkDecodeOpen(true) },
     { kind: 'action', label: 'Export', onAction: handleExport },
+    { kind: 'action', label: 'Export as SVD', onAction: handleExportSvd },
+    { kind: 'action', label: 'Export as IP-XACT', onAction: handleExportIpxact },
+    { kind: 'action', label: 'Export as SystemRDL', onAction: handleExportSystemRdl },
+    { kind: 'action', label: 'Generate C header', onAction: () => setCHeaderOpen(true) },
+    { kind: 'action', label: 'Generate Rust module', onAction: () => setRustModuleOpen(true) },
     { kind: 'action', label: 'Examples', onAction: () => setExamplesOpen(true) },
+    { kind: 'action', label: 'Reset all registers', onAction: () => dispatch({ type: 'RESET_ALL_REGISTERS' }) },
     { kind: 'action', label: 'Clear workspace', onAction: () => setClearDialogOpen(true) },
     { kind: 'separator' },
     {
@@ -145,7 +214,7 @@ export function Header() {
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json"
+            accept=".json,.svd,.xml,.rdl"
             onChange={handleFileChange}
             className="hidden"
           />
@@ -153,6 +222,25 @@ export function Header() {
             open={projectSettingsOpen}
             onClose={() => setProjectSettingsOpen(false)}
           />
+          <CHeaderDialog
+            open={cHeaderOpen}
+            onClose={() => setCHeaderOpen(false)}
+            onDownload={handleDownloadCHeader}
+          />
+          <RustModuleDialog
+            open={rustModuleOpen}
+            onClose={() => setRustModuleOpen(false)}
+            onDownload={handleDownloadRustModule}
+          />
+          <LogValuesDialog
+            open={logValuesOpen}
+            onClose={() => setLogValuesOpen(false)}
+          />
+          <BulkDecodeDialog
+            open={bulkDecodeOpen}
+            onClose={() => setBulkDecodeOpen(false)}
+            onDownload={handleDownloadBulkDecode}
+          />
           <ExamplesDialog
             open={examplesOpen}
             onClose={() => setExamplesOpen(false)}
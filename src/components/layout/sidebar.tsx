@@ -1,4 +1,5 @@
 import { RegisterList } from '../register-list/register-list';
+import { SnapshotPanel } from '../snapshots/snapshot-panel';
 
 interface Props {
   width: number;
@@ -30,6 +31,7 @@ export function Sidebar({ width, collapsed, onToggleCollapse }: Props) {
         </button>
       </div>
       <RegisterList />
+      <SnapshotPanel />
     </aside>
   );
 }
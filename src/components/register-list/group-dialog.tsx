@@ -0,0 +1,120 @@
+import { useState } from 'react';
+import type { RegisterGroup } from '../../types/register';
+import { useAppState, useAppDispatch } from '../../context/app-context';
+import { formatOffset } from '../../utils/format';
+import { Dialog } from '../common/dialog';
+
+interface GroupDialogProps {
+  open: boolean;
+  /** The group to edit, or null to create one. */
+  group: RegisterGroup | null;
+  onClose: () => void;
+}
+
+const inputClass =
+  'w-full px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+export function GroupDialog({ open, group, onClose }: GroupDialogProps) {
+  const { groups } = useAppState();
+  const dispatch = useAppDispatch();
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [baseText, setBaseText] = useState('');
+  const [wasOpen, setWasOpen] = useState(false);
+
+  if (open && !wasOpen) {
+    setName(group?.name ?? `GROUP_${groups.length}`);
+    setDescription(group?.description ?? '');
+    setBaseText(formatOffset(group?.baseAddress ?? 0));
+    setWasOpen(true);
+  } else if (!open && wasOpen) {
+    setWasOpen(false);
+  }
+
+  const trimmedName = name.trim();
+  const base = baseText.trim();
+  const baseAddress = parseInt(base, base.startsWith('0x') || base.startsWith('0X') ? 16 : 10);
+  const nameError = !trimmedName
+    ? 'Name is required'
+    : groups.some((g) => g.name === trimmedName && g.id !== group?.id) ? `A group named "${trimmedName}" already exists` : null;
+  const baseError = !Number.isSafeInteger(baseAddress) || baseAddress < 0 ? 'Base address must be a non-negative integer' : null;
+
+  function handleSave() {
+    if (nameError || baseError) return;
+    const saved: RegisterGroup = {
+      id: group?.id ?? crypto.randomUUID(),
+      name: trimmedName,
+      baseAddress,
+      ...(description.trim() && { description: description.trim() }),
+    };
+    dispatch(group ? { type: 'UPDATE_GROUP', group: saved } : { type: 'ADD_GROUP', group: saved });
+    onClose();
+  }
+
+  return (
+    <Dialog open={open} onClose={onClose} title={group ? 'Edit Group' : 'Add Group'}>
+      <div className="space-y-3">
+        <label className="block">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Name
+          </span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. UART0"
+            className={inputClass}
+            aria-invalid={nameError !== null}
+          />
+          {nameError && <p className="text-xs text-red-500 mt-1">{nameError}</p>}
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Base address
+          </span>
+          <input
+            type="text"
+            value={baseText}
+            onChange={(e) => setBaseText(e.target.value)}
+            placeholder="e.g. 0x40000000"
+            className={inputClass + ' font-mono'}
+            aria-invalid={baseError !== null}
+          />
+          {baseError
+            ? <p className="text-xs text-red-500 mt-1">{baseError}</p>
+            : <p className="text-xs text-gray-400 dark:text-gray-500 mt-1">Register offsets in this group are relative to it.</p>}
+        </label>
+
+        <label className="block">
+          <span className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">
+            Description
+          </span>
+          <textarea
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            rows={2}
+            className={inputClass + ' resize-y'}
+          />
+        </label>
+      </div>
+
+      <div className="flex justify-end gap-2 mt-4">
+        <button
+          onClick={onClose}
+          className="px-3 py-1.5 text-sm rounded border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={handleSave}
+          disabled={nameError !== null || baseError !== null}
+          className="px-3 py-1.5 text-sm rounded bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          Save
+        </button>
+      </div>
+    </Dialog>
+  );
+}
@@ -0,0 +1,80 @@
+import { useState } from 'react';
+import type { RegisterGroup } from '../../types/register';
+import { formatOffset } from '../../utils/format';
+
+interface Props {
+  group: RegisterGroup;
+  registerCount: number;
+  collapsed: boolean;
+  onToggle: () => void;
+  onAddRegister: () => void;
+  onEdit: () => void;
+  onDelete: () => void;
+}
+
+export function GroupHeader({ group, registerCount, collapsed, onToggle, onAddRegister, onEdit, onDelete }: Props) {
+  const [confirming, setConfirming] = useState(false);
+
+  if (confirming) {
+    return (
+      <div className="flex items-center justify-between px-2 py-1.5 rounded-md text-sm bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+        <span className="text-red-700 dark:text-red-300 truncate" title="Its registers are kept, outside any group">
+          Delete group?
+        </span>
+        <div className="flex gap-1 shrink-0 ml-2">
+          <button
+            onClick={() => { onDelete(); setConfirming(false); }}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+          >
+            Yes
+          </button>
+          <button
+            onClick={() => setConfirming(false)}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            No
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-1 px-1 py-1 rounded-md text-xs text-gray-600 dark:text-gray-400 hover:bg-gray-200/60 dark:hover:bg-gray-800/60">
+      <button
+        onClick={onToggle}
+        aria-expanded={!collapsed}
+        className="flex-1 min-w-0 flex items-center gap-1.5 text-left"
+        title={group.description}
+      >
+        <span className={`inline-block w-3 shrink-0 transition-transform ${collapsed ? '' : 'rotate-90'}`}>{'\u25B8'}</span>
+        <span className="truncate font-semibold">{group.name}</span>
+        <span className="font-mono text-gray-500 shrink-0">{formatOffset(group.baseAddress)}</span>
+        <span className="text-gray-400 dark:text-gray-500 shrink-0">({registerCount})</span>
+      </button>
+      <div className="flex gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+        <button
+          onClick={onAddRegister}
+          className="px-1 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+          title={`Add register to ${group.name}`}
+        >
+          +
+        </button>
+        <button
+          onClick={onEdit}
+          className="px-1 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+          title="Edit group"
+        >
+          {'\u270E'}
+        </button>
+        <button
+          onClick={() => setConfirming(true)}
+          className="px-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+          title="Delete group"
+        >
+          {'\u00D7'}
+        </button>
+      </div>
+    </div>
+  );
+}
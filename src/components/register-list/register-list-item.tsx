@@ -142,6 +142,7 @@ export function RegisterListItem({ register, isActive, hasPendingEdit, hasOverla
             )}
           </div>
           <span className="text-xs font-mono text-gray-500 dark:text-gray-500 shrink-0">
+            {register.dim && <span title={`Array of ${register.dim.count}`}>[{register.dim.count}] </span>}
             {register.width}b
           </span>
         </div>
@@ -1,4 +1,4 @@
-import { useMemo, useState } from 'react';
+import { Fragment, useMemo, useState } from 'react';
 import {
   DndContext,
   DragOverlay,
@@ -19,27 +19,44 @@ import { useAppState, useAppDispatch } from '../../context/app-context';
 import { useEditContext } from '../../context/edit-context';
 import { RegisterListItem } from './register-list-item';
 import { RegisterListItemOverlay } from './register-list-item-overlay';
+import { GroupHeader } from './group-header';
+import { GroupDialog } from './group-dialog';
+import type { RegisterDef, RegisterGroup } from '../../types/register';
 import { getRegisterOverlapWarnings } from '../../utils/validation';
-import { offsetHexDigits } from '../../utils/format';
+import { formatOffset, offsetHexDigits } from '../../utils/format';
+import { baseRegisterId, expandRegister } from '../../utils/register-array';
+import { flattenGroups, groupSections } from '../../utils/register-groups';
 
 export function RegisterList() {
-  const { registers, activeRegisterId, addressUnitBits } = useAppState();
+  const { registers, groups, activeRegisterId, addressUnitBits } = useAppState();
   const dispatch = useAppDispatch();
   const { isEditing, enterEditMode, dirtyDraftIds } = useEditContext();
   const [activeId, setActiveId] = useState<string | null>(null);
+  const [collapsedGroupIds, setCollapsedGroupIds] = useState<ReadonlySet<string>>(new Set());
+  // Group being edited in the dialog; null to add one, undefined when closed
+  const [dialogGroup, setDialogGroup] = useState<RegisterGroup | null | undefined>(undefined);
 
   const overlapWarnings = useMemo(
-    () => getRegisterOverlapWarnings(registers, addressUnitBits),
-    [registers, addressUnitBits],
+    () => getRegisterOverlapWarnings(flattenGroups(registers, groups), addressUnitBits),
+    [registers, groups, addressUnitBits],
   );
 
+  const sections = useMemo(() => groupSections(registers, groups), [registers, groups]);
+  const visibleRegisterIds = useMemo(
+    () => sections.flatMap((s) => (s.group && collapsedGroupIds.has(s.group.id) ? [] : s.registers.map((r) => r.id))),
+    [sections, collapsedGroupIds],
+  );
+
+  // Instance ids for array instances, plus their array's id so the array entry is flagged too
   const overlapRegisterIds = useMemo(
-    () => new Set(overlapWarnings.flatMap((w) => w.registerIds)),
+    () => new Set(overlapWarnings.flatMap((w) => [...w.registerIds, ...w.registerIds.map(baseRegisterId)])),
     [overlapWarnings],
   );
 
+  const activeBaseId = activeRegisterId !== null ? baseRegisterId(activeRegisterId) : null;
+
   const offsetDigits = useMemo(() => {
-    const maxOffset = registers.reduce(
+    const maxOffset = registers.flatMap(expandRegister).reduce(
       (max, r) => (r.offset != null ? Math.max(max, r.offset) : max), 0,
     );
     return offsetHexDigits(maxOffset);
@@ -66,15 +83,31 @@ export function RegisterList() {
     const oldIndex = registers.findIndex((r) => r.id === active.id);
     const newIndex = registers.findIndex((r) => r.id === over.id);
     if (oldIndex !== -1 && newIndex !== -1) {
-      dispatch({ type: 'REORDER_REGISTERS', oldIndex, newIndex });
+      const fromGroup = sections.find((s) => s.registers.includes(registers[oldIndex]))?.group ?? null;
+      const toGroup = sections.find((s) => s.registers.includes(registers[newIndex]))?.group ?? null;
+      dispatch({
+        type: 'REORDER_REGISTERS',
+        oldIndex,
+        newIndex,
+        ...(fromGroup !== toGroup && { groupId: toGroup?.id ?? null }),
+      });
     }
   }
 
+  function toggleGroup(groupId: string) {
+    setCollapsedGroupIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) next.delete(groupId);
+      else next.add(groupId);
+      return next;
+    });
+  }
+
   function handleDragCancel() {
     setActiveId(null);
   }
 
-  function handleAdd() {
+  function handleAdd(groupId?: string) {
     const id = crypto.randomUUID();
     dispatch({
       type: 'ADD_REGISTER',
@@ -82,9 +115,51 @@ export function RegisterList() {
         id,
         name: `REG_${registers.length}`,
         width: 32,
+        ...(groupId !== undefined && { groupId }),
         fields: [],
       },
     });
+    if (groupId !== undefined && collapsedGroupIds.has(groupId)) toggleGroup(groupId);
+  }
+
+  function renderRegister(reg: RegisterDef) {
+    return (
+      <Fragment key={reg.id}>
+        <RegisterListItem
+          register={reg}
+          isActive={reg.id === activeBaseId}
+          hasPendingEdit={dirtyDraftIds.has(reg.id)}
+          hasOverlapWarning={overlapRegisterIds.has(reg.id)}
+          offsetDigits={offsetDigits}
+          onSelect={() => {
+            // Keep the selected instance when re-selecting its array
+            if (reg.id !== activeBaseId) dispatch({ type: 'SET_ACTIVE_REGISTER', registerId: expandRegister(reg)[0].id });
+            if (isEditing) enterEditMode(reg);
+          }}
+          onDelete={() => dispatch({ type: 'DELETE_REGISTER', registerId: reg.id })}
+        />
+        {reg.dim && reg.id === activeBaseId && !isEditing && expandRegister(reg).map((inst) => (
+          <li key={inst.id}>
+            <button
+              onClick={() => dispatch({ type: 'SET_ACTIVE_REGISTER', registerId: inst.id })}
+              aria-current={inst.id === activeRegisterId || undefined}
+              className={`flex items-center justify-between gap-2 ml-4 pl-3 pr-2 py-1 rounded-md text-xs text-left border-l-2 transition-colors ${
+                inst.id === activeRegisterId
+                  ? 'border-blue-500 bg-blue-50 dark:bg-blue-900/30 text-blue-800 dark:text-blue-200'
+                  : 'border-gray-300 dark:border-gray-700 text-gray-600 dark:text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-800'
+              }`}
+              style={{ width: 'calc(100% - 1rem)' }}
+            >
+              <span className="truncate">{inst.name}</span>
+              <span className="flex items-center gap-1.5 shrink-0 font-mono text-gray-500">
+                {overlapRegisterIds.has(inst.id) && <span className="text-amber-500" title="Overlap warning">{'\u26A0'}</span>}
+                {inst.offset != null && formatOffset(inst.offset, offsetDigits)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </Fragment>
+    );
   }
 
   const activeRegister = activeId ? registers.find((r) => r.id === activeId) : null;
@@ -105,30 +180,39 @@ export function RegisterList() {
             ))}
           </div>
         )}
-        <SortableContext items={registers.map((r) => r.id)} strategy={verticalListSortingStrategy}>
+        <SortableContext items={visibleRegisterIds} strategy={verticalListSortingStrategy}>
           <ul className="p-2 space-y-1">
-            {registers.map((reg) => (
-              <RegisterListItem
-                key={reg.id}
-                register={reg}
-                isActive={reg.id === activeRegisterId}
-                hasPendingEdit={dirtyDraftIds.has(reg.id)}
-                hasOverlapWarning={overlapRegisterIds.has(reg.id)}
-                offsetDigits={offsetDigits}
-                onSelect={() => {
-                  dispatch({ type: 'SET_ACTIVE_REGISTER', registerId: reg.id });
-                  if (isEditing) enterEditMode(reg);
-                }}
-                onDelete={() => dispatch({ type: 'DELETE_REGISTER', registerId: reg.id })}
-              />
-            ))}
+            {sections.map(({ group, registers: sectionRegisters }) => {
+              if (!group) return sectionRegisters.map(renderRegister);
+              const collapsed = collapsedGroupIds.has(group.id);
+              return (
+                <li key={group.id}>
+                  <GroupHeader
+                    group={group}
+                    registerCount={sectionRegisters.length}
+                    collapsed={collapsed}
+                    onToggle={() => toggleGroup(group.id)}
+                    onAddRegister={() => handleAdd(group.id)}
+                    onEdit={() => setDialogGroup(group)}
+                    onDelete={() => dispatch({ type: 'DELETE_GROUP', groupId: group.id })}
+                  />
+                  {!collapsed && (
+                    <ul className="ml-2 mt-1 pl-1 space-y-1 border-l border-gray-300 dark:border-gray-700">
+                      {sectionRegisters.length > 0
+                        ? sectionRegisters.map(renderRegister)
+                        : <li className="px-3 py-1 text-xs italic text-gray-400 dark:text-gray-500">No registers</li>}
+                    </ul>
+                  )}
+                </li>
+              );
+            })}
           </ul>
         </SortableContext>
         <DragOverlay>
           {activeRegister ? (
             <RegisterListItemOverlay
               register={activeRegister}
-              isActive={activeRegister.id === activeRegisterId}
+              isActive={activeRegister.id === activeBaseId}
               hasPendingEdit={dirtyDraftIds.has(activeRegister.id)}
               offsetDigits={offsetDigits}
             />
@@ -137,7 +221,7 @@ export function RegisterList() {
       </DndContext>
       <div className="p-2 space-y-1">
         <button
-          onClick={handleAdd}
+          onClick={() => handleAdd()}
           className="w-full px-3 py-1.5 rounded-md text-sm font-medium
             border border-dashed border-gray-400 dark:border-gray-600
             text-gray-600 dark:text-gray-400
@@ -146,6 +230,16 @@ export function RegisterList() {
         >
           + Add Register
         </button>
+        <button
+          onClick={() => setDialogGroup(null)}
+          className="w-full px-3 py-1.5 rounded-md text-sm font-medium
+            border border-dashed border-gray-400 dark:border-gray-600
+            text-gray-600 dark:text-gray-400
+            hover:border-blue-500 hover:text-blue-500 dark:hover:border-blue-400 dark:hover:text-blue-400
+            transition-colors"
+        >
+          + Add Group
+        </button>
         <button
           onClick={() => dispatch({ type: 'SORT_REGISTERS_BY_OFFSET' })}
           disabled={!registers.some((r) => r.offset != null)}
@@ -160,6 +254,7 @@ export function RegisterList() {
           Sort by Offset
         </button>
       </div>
+      <GroupDialog open={dialogGroup !== undefined} group={dialogGroup ?? null} onClose={() => setDialogGroup(undefined)} />
     </div>
   );
 }
@@ -0,0 +1,157 @@
+import { useState } from 'react';
+import type { ValueSnapshot } from '../../types/register';
+import { useAppState, useAppDispatch } from '../../context/app-context';
+
+const inputClass =
+  'min-w-0 flex-1 px-1.5 py-0.5 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-xs focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+/** True when the current values match every value the snapshot holds. */
+function isCurrent(snapshot: ValueSnapshot, registerValues: Record<string, bigint>): boolean {
+  const entries = Object.entries(snapshot.values);
+  return entries.length > 0 && entries.every(([id, value]) => (registerValues[id] ?? 0n) === value);
+}
+
+export function SnapshotPanel() {
+  const { snapshots, registerValues } = useAppState();
+  const dispatch = useAppDispatch();
+  const [newName, setNewName] = useState('');
+
+  function handleSave() {
+    const name = newName.trim() || `Snapshot ${snapshots.length + 1}`;
+    dispatch({ type: 'ADD_SNAPSHOT', snapshot: { id: crypto.randomUUID(), name, values: { ...registerValues } } });
+    setNewName('');
+  }
+
+  return (
+    <section className="border-t border-gray-300 dark:border-gray-700 max-h-[40%] flex flex-col">
+      <div className="px-3 pt-2 pb-1">
+        <h2 className="text-sm font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider">
+          Snapshots
+        </h2>
+      </div>
+      <ul className="px-2 overflow-y-auto flex-1 space-y-0.5" aria-label="Value snapshots">
+        {snapshots.map((snapshot) => (
+          <li key={snapshot.id}>
+            <SnapshotItem snapshot={snapshot} current={isCurrent(snapshot, registerValues)} />
+          </li>
+        ))}
+      </ul>
+      <form
+        className="flex gap-1 px-2 py-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          handleSave();
+        }}
+      >
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="e.g. after init"
+          aria-label="Snapshot name"
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          className="px-2 py-0.5 rounded text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors shrink-0"
+          title="Save the current register values as a snapshot"
+        >
+          Save
+        </button>
+      </form>
+    </section>
+  );
+}
+
+function SnapshotItem({ snapshot, current }: { snapshot: ValueSnapshot; current: boolean }) {
+  const { registerValues } = useAppState();
+  const dispatch = useAppDispatch();
+  const [confirming, setConfirming] = useState(false);
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState(snapshot.name);
+
+  if (confirming) {
+    return (
+      <div className="flex items-center justify-between px-2 py-1 rounded-md text-xs bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+        <span className="text-red-700 dark:text-red-300 truncate">Delete snapshot?</span>
+        <div className="flex gap-1 shrink-0 ml-2">
+          <button
+            onClick={() => { dispatch({ type: 'DELETE_SNAPSHOT', snapshotId: snapshot.id }); setConfirming(false); }}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-red-600 text-white hover:bg-red-700 transition-colors"
+          >
+            Yes
+          </button>
+          <button
+            onClick={() => setConfirming(false)}
+            className="px-2 py-0.5 rounded text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            No
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  if (renaming) {
+    return (
+      <form
+        className="flex gap-1 px-1 py-0.5"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) dispatch({ type: 'UPDATE_SNAPSHOT', snapshot: { ...snapshot, name: name.trim() } });
+          setRenaming(false);
+        }}
+      >
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') setRenaming(false);
+          }}
+          autoFocus
+          aria-label="Snapshot name"
+          className={inputClass}
+        />
+        <button type="submit" className="px-1 text-xs text-blue-600 dark:text-blue-400">OK</button>
+      </form>
+    );
+  }
+
+  return (
+    <div className="group flex items-center gap-1 px-1 py-1 rounded-md text-xs text-gray-700 dark:text-gray-300 hover:bg-gray-200/60 dark:hover:bg-gray-800/60">
+      <button
+        onClick={() => dispatch({ type: 'LOAD_SNAPSHOT', snapshotId: snapshot.id })}
+        className="flex-1 min-w-0 flex items-center gap-1.5 text-left"
+        title={`Load ${Object.keys(snapshot.values).length} register values`}
+      >
+        <span className={`inline-block w-2 h-2 rounded-full shrink-0 ${current ? 'bg-blue-500' : 'bg-transparent'}`} aria-hidden />
+        <span className={`truncate ${current ? 'font-semibold' : ''}`}>{snapshot.name}</span>
+        {current && <span className="sr-only">(current values)</span>}
+      </button>
+      <div className="flex gap-0.5 shrink-0 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+        <button
+          onClick={() => dispatch({ type: 'UPDATE_SNAPSHOT', snapshot: { ...snapshot, values: { ...registerValues } } })}
+          className="px-1 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+          title="Overwrite with the current values"
+        >
+          {'↻'}
+        </button>
+        <button
+          onClick={() => { setName(snapshot.name); setRenaming(true); }}
+          className="px-1 text-gray-400 hover:text-blue-500 dark:hover:text-blue-400"
+          title="Rename snapshot"
+        >
+          {'✎'}
+        </button>
+        <button
+          onClick={() => setConfirming(true)}
+          className="px-1 text-gray-400 hover:text-red-500 dark:hover:text-red-400"
+          title="Delete snapshot"
+        >
+          {'×'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,22 @@
+import type { AccessType } from '../../types/register';
+import { ACCESS_LABELS } from '../../utils/access';
+
+const BADGE_COLORS: Record<AccessType, string> = {
+  rw: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+  ro: 'bg-slate-200 text-slate-700 dark:bg-slate-700 dark:text-slate-200',
+  wo: 'bg-purple-100 text-purple-700 dark:bg-purple-900/40 dark:text-purple-300',
+  w1c: 'bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300',
+  w1s: 'bg-teal-100 text-teal-800 dark:bg-teal-900/40 dark:text-teal-300',
+  rc: 'bg-rose-100 text-rose-700 dark:bg-rose-900/40 dark:text-rose-300',
+};
+
+export function AccessBadge({ access, className = '' }: { access: AccessType; className?: string }) {
+  return (
+    <span
+      title={ACCESS_LABELS[access]}
+      className={`inline-block px-1 rounded text-[10px] font-mono font-semibold uppercase align-middle ${BADGE_COLORS[access]} ${className}`}
+    >
+      {access}
+    </span>
+  );
+}
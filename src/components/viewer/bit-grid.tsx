@@ -1,7 +1,8 @@
 import { useMemo, useState } from 'react';
 import { useAppState, useAppDispatch } from '../../context/app-context';
 import type { RegisterDef, Field } from '../../types/register';
-import { getBit } from '../../utils/bitwise';
+import { getBit, toggleBit } from '../../utils/bitwise';
+import { accessMasks } from '../../utils/access';
 import { useContainerWidth } from '../../hooks/use-container-width';
 import {
   computeBitsPerRow,
@@ -13,6 +14,8 @@ import {
   nibblesForRow,
 } from '../../utils/bit-grid-layout';
 import { fieldColor, fieldBorderColor } from '../../utils/field-colors';
+import { fieldSlices } from '../../utils/field-slices';
+import { displayBit } from '../../utils/bit-numbering';
 
 /** Pre-computed colors for a field, keyed by field index. */
 interface FieldColors {
@@ -48,9 +51,11 @@ function buildFieldLookup(fields: Field[]): FieldLookupResult {
     colorsByIndex.push(colors);
     const f = fields[i];
     const entry: FieldMatch = { ...colors, field: f, index: i };
-    for (let bit = f.lsb; bit <= f.msb; bit++) {
-      // First-writer wins, matching the old linear-scan first-match semantic
-      if (!bitMap.has(bit)) bitMap.set(bit, entry);
+    for (const slice of fieldSlices(f)) {
+      for (let bit = slice.lsb; bit <= slice.msb; bit++) {
+        // First-writer wins, matching the old linear-scan first-match semantic
+        if (!bitMap.has(bit)) bitMap.set(bit, entry);
+      }
     }
   }
   return { bitMap, colorsByIndex };
@@ -68,15 +73,54 @@ interface Props {
   hoveredFieldIndices: ReadonlySet<number> | null;
   onFieldHover: (indices: ReadonlySet<number> | null) => void;
   fieldHoverSets: ReadonlySet<number>[];
+  /** When set, the grid shows and toggles this pending write value instead of the register value. */
+  writeValue?: bigint;
+  onWriteValueChange?: (value: bigint) => void;
+  /** When set, bits that differ from this reset value are outlined. */
+  resetValue?: bigint;
+  /** When set, the grid shows this value and its bits cannot be toggled, e.g. one side of a diff. */
+  readOnlyValue?: bigint;
+  /** When set, bits that differ from this value are outlined and titled with `compareLabel`. */
+  compareValue?: bigint;
+  compareLabel?: string;
 }
 
-export function BitGrid({ register, hoveredFieldIndices, onFieldHover, fieldHoverSets }: Props) {
+export function BitGrid({ register, hoveredFieldIndices, onFieldHover, fieldHoverSets, writeValue, onWriteValueChange, resetValue, readOnlyValue, compareValue, compareLabel = 'other' }: Props) {
   const state = useAppState();
   const dispatch = useAppDispatch();
-  const value = state.registerValues[register.id] ?? 0n;
+  const writePreview = writeValue !== undefined;
+  const readOnly = readOnlyValue !== undefined;
+  const value = readOnlyValue ?? writeValue ?? state.registerValues[register.id] ?? 0n;
   const [containerRef, containerWidth] = useContainerWidth<HTMLDivElement>();
   const [hoveredNibbleIndex, setHoveredNibbleIndex] = useState<number | null>(null);
 
+  // Bits software cannot change are locked in both modes
+  const masks = useMemo(() => accessMasks(register), [register]);
+  const lockedMask = masks.ro | masks.rc;
+  // Bits outlined as changed, and what they are compared against
+  const baseline = compareValue ?? resetValue;
+  const baselineLabel = compareValue !== undefined ? compareLabel : 'reset';
+  const diffMask = baseline !== undefined ? value ^ baseline : 0n;
+
+  function handleBitClick(bit: number) {
+    if (readOnly || (lockedMask >> BigInt(bit)) & 1n) return;
+    if (writePreview) {
+      onWriteValueChange?.(toggleBit(value, bit));
+    } else {
+      dispatch({ type: 'TOGGLE_BIT', registerId: register.id, bit });
+    }
+  }
+
+  function bitTitle(bit: number, match: FieldMatch | undefined): string {
+    const bitMask = 1n << BigInt(bit);
+    const notes = [match ? match.field.name : 'reserved'];
+    if (lockedMask & bitMask) notes.push('read-only');
+    else if (writePreview && masks.w1c & bitMask) notes.push('write 1 to clear');
+    else if (writePreview && masks.w1s & bitMask) notes.push('write 1 to set');
+    if (baseline !== undefined && diffMask & bitMask) notes.push(`${baselineLabel} ${getBit(baseline, bit)}`);
+    return `Bit ${displayBit(bit, register.width, state.bitNumbering)} (${notes.join(', ')})`;
+  }
+
   // Layout: depends only on container width and register width
   const rows = useMemo(() => {
     const bitsPerRow = computeBitsPerRow(containerWidth, register.width);
@@ -173,19 +217,26 @@ export function BitGrid({ register, hoveredFieldIndices, onFieldHover, fieldHove
                 const isUnassigned = !match;
                 const isHighlighted = match !== undefined && hoveredFieldIndices !== null && hoveredFieldIndices.has(match.index);
                 const col = bitToGridColumn(bitIdx, row.startBit, row.bits.length);
+                const isLocked = ((lockedMask >> BigInt(bitIdx)) & 1n) === 1n;
+                const differsFromReset = ((diffMask >> BigInt(bitIdx)) & 1n) === 1n;
+                const clickable = !isLocked && !readOnly;
 
                 return (
                   <div
                     key={bitIdx}
-                    onClick={() => dispatch({ type: 'TOGGLE_BIT', registerId: register.id, bit: bitIdx })}
+                    onClick={() => handleBitClick(bitIdx)}
                     onMouseEnter={() => match && onFieldHover(fieldHoverSets[match.index])}
                     onMouseLeave={() => onFieldHover(null)}
-                    title={match ? `Bit ${bitIdx} (${match.field.name})` : `Bit ${bitIdx} (reserved)`}
-                    className={`flex flex-col items-center justify-center h-12 border text-xs cursor-pointer hover:brightness-125 transition-all duration-150 motion-reduce:transition-none select-none ${
+                    title={bitTitle(bitIdx, match)}
+                    aria-disabled={isLocked || undefined}
+                    data-reset-diff={differsFromReset || undefined}
+                    className={`flex flex-col items-center justify-center h-12 border text-xs ${
+                      isLocked ? 'cursor-not-allowed border-dashed' : clickable ? 'cursor-pointer hover:brightness-125' : ''
+                    } transition-all duration-150 motion-reduce:transition-none select-none ${
                       isUnassigned
                         ? 'bit-unassigned border-gray-300/60 dark:border-gray-600/60'
                         : 'border-gray-300 dark:border-gray-600'
-                    }`}
+                    } ${differsFromReset ? 'ring-2 ring-inset ring-orange-500' : ''}`}
                     style={{
                       gridRow: 2,
                       gridColumn: col,
@@ -200,10 +251,10 @@ export function BitGrid({ register, hoveredFieldIndices, onFieldHover, fieldHove
                         ? 'text-gray-400 dark:text-gray-500'
                         : 'text-gray-500 dark:text-gray-400'
                     }`}>
-                      {bitIdx}
+                      {displayBit(bitIdx, register.width, state.bitNumbering)}
                     </span>
                     <span className={`font-mono font-bold text-sm leading-none mt-0.5 ${
-                      isUnassigned ? 'opacity-50' : ''
+                      isUnassigned || isLocked ? 'opacity-50' : ''
                     }`}>
                       {getBit(value, bitIdx)}
                     </span>
@@ -215,12 +266,13 @@ export function BitGrid({ register, hoveredFieldIndices, onFieldHover, fieldHove
               {rowFields.map((fi) => {
                 const colors = fieldColors[fi.fieldIndex];
                 const isHighlighted = hoveredFieldIndices !== null && hoveredFieldIndices.has(fi.fieldIndex);
-                const label = fi.isPartial ? `${fi.field.name} (cont.)` : fi.field.name;
+                const name = fi.part ? `${fi.field.name}${fi.part}` : fi.field.name;
+                const label = fi.isPartial ? `${name} (cont.)` : name;
 
                 return (
                   <div
-                    key={fi.field.id}
-                    title={fi.field.name}
+                    key={`${fi.field.id}:${fi.sliceIndex}`}
+                    title={name}
                     onMouseEnter={() => onFieldHover(fieldHoverSets[fi.fieldIndex])}
                     onMouseLeave={() => onFieldHover(null)}
                     className="text-[10px] truncate px-1 py-0.5 text-center transition-colors duration-150 motion-reduce:transition-none"
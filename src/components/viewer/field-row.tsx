@@ -1,32 +1,43 @@
 import { useState, useEffect, useRef } from 'react';
-import type { Field } from '../../types/register';
+import type { AccessType, BitNumbering, Field } from '../../types/register';
 import type { DecodedValue } from '../../types/register';
-import { extractBits } from '../../utils/bitwise';
 import { encodeField } from '../../utils/encode';
-import { formatDecodedValue } from '../../utils/decode';
+import { decodedIssue, formatDecodedValue } from '../../utils/decode';
+import { hotBits } from '../../utils/encodings';
+import { extractFieldBits, fieldBitWidth, fieldMask, formatBitRange } from '../../utils/field-slices';
 import { validateFieldInput } from '../../utils/validation';
-import { useAppDispatch } from '../../context/app-context';
+import { isWritable } from '../../utils/access';
 import { fieldColor, fieldBorderColor } from '../../utils/field-colors';
+import { AccessBadge } from './access-badge';
 
 interface Props {
   field: Field;
   fieldIndex: number;
-  registerId: string;
+  access: AccessType;
   registerValue: bigint;
   registerWidth: number;
+  bitNumbering: BitNumbering;
   decoded: DecodedValue;
   isHighlighted: boolean;
+  /** Write-preview mode: the row edits the value to be written. */
+  writePreview: boolean;
+  /** Diff-from-reset view: the field's raw bits at reset. */
+  resetBits?: bigint;
+  onSetRawBits: (rawBits: bigint) => void;
   onMouseEnter: () => void;
   onMouseLeave: () => void;
 }
 
-export function FieldRow({ field, fieldIndex, registerId, registerValue, registerWidth, decoded, isHighlighted, onMouseEnter, onMouseLeave }: Props) {
-  const dispatch = useAppDispatch();
-  const rawBits = extractBits(registerValue, field.msb, field.lsb);
-  const bitWidth = field.msb - field.lsb + 1;
+export function FieldRow({ field, fieldIndex, access, registerValue, registerWidth, bitNumbering, decoded, isHighlighted, writePreview, resetBits, onSetRawBits, onMouseEnter, onMouseLeave }: Props) {
+  const locked = !isWritable(access);
+  const lockedTitle = locked ? `${field.name} is not writable` : undefined;
+  const rawBits = extractFieldBits(registerValue, field);
+  const bitWidth = fieldBitWidth(field);
   const binaryStr = rawBits.toString(2).padStart(bitWidth, '0');
-  const bitsLabel = field.msb === field.lsb ? `[${field.msb}]` : `[${field.msb}:${field.lsb}]`;
-  const mask = ((1n << BigInt(bitWidth)) - 1n) << BigInt(field.lsb);
+  const changedFromReset = resetBits !== undefined && resetBits !== rawBits;
+  const resetBinaryStr = resetBits?.toString(2).padStart(bitWidth, '0');
+  const bitsLabel = formatBitRange(field, bitNumbering, registerWidth);
+  const mask = fieldMask(field);
   const maskStr = '0x' + mask.toString(16).toUpperCase().padStart(Math.ceil(registerWidth / 4), '0');
   const borderColor = fieldBorderColor(fieldIndex);
   const tintBg = fieldColor(fieldIndex, 0.06);
@@ -37,6 +48,10 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
   const [inputText, setInputText] = useState('');
   const [error, setError] = useState<string | null>(null);
   const displayStr = formatDecodedValue(decoded);
+  const issue = decodedIssue(decoded);
+  const rawTitle = (decoded.type === 'integer' || decoded.type === 'fixed-point') && decoded.physical
+    ? `Raw value ${decoded.value === '-0' ? '-0' : decoded.value.toString()}`
+    : undefined;
 
   // Sync input text from external changes (bit grid, hex input, field definition edits)
   // but only when this input is not focused — same pattern as ValueInputBar.
@@ -49,15 +64,14 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
 
   // Reset focus ref if field type changes to a non-text-input type
   useEffect(() => {
-    if (field.type === 'flag' || field.type === 'enum') {
+    if (field.type === 'flag' || field.type === 'enum' || field.type === 'one-hot') {
       isFocusedRef.current = false;
     }
   }, [field.type]);
 
   function handleFieldEdit(input: string | number | boolean) {
     try {
-      const newBits = encodeField(input, field);
-      dispatch({ type: 'SET_FIELD_VALUE', registerId, field, rawBits: newBits });
+      onSetRawBits(encodeField(input, field));
     } catch {
       // Silently discard (flag/enum paths — these don't throw in practice)
     }
@@ -65,21 +79,21 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
 
   function handleInputChange(text: string) {
     setInputText(text);
-    setError(validateFieldInput(text, field.type));
+    setError(validateFieldInput(text, field));
   }
 
   function handleInputBlur() {
     isFocusedRef.current = false;
+    if (locked) return;
     // Re-validate to avoid stale error state from React batching
-    const freshError = validateFieldInput(inputText, field.type);
+    const freshError = validateFieldInput(inputText, field);
     if (freshError !== null) {
       setInputText(displayStr);
       setError(null);
       return;
     }
     try {
-      const newBits = encodeField(inputText, field);
-      dispatch({ type: 'SET_FIELD_VALUE', registerId, field, rawBits: newBits });
+      onSetRawBits(encodeField(inputText, field));
     } catch {
       setInputText(displayStr);
     }
@@ -97,6 +111,39 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
     }
   }
 
+  function renderTextInput() {
+    const hasError = error !== null;
+    return (
+      <div className="relative group/field-input inline-block w-32">
+        <input
+          type="text"
+          value={inputText}
+          onFocus={() => { isFocusedRef.current = true; }}
+          onChange={(e) => handleInputChange(e.target.value)}
+          onBlur={handleInputBlur}
+          onKeyDown={handleInputKeyDown}
+          readOnly={locked}
+          title={lockedTitle ?? rawTitle}
+          className={`${locked ? 'cursor-not-allowed opacity-60 ' : ''}w-full px-1.5 py-0.5 text-sm rounded border font-mono bg-white dark:bg-gray-800 focus:outline-none focus:ring-1 ${
+            hasError
+              ? 'border-red-500 dark:border-red-400 focus:ring-red-500'
+              : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
+          }`}
+          spellCheck={false}
+          aria-invalid={hasError}
+        />
+        {hasError && (
+          <div
+            role="tooltip"
+            className="absolute bottom-full left-0 mb-1 z-50 hidden group-focus-within/field-input:block px-2 py-1 text-xs rounded bg-red-600 text-white whitespace-nowrap shadow-md pointer-events-none"
+          >
+            {error}
+          </div>
+        )}
+      </div>
+    );
+  }
+
   function renderValueControl() {
     switch (field.type) {
       case 'flag': {
@@ -108,7 +155,9 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
           <button
             type="button"
             onClick={() => handleFieldEdit(!isSet)}
-            className={`px-2 py-0.5 text-sm font-mono rounded cursor-pointer select-none transition-colors ${
+            disabled={locked}
+            title={lockedTitle ?? (writePreview && access === 'w1c' ? 'Write 1 to clear' : writePreview && access === 'w1s' ? 'Write 1 to set' : undefined)}
+            className={`px-2 py-0.5 text-sm font-mono rounded cursor-pointer select-none transition-colors disabled:cursor-not-allowed disabled:opacity-60 ${
               isSet
                 ? 'bg-green-100 text-green-800 hover:bg-green-200 dark:bg-green-900/40 dark:text-green-300 dark:hover:bg-green-800/40'
                 : 'bg-gray-100 text-gray-600 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-400 dark:hover:bg-gray-600'
@@ -124,7 +173,9 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
           <select
             value={decoded.type === 'enum' ? decoded.value : 0}
             onChange={(e) => handleFieldEdit(e.target.value)}
-            className="max-w-full px-1.5 py-0.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+            disabled={locked}
+            title={lockedTitle}
+            className="disabled:cursor-not-allowed disabled:opacity-60 max-w-full px-1.5 py-0.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
           >
             {field.enumEntries.map((entry) => (
               <option key={entry.value} value={entry.value}>
@@ -139,38 +190,58 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
           </select>
         );
 
-      case 'integer':
-      case 'float':
-      case 'fixed-point': {
-        const hasError = error !== null;
+      case 'one-hot': {
+        const hot = decoded.type === 'one-hot' ? decoded.value : null;
         return (
-          <div className="relative group/field-input inline-block w-32">
-            <input
-              type="text"
-              value={inputText}
-              onFocus={() => { isFocusedRef.current = true; }}
-              onChange={(e) => handleInputChange(e.target.value)}
-              onBlur={handleInputBlur}
-              onKeyDown={handleInputKeyDown}
-              className={`w-full px-1.5 py-0.5 text-sm rounded border font-mono bg-white dark:bg-gray-800 focus:outline-none focus:ring-1 ${
-                hasError
-                  ? 'border-red-500 dark:border-red-400 focus:ring-red-500'
-                  : 'border-gray-300 dark:border-gray-600 focus:ring-blue-500'
-              }`}
-              spellCheck={false}
-              aria-invalid={hasError}
-            />
-            {hasError && (
-              <div
-                role="tooltip"
-                className="absolute bottom-full left-0 mb-1 z-50 hidden group-focus-within/field-input:block px-2 py-1 text-xs rounded bg-red-600 text-white whitespace-nowrap shadow-md pointer-events-none"
-              >
-                {error}
-              </div>
-            )}
+          <select
+            value={hot ?? ''}
+            onChange={(e) => handleFieldEdit(e.target.value)}
+            disabled={locked}
+            title={lockedTitle}
+            className="disabled:cursor-not-allowed disabled:opacity-60 max-w-full px-1.5 py-0.5 text-sm rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 font-mono focus:outline-none focus:ring-1 focus:ring-blue-500"
+          >
+            {hot === null && <option value="" disabled>{displayStr}</option>}
+            {Array.from({ length: bitWidth }, (_, i) => (
+              <option key={i} value={i}>bit {i}</option>
+            ))}
+          </select>
+        );
+      }
+
+      case 'bitset': {
+        const setBits = new Set(hotBits(rawBits));
+        const named = new Map(field.bitNames.map((b) => [b.bit, b.name]));
+        // Named bits plus any set unnamed bit, or every bit when none are named
+        const shown = named.size > 0
+          ? [...new Set([...named.keys(), ...setBits])].filter((bit) => bit < bitWidth).sort((a, b) => a - b)
+          : Array.from({ length: bitWidth }, (_, i) => i);
+        return (
+          <div className="space-y-1">
+            {renderTextInput()}
+            <div className="flex flex-wrap gap-x-2 gap-y-0.5" role="group" aria-label={`${field.name} bits`}>
+              {shown.map((bit) => (
+                <label key={bit} className={`inline-flex items-center gap-1 text-xs font-mono ${locked ? 'opacity-60 cursor-not-allowed' : 'cursor-pointer'}`}>
+                  <input
+                    type="checkbox"
+                    checked={setBits.has(bit)}
+                    onChange={() => onSetRawBits(rawBits ^ (1n << BigInt(bit)))}
+                    disabled={locked}
+                  />
+                  {named.get(bit) ?? `bit ${bit}`}
+                </label>
+              ))}
+            </div>
           </div>
         );
       }
+
+      case 'integer':
+      case 'float':
+      case 'fixed-point':
+      case 'bcd':
+      case 'gray':
+      case 'ascii':
+        return renderTextInput();
     }
   }
 
@@ -183,6 +254,15 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
     >
       <td className="px-3 py-2 text-sm font-medium truncate" title={field.name} style={{ borderLeft: `4px solid ${borderColor}` }}>
         {field.name}
+        {access !== 'rw' && <AccessBadge access={access} className="ml-1.5" />}
+        {changedFromReset && (
+          <span
+            title={`Differs from reset (0b${resetBinaryStr})`}
+            className="ml-1.5 inline-block px-1 rounded text-[10px] font-semibold align-middle bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300"
+          >
+            changed
+          </span>
+        )}
       </td>
       <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 font-mono truncate" title={bitsLabel}>
         {bitsLabel}
@@ -190,11 +270,22 @@ export function FieldRow({ field, fieldIndex, registerId, registerValue, registe
       <td className="px-3 py-2 text-sm font-mono text-gray-500 dark:text-gray-400 truncate" title={maskStr}>
         {maskStr}
       </td>
-      <td className="px-3 py-2 text-sm font-mono text-gray-600 dark:text-gray-300 truncate" title={binaryStr}>
+      <td
+        className={`px-3 py-2 text-sm font-mono truncate ${changedFromReset ? 'text-orange-600 dark:text-orange-400' : 'text-gray-600 dark:text-gray-300'}`}
+        title={resetBinaryStr !== undefined ? `${binaryStr} (reset ${resetBinaryStr})` : binaryStr}
+      >
         {binaryStr}
       </td>
       <td className="px-3 py-2 text-sm overflow-visible">
         {renderValueControl()}
+        {issue && (
+          <span
+            title={issue}
+            className="ml-1.5 inline-block px-1 rounded text-[10px] font-semibold align-middle bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300"
+          >
+            invalid
+          </span>
+        )}
       </td>
       <td className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400 truncate hidden lg:table-cell" title={field.description ?? ''}>
         {field.description}
@@ -1,6 +1,8 @@
-import type { RegisterDef } from '../../types/register';
-import { useAppState } from '../../context/app-context';
+import type { Field, RegisterDef } from '../../types/register';
+import { useAppState, useAppDispatch } from '../../context/app-context';
+import { extractFieldBits, replaceFieldBits } from '../../utils/field-slices';
 import { decodeField } from '../../utils/decode';
+import { resolveAccess } from '../../utils/access';
 import { FieldRow } from './field-row';
 
 interface Props {
@@ -8,11 +10,26 @@ interface Props {
   hoveredFieldIndices: ReadonlySet<number> | null;
   onFieldHover: (indices: ReadonlySet<number> | null) => void;
   fieldHoverSets: ReadonlySet<number>[];
+  /** When set, fields show and edit this pending write value instead of the register value. */
+  writeValue?: bigint;
+  onWriteValueChange?: (value: bigint) => void;
+  /** When set, fields whose value differs from this reset value are marked. */
+  resetValue?: bigint;
 }
 
-export function FieldTable({ register, hoveredFieldIndices, onFieldHover, fieldHoverSets }: Props) {
+export function FieldTable({ register, hoveredFieldIndices, onFieldHover, fieldHoverSets, writeValue, onWriteValueChange, resetValue }: Props) {
   const state = useAppState();
-  const value = state.registerValues[register.id] ?? 0n;
+  const dispatch = useAppDispatch();
+  const writePreview = writeValue !== undefined;
+  const value = writeValue ?? state.registerValues[register.id] ?? 0n;
+
+  function setFieldBits(field: Field, rawBits: bigint) {
+    if (writePreview) {
+      onWriteValueChange?.(replaceFieldBits(value, field, rawBits));
+    } else {
+      dispatch({ type: 'SET_FIELD_VALUE', registerId: register.id, field, rawBits });
+    }
+  }
 
   if (register.fields.length === 0) {
     return (
@@ -44,11 +61,15 @@ export function FieldTable({ register, hoveredFieldIndices, onFieldHover, fieldH
               key={field.id}
               field={field}
               fieldIndex={originalIndex}
-              registerId={register.id}
+              access={resolveAccess(field, register)}
               registerValue={value}
               registerWidth={register.width}
+              bitNumbering={state.bitNumbering}
               decoded={decodeField(value, field)}
               isHighlighted={hoveredFieldIndices !== null && hoveredFieldIndices.has(originalIndex)}
+              writePreview={writePreview}
+              resetBits={resetValue !== undefined ? extractFieldBits(resetValue, field) : undefined}
+              onSetRawBits={(rawBits) => setFieldBits(field, rawBits)}
               onMouseEnter={() => onFieldHover(fieldHoverSets[originalIndex])}
               onMouseLeave={() => onFieldHover(null)}
             />
@@ -4,19 +4,37 @@ import { useEditContext } from '../../context/edit-context';
 import { ValueInputBar } from './value-input-bar';
 import { BitGrid } from './bit-grid';
 import { FieldTable } from './field-table';
+import { WritePreviewBar } from './write-preview-bar';
 import { RegisterEditor } from '../editor/register-editor';
 import { RegisterMapView } from './register-map-view';
+import { ValueDiffView } from './value-diff-view';
+import { ValueHistoryList } from './value-history-list';
+import { WaveformView } from './waveform-view';
 import type { RegisterDef } from '../../types/register';
 import { formatOffset } from '../../utils/format';
 import { validateRegisterDef } from '../../utils/validation';
+import { resetValueOf } from '../../utils/reset';
+import { baseRegisterId, findRegister, instanceIndex } from '../../utils/register-array';
+import { absoluteOffset, flattenGroups, groupOf } from '../../utils/register-groups';
+import { activeLayout, activeVariant } from '../../utils/variants';
 
-type MainTab = 'register' | 'map';
+type MainTab = 'register' | 'map' | 'diff' | 'waveform';
+
+const TAB_LABELS: Record<MainTab, string> = { register: 'Register', map: 'Map', diff: 'Diff', waveform: 'Waveform' };
 
 export function MainPanel() {
-  const { registers, activeRegisterId } = useAppState();
+  const { registers, groups, activeRegisterId, registerValues } = useAppState();
   const dispatch = useAppDispatch();
   const [activeTab, setActiveTab] = useState<MainTab>('register');
   const [hoveredFieldIndices, setHoveredFieldIndices] = useState<ReadonlySet<number> | null>(null);
+  // Pending write value while in write-preview mode; null when viewing the register value
+  const [writeValue, setWriteValue] = useState<bigint | null>(null);
+  const [showResetDiff, setShowResetDiff] = useState(false);
+  const [prevActiveRegisterId, setPrevActiveRegisterId] = useState(activeRegisterId);
+  if (activeRegisterId !== prevActiveRegisterId) {
+    setPrevActiveRegisterId(activeRegisterId);
+    setWriteValue(null);
+  }
   const {
     dirtyDraftIds,
     isEditing,
@@ -29,14 +47,28 @@ export function MainPanel() {
 
   const [saveErrors, setSaveErrors] = useState<string[] | null>(null);
 
-  const activeRegister = registers.find((r) => r.id === activeRegisterId);
+  // The selected register, or the selected instance of a register array
+  const activeRegister = useMemo(() => findRegister(registers, activeRegisterId), [registers, activeRegisterId]);
+  const activeBase = activeRegister && registers.find((r) => r.id === baseRegisterId(activeRegister.id));
+  const activeGroup = activeRegister && groupOf(activeRegister, groups);
+  const activeAddress = activeRegister && absoluteOffset(activeRegister, groups);
+  // Diff-from-reset compares the register value, so it is off while composing a write
+  const diffResetValue = activeRegister && showResetDiff && writeValue === null ? resetValueOf(activeRegister) : undefined;
+
+  // Fields as laid out for the shown value (the pending write, if any), including the active variant's
+  const shownValue = writeValue ?? (activeRegister ? registerValues[activeRegister.id] ?? 0n : 0n);
+  const layoutRegister = useMemo(
+    () => activeRegister && activeLayout(activeRegister, shownValue),
+    [activeRegister, shownValue],
+  );
+  const layoutVariant = activeRegister && activeVariant(activeRegister, shownValue);
 
   // Pre-compute singleton hover sets once per field list, shared by BitGrid and FieldTable
   const fieldHoverSets = useMemo(
-    () => activeRegister?.fields.map((_, i) => new Set([i]) as ReadonlySet<number>) ?? [],
-    [activeRegister?.fields],
+    () => layoutRegister?.fields.map((_, i) => new Set([i]) as ReadonlySet<number>) ?? [],
+    [layoutRegister?.fields],
   );
-  const activeDraft = activeRegisterId ? getDraft(activeRegisterId) : undefined;
+  const activeDraft = activeBase ? getDraft(activeBase.id) : undefined;
 
   function handleDraftChange(updated: RegisterDef) {
     setDraft(updated.id, updated);
@@ -78,6 +110,8 @@ export function MainPanel() {
   }, []);
 
   const hasOffsets = registers.some((r) => r.offset != null);
+  // The map lays out absolute addresses, with group-qualified names
+  const mapRegisters = useMemo(() => flattenGroups(registers, groups), [registers, groups]);
 
   const handleNavigateToRegister = useCallback((registerId: string) => {
     dispatch({ type: 'SET_ACTIVE_REGISTER', registerId });
@@ -99,9 +133,10 @@ export function MainPanel() {
     );
   }
 
-  const tabBar = hasOffsets && (
+  const tabs: MainTab[] = hasOffsets ? ['register', 'map', 'diff', 'waveform'] : ['register', 'diff', 'waveform'];
+  const tabBar = registers.length > 0 && (
     <div className="flex border-b border-gray-200 dark:border-gray-700 px-4 shrink-0">
-      {(['register', 'map'] as const).map((tab) => (
+      {tabs.map((tab) => (
         <button
           key={tab}
           onClick={() => setActiveTab(tab)}
@@ -111,7 +146,7 @@ export function MainPanel() {
               : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300'
             }`}
         >
-          {tab === 'register' ? 'Register' : 'Map'}
+          {TAB_LABELS[tab]}
         </button>
       ))}
     </div>
@@ -122,7 +157,7 @@ export function MainPanel() {
       <main className="flex-1 flex flex-col overflow-hidden">
         {tabBar}
         <RegisterMapView
-          registers={registers}
+          registers={mapRegisters}
           onNavigateToRegister={handleNavigateToRegister}
           scrollTopRef={mapScrollTopRef}
           onScrollChange={handleMapScroll}
@@ -131,7 +166,25 @@ export function MainPanel() {
     );
   }
 
-  if (!activeRegister) {
+  if (activeTab === 'diff' && registers.length > 0) {
+    return (
+      <main className="flex-1 flex flex-col overflow-hidden">
+        {tabBar}
+        <ValueDiffView />
+      </main>
+    );
+  }
+
+  if (activeTab === 'waveform' && activeRegister) {
+    return (
+      <main className="flex-1 flex flex-col overflow-hidden">
+        {tabBar}
+        <WaveformView key={activeRegister.id} register={activeRegister} />
+      </main>
+    );
+  }
+
+  if (!activeRegister || !layoutRegister) {
     return (
       <main className="flex-1 flex flex-col overflow-hidden">
         {tabBar}
@@ -154,27 +207,83 @@ export function MainPanel() {
             <div>
               <h2 className="text-xl font-bold">{activeRegister.name}</h2>
               <p className="text-sm text-gray-500 dark:text-gray-400">
-                {activeRegister.offset != null && <><span className="font-mono">{formatOffset(activeRegister.offset)}</span>{' · '}</>}
+                {activeAddress != null && <><span className="font-mono">{formatOffset(activeAddress)}</span>{' · '}</>}
+                {activeGroup && <><span className="font-mono">{activeGroup.name}</span>{activeRegister.offset != null && <> + <span className="font-mono">{formatOffset(activeRegister.offset)}</span></>}{' · '}</>}
                 <span className="font-mono">{activeRegister.width}</span>-bit register
+                {layoutVariant && <>{' · '}variant <span className="font-mono">{layoutVariant.name}</span></>}
+                {activeBase?.dim && <>{' · '}instance {instanceIndex(activeRegister.id)} of <span className="font-mono">{activeBase.name}</span>[{activeBase.dim.count}]</>}
                 {activeRegister.description && ` — ${activeRegister.description}`}
               </p>
             </div>
-            <button
-              onClick={() => enterEditMode(activeRegister)}
-              className="px-3 py-1.5 rounded-md text-sm font-medium
-                bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300
-                hover:bg-blue-200 dark:hover:bg-blue-800/40 transition-colors"
-            >
-              Edit
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowResetDiff(!showResetDiff)}
+                aria-pressed={showResetDiff}
+                title="Highlight bits and fields that differ from the reset value"
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  showResetDiff
+                    ? 'bg-orange-500 text-white hover:bg-orange-600'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                Diff from reset
+              </button>
+              <button
+                onClick={() => setWriteValue(writeValue === null ? 0n : null)}
+                aria-pressed={writeValue !== null}
+                title="Compose a write and preview its effect on the register"
+                className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+                  writeValue !== null
+                    ? 'bg-blue-600 text-white hover:bg-blue-700'
+                    : 'bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-700'
+                }`}
+              >
+                Write preview
+              </button>
+              <button
+                onClick={() => enterEditMode(activeBase ?? activeRegister)}
+                className="px-3 py-1.5 rounded-md text-sm font-medium
+                  bg-blue-100 dark:bg-blue-900/40 text-blue-700 dark:text-blue-300
+                  hover:bg-blue-200 dark:hover:bg-blue-800/40 transition-colors"
+              >
+                Edit
+              </button>
+            </div>
           </div>
-          <ValueInputBar register={activeRegister} />
-          <BitGrid register={activeRegister} hoveredFieldIndices={hoveredFieldIndices} onFieldHover={setHoveredFieldIndices} fieldHoverSets={fieldHoverSets} />
+          {writeValue !== null ? (
+            <>
+              <ValueInputBar register={activeRegister} value={writeValue} onValueChange={setWriteValue} />
+              <WritePreviewBar register={layoutRegister} writeValue={writeValue} onWriteValueChange={setWriteValue} />
+            </>
+          ) : (
+            <ValueInputBar register={activeRegister} />
+          )}
+          <BitGrid
+            register={layoutRegister}
+            hoveredFieldIndices={hoveredFieldIndices}
+            onFieldHover={setHoveredFieldIndices}
+            fieldHoverSets={fieldHoverSets}
+            writeValue={writeValue ?? undefined}
+            onWriteValueChange={setWriteValue}
+            resetValue={diffResetValue}
+          />
         </div>
         <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider mb-2 mt-6">
           Field Breakdown
         </h3>
-        <FieldTable register={activeRegister} hoveredFieldIndices={hoveredFieldIndices} onFieldHover={setHoveredFieldIndices} fieldHoverSets={fieldHoverSets} />
+        <FieldTable
+          register={layoutRegister}
+          hoveredFieldIndices={hoveredFieldIndices}
+          onFieldHover={setHoveredFieldIndices}
+          fieldHoverSets={fieldHoverSets}
+          writeValue={writeValue ?? undefined}
+          onWriteValueChange={setWriteValue}
+          resetValue={diffResetValue}
+        />
+        <h3 className="text-sm font-semibold text-gray-600 dark:text-gray-400 uppercase tracking-wider mb-2 mt-6">
+          Value History
+        </h3>
+        <ValueHistoryList register={activeRegister} />
       </div>
     </main>
   );
@@ -1,4 +1,4 @@
-import { useCallback, useEffect, useMemo, useRef, type RefObject } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState, type RefObject } from 'react';
 import { MAP_TABLE_WIDTH_VALUES, type MapTableWidth, type RegisterDef } from '../../types/register';
 import { useAppState, useAppDispatch } from '../../context/app-context';
 import {
@@ -12,6 +12,7 @@ import {
 import { getRegisterOverlapWarnings } from '../../utils/validation';
 import { fieldColor, fieldBorderColor } from '../../utils/field-colors';
 import { formatOffset, offsetHexDigits } from '../../utils/format';
+import { MemoryDumpDialog } from '../common/memory-dump-dialog';
 
 const OVERLAP_COLOR = 'rgb(251,146,60)';
 const OVERLAP_HATCH_BG = `repeating-linear-gradient(135deg, transparent, transparent 3px, rgba(251,146,60,0.08) 3px, rgba(251,146,60,0.08) 6px)`;
@@ -29,7 +30,7 @@ export function RegisterMapView({
   scrollTopRef,
   onScrollChange,
 }: RegisterMapViewProps) {
-  const { mapTableWidth: tableWidthBits, mapShowGaps: showGaps, mapSortDescending: sortDescending, addressUnitBits } = useAppState();
+  const { mapTableWidth: tableWidthBits, mapShowGaps: showGaps, mapSortDescending: sortDescending, addressUnitBits, registerValues } = useAppState();
   const dispatch = useAppDispatch();
   const setTableWidthBits = useCallback(
     (width: MapTableWidth) => dispatch({ type: 'SET_MAP_TABLE_WIDTH', width }),
@@ -45,6 +46,7 @@ export function RegisterMapView({
   );
 
   const scrollRef = useRef<HTMLDivElement>(null);
+  const [dumpOpen, setDumpOpen] = useState(false);
 
   // Restore scroll position on mount
   useEffect(() => {
@@ -138,7 +140,15 @@ export function RegisterMapView({
           </svg>
           <span className="text-xs">{sortDescending ? 'Desc' : 'Asc'}</span>
         </button>
+        <button
+          onClick={() => setDumpOpen(true)}
+          title="Load register values from a memory dump"
+          className="ml-auto px-2 py-1 rounded-md text-sm text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+        >
+          Load dump…
+        </button>
       </div>
+      <MemoryDumpDialog open={dumpOpen} onClose={() => setDumpOpen(false)} registers={registers} />
 
       {/* Column headers */}
       <div className="flex items-end mb-1">
@@ -185,6 +195,7 @@ export function RegisterMapView({
                 row={row}
                 rowWidthUnits={rowWidthUnits}
                 hexDigits={hexDigits}
+                registerValues={registerValues}
                 onNavigateToRegister={onNavigateToRegister}
               />
             </div>
@@ -199,11 +210,13 @@ function MapRowView({
   row,
   rowWidthUnits,
   hexDigits,
+  registerValues,
   onNavigateToRegister,
 }: {
   row: MapRow;
   rowWidthUnits: number;
   hexDigits: number;
+  registerValues: Record<string, bigint>;
   onNavigateToRegister: (registerId: string) => void;
 }) {
   if (row.isGapRow) {
@@ -235,6 +248,7 @@ function MapRowView({
               key={i}
               cell={cell}
               hexDigits={hexDigits}
+              value={registerValues[cell.mapReg.reg.id] ?? 0n}
               onNavigateToRegister={onNavigateToRegister}
             />
           ) : (
@@ -249,23 +263,26 @@ function MapRowView({
 function RegisterCell({
   cell,
   hexDigits,
+  value,
   onNavigateToRegister,
 }: {
   cell: Extract<MapCell, { kind: 'register' }>;
   hexDigits: number;
+  value: bigint;
   onNavigateToRegister: (registerId: string) => void;
 }) {
   const { mapReg, rowSpanIndex, totalRowSpans, colStart, colEnd, fieldSegments } = cell;
   const hasFields = fieldSegments.length > 0;
   const isOverlap = mapReg.hasOverlap;
   const borderWidth = isOverlap ? 'border-2' : 'border';
+  const valueHex = '0x' + value.toString(16).toUpperCase().padStart(Math.ceil(mapReg.reg.width / 4), '0');
 
   return (
     <div
       style={{ gridColumn: `${colStart} / ${colEnd}` }}
       className="mx-0.5 my-0.5 flex flex-col overflow-hidden rounded-sm cursor-pointer hover:opacity-80 transition-opacity"
       onClick={() => onNavigateToRegister(mapReg.reg.id)}
-      title={`${mapReg.reg.name} @ ${formatOffset(mapReg.startUnit, hexDigits)}, ${mapReg.reg.width}b`}
+      title={`${mapReg.reg.name} @ ${formatOffset(mapReg.startUnit, hexDigits)}, ${mapReg.reg.width}b = ${valueHex}`}
     >
       {/* Name row */}
       <div
@@ -289,6 +306,11 @@ function RegisterCell({
           )}
         </span>
         <span className="flex items-center shrink-0">
+          {rowSpanIndex === 0 && (
+            <span className="text-[10px] text-gray-600 dark:text-gray-300 ml-1 font-mono" data-testid="map-value">
+              {valueHex}
+            </span>
+          )}
           {rowSpanIndex === totalRowSpans - 1 && (
             <span className="text-[10px] text-gray-500 dark:text-gray-400 ml-1 font-mono">
               {mapReg.reg.width}b
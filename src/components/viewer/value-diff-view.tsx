@@ -0,0 +1,177 @@
+import { useMemo, useRef, useState } from 'react';
+import type { RegisterDef } from '../../types/register';
+import { useAppState } from '../../context/app-context';
+import { expandRegisters } from '../../utils/register-array';
+import { formatRegisterValue } from '../../utils/format';
+import { flattenGroups } from '../../utils/register-groups';
+import { valuesFromJson } from '../../utils/storage';
+import { diffRegisterValues, type RegisterDiff } from '../../utils/value-diff';
+import { activeLayout } from '../../utils/variants';
+import { BitGrid } from './bit-grid';
+
+/** Where one side of the diff takes its values from. */
+type ValueSource =
+  | { kind: 'current' }
+  | { kind: 'snapshot'; snapshotId: string }
+  | { kind: 'file'; fileName: string; values: Record<string, bigint> };
+
+const selectClass =
+  'px-2 py-1 rounded border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm focus:outline-none focus:ring-1 focus:ring-blue-500';
+
+function formatHex(value: bigint | undefined, width: number): string {
+  return value === undefined ? '—' : formatRegisterValue(value, width);
+}
+
+export function ValueDiffView() {
+  const { registers, groups, registerValues, snapshots } = useAppState();
+  const [sourceA, setSourceA] = useState<ValueSource>({ kind: 'current' });
+  const [sourceB, setSourceB] = useState<ValueSource>(
+    snapshots[0] ? { kind: 'snapshot', snapshotId: snapshots[0].id } : { kind: 'current' },
+  );
+
+  function valuesOf(source: ValueSource): Record<string, bigint> {
+    if (source.kind === 'current') return registerValues;
+    if (source.kind === 'file') return source.values;
+    return snapshots.find((s) => s.id === source.snapshotId)?.values ?? {};
+  }
+
+  function labelOf(source: ValueSource): string {
+    if (source.kind === 'current') return 'Current';
+    if (source.kind === 'file') return source.fileName;
+    return snapshots.find((s) => s.id === source.snapshotId)?.name ?? 'Deleted snapshot';
+  }
+
+  const instances = useMemo(() => expandRegisters(flattenGroups(registers, groups)), [registers, groups]);
+  const valuesA = valuesOf(sourceA);
+  const valuesB = valuesOf(sourceB);
+  const diffs = useMemo(() => diffRegisterValues(instances, valuesA, valuesB), [instances, valuesA, valuesB]);
+  const labelA = labelOf(sourceA);
+  const labelB = labelOf(sourceB);
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4" data-testid="diff-view">
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <SourcePicker label="A" source={sourceA} onChange={setSourceA} />
+        <span className="text-gray-400">vs</span>
+        <SourcePicker label="B" source={sourceB} onChange={setSourceB} />
+        <span className="ml-auto text-gray-500 dark:text-gray-400">
+          {diffs.length === 0 ? 'No differences' : `${diffs.length} register${diffs.length === 1 ? '' : 's'} differ`}
+        </span>
+      </div>
+      {diffs.map((diff) => (
+        <RegisterDiffCard key={diff.register.id} diff={diff} labelA={labelA} labelB={labelB} />
+      ))}
+    </div>
+  );
+}
+
+function SourcePicker({ label, source, onChange }: { label: string; source: ValueSource; onChange: (source: ValueSource) => void }) {
+  const state = useAppState();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileError, setFileError] = useState<string | null>(null);
+  const selected = source.kind === 'current' ? 'current' : source.kind === 'file' ? 'file' : `snapshot:${source.snapshotId}`;
+
+  function handleSelect(value: string) {
+    if (value === 'open-file') {
+      fileInputRef.current?.click();
+    } else if (value === 'current') {
+      onChange({ kind: 'current' });
+    } else if (value.startsWith('snapshot:')) {
+      onChange({ kind: 'snapshot', snapshotId: value.slice('snapshot:'.length) });
+    }
+  }
+
+  function handleFileChange(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = () => {
+      const values = valuesFromJson(reader.result as string, state);
+      if (values) {
+        onChange({ kind: 'file', fileName: file.name, values });
+        setFileError(null);
+      } else {
+        setFileError(`${file.name} has no register values`);
+      }
+    };
+    reader.readAsText(file);
+    // Reset so the same file can be loaded again
+    e.target.value = '';
+  }
+
+  return (
+    <label className="flex items-center gap-2">
+      <span className="font-semibold text-gray-500 dark:text-gray-400">{label}</span>
+      <select value={selected} onChange={(e) => handleSelect(e.target.value)} className={selectClass}>
+        <option value="current">Current values</option>
+        {state.snapshots.map((s) => (
+          <option key={s.id} value={`snapshot:${s.id}`}>Snapshot: {s.name}</option>
+        ))}
+        {source.kind === 'file' && <option value="file">File: {source.fileName}</option>}
+        <option value="open-file">Open JSON file…</option>
+      </select>
+      <input ref={fileInputRef} type="file" accept=".json" onChange={handleFileChange} className="hidden" />
+      {fileError && <span className="text-xs text-red-500 dark:text-red-400">{fileError}</span>}
+    </label>
+  );
+}
+
+function RegisterDiffCard({ diff, labelA, labelB }: { diff: RegisterDiff; labelA: string; labelB: string }) {
+  const { register, a, b, fields } = diff;
+  return (
+    <section className="bg-white dark:bg-gray-900/50 rounded-xl border border-gray-200 dark:border-gray-700 shadow-sm p-4 space-y-3">
+      <div className="flex items-baseline gap-3">
+        <h3 className="font-bold">{register.name}</h3>
+        <span className="font-mono text-sm text-gray-500 dark:text-gray-400">
+          {formatHex(a, register.width)} → {formatHex(b, register.width)}
+        </span>
+      </div>
+      {fields.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-xs text-left text-gray-500 dark:text-gray-400">
+            <tr>
+              <th className="py-1 pr-3 font-semibold">Field</th>
+              <th className="py-1 pr-3 font-semibold">{labelA}</th>
+              <th className="py-1 font-semibold">{labelB}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {fields.map(({ field, a: textA, b: textB }) => (
+              <tr key={field.id} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="py-1 pr-3 font-medium">{field.name}</td>
+                <td className="py-1 pr-3 font-mono">{textA ?? '—'}</td>
+                <td className="py-1 font-mono">{textB ?? '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {a !== undefined && b !== undefined && (
+        <div className="grid gap-4 xl:grid-cols-2">
+          <DiffGrid register={register} value={a} other={b} label={labelA} otherLabel={labelB} />
+          <DiffGrid register={register} value={b} other={a} label={labelB} otherLabel={labelA} />
+        </div>
+      )}
+    </section>
+  );
+}
+
+function DiffGrid({ register, value, other, label, otherLabel }: { register: RegisterDef; value: bigint; other: bigint; label: string; otherLabel: string }) {
+  const [hovered, setHovered] = useState<ReadonlySet<number> | null>(null);
+  const layout = useMemo(() => activeLayout(register, value), [register, value]);
+  const hoverSets = useMemo(() => layout.fields.map((_, i) => new Set([i]) as ReadonlySet<number>), [layout.fields]);
+  return (
+    <div>
+      <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">{label}</div>
+      <BitGrid
+        register={layout}
+        hoveredFieldIndices={hovered}
+        onFieldHover={setHovered}
+        fieldHoverSets={hoverSets}
+        readOnlyValue={value}
+        compareValue={other}
+        compareLabel={otherLabel}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+import type { RegisterDef } from '../../types/register';
+import { useAppState, useAppDispatch } from '../../context/app-context';
+import { displayBit } from '../../utils/bit-numbering';
+import { formatRegisterValue } from '../../utils/format';
+import { changedBits } from '../../utils/value-history';
+
+interface Props {
+  register: RegisterDef;
+}
+
+function formatTime(time: number): string {
+  const date = new Date(time);
+  return date.toLocaleTimeString(undefined, { hour12: false }) + '.' + String(date.getMilliseconds()).padStart(3, '0');
+}
+
+/** The register's recorded value changes, newest first, each restorable with one click. */
+export function ValueHistoryList({ register }: Props) {
+  const { valueHistory, registerValues, bitNumbering } = useAppState();
+  const dispatch = useAppDispatch();
+  const entries = valueHistory[register.id] ?? [];
+  const current = registerValues[register.id] ?? 0n;
+
+  if (entries.length === 0) {
+    return (
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        No changes yet. Value changes made in this session are listed here.
+      </p>
+    );
+  }
+
+  const bitLabel = (bit: number) => displayBit(bit, register.width, bitNumbering);
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-gray-50 dark:bg-gray-900/40 text-xs text-left text-gray-500 dark:text-gray-400">
+          <tr>
+            <th className="px-3 py-1.5 font-semibold">Time</th>
+            <th className="px-3 py-1.5 font-semibold">Value</th>
+            <th className="px-3 py-1.5 font-semibold">Changed bits</th>
+            <th className="px-3 py-1.5" />
+          </tr>
+        </thead>
+        <tbody>
+          {[...entries].reverse().map((entry, i) => {
+            const { set, cleared } = changedBits(entry);
+            const isCurrent = entry.value === current;
+            return (
+              <tr key={entries.length - i} className="border-t border-gray-200 dark:border-gray-700">
+                <td className="px-3 py-1 font-mono text-gray-500 dark:text-gray-400">{formatTime(entry.time)}</td>
+                <td className="px-3 py-1 font-mono" title={`was ${formatRegisterValue(entry.previous, register.width)}`}>
+                  {formatRegisterValue(entry.value, register.width)}
+                </td>
+                <td className="px-3 py-1 font-mono text-xs">
+                  {set.map((bit) => (
+                    <span key={`s${bit}`} className="mr-1.5 text-green-600 dark:text-green-400">+{bitLabel(bit)}</span>
+                  ))}
+                  {cleared.map((bit) => (
+                    <span key={`c${bit}`} className="mr-1.5 text-red-600 dark:text-red-400">−{bitLabel(bit)}</span>
+                  ))}
+                </td>
+                <td className="px-3 py-1 text-right">
+                  <button
+                    onClick={() => dispatch({ type: 'SET_REGISTER_VALUE', registerId: register.id, value: entry.value })}
+                    disabled={isCurrent}
+                    title={isCurrent ? 'This is the current value' : 'Restore this value'}
+                    className="px-2 py-0.5 rounded text-xs font-medium text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/30 disabled:opacity-40 disabled:cursor-default disabled:hover:bg-transparent transition-colors"
+                  >
+                    Restore
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,11 +2,16 @@ import { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { useAppState, useAppDispatch } from '../../context/app-context';
 import type { RegisterDef } from '../../types/register';
 import { clampToWidth } from '../../utils/bitwise';
+import { resetValueOf } from '../../utils/reset';
 import { formatBinary } from '../../utils/format';
+import { BYTE_ORDER_LABELS, byteOrderOf, bytesToValue, formatBytes, parseBytes, valueToBytes } from '../../utils/byte-order';
 import { CopyButton } from '../common/copy-button';
 
 interface Props {
   register: RegisterDef;
+  /** Edit this value instead of the register's stored value (write preview). */
+  value?: bigint;
+  onValueChange?: (value: bigint) => void;
 }
 
 const HEX_CHAR = /[0-9A-Fa-f]/;
@@ -35,18 +40,20 @@ function useCursorRestore(field: string, focusedField: React.RefObject<string |
   return { ref, posRef, pendingRef };
 }
 
-export function ValueInputBar({ register }: Props) {
+export function ValueInputBar({ register, value: valueOverride, onValueChange }: Props) {
   const state = useAppState();
   const dispatch = useAppDispatch();
-  const value = state.registerValues[register.id] ?? 0n;
+  const value = valueOverride ?? state.registerValues[register.id] ?? 0n;
 
   const [hexInput, setHexInput] = useState('');
   const [binInput, setBinInput] = useState('');
   const [decInput, setDecInput] = useState('');
-  const focusedField = useRef<'hex' | 'bin' | 'dec' | null>(null);
+  const [bytesInput, setBytesInput] = useState('');
+  const focusedField = useRef<'hex' | 'bin' | 'dec' | 'bytes' | null>(null);
   const hex = useCursorRestore('hex', focusedField);
   const dec = useCursorRestore('dec', focusedField);
   const bin = useCursorRestore('bin', focusedField);
+  const byteOrder = byteOrderOf(register, state.byteOrder);
 
   // Sync display strings from current value, skipping the focused field
   useEffect(() => {
@@ -56,14 +63,18 @@ export function ValueInputBar({ register }: Props) {
       setBinInput(value.toString(2).padStart(register.width, '0'));
     if (focusedField.current !== 'dec')
       setDecInput(value.toString(10));
-  }, [value, register.width]);
+    if (focusedField.current !== 'bytes')
+      setBytesInput(formatBytes(valueToBytes(value, register.width, byteOrder)));
+  }, [value, register.width, byteOrder]);
 
   function commitValue(raw: bigint) {
     const clamped = clampToWidth(raw, register.width);
-    dispatch({ type: 'SET_REGISTER_VALUE', registerId: register.id, value: clamped });
+    if (onValueChange) onValueChange(clamped);
+    else dispatch({ type: 'SET_REGISTER_VALUE', registerId: register.id, value: clamped });
   }
 
   const hexWidth = Math.ceil(register.width / 4);
+  const bytesValid = parseBytes(bytesInput) !== null;
 
   function hexCommit(digits: string) {
     const padded = digits.toUpperCase().padEnd(hexWidth, '0').slice(0, hexWidth);
@@ -145,6 +156,11 @@ export function ValueInputBar({ register }: Props) {
     }
   }
 
+  function handleBytesBlur() {
+    // Normalize display to space-separated byte pairs from canonical value
+    setBytesInput(formatBytes(valueToBytes(value, register.width, byteOrder)));
+  }
+
   function handleKeyDown(e: React.KeyboardEvent, onBlur: () => void) {
     if (e.key === 'Enter') onBlur();
   }
@@ -290,6 +306,17 @@ export function ValueInputBar({ register }: Props) {
             />
           </div>
           <CopyButton value={'0x' + hexInput} label="Copy hex value" />
+          {!onValueChange && (
+            <button
+              type="button"
+              onClick={() => dispatch({ type: 'RESET_REGISTER', registerId: register.id })}
+              title={`Reset to 0x${resetValueOf(register).toString(16).toUpperCase().padStart(hexWidth, '0')}`}
+              className="px-2 py-1 rounded text-xs font-medium text-gray-500 dark:text-gray-400
+                hover:text-gray-700 dark:hover:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+            >
+              Reset
+            </button>
+          )}
         </div>
       </label>
 
@@ -369,6 +396,34 @@ export function ValueInputBar({ register }: Props) {
           </div>
         </label>
       </div>
+
+      {/* Bytes in memory order — paste a memory dump here */}
+      <label className="flex items-center gap-2 min-w-0">
+        <span className={labelClass} title="Bytes as stored in memory">MEM</span>
+        <div className="flex flex-1 min-w-0 items-center gap-1">
+          <div className="flex flex-1 min-w-0">
+            <span className={addonSecondary} title={BYTE_ORDER_LABELS[byteOrder]}>
+              {byteOrder === 'little' ? 'LE' : 'BE'}
+            </span>
+            <input
+              type="text"
+              value={bytesInput}
+              onFocus={() => (focusedField.current = 'bytes')}
+              onChange={(e) => {
+                setBytesInput(e.target.value);
+                const bytes = parseBytes(e.target.value);
+                if (bytes) commitValue(bytesToValue(bytes, register.width, byteOrder));
+              }}
+              onBlur={() => { focusedField.current = null; handleBytesBlur(); }}
+              onKeyDown={(e) => handleKeyDown(e, handleBytesBlur)}
+              className={`${inputSecondaryWithAddon}${bytesValid ? '' : ' border-red-500 dark:border-red-400'}`}
+              aria-invalid={!bytesValid}
+              spellCheck={false}
+            />
+          </div>
+          <CopyButton value={bytesInput} label="Copy bytes" />
+        </div>
+      </label>
     </div>
   );
 }
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import type { RegisterDef } from '../../types/register';
+import { useContainerWidth } from '../../hooks/use-container-width';
+import { fieldBorderColor } from '../../utils/field-colors';
+import { allFields } from '../../utils/variants';
+import { fieldTrace, parseSamples, type Trace } from '../../utils/waveform';
+import { SampleInput, type SampleInputValue } from '../common/sample-input';
+
+interface Props {
+  register: RegisterDef;
+}
+
+const TRACE_HEIGHT = 28;
+const LABEL_WIDTH = 128;
+/** Slant of bus segment edges, in pixels. */
+const BUS_EDGE = 4;
+
+function formatNumber(n: number): string {
+  return Number.isInteger(n) ? String(n) : n.toPrecision(4);
+}
+
+/**
+ * Fields of the register as traces over captured samples, like a logic
+ * analyzer: flags as square waves, enum-like fields as labelled bus segments,
+ * numbers as line plots.
+ */
+export function WaveformView({ register }: Props) {
+  const [input, setInput] = useState<SampleInputValue>({ text: '' });
+  const [containerRef, containerWidth] = useContainerWidth<HTMLDivElement>();
+
+  const parsed = useMemo(() => parseSamples(input.text, register.width, input.column), [input, register.width]);
+  const { values, skippedLines } = parsed;
+  const fields = useMemo(() => allFields(register), [register]);
+  const traces = useMemo(
+    () => fields.map((field) => ({ field, trace: fieldTrace(register, field, values) })),
+    [register, fields, values],
+  );
+
+  const plotWidth = Math.max(0, containerWidth - LABEL_WIDTH);
+  const step = values.length > 0 ? plotWidth / values.length : 0;
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 space-y-4" data-testid="waveform-view">
+      <div className="space-y-1">
+        <SampleInput
+          label={`${register.name} samples`}
+          value={input}
+          onChange={setInput}
+          parsed={parsed}
+          placeholder={'0x0001\n0x0003\n0x0002\n\nor CSV rows such as time,value'}
+          rows={4}
+        />
+        <p className="text-xs text-gray-400 dark:text-gray-500">
+          {values.length} sample{values.length === 1 ? '' : 's'}
+          {skippedLines.length > 0 && `; skipped line${skippedLines.length === 1 ? '' : 's'} ${skippedLines.slice(0, 5).join(', ')}${skippedLines.length > 5 ? '…' : ''}`}
+        </p>
+      </div>
+
+      <div ref={containerRef}>
+        {values.length > 0 && fields.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">This register has no fields to plot.</p>
+        )}
+        {values.length > 0 && plotWidth > 0 && traces.map(({ field, trace }, i) => (
+          <div key={field.id} className="flex items-center border-b border-gray-200 dark:border-gray-700/50">
+            <div className="shrink-0 px-2 text-xs font-medium truncate" style={{ width: LABEL_WIDTH }} title={field.name}>
+              {field.name}
+              {trace.kind === 'analog' && (
+                <div className="font-mono text-[10px] font-normal text-gray-400 dark:text-gray-500">
+                  {formatNumber(trace.min)}…{formatNumber(trace.max)}{trace.unit ? ` ${trace.unit}` : ''}
+                </div>
+              )}
+            </div>
+            <svg width={plotWidth} height={TRACE_HEIGHT + 8} role="img" aria-label={`${field.name} trace`}>
+              <g transform="translate(0, 4)" stroke={fieldBorderColor(i)} fill="none" strokeWidth={1.5}>
+                <TracePath trace={trace} step={step} color={fieldBorderColor(i)} />
+              </g>
+            </svg>
+          </div>
+        ))}
+        {values.length > 0 && plotWidth > 0 && fields.length > 0 && (
+          <SampleAxis count={values.length} step={step} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function TracePath({ trace, step, color }: { trace: Trace; step: number; color: string }) {
+  switch (trace.kind) {
+    case 'digital': {
+      // Square wave: level 1 at the top, gaps where the field is absent
+      const runs: string[] = [];
+      let path = '';
+      trace.levels.forEach((level, i) => {
+        if (level === null) {
+          if (path) runs.push(path);
+          path = '';
+          return;
+        }
+        const y = level === 1 ? 0 : TRACE_HEIGHT;
+        path += path ? ` V ${y} H ${(i + 1) * step}` : `M ${i * step} ${y} H ${(i + 1) * step}`;
+      });
+      if (path) runs.push(path);
+      return <>{runs.map((d, i) => <path key={i} d={d} />)}</>;
+    }
+    case 'bus':
+      return (
+        <>
+          {trace.segments.map((seg) => {
+            if (seg.label === null) return null;
+            const x0 = seg.start * step;
+            const x1 = seg.end * step;
+            const edge = Math.min(BUS_EDGE, (x1 - x0) / 2);
+            const mid = TRACE_HEIGHT / 2;
+            const points = `${x0},${mid} ${x0 + edge},0 ${x1 - edge},0 ${x1},${mid} ${x1 - edge},${TRACE_HEIGHT} ${x0 + edge},${TRACE_HEIGHT}`;
+            // Roughly 6px per character at text-[10px]
+            const fits = x1 - x0 - 2 * edge > seg.label.length * 6;
+            return (
+              <g key={seg.start}>
+                <polygon points={points} fill={color} fillOpacity={0.12} />
+                <title>{`${seg.label} (samples ${seg.start}–${seg.end - 1})`}</title>
+                {fits && (
+                  <text x={(x0 + x1) / 2} y={mid + 3.5} textAnchor="middle" stroke="none" fill="currentColor" className="text-[10px] font-mono">
+                    {seg.label}
+                  </text>
+                )}
+              </g>
+            );
+          })}
+        </>
+      );
+    case 'analog': {
+      // Line through sample centres, scaled to the trace's range
+      const span = trace.max - trace.min;
+      const y = (v: number) => (span === 0 ? TRACE_HEIGHT / 2 : TRACE_HEIGHT - ((v - trace.min) / span) * TRACE_HEIGHT);
+      const runs: string[] = [];
+      let path = '';
+      trace.points.forEach((v, i) => {
+        if (v === null) {
+          if (path) runs.push(path);
+          path = '';
+          return;
+        }
+        path += `${path ? ' L' : 'M'} ${(i + 0.5) * step} ${y(v)}`;
+      });
+      if (path) runs.push(path);
+      return <>{runs.map((d, i) => <path key={i} d={d} />)}</>;
+    }
+  }
+}
+
+function SampleAxis({ count, step }: { count: number; step: number }) {
+  // Aim for a tick at least every 60px
+  const every = Math.max(1, Math.ceil(60 / Math.max(step, 1e-9)));
+  const ticks = Array.from({ length: Math.ceil(count / every) }, (_, i) => i * every);
+  return (
+    <div className="flex">
+      <div className="shrink-0 px-2 text-[10px] text-gray-400 dark:text-gray-500" style={{ width: LABEL_WIDTH }}>
+        sample
+      </div>
+      <div className="relative flex-1 h-4">
+        {ticks.map((t) => (
+          <span
+            key={t}
+            className="absolute text-[10px] font-mono text-gray-400 dark:text-gray-500 -translate-x-1/2"
+            style={{ left: (t + 0.5) * step }}
+          >
+            {t}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { useAppState, useAppDispatch } from '../../context/app-context';
+import type { RegisterDef } from '../../types/register';
+import { applyWrite } from '../../utils/access';
+import { formatRegisterValue } from '../../utils/format';
+
+interface Props {
+  register: RegisterDef;
+  writeValue: bigint;
+  onWriteValueChange: (value: bigint) => void;
+}
+
+/**
+ * Summary of a pending write: the current register value and the value it
+ * would hold after the write, given each field's access semantics.
+ */
+export function WritePreviewBar({ register, writeValue, onWriteValueChange }: Props) {
+  const state = useAppState();
+  const dispatch = useAppDispatch();
+  const current = state.registerValues[register.id] ?? 0n;
+  const result = applyWrite(current, writeValue, register);
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 px-3 py-2 rounded-md bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 text-sm">
+      <span className="text-gray-600 dark:text-gray-300">
+        Current <span className="font-mono">{formatRegisterValue(current, register.width)}</span>
+      </span>
+      <span className="text-gray-600 dark:text-gray-300">
+        After write <span className="font-mono font-semibold" data-testid="write-result">{formatRegisterValue(result, register.width)}</span>
+      </span>
+      <div className="flex gap-2 ml-auto">
+        <button
+          onClick={() => onWriteValueChange(0n)}
+          className="px-2 py-1 rounded text-xs font-medium bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+        >
+          Clear
+        </button>
+        <button
+          onClick={() => dispatch({ type: 'SET_REGISTER_VALUE', registerId: register.id, value: result })}
+          className="px-2 py-1 rounded text-xs font-medium bg-blue-600 text-white hover:bg-blue-700 transition-colors"
+        >
+          Apply write
+        </button>
+      </div>
+    </div>
+  );
+}
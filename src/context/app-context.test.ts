@@ -105,6 +105,95 @@ describe('ADD_REGISTER', () => {
     const next = appReducer(state, { type: 'ADD_REGISTER', register: reg });
     expect(next.registerValues['reg-new']).toBe(0n);
   });
+
+  it('initializes the register value to its reset value', () => {
+    const reg = makeRegister({ id: 'reg-new', resetValue: 0x80n, fields: [makeField({ msb: 3, lsb: 0, resetValue: 0x5n })] });
+    const next = appReducer(makeState(), { type: 'ADD_REGISTER', register: reg });
+    expect(next.registerValues['reg-new']).toBe(0x85n);
+  });
+});
+
+describe('RESET_REGISTER', () => {
+  it('restores the reset value of one register', () => {
+    const r1 = makeRegister({ id: 'reg-1', resetValue: 0x10n });
+    const r2 = makeRegister({ id: 'reg-2', resetValue: 0x20n });
+    const state = makeState({ registers: [r1, r2], registerValues: { 'reg-1': 0xFFn, 'reg-2': 0xFFn } });
+    const next = appReducer(state, { type: 'RESET_REGISTER', registerId: 'reg-1' });
+    expect(next.registerValues).toEqual({ 'reg-1': 0x10n, 'reg-2': 0xFFn });
+  });
+
+  it('is a no-op for an unknown register', () => {
+    const state = makeState({ registers: [makeRegister()] });
+    expect(appReducer(state, { type: 'RESET_REGISTER', registerId: 'missing' })).toBe(state);
+  });
+});
+
+describe('RESET_ALL_REGISTERS', () => {
+  it('restores every register to its reset value', () => {
+    const r1 = makeRegister({ id: 'reg-1', resetValue: 0x10n });
+    const r2 = makeRegister({ id: 'reg-2' });
+    const state = makeState({ registers: [r1, r2], registerValues: { 'reg-1': 0xFFn, 'reg-2': 0xFFn } });
+    const next = appReducer(state, { type: 'RESET_ALL_REGISTERS' });
+    expect(next.registerValues).toEqual({ 'reg-1': 0x10n, 'reg-2': 0n });
+  });
+});
+
+describe('register arrays', () => {
+  const channels = makeRegister({ id: 'ch', name: 'CH%s', resetValue: 0x5n, dim: { count: 3, stride: 4 } });
+
+  it('ADD_REGISTER initializes every instance and selects the first', () => {
+    const next = appReducer(makeState(), { type: 'ADD_REGISTER', register: channels });
+    expect(next.registerValues).toEqual({ 'ch:0': 0x5n, 'ch:1': 0x5n, 'ch:2': 0x5n });
+    expect(next.activeRegisterId).toBe('ch:0');
+  });
+
+  it('RESET_REGISTER resets a single instance', () => {
+    const state = makeState({ registers: [channels], registerValues: { 'ch:0': 1n, 'ch:1': 1n } });
+    const next = appReducer(state, { type: 'RESET_REGISTER', registerId: 'ch:1' });
+    expect(next.registerValues).toEqual({ 'ch:0': 1n, 'ch:1': 0x5n });
+  });
+
+  it('DELETE_REGISTER removes instance values and moves the selection off the array', () => {
+    const other = makeRegister({ id: 'other' });
+    const state = makeState({
+      registers: [channels, other],
+      activeRegisterId: 'ch:2',
+      registerValues: { 'ch:0': 1n, 'ch:2': 1n, other: 3n },
+    });
+    const next = appReducer(state, { type: 'DELETE_REGISTER', registerId: 'ch' });
+    expect(next.registerValues).toEqual({ other: 3n });
+    expect(next.activeRegisterId).toBe('other');
+  });
+
+  it('UPDATE_REGISTER keeps the selection on the array when its instance disappears', () => {
+    const state = makeState({ registers: [channels], activeRegisterId: 'ch:2' });
+    const shrunk = appReducer(state, { type: 'UPDATE_REGISTER', register: { ...channels, dim: { count: 2, stride: 4 } } });
+    expect(shrunk.activeRegisterId).toBe('ch:0');
+    const { dim: _, ...plain } = channels;
+    void _;
+    const flattened = appReducer(shrunk, { type: 'UPDATE_REGISTER', register: plain });
+    expect(flattened.activeRegisterId).toBe('ch');
+  });
+
+  it('UPDATE_REGISTER starts new instances at reset when the array grows', () => {
+    const state = makeState({ registers: [channels], registerValues: { 'ch:0': 1n, 'ch:1': 2n, 'ch:2': 3n } });
+    const next = appReducer(state, { type: 'UPDATE_REGISTER', register: { ...channels, dim: { count: 4, stride: 4 } } });
+    expect(next.registerValues).toEqual({ 'ch:0': 1n, 'ch:1': 2n, 'ch:2': 3n, 'ch:3': 0x5n });
+  });
+
+  it('UPDATE_REGISTER drops values and snapshot entries of removed instances', () => {
+    const other = makeRegister({ id: 'other' });
+    const state = makeState({
+      registers: [channels, other],
+      registerValues: { 'ch:0': 1n, 'ch:1': 2n, 'ch:2': 3n, other: 4n },
+      snapshots: [{ id: 'snap-1', name: 'fault', values: { 'ch:0': 7n, 'ch:2': 9n, other: 8n } }],
+    });
+    const next = appReducer(state, { type: 'UPDATE_REGISTER', register: { ...channels, dim: { count: 2, stride: 4 } } });
+    expect(next.registerValues).toEqual({ 'ch:0': 1n, 'ch:1': 2n, other: 4n });
+    expect(next.snapshots[0].values).toEqual({ 'ch:0': 7n, other: 8n });
+    const loaded = appReducer(next, { type: 'LOAD_SNAPSHOT', snapshotId: 'snap-1' });
+    expect(Object.keys(loaded.registerValues)).not.toContain('ch:2');
+  });
 });
 
 describe('UPDATE_REGISTER', () => {
@@ -223,6 +312,12 @@ describe('IMPORT_STATE', () => {
     expect(next.registerValues['reg-1']).toBe(0n);
   });
 
+  it('falls back to the reset value for registers without a provided value', () => {
+    const reg = makeRegister({ id: 'reg-1', resetValue: 0x3n });
+    const next = appReducer(makeState(), { type: 'IMPORT_STATE', registers: [reg], values: {} });
+    expect(next.registerValues['reg-1']).toBe(0x3n);
+  });
+
   it('ignores values for registers not in the imported list', () => {
     const reg = makeRegister({ id: 'reg-1' });
     const state = makeState();
@@ -337,6 +432,59 @@ describe('SORT_REGISTERS_BY_OFFSET', () => {
   });
 });
 
+describe('register groups', () => {
+  const uart = { id: 'g1', name: 'UART0', baseAddress: 0x4000 };
+
+  it('adds, updates and deletes groups', () => {
+    let state = appReducer(makeState(), { type: 'ADD_GROUP', group: uart });
+    expect(state.groups).toEqual([uart]);
+    state = appReducer(state, { type: 'UPDATE_GROUP', group: { ...uart, baseAddress: 0x8000 } });
+    expect(state.groups[0].baseAddress).toBe(0x8000);
+    state = appReducer(state, { type: 'DELETE_GROUP', groupId: 'g1' });
+    expect(state.groups).toEqual([]);
+  });
+
+  it('keeps the registers of a deleted group at their absolute address', () => {
+    const state = makeState({
+      groups: [uart],
+      registers: [makeRegister({ id: 'reg-1', offset: 4, groupId: 'g1' }), makeRegister({ id: 'reg-2', groupId: 'g1' })],
+    });
+    const next = appReducer(state, { type: 'DELETE_GROUP', groupId: 'g1' });
+    expect(next.registers[0]).toMatchObject({ offset: 0x4004 });
+    expect(next.registers.every((r) => r.groupId === undefined)).toBe(true);
+  });
+
+  it('moves a register between groups when reordering with a group id', () => {
+    const state = makeState({
+      groups: [uart],
+      registers: [makeRegister({ id: 'reg-1' }), makeRegister({ id: 'reg-2', groupId: 'g1' })],
+    });
+    const moved = appReducer(state, { type: 'REORDER_REGISTERS', oldIndex: 0, newIndex: 1, groupId: 'g1' });
+    expect(moved.registers.map((r) => [r.id, r.groupId])).toEqual([['reg-2', 'g1'], ['reg-1', 'g1']]);
+    const back = appReducer(moved, { type: 'REORDER_REGISTERS', oldIndex: 1, newIndex: 0, groupId: null });
+    expect(back.registers[0]).toMatchObject({ id: 'reg-1' });
+    expect(back.registers[0].groupId).toBeUndefined();
+  });
+
+  it('sorts by absolute address', () => {
+    const state = makeState({
+      groups: [uart],
+      registers: [makeRegister({ id: 'reg-1', offset: 0, groupId: 'g1' }), makeRegister({ id: 'reg-2', offset: 0x100 })],
+    });
+    const next = appReducer(state, { type: 'SORT_REGISTERS_BY_OFFSET' });
+    expect(next.registers.map((r) => r.id)).toEqual(['reg-2', 'reg-1']);
+  });
+
+  it('replaces groups on import and clears them with the workspace', () => {
+    const state = makeState({ groups: [uart] });
+    const imported = appReducer(state, { type: 'IMPORT_STATE', registers: [], values: {} });
+    expect(imported.groups).toEqual([]);
+    const withGroups = appReducer(state, { type: 'IMPORT_STATE', registers: [], values: {}, groups: [{ ...uart, id: 'g2' }] });
+    expect(withGroups.groups.map((g) => g.id)).toEqual(['g2']);
+    expect(appReducer(state, { type: 'CLEAR_WORKSPACE' }).groups).toEqual([]);
+  });
+});
+
 describe('CLEAR_WORKSPACE', () => {
   it('removes all registers and values', () => {
     const state = makeState({
@@ -369,6 +517,33 @@ describe('CLEAR_WORKSPACE', () => {
   });
 });
 
+describe('snapshots', () => {
+  const snapshot = { id: 'snap-1', name: 'fault', values: { 'reg-1': 0xAAn } };
+
+  it('LOAD_SNAPSHOT restores its values and keeps values it does not cover', () => {
+    const state = makeState({ registerValues: { 'reg-1': 0n, 'reg-2': 0xBBn }, snapshots: [snapshot] });
+    const next = appReducer(state, { type: 'LOAD_SNAPSHOT', snapshotId: 'snap-1' });
+    expect(next.registerValues).toEqual({ 'reg-1': 0xAAn, 'reg-2': 0xBBn });
+  });
+
+  it('DELETE_REGISTER removes the register from every snapshot', () => {
+    const state = makeState({
+      registers: [makeRegister({ id: 'reg-1' }), makeRegister({ id: 'reg-2' })],
+      snapshots: [{ ...snapshot, values: { 'reg-1': 1n, 'reg-2': 2n } }],
+    });
+    const next = appReducer(state, { type: 'DELETE_REGISTER', registerId: 'reg-1' });
+    expect(next.snapshots[0].values).toEqual({ 'reg-2': 2n });
+  });
+
+  it('adds, renames and deletes snapshots', () => {
+    let state = appReducer(makeState(), { type: 'ADD_SNAPSHOT', snapshot });
+    state = appReducer(state, { type: 'UPDATE_SNAPSHOT', snapshot: { ...snapshot, name: 'after init' } });
+    expect(state.snapshots.map((s) => s.name)).toEqual(['after init']);
+    state = appReducer(state, { type: 'DELETE_SNAPSHOT', snapshotId: 'snap-1' });
+    expect(state.snapshots).toEqual([]);
+  });
+});
+
 describe('default case', () => {
   it('returns state unchanged for an unknown action type', () => {
     const state = makeState({ theme: 'dark' });
@@ -1,7 +1,13 @@
 import { createContext, useContext, useReducer, type ReactNode, type Dispatch } from 'react';
 import { arrayMove } from '@dnd-kit/sortable';
-import { SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, ADDRESS_UNIT_BITS_VALUES, MAP_TABLE_WIDTH_VALUES, type AddressUnitBits, type AppState, type MapTableWidth, type RegisterDef, type Field, type ProjectMetadata } from '../types/register';
-import { replaceBits, toggleBit } from '../utils/bitwise';
+import { SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, ADDRESS_UNIT_BITS_VALUES, BIT_NUMBERING_DEFAULT, BYTE_ORDER_DEFAULT, MAP_TABLE_WIDTH_VALUES, type AddressUnitBits, type AppState, type BitNumbering, type ByteOrder, type MapTableWidth, type RegisterDef, type RegisterGroup, type Field, type ProjectMetadata, type ValueSnapshot } from '../types/register';
+import { toggleBit } from '../utils/bitwise';
+import { replaceFieldBits } from '../utils/field-slices';
+import { resetValueOf } from '../utils/reset';
+import { baseRegisterId, expandRegister, expandRegisters, findRegister } from '../utils/register-array';
+import { absoluteOffset } from '../utils/register-groups';
+import { historyReducer, initHistory, type History } from './history';
+import { recordValueChanges } from '../utils/value-history';
 
 function isValidAddressUnitBits(n: number): n is AddressUnitBits {
   return (ADDRESS_UNIT_BITS_VALUES as readonly number[]).includes(n);
@@ -11,16 +17,26 @@ function isValidAddressUnitBits(n: number): n is AddressUnitBits {
 
 export type Action =
   | { type: 'SET_REGISTER_VALUE'; registerId: string; value: bigint }
+  | { type: 'SET_REGISTER_VALUES'; values: Record<string, bigint> }
   | { type: 'TOGGLE_BIT'; registerId: string; bit: number }
   | { type: 'SET_FIELD_VALUE'; registerId: string; field: Field; rawBits: bigint }
+  | { type: 'RESET_REGISTER'; registerId: string }
+  | { type: 'RESET_ALL_REGISTERS' }
   | { type: 'ADD_REGISTER'; register: RegisterDef }
   | { type: 'UPDATE_REGISTER'; register: RegisterDef }
   | { type: 'DELETE_REGISTER'; registerId: string }
   | { type: 'SET_ACTIVE_REGISTER'; registerId: string }
   | { type: 'TOGGLE_THEME' }
-  | { type: 'IMPORT_STATE'; registers: RegisterDef[]; values: Record<string, bigint>; project?: ProjectMetadata; addressUnitBits?: AddressUnitBits }
+  | { type: 'ADD_GROUP'; group: RegisterGroup }
+  | { type: 'UPDATE_GROUP'; group: RegisterGroup }
+  | { type: 'DELETE_GROUP'; groupId: string }
+  | { type: 'ADD_SNAPSHOT'; snapshot: ValueSnapshot }
+  | { type: 'UPDATE_SNAPSHOT'; snapshot: ValueSnapshot }
+  | { type: 'DELETE_SNAPSHOT'; snapshotId: string }
+  | { type: 'LOAD_SNAPSHOT'; snapshotId: string }
+  | { type: 'IMPORT_STATE'; registers: RegisterDef[]; values: Record<string, bigint>; project?: ProjectMetadata; addressUnitBits?: AddressUnitBits; byteOrder?: ByteOrder; bitNumbering?: BitNumbering; groups?: RegisterGroup[]; snapshots?: ValueSnapshot[] }
   | { type: 'LOAD_STATE'; state: AppState }
-  | { type: 'REORDER_REGISTERS'; oldIndex: number; newIndex: number }
+  | { type: 'REORDER_REGISTERS'; oldIndex: number; newIndex: number; groupId?: string | null }
   | { type: 'SORT_REGISTERS_BY_OFFSET' }
   | { type: 'CLEAR_WORKSPACE' }
   | { type: 'SET_PROJECT_METADATA'; project: ProjectMetadata | undefined }
@@ -29,7 +45,11 @@ export type Action =
   | { type: 'SET_MAP_TABLE_WIDTH'; width: MapTableWidth }
   | { type: 'SET_MAP_SHOW_GAPS'; showGaps: boolean }
   | { type: 'SET_MAP_SORT_DESCENDING'; descending: boolean }
-  | { type: 'SET_ADDRESS_UNIT_BITS'; addressUnitBits: number };
+  | { type: 'SET_ADDRESS_UNIT_BITS'; addressUnitBits: number }
+  | { type: 'SET_BYTE_ORDER'; byteOrder: ByteOrder }
+  | { type: 'SET_BIT_NUMBERING'; bitNumbering: BitNumbering }
+  | { type: 'UNDO' }
+  | { type: 'REDO' };
 
 // --- Reducer ---
 
@@ -49,6 +69,12 @@ export function appReducer(state: AppState, action: Action): AppState {
         registerValues: { ...state.registerValues, [action.registerId]: action.value },
       };
     }
+    case 'SET_REGISTER_VALUES': {
+      return {
+        ...state,
+        registerValues: { ...state.registerValues, ...action.values },
+      };
+    }
     case 'TOGGLE_BIT': {
       const current = state.registerValues[action.registerId] ?? 0n;
       return {
@@ -61,53 +87,127 @@ export function appReducer(state: AppState, action: Action): AppState {
     }
     case 'SET_FIELD_VALUE': {
       const current = state.registerValues[action.registerId] ?? 0n;
-      const updated = replaceBits(current, action.field.msb, action.field.lsb, action.rawBits);
+      const updated = replaceFieldBits(current, action.field, action.rawBits);
       return {
         ...state,
         registerValues: { ...state.registerValues, [action.registerId]: updated },
       };
     }
-    case 'ADD_REGISTER': {
+    case 'RESET_REGISTER': {
+      const register = findRegister(state.registers, action.registerId);
+      if (!register) return state;
       return {
         ...state,
-        registers: [...state.registers, action.register],
-        activeRegisterId: action.register.id,
-        registerValues: { ...state.registerValues, [action.register.id]: 0n },
+        registerValues: { ...state.registerValues, [register.id]: resetValueOf(register) },
       };
     }
-    case 'UPDATE_REGISTER': {
+    case 'RESET_ALL_REGISTERS': {
+      const registerValues: Record<string, bigint> = {};
+      for (const r of expandRegisters(state.registers)) {
+        registerValues[r.id] = resetValueOf(r);
+      }
+      return { ...state, registerValues };
+    }
+    case 'ADD_REGISTER': {
+      const instances = expandRegister(action.register);
+      const registerValues = { ...state.registerValues };
+      for (const r of instances) {
+        registerValues[r.id] = resetValueOf(r);
+      }
       return {
         ...state,
-        registers: state.registers.map((r) =>
-          r.id === action.register.id ? action.register : r
-        ),
+        registers: [...state.registers, action.register],
+        activeRegisterId: instances[0].id,
+        registerValues,
       };
     }
+    case 'UPDATE_REGISTER': {
+      const registers = state.registers.map((r) =>
+        r.id === action.register.id ? action.register : r
+      );
+      // Keep the selection on the edited register when its array shape changes
+      const activeId = state.activeRegisterId;
+      const activeRegisterId = activeId !== null && baseRegisterId(activeId) === action.register.id && !findRegister(registers, activeId)
+        ? (findRegister(registers, action.register.id)?.id ?? null)
+        : activeId;
+      // Values follow the instances the array now has: new ones start at reset, removed ones are dropped
+      const instances = expandRegister(action.register);
+      const instanceIds = new Set(instances.map((r) => r.id));
+      const isStale = (id: string) => baseRegisterId(id) === action.register.id && !instanceIds.has(id);
+      const registerValues = Object.fromEntries(Object.entries(state.registerValues).filter(([id]) => !isStale(id)));
+      for (const r of instances) {
+        if (!(r.id in registerValues)) registerValues[r.id] = resetValueOf(r);
+      }
+      const snapshots = state.snapshots.map((s) => ({
+        ...s,
+        values: Object.fromEntries(Object.entries(s.values).filter(([id]) => !isStale(id))),
+      }));
+      return { ...state, registers, activeRegisterId, registerValues, snapshots };
+    }
     case 'DELETE_REGISTER': {
       const remaining = state.registers.filter((r) => r.id !== action.registerId);
-      const { [action.registerId]: _, ...remainingValues } = state.registerValues;
-      void _;
+      const remainingValues: Record<string, bigint> = {};
+      for (const [id, value] of Object.entries(state.registerValues)) {
+        if (baseRegisterId(id) !== action.registerId) remainingValues[id] = value;
+      }
+      const snapshots = state.snapshots.map((s) => ({
+        ...s,
+        values: Object.fromEntries(Object.entries(s.values).filter(([id]) => baseRegisterId(id) !== action.registerId)),
+      }));
+      const activeDeleted = state.activeRegisterId !== null && baseRegisterId(state.activeRegisterId) === action.registerId;
       return {
         ...state,
         registers: remaining,
         registerValues: remainingValues,
-        activeRegisterId:
-          state.activeRegisterId === action.registerId
-            ? (remaining[0]?.id ?? null)
-            : state.activeRegisterId,
+        snapshots,
+        activeRegisterId: activeDeleted
+          ? (remaining[0] ? expandRegister(remaining[0])[0].id : null)
+          : state.activeRegisterId,
       };
     }
     case 'SET_ACTIVE_REGISTER': {
       return { ...state, activeRegisterId: action.registerId };
     }
+    case 'ADD_GROUP': {
+      return { ...state, groups: [...state.groups, action.group] };
+    }
+    case 'UPDATE_GROUP': {
+      return { ...state, groups: state.groups.map((g) => (g.id === action.group.id ? action.group : g)) };
+    }
+    case 'DELETE_GROUP': {
+      // Registers stay at their addresses, outside any group
+      const registers = state.registers.map((r) => {
+        if (r.groupId !== action.groupId) return r;
+        const { groupId: _groupId, ...rest } = r;
+        void _groupId;
+        const offset = absoluteOffset(r, state.groups);
+        return offset !== undefined ? { ...rest, offset } : rest;
+      });
+      return { ...state, registers, groups: state.groups.filter((g) => g.id !== action.groupId) };
+    }
+    case 'ADD_SNAPSHOT': {
+      return { ...state, snapshots: [...state.snapshots, action.snapshot] };
+    }
+    case 'UPDATE_SNAPSHOT': {
+      return { ...state, snapshots: state.snapshots.map((s) => (s.id === action.snapshot.id ? action.snapshot : s)) };
+    }
+    case 'DELETE_SNAPSHOT': {
+      return { ...state, snapshots: state.snapshots.filter((s) => s.id !== action.snapshotId) };
+    }
+    case 'LOAD_SNAPSHOT': {
+      // Registers the snapshot does not cover keep their current values
+      const snapshot = state.snapshots.find((s) => s.id === action.snapshotId);
+      if (!snapshot) return state;
+      return { ...state, registerValues: { ...state.registerValues, ...snapshot.values } };
+    }
     case 'TOGGLE_THEME': {
       const next = state.theme === 'dark' ? 'light' : 'dark';
       return { ...state, theme: next };
     }
     case 'IMPORT_STATE': {
       const newValues: Record<string, bigint> = {};
-      for (const r of action.registers) {
-        newValues[r.id] = action.values[r.id] ?? 0n;
+      for (const r of expandRegisters(action.registers)) {
+        newValues[r.id] = action.values[r.id] ?? resetValueOf(r);
       }
       const importedBits = action.addressUnitBits ?? state.addressUnitBits;
       const maxRegWidth = action.registers.reduce((max, r) => Math.max(max, r.width), 0);
@@ -116,10 +216,14 @@ export function appReducer(state: AppState, action: Action): AppState {
       return {
         ...state,
         registers: action.registers,
+        groups: action.groups ?? [],
         registerValues: newValues,
-        activeRegisterId: action.registers[0]?.id ?? null,
+        snapshots: action.snapshots ?? [],
+        activeRegisterId: action.registers[0] ? expandRegister(action.registers[0])[0].id : null,
         project: action.project,
         addressUnitBits: importedBits,
+        byteOrder: action.byteOrder ?? state.byteOrder,
+        bitNumbering: action.bitNumbering ?? state.bitNumbering,
         mapTableWidth: importedTableWidth,
       };
     }
@@ -127,14 +231,26 @@ export function appReducer(state: AppState, action: Action): AppState {
       return action.state;
     }
     case 'REORDER_REGISTERS': {
-      return { ...state, registers: arrayMove(state.registers, action.oldIndex, action.newIndex) };
+      // Dropping onto a register in another group moves the register into that group
+      const { groupId } = action;
+      const registers = groupId === undefined
+        ? state.registers
+        : state.registers.map((r, i) => {
+          if (i !== action.oldIndex) return r;
+          const { groupId: _groupId, ...rest } = r;
+          void _groupId;
+          return groupId === null ? rest : { ...rest, groupId };
+        });
+      return { ...state, registers: arrayMove(registers, action.oldIndex, action.newIndex) };
     }
     case 'SORT_REGISTERS_BY_OFFSET': {
       const sorted = [...state.registers].sort((a, b) => {
-        if (a.offset == null && b.offset == null) return 0;
-        if (a.offset == null) return 1;
-        if (b.offset == null) return -1;
-        return a.offset - b.offset;
+        const aOffset = absoluteOffset(a, state.groups);
+        const bOffset = absoluteOffset(b, state.groups);
+        if (aOffset == null && bOffset == null) return 0;
+        if (aOffset == null) return 1;
+        if (bOffset == null) return -1;
+        return aOffset - bOffset;
       });
       return { ...state, registers: sorted };
     }
@@ -142,7 +258,9 @@ export function appReducer(state: AppState, action: Action): AppState {
       return {
         ...state,
         registers: [],
+        groups: [],
         registerValues: {},
+        snapshots: [],
         activeRegisterId: null,
         project: undefined,
       };
@@ -173,6 +291,12 @@ export function appReducer(state: AppState, action: Action): AppState {
         : state.mapTableWidth;
       return { ...state, addressUnitBits: newBits, mapTableWidth: clampedWidth };
     }
+    case 'SET_BYTE_ORDER': {
+      return { ...state, byteOrder: action.byteOrder };
+    }
+    case 'SET_BIT_NUMBERING': {
+      return { ...state, bitNumbering: action.bitNumbering };
+    }
     default:
       return state;
   }
@@ -182,8 +306,11 @@ export function appReducer(state: AppState, action: Action): AppState {
 
 const initialState: AppState = {
   registers: [],
+  groups: [],
   activeRegisterId: null,
   registerValues: {},
+  snapshots: [],
+  valueHistory: {},
   theme: 'dark',
   sidebarWidth: SIDEBAR_WIDTH_DEFAULT,
   sidebarCollapsed: false,
@@ -191,15 +318,39 @@ const initialState: AppState = {
   mapShowGaps: true,
   mapSortDescending: false,
   addressUnitBits: ADDRESS_UNIT_BITS_DEFAULT,
+  byteOrder: BYTE_ORDER_DEFAULT,
+  bitNumbering: BIT_NUMBERING_DEFAULT,
 };
 
 const AppStateContext = createContext<AppState | null>(null);
 const AppDispatchContext = createContext<Dispatch<Action> | null>(null);
 
+/** Actions replacing the workspace, whose values are loaded rather than edited. */
+const TIMELINE_RESETS: ReadonlySet<Action['type']> = new Set(['IMPORT_STATE', 'LOAD_STATE', 'CLEAR_WORKSPACE']);
+
+/**
+ * The app reducer with undo history and the value timeline. A change merged
+ * into the previous undo step (rapid typing) also extends the timeline's last
+ * entry; undo and redo are recorded as changes of their own. Importing,
+ * loading or clearing the workspace starts the timeline over.
+ */
+function appHistoryReducer(history: History, action: Action): History {
+  const now = Date.now();
+  const next = historyReducer(history, action, appReducer, now);
+  if (next === history) return next;
+  const before = history.present;
+  const after = next.present;
+  if (TIMELINE_RESETS.has(action.type)) {
+    return Object.keys(after.valueHistory).length === 0 ? next : { ...next, present: { ...after, valueHistory: {} } };
+  }
+  const valueHistory = recordValueChanges(after.valueHistory, before.registerValues, after.registerValues, now, next.past === history.past);
+  return valueHistory === after.valueHistory ? next : { ...next, present: { ...after, valueHistory } };
+}
+
 export function AppProvider({ children, savedState }: { children: ReactNode; savedState?: AppState }) {
-  const [state, dispatch] = useReducer(appReducer, savedState ?? initialState);
+  const [history, dispatch] = useReducer(appHistoryReducer, savedState ?? initialState, initHistory);
   return (
-    <AppStateContext.Provider value={state}>
+    <AppStateContext.Provider value={history.present}>
       <AppDispatchContext.Provider value={dispatch}>
         {children}
       </AppDispatchContext.Provider>
@@ -1,4 +1,4 @@
-import { renderHook } from '@testing-library/react';
+import { act, renderHook } from '@testing-library/react';
 import { AppProvider, useAppState, useAppDispatch } from './app-context';
 import { makeState, makeRegister } from '../test/helpers';
 import type { ReactNode } from 'react';
@@ -39,3 +39,38 @@ describe('AppProvider', () => {
     expect(typeof result.current).toBe('function');
   });
 });
+
+describe('AppProvider history', () => {
+  function wrapper({ children }: { children: ReactNode }) {
+    const saved = makeState({ registers: [makeRegister({ id: 'reg-1' })], registerValues: { 'reg-1': 0n } });
+    return <AppProvider savedState={saved}>{children}</AppProvider>;
+  }
+
+  it('records value changes in the timeline and keeps it through undo', () => {
+    const { result } = renderHook(() => ({ state: useAppState(), dispatch: useAppDispatch() }), { wrapper });
+    act(() => result.current.dispatch({ type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 2 }));
+    expect(result.current.state.valueHistory['reg-1']).toMatchObject([{ value: 4n, previous: 0n }]);
+    act(() => result.current.dispatch({ type: 'UNDO' }));
+    expect(result.current.state.registerValues['reg-1']).toBe(0n);
+    expect(result.current.state.valueHistory['reg-1']).toMatchObject([
+      { value: 4n, previous: 0n },
+      { value: 0n, previous: 4n },
+    ]);
+  });
+
+  it('starts the timeline over on import, load and clear', () => {
+    const { result } = renderHook(() => ({ state: useAppState(), dispatch: useAppDispatch() }), { wrapper });
+    act(() => result.current.dispatch({ type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 2 }));
+    act(() => result.current.dispatch({ type: 'IMPORT_STATE', registers: [makeRegister({ id: 'reg-1' })], values: { 'reg-1': 9n } }));
+    expect(result.current.state.registerValues['reg-1']).toBe(9n);
+    expect(result.current.state.valueHistory).toEqual({});
+
+    act(() => result.current.dispatch({ type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 2 }));
+    act(() => result.current.dispatch({ type: 'LOAD_STATE', state: makeState({ registers: [makeRegister({ id: 'reg-1' })], registerValues: { 'reg-1': 3n } }) }));
+    expect(result.current.state.valueHistory).toEqual({});
+
+    act(() => result.current.dispatch({ type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 2 }));
+    act(() => result.current.dispatch({ type: 'CLEAR_WORKSPACE' }));
+    expect(result.current.state.valueHistory).toEqual({});
+  });
+});
@@ -0,0 +1,105 @@
+import { appReducer, type Action } from './app-context';
+import { COALESCE_MS, HISTORY_LIMIT, historyReducer, initHistory, type History } from './history';
+import { makeField, makeRegister, makeState } from '../test/helpers';
+
+function run(history: History, actions: Action[], start = 0, step = COALESCE_MS): History {
+  return actions.reduce((h, action, i) => historyReducer(h, action, appReducer, start + i * step), history);
+}
+
+const register = makeRegister({ id: 'reg-1' });
+const initial = () => initHistory(makeState({ registers: [register], registerValues: { 'reg-1': 0n } }));
+
+describe('historyReducer', () => {
+  it('undoes and redoes value changes', () => {
+    let h = run(initial(), [{ type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 0 }, { type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 1 }]);
+    expect(h.present.registerValues['reg-1']).toBe(3n);
+    h = run(h, [{ type: 'UNDO' }]);
+    expect(h.present.registerValues['reg-1']).toBe(1n);
+    h = run(h, [{ type: 'UNDO' }, { type: 'UNDO' }]);
+    expect(h.present.registerValues['reg-1']).toBe(0n);
+    h = run(h, [{ type: 'REDO' }, { type: 'REDO' }]);
+    expect(h.present.registerValues['reg-1']).toBe(3n);
+  });
+
+  it('undoes a deleted register, with its value and selection', () => {
+    const start = initHistory(makeState({ registers: [register], registerValues: { 'reg-1': 5n }, activeRegisterId: 'reg-1' }));
+    const h = run(start, [{ type: 'DELETE_REGISTER', registerId: 'reg-1' }, { type: 'UNDO' }]);
+    expect(h.present.registers).toEqual([register]);
+    expect(h.present.registerValues['reg-1']).toBe(5n);
+    expect(h.present.activeRegisterId).toBe('reg-1');
+  });
+
+  it('coalesces rapid edits of the same value into one step', () => {
+    const typing: Action[] = [1n, 12n, 123n].map((value) => ({ type: 'SET_REGISTER_VALUE', registerId: 'reg-1', value }));
+    let h = run(initial(), typing, 0, 100);
+    expect(h.past).toHaveLength(1);
+    h = run(h, [{ type: 'UNDO' }]);
+    expect(h.present.registerValues['reg-1']).toBe(0n);
+  });
+
+  it('does not coalesce slow edits or edits of different fields', () => {
+    const slow = run(initial(), [
+      { type: 'SET_REGISTER_VALUE', registerId: 'reg-1', value: 1n },
+      { type: 'SET_REGISTER_VALUE', registerId: 'reg-1', value: 2n },
+    ]);
+    expect(slow.past).toHaveLength(2);
+    const a = makeField({ id: 'a', msb: 3, lsb: 0 });
+    const b = makeField({ id: 'b', msb: 7, lsb: 4 });
+    const fields = run(initial(), [
+      { type: 'SET_FIELD_VALUE', registerId: 'reg-1', field: a, rawBits: 1n },
+      { type: 'SET_FIELD_VALUE', registerId: 'reg-1', field: b, rawBits: 1n },
+    ], 0, 10);
+    expect(fields.past).toHaveLength(2);
+  });
+
+  it('does not record view changes and keeps them across undo', () => {
+    let h = run(initial(), [
+      { type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 0 },
+      { type: 'SET_SIDEBAR_WIDTH', width: 300 },
+      { type: 'TOGGLE_THEME' },
+    ]);
+    expect(h.past).toHaveLength(1);
+    h = run(h, [{ type: 'UNDO' }]);
+    expect(h.present.registerValues['reg-1']).toBe(0n);
+    expect(h.present.sidebarWidth).toBe(300);
+    expect(h.present.theme).toBe('light');
+  });
+
+  it('clears redo after a new change and ignores undo with no history', () => {
+    const start = initial();
+    expect(run(start, [{ type: 'UNDO' }])).toBe(start);
+    const h = run(start, [
+      { type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 0 },
+      { type: 'UNDO' },
+      { type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 2 },
+    ]);
+    expect(h.future).toEqual([]);
+    expect(run(h, [{ type: 'REDO' }])).toBe(h);
+  });
+
+  it('undoes values set for several registers at once in one step', () => {
+    const start = initHistory(makeState({
+      registers: [register, makeRegister({ id: 'reg-2' })],
+      registerValues: { 'reg-1': 0n, 'reg-2': 7n },
+    }));
+    let h = run(start, [{ type: 'SET_REGISTER_VALUES', values: { 'reg-1': 1n, 'reg-2': 2n } }]);
+    expect(h.past).toHaveLength(1);
+    h = run(h, [{ type: 'UNDO' }]);
+    expect(h.present.registerValues).toEqual({ 'reg-1': 0n, 'reg-2': 7n });
+  });
+
+  it('undoes an import and a cleared workspace', () => {
+    const h = run(initial(), [
+      { type: 'CLEAR_WORKSPACE' },
+      { type: 'IMPORT_STATE', registers: [makeRegister({ id: 'reg-2' })], values: {} },
+      { type: 'UNDO' },
+    ]);
+    expect(h.present.registers).toEqual([]);
+    expect(run(h, [{ type: 'UNDO' }]).present.registers).toEqual([register]);
+  });
+
+  it('keeps at most HISTORY_LIMIT steps', () => {
+    const toggles: Action[] = Array.from({ length: HISTORY_LIMIT + 5 }, () => ({ type: 'TOGGLE_BIT', registerId: 'reg-1', bit: 0 }));
+    expect(run(initial(), toggles).past).toHaveLength(HISTORY_LIMIT);
+  });
+});
@@ -0,0 +1,121 @@
+import type { AppState } from '../types/register';
+import type { Action } from './app-context';
+
+/** How many undo steps are kept. */
+export const HISTORY_LIMIT = 100;
+
+/** Repeated edits of the same value within this window are undone as one step. */
+export const COALESCE_MS = 1000;
+
+export interface History {
+  past: AppState[];
+  present: AppState;
+  future: AppState[];
+  /** Coalescing key and time of the last recorded action. */
+  last?: { key: string; time: number };
+}
+
+/** Actions that change values or definitions; everything else is view state and is not undone. */
+const UNDOABLE: ReadonlySet<Action['type']> = new Set<Action['type']>([
+  'SET_REGISTER_VALUE',
+  'SET_REGISTER_VALUES',
+  'TOGGLE_BIT',
+  'SET_FIELD_VALUE',
+  'RESET_REGISTER',
+  'RESET_ALL_REGISTERS',
+  'ADD_REGISTER',
+  'UPDATE_REGISTER',
+  'DELETE_REGISTER',
+  'ADD_GROUP',
+  'UPDATE_GROUP',
+  'DELETE_GROUP',
+  'ADD_SNAPSHOT',
+  'UPDATE_SNAPSHOT',
+  'DELETE_SNAPSHOT',
+  'LOAD_SNAPSHOT',
+  'IMPORT_STATE',
+  'REORDER_REGISTERS',
+  'SORT_REGISTERS_BY_OFFSET',
+  'CLEAR_WORKSPACE',
+  'SET_PROJECT_METADATA',
+  'SET_ADDRESS_UNIT_BITS',
+  'SET_BYTE_ORDER',
+  'SET_BIT_NUMBERING',
+]);
+
+/** View settings and the value timeline, which undo and redo leave as they are. */
+const KEPT_KEYS = ['theme', 'sidebarWidth', 'sidebarCollapsed', 'mapTableWidth', 'mapShowGaps', 'mapSortDescending', 'valueHistory'] as const;
+
+/**
+ * Key under which rapid repeats of an action merge into one undo step, e.g.
+ * typing into one value field. Actions without a key are always separate steps.
+ */
+function coalesceKey(action: Action): string | undefined {
+  switch (action.type) {
+    case 'SET_REGISTER_VALUE':
+      return `value:${action.registerId}`;
+    case 'SET_FIELD_VALUE':
+      return `field:${action.registerId}:${action.field.id}`;
+    default:
+      return undefined;
+  }
+}
+
+function withKept(state: AppState, current: AppState): AppState {
+  const result = { ...state };
+  for (const key of KEPT_KEYS) {
+    (result as Record<string, unknown>)[key] = current[key];
+  }
+  return result;
+}
+
+export function initHistory(present: AppState): History {
+  return { past: [], present, future: [] };
+}
+
+/**
+ * Apply an action with undo history. `UNDO` and `REDO` step through the
+ * recorded states, keeping the current view settings and value timeline; `LOAD_STATE` starts a
+ * new history; other actions that are not undoable change the present only.
+ */
+export function historyReducer(
+  history: History,
+  action: Action,
+  reducer: (state: AppState, action: Action) => AppState,
+  now: number,
+): History {
+  const { past, present, future } = history;
+  switch (action.type) {
+    case 'UNDO': {
+      if (past.length === 0) return history;
+      return {
+        past: past.slice(0, -1),
+        present: withKept(past[past.length - 1], present),
+        future: [present, ...future],
+      };
+    }
+    case 'REDO': {
+      if (future.length === 0) return history;
+      return {
+        past: [...past, present],
+        present: withKept(future[0], present),
+        future: future.slice(1),
+      };
+    }
+    case 'LOAD_STATE':
+      return initHistory(reducer(present, action));
+  }
+
+  const next = reducer(present, action);
+  if (next === present) return history;
+  if (!UNDOABLE.has(action.type)) return { ...history, present: next };
+
+  const key = coalesceKey(action);
+  const coalesce = key !== undefined && history.last?.key === key && now - history.last.time < COALESCE_MS;
+  return {
+    past: coalesce ? past : [...past, present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: [],
+    last: key !== undefined ? { key, time: now } : undefined,
+  };
+}
@@ -1,4 +1,4 @@
-import { SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, type IntegerField, type FlagField, type EnumField, type FloatField, type FixedPointField, type RegisterDef, type AppState } from '../types/register';
+import { SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, BYTE_ORDER_DEFAULT, BIT_NUMBERING_DEFAULT, type IntegerField, type FlagField, type EnumField, type FloatField, type FixedPointField, type RegisterDef, type AppState } from '../types/register';
 
 /** Creates an IntegerField by default. For other types, use the type-specific factories. */
 export function makeField(overrides: Partial<IntegerField> = {}): IntegerField {
@@ -72,8 +72,11 @@ export function makeRegister(overrides: Partial<RegisterDef> = {}): RegisterDef
 export function makeState(overrides: Partial<AppState> = {}): AppState {
   return {
     registers: [],
+    groups: [],
     activeRegisterId: null,
     registerValues: {},
+    snapshots: [],
+    valueHistory: {},
     theme: 'dark',
     sidebarWidth: SIDEBAR_WIDTH_DEFAULT,
     sidebarCollapsed: false,
@@ -81,6 +84,8 @@ export function makeState(overrides: Partial<AppState> = {}): AppState {
     mapShowGaps: true,
     mapSortDescending: false,
     addressUnitBits: ADDRESS_UNIT_BITS_DEFAULT,
+    byteOrder: BYTE_ORDER_DEFAULT,
+    bitNumbering: BIT_NUMBERING_DEFAULT,
     ...overrides,
   };
 }
@@ -1,21 +1,44 @@
-export type FieldType = 'flag' | 'enum' | 'integer' | 'float' | 'fixed-point';
+export type FieldType = 'flag' | 'enum' | 'integer' | 'float' | 'fixed-point' | 'bcd' | 'gray' | 'ascii' | 'one-hot' | 'bitset';
 
 export interface EnumEntry {
   value: number;
   name: string;
 }
 
+/** Name of one bit of a bitset field; `bit` counts from the field's LSB. */
+export interface BitName {
+  bit: number;
+  name: string;
+}
+
 export interface QFormat {
   m: number; // integer bits
   n: number; // fractional bits
 }
 
+/**
+ * Software access semantics of a field. `w1c`/`w1s` fields are readable;
+ * writing a 1 clears/sets the bit and writing a 0 leaves it unchanged.
+ * `rc` fields are read-only and clear when read.
+ */
+export type AccessType = 'rw' | 'ro' | 'wo' | 'w1c' | 'w1s' | 'rc';
+export const ACCESS_TYPES: readonly AccessType[] = ['rw', 'ro', 'wo', 'w1c', 'w1s', 'rc'];
+
+/** A contiguous range of register bits holding part of a field. */
+export interface BitSlice {
+  msb: number;
+  lsb: number;
+}
+
 export interface BaseField {
   id: string;
   name: string;
   description?: string;
   msb: number; // most significant bit (inclusive)
   lsb: number; // least significant bit (inclusive)
+  slices?: BitSlice[]; // split field: register bit ranges from the least significant part of the value up; msb/lsb span them all
+  access?: AccessType; // defaults to the register's access
+  resetValue?: bigint; // raw field bits at reset; overrides the register reset value
 }
 
 export interface FlagField extends BaseField {
@@ -30,9 +53,17 @@ export interface EnumField extends BaseField {
 
 export type Signedness = 'unsigned' | 'twos-complement' | 'sign-magnitude';
 
+/** Linear conversion of a raw field value to a physical quantity: `raw * scale + offset`. */
+export interface FieldScaling {
+  scale: number; // non-zero
+  offset: number;
+  unit?: string; // e.g. 'mV', '°C'
+}
+
 export interface IntegerField extends BaseField {
   type: 'integer';
   signedness?: Signedness;
+  scaling?: FieldScaling;
 }
 
 export interface FloatField extends BaseField {
@@ -43,9 +74,46 @@ export interface FloatField extends BaseField {
 export interface FixedPointField extends BaseField {
   type: 'fixed-point';
   qFormat: QFormat;
+  scaling?: FieldScaling;
 }
 
-export type Field = FlagField | EnumField | IntegerField | FloatField | FixedPointField;
+/** Binary-coded decimal: one decimal digit per nibble. */
+export interface BcdField extends BaseField {
+  type: 'bcd';
+}
+
+/** Reflected binary (Gray) code, decoded to its unsigned integer value. */
+export interface GrayField extends BaseField {
+  type: 'gray';
+}
+
+/** ASCII characters, one per byte, with the most significant byte first. */
+export interface AsciiField extends BaseField {
+  type: 'ascii';
+}
+
+/** One-hot code: exactly one bit is set, and its index is the value. */
+export interface OneHotField extends BaseField {
+  type: 'one-hot';
+}
+
+/** A set of independent named bits, such as an interrupt-enable mask. */
+export interface BitsetField extends BaseField {
+  type: 'bitset';
+  bitNames: BitName[];
+}
+
+export type Field =
+  | FlagField
+  | EnumField
+  | IntegerField
+  | FloatField
+  | FixedPointField
+  | BcdField
+  | GrayField
+  | AsciiField
+  | OneHotField
+  | BitsetField;
 
 /** Flat representation with all type-specific properties optional. Used for form drafts. */
 export interface FieldDraft {
@@ -54,40 +122,57 @@ export interface FieldDraft {
   description?: string;
   msb: number;
   lsb: number;
+  slices?: BitSlice[];
   type: FieldType;
+  access?: AccessType;
+  resetValue?: bigint;
   signedness?: Signedness;
   enumEntries?: EnumEntry[];
   floatType?: 'half' | 'single' | 'double';
   qFormat?: QFormat;
+  scaling?: FieldScaling;
+  bitNames?: BitName[];
   flagLabels?: { clear: string; set: string };
 }
 
 /** Convert a flat FieldDraft into the proper discriminated union Field. */
 export function toField(draft: FieldDraft): Field {
-  const base = { id: draft.id, name: draft.name, description: draft.description, msb: draft.msb, lsb: draft.lsb };
+  const base = { id: draft.id, name: draft.name, description: draft.description, msb: draft.msb, lsb: draft.lsb, slices: draft.slices, access: draft.access, resetValue: draft.resetValue };
   switch (draft.type) {
     case 'flag':
       return { ...base, type: 'flag', flagLabels: draft.flagLabels };
     case 'enum':
       return { ...base, type: 'enum', enumEntries: draft.enumEntries ?? [] };
     case 'integer':
-      return { ...base, type: 'integer', signedness: draft.signedness };
+      return { ...base, type: 'integer', signedness: draft.signedness, scaling: draft.scaling };
     case 'float':
       return { ...base, type: 'float', floatType: draft.floatType ?? 'single' };
     case 'fixed-point':
-      return { ...base, type: 'fixed-point', qFormat: draft.qFormat ?? { m: 0, n: 0 } };
+      return { ...base, type: 'fixed-point', qFormat: draft.qFormat ?? { m: 0, n: 0 }, scaling: draft.scaling };
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':
+      return { ...base, type: draft.type };
+    case 'bitset':
+      return { ...base, type: 'bitset', bitNames: draft.bitNames ?? [] };
   }
 }
 
 /** Convert a Field union back into a flat FieldDraft for form editing. */
 export function toFieldDraft(field: Field): FieldDraft {
-  const base = { id: field.id, name: field.name, description: field.description, msb: field.msb, lsb: field.lsb, type: field.type };
+  const base = { id: field.id, name: field.name, description: field.description, msb: field.msb, lsb: field.lsb, slices: field.slices, access: field.access, resetValue: field.resetValue, type: field.type };
   switch (field.type) {
     case 'flag':        return { ...base, flagLabels: field.flagLabels };
     case 'enum':        return { ...base, enumEntries: field.enumEntries };
-    case 'integer':     return { ...base, signedness: field.signedness };
+    case 'integer':     return { ...base, signedness: field.signedness, scaling: field.scaling };
     case 'float':       return { ...base, floatType: field.floatType };
-    case 'fixed-point': return { ...base, qFormat: field.qFormat };
+    case 'fixed-point': return { ...base, qFormat: field.qFormat, scaling: field.scaling };
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':     return base;
+    case 'bitset':      return { ...base, bitNames: field.bitNames };
   }
 }
 
@@ -99,12 +184,41 @@ export interface ProjectMetadata {
   link?: string;
 }
 
+/** Repeats a register as `count` instances spaced `stride` address units apart. */
+export interface RegisterDim {
+  count: number;
+  stride: number;
+}
+
+/** An alternative set of fields, active while the selector field holds one of `selectorValues`. */
+export interface RegisterVariant {
+  id: string;
+  name: string;
+  selectorValues: number[];
+  fields: Field[];
+}
+
+/** A peripheral or block: registers in a group have offsets relative to its base address. */
+export interface RegisterGroup {
+  id: string;
+  name: string;
+  description?: string;
+  baseAddress: number; // in address units
+}
+
 export interface RegisterDef {
   id: string;
   name: string;
   description?: string;
   width: number; // total bits
   offset?: number; // address offset in address units (unit size is project-level addressUnitBits)
+  access?: AccessType; // default for fields without their own access; 'rw' when unset
+  resetValue?: bigint; // value after reset; 0 when unset
+  dim?: RegisterDim; // register array; `%s` in the name is replaced by the instance index
+  groupId?: string; // owning RegisterGroup; the offset is then relative to its base address
+  variantSelectorId?: string; // field whose value chooses the active variant
+  variants?: RegisterVariant[]; // fields present only in some modes, alongside the common `fields`
+  byteOrder?: ByteOrder; // order of the value's bytes in memory; project default when unset
   fields: Field[];
 }
 
@@ -119,10 +233,34 @@ export type AddressUnitBits = 8 | 16 | 32 | 64 | 128;
 export const ADDRESS_UNIT_BITS_VALUES: readonly AddressUnitBits[] = [8, 16, 32, 64, 128];
 export const ADDRESS_UNIT_BITS_DEFAULT: AddressUnitBits = 8;
 
+export type ByteOrder = 'little' | 'big';
+export const BYTE_ORDER_DEFAULT: ByteOrder = 'little';
+
+/** Bit index convention: `lsb0` counts from the least significant bit, `msb0` from the most significant. */
+export type BitNumbering = 'lsb0' | 'msb0';
+export const BIT_NUMBERING_DEFAULT: BitNumbering = 'lsb0';
+
+/** A named copy of register values, e.g. "after init" or "fault state". */
+export interface ValueSnapshot {
+  id: string;
+  name: string;
+  values: Record<string, bigint>; // register (instance) id -> value
+}
+
+/** One change of a register value, as recorded for the value history. */
+export interface ValueHistoryEntry {
+  value: bigint;
+  previous: bigint;
+  time: number; // ms since the epoch
+}
+
 export interface AppState {
   registers: RegisterDef[];
+  groups: RegisterGroup[];
   activeRegisterId: string | null;
   registerValues: Record<string, bigint>; // defId -> current value
+  snapshots: ValueSnapshot[];
+  valueHistory: Record<string, ValueHistoryEntry[]>; // register (instance) id -> changes, oldest first; not saved
   theme: 'light' | 'dark';
   project?: ProjectMetadata;
   sidebarWidth: number;
@@ -131,13 +269,34 @@ export interface AppState {
   mapShowGaps: boolean;
   mapSortDescending: boolean;
   addressUnitBits: AddressUnitBits;
+  byteOrder: ByteOrder; // default for registers without their own byte order
+  bitNumbering: BitNumbering; // how bit indices are shown and entered; the model is always LSB-0
 }
 
+type WithHexReset<T> = T extends unknown ? Omit<T, 'resetValue'> & { resetValue?: string } : never;
+
+/** JSON form of a Field: the reset value is a hex string. */
+export type SerializedField = WithHexReset<Field>;
+
+/** JSON form of a RegisterVariant. */
+export type SerializedRegisterVariant = Omit<RegisterVariant, 'fields'> & { fields: SerializedField[] };
+
+/** JSON form of a RegisterDef: reset values are hex strings. */
+export type SerializedRegisterDef = WithHexReset<Omit<RegisterDef, 'fields' | 'variants'>> & {
+  fields: SerializedField[];
+  variants?: SerializedRegisterVariant[];
+};
+
+/** JSON form of a ValueSnapshot: values are hex strings. */
+export type SerializedValueSnapshot = Omit<ValueSnapshot, 'values'> & { values: Record<string, string> };
+
 /** Serializable version of AppState for localStorage / JSON export */
 export interface SerializedAppState {
-  registers: RegisterDef[];
+  registers: SerializedRegisterDef[];
+  groups?: RegisterGroup[];
   activeRegisterId: string | null;
   registerValues: Record<string, string>; // defId -> hex string
+  snapshots?: SerializedValueSnapshot[];
   theme: 'light' | 'dark';
   project?: ProjectMetadata;
   sidebarWidth: number;
@@ -146,11 +305,24 @@ export interface SerializedAppState {
   mapShowGaps?: boolean;
   mapSortDescending?: boolean;
   addressUnitBits?: AddressUnitBits;
+  byteOrder?: ByteOrder;
+  bitNumbering?: BitNumbering;
+}
+
+/** A scaled field value in physical units. */
+export interface PhysicalValue {
+  value: number;
+  unit?: string;
 }
 
 export type DecodedValue =
   | { type: 'flag'; value: boolean }
   | { type: 'enum'; value: number; name: string | null }
-  | { type: 'integer'; value: number | bigint | '-0' }
+  | { type: 'integer'; value: number | bigint | '-0'; physical?: PhysicalValue }
   | { type: 'float'; value: number }
-  | { type: 'fixed-point'; value: number };
+  | { type: 'fixed-point'; value: number; physical?: PhysicalValue }
+  | { type: 'bcd'; value: bigint | null; digits: string } // value is null when a digit is above 9
+  | { type: 'gray'; value: bigint }
+  | { type: 'ascii'; value: string; valid: boolean } // valid is false when a byte is above 0x7F
+  | { type: 'one-hot'; value: number | null; hotBits: number[] } // value is null unless exactly one bit is set
+  | { type: 'bitset'; value: bigint; names: string[] }; // names of the set bits, lowest first
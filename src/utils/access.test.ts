@@ -0,0 +1,94 @@
+import { accessFromXml, accessMasks, accessToXml, applyWrite, isWritable, resolveAccess } from './access';
+import { makeField, makeFlagField, makeRegister } from '../test/helpers';
+
+const status = makeRegister({
+  width: 8,
+  access: 'ro',
+  fields: [
+    makeFlagField({ id: 'a', name: 'EN', msb: 0, lsb: 0, access: 'rw' }),
+    makeFlagField({ id: 'b', name: 'IRQ', msb: 1, lsb: 1, access: 'w1c' }),
+    makeFlagField({ id: 'c', name: 'GO', msb: 2, lsb: 2, access: 'w1s' }),
+    makeFlagField({ id: 'd', name: 'ERR', msb: 3, lsb: 3, access: 'rc' }),
+    makeField({ id: 'e', name: 'CMD', msb: 5, lsb: 4, access: 'wo' }),
+    makeField({ id: 'f', name: 'STATE', msb: 7, lsb: 6 }),
+  ],
+});
+
+describe('resolveAccess', () => {
+  it('prefers the field, then the register, then read/write', () => {
+    expect(resolveAccess(status.fields[1], status)).toBe('w1c');
+    expect(resolveAccess(status.fields[5], status)).toBe('ro');
+    expect(resolveAccess(undefined, status)).toBe('ro');
+    expect(resolveAccess(makeField(), makeRegister())).toBe('rw');
+  });
+});
+
+describe('isWritable', () => {
+  it('is false only for read-only and clear-on-read', () => {
+    expect(['rw', 'ro', 'wo', 'w1c', 'w1s', 'rc'].filter((a) => isWritable(a as never))).toEqual(['rw', 'wo', 'w1c', 'w1s']);
+  });
+});
+
+describe('accessMasks', () => {
+  it('groups bits by effective access', () => {
+    const masks = accessMasks(status);
+    expect(masks).toEqual({ rw: 0b1n, w1c: 0b10n, w1s: 0b100n, rc: 0b1000n, wo: 0b110000n, ro: 0b11000000n });
+  });
+
+  it('gives unassigned bits the register default and the first overlapping field precedence', () => {
+    const reg = makeRegister({
+      width: 8,
+      fields: [
+        makeField({ id: 'a', msb: 3, lsb: 0, access: 'ro' }),
+        makeField({ id: 'b', msb: 5, lsb: 2, access: 'w1c' }),
+      ],
+    });
+    const masks = accessMasks(reg);
+    expect(masks.ro).toBe(0b1111n);
+    expect(masks.w1c).toBe(0b110000n);
+    expect(masks.rw).toBe(0b11000000n);
+  });
+});
+
+describe('applyWrite', () => {
+  it('applies each access semantic', () => {
+    //               STATE CMD ERR GO IRQ EN
+    const current = 0b10_00_1_0_1_0n;
+    const written = 0b01_11_1_1_1_1n;
+    expect(applyWrite(current, written, status)).toBe(0b10_11_1_1_0_1n);
+  });
+
+  it('leaves W1C bits alone when a 0 is written', () => {
+    expect(applyWrite(0b10n, 0n, status) & 0b10n).toBe(0b10n);
+  });
+
+  it('replaces the whole value for plain read/write registers', () => {
+    expect(applyWrite(0xFFn, 0x12n, makeRegister({ width: 8, fields: [] }))).toBe(0x12n);
+  });
+});
+
+describe('accessFromXml / accessToXml', () => {
+  it('round-trips every access type', () => {
+    for (const access of ['rw', 'ro', 'wo', 'w1c', 'w1s', 'rc'] as const) {
+      const lossy: string[] = [];
+      expect(accessFromXml(accessToXml(access), 'F', lossy)).toBe(access);
+      expect(lossy).toEqual([]);
+    }
+  });
+
+  it('returns undefined without access elements', () => {
+    expect(accessFromXml({}, 'F', [])).toBeUndefined();
+  });
+
+  it('approximates and notes unsupported combinations', () => {
+    const lossy: string[] = [];
+    expect(accessFromXml({ access: 'writeOnce' }, 'F', lossy)).toBe('wo');
+    expect(accessFromXml({ access: 'read-write', modifiedWriteValues: 'oneToToggle' }, 'G', lossy)).toBe('rw');
+    expect(accessFromXml({ access: 'read-only', readAction: 'set' }, 'H', lossy)).toBe('ro');
+    expect(lossy).toEqual([
+      '"F": access "writeOnce" imported as write-only',
+      '"G": modified write value "oneToToggle" is not supported',
+      '"H": readAction "set" is not supported',
+    ]);
+  });
+});
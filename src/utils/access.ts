@@ -0,0 +1,108 @@
+import type { AccessType, Field, RegisterDef } from '../types/register';
+import { ACCESS_TYPES } from '../types/register';
+import { fieldMask } from './field-slices';
+
+export const ACCESS_LABELS: Record<AccessType, string> = {
+  rw: 'Read/write',
+  ro: 'Read-only',
+  wo: 'Write-only',
+  w1c: 'Write 1 to clear',
+  w1s: 'Write 1 to set',
+  rc: 'Clear on read',
+};
+
+/** Effective access of a field: its own, else the register default, else read/write. */
+export function resolveAccess(field: Field | undefined, register: Pick<RegisterDef, 'access'>): AccessType {
+  return field?.access ?? register.access ?? 'rw';
+}
+
+/** Whether software can change the field by writing to it. */
+export function isWritable(access: AccessType): boolean {
+  return access !== 'ro' && access !== 'rc';
+}
+
+/**
+ * Bit masks of the register grouped by effective access. Bits covered by
+ * overlapping fields take the first field's access, matching the bit grid;
+ * bits outside any field take the register default.
+ */
+export function accessMasks(register: Pick<RegisterDef, 'width' | 'access' | 'fields'>): Record<AccessType, bigint> {
+  const masks = Object.fromEntries(ACCESS_TYPES.map((a) => [a, 0n])) as Record<AccessType, bigint>;
+  let assigned = 0n;
+  const all = (1n << BigInt(register.width)) - 1n;
+  for (const field of register.fields) {
+    const mask = fieldMask(field) & all & ~assigned;
+    masks[resolveAccess(field, register)] |= mask;
+    assigned |= mask;
+  }
+  masks[register.access ?? 'rw'] |= all & ~assigned;
+  return masks;
+}
+
+/**
+ * Register value after software writes `written` over `current`: read/write
+ * and write-only bits take the written value, read-only and clear-on-read
+ * bits are unchanged, and W1C/W1S bits clear/set where a 1 is written.
+ */
+export function applyWrite(current: bigint, written: bigint, register: Pick<RegisterDef, 'width' | 'access' | 'fields'>): bigint {
+  const masks = accessMasks(register);
+  const replaced = written & (masks.rw | masks.wo);
+  const kept = current & (masks.ro | masks.rc);
+  const cleared = current & ~written & masks.w1c;
+  const set = (current | written) & masks.w1s;
+  return replaced | kept | cleared | set;
+}
+
+/** Access as SVD and IP-XACT express it; both use the same vocabulary. */
+export interface XmlAccess {
+  access?: string;
+  modifiedWriteValues?: string;
+  readAction?: string;
+}
+
+/**
+ * Map SVD/IP-XACT access elements to an access type. Returns undefined when
+ * none are given; combinations with no equivalent are approximated and noted
+ * in `lossy`.
+ */
+export function accessFromXml({ access, modifiedWriteValues, readAction }: XmlAccess, name: string, lossy: string[]): AccessType | undefined {
+  let result: AccessType | undefined;
+  switch (access) {
+    case undefined: break;
+    case 'read-write': result = 'rw'; break;
+    case 'read-only': result = 'ro'; break;
+    case 'write-only': result = 'wo'; break;
+    case 'writeOnce':
+      result = 'wo';
+      lossy.push(`"${name}": access "writeOnce" imported as write-only`);
+      break;
+    case 'read-writeOnce':
+      result = 'rw';
+      lossy.push(`"${name}": access "read-writeOnce" imported as read/write`);
+      break;
+    default:
+      lossy.push(`"${name}": access "${access}" is not supported`);
+  }
+  if (modifiedWriteValues && modifiedWriteValues !== 'modify') {
+    if (modifiedWriteValues === 'oneToClear' && result !== 'ro') result = 'w1c';
+    else if (modifiedWriteValues === 'oneToSet' && result !== 'ro') result = 'w1s';
+    else lossy.push(`"${name}": modified write value "${modifiedWriteValues}" is not supported`);
+  }
+  if (readAction) {
+    if (readAction === 'clear' && (result === undefined || result === 'ro')) result = 'rc';
+    else lossy.push(`"${name}": readAction "${readAction}" is not supported`);
+  }
+  return result;
+}
+
+/** SVD/IP-XACT access elements for an access type. */
+export function accessToXml(access: AccessType): XmlAccess & { access: string } {
+  switch (access) {
+    case 'rw':  return { access: 'read-write' };
+    case 'ro':  return { access: 'read-only' };
+    case 'wo':  return { access: 'write-only' };
+    case 'w1c': return { access: 'read-write', modifiedWriteValues: 'oneToClear' };
+    case 'w1s': return { access: 'read-write', modifiedWriteValues: 'oneToSet' };
+    case 'rc':  return { access: 'read-only', readAction: 'clear' };
+  }
+}
@@ -257,6 +257,18 @@ describe('fieldsForRow', () => {
     expect(result[1].startCol).toBe(6);
     expect(result[1].endCol).toBe(14);
   });
+
+  it('yields one entry per slice of a split field, labelled with its value bits', () => {
+    const row = { bits: [7, 6, 5, 4, 3, 2, 1, 0], startBit: 7, endBit: 0 };
+    const split: Field = { ...makeField('S', 7, 0), slices: [{ msb: 1, lsb: 0 }, { msb: 7, lsb: 6 }] };
+    const result = fieldsForRow(row, [split]);
+    expect(result.map((fi) => [fi.fieldIndex, fi.sliceIndex, fi.part, fi.startCol])).toEqual([
+      [0, 0, '[1:0]', 7],
+      [0, 1, '[3:2]', 1],
+    ]);
+    const ranges = unassignedRangesForRow(row, [split]);
+    expect(ranges.map((r) => [r.startBit, r.endBit])).toEqual([[5, 2]]);
+  });
 });
 
 describe('unassignedRangesForRow', () => {
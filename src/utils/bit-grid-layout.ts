@@ -1,5 +1,6 @@
 import type { Field } from '../types/register';
 import { extractBits } from './bitwise';
+import { fieldHasBit, fieldSlices, isSplitField } from './field-slices';
 
 export interface BitRow {
   bits: number[];
@@ -13,6 +14,10 @@ export interface FieldInRow {
   startCol: number;
   endCol: number;
   isPartial: boolean;
+  /** Index of the field slice shown; always 0 for unsplit fields. */
+  sliceIndex: number;
+  /** Value bits the slice holds for split fields, e.g. `[7:4]`. */
+  part?: string;
 }
 
 /** Default cell width in pixels (matches the 2rem = 32px bit cell). */
@@ -211,7 +216,7 @@ function computeNibbleFieldIndex(lsb: number, msb: number, fields: Field[]): num
   for (let b = lsb; b <= msb; b++) {
     let found = false;
     for (let i = 0; i < fields.length; i++) {
-      if (b >= fields[i].lsb && b <= fields[i].msb) {
+      if (fieldHasBit(fields[i], b)) {
         if (matchIndex === null) {
           matchIndex = i;
         } else if (matchIndex !== i) {
@@ -233,8 +238,8 @@ function computeNibbleFieldIndex(lsb: number, msb: number, fields: Field[]): num
 function computeNibbleFieldIndices(lsb: number, msb: number, fields: Field[]): number[] {
   const indices: number[] = [];
   for (let i = 0; i < fields.length; i++) {
-    // Field overlaps nibble if field.msb >= lsb AND field.lsb <= msb
-    if (fields[i].msb >= lsb && fields[i].lsb <= msb) {
+    // Field overlaps nibble if any slice has slice.msb >= lsb AND slice.lsb <= msb
+    if (fieldSlices(fields[i]).some((s) => s.msb >= lsb && s.lsb <= msb)) {
       indices.push(i);
     }
   }
@@ -255,10 +260,10 @@ export interface UnassignedRange {
 export function unassignedRangesForRow(row: BitRow, fields: Field[]): UnassignedRange[] {
   // Build set of assigned bit indices within this row
   const assigned = new Set<number>();
-  for (const field of fields) {
-    if (field.lsb > row.startBit || field.msb < row.endBit) continue;
-    const clampedMsb = Math.min(field.msb, row.startBit);
-    const clampedLsb = Math.max(field.lsb, row.endBit);
+  for (const slice of fields.flatMap(fieldSlices)) {
+    if (slice.lsb > row.startBit || slice.msb < row.endBit) continue;
+    const clampedMsb = Math.min(slice.msb, row.startBit);
+    const clampedLsb = Math.max(slice.lsb, row.endBit);
     for (let b = clampedLsb; b <= clampedMsb; b++) assigned.add(b);
   }
 
@@ -301,29 +306,39 @@ export function unassignedRangesForRow(row: BitRow, fields: Field[]): Unassigned
 /**
  * Find all fields overlapping a row and compute their CSS grid column spans.
  * Fields are clamped to the row's range. `isPartial` is true when a field
- * extends beyond the row.
+ * extends beyond the row. Split fields yield one entry per slice in the row,
+ * all sharing the field's index so they are coloured as one field.
  */
 export function fieldsForRow(row: BitRow, fields: Field[]): FieldInRow[] {
   const result: FieldInRow[] = [];
 
   for (let i = 0; i < fields.length; i++) {
     const field = fields[i];
-    // Check overlap: field [msb, lsb] vs row [startBit, endBit]
-    if (field.lsb > row.startBit || field.msb < row.endBit) continue;
-
-    const clampedMsb = Math.min(field.msb, row.startBit);
-    const clampedLsb = Math.max(field.lsb, row.endBit);
-    const isPartial = field.msb > row.startBit || field.lsb < row.endBit;
-
-    const startCol = bitToGridColumn(clampedMsb, row.startBit, row.bits.length);
-    const endCol = bitToGridColumn(clampedLsb, row.startBit, row.bits.length) + 1;
-
-    result.push({
-      field,
-      fieldIndex: i,
-      startCol,
-      endCol,
-      isPartial,
+    const split = isSplitField(field);
+    let valueLsb = 0;
+    fieldSlices(field).forEach((slice, sliceIndex) => {
+      const width = slice.msb - slice.lsb + 1;
+      const part = width === 1 ? `[${valueLsb}]` : `[${valueLsb + width - 1}:${valueLsb}]`;
+      valueLsb += width;
+      // Check overlap: slice [msb, lsb] vs row [startBit, endBit]
+      if (slice.lsb > row.startBit || slice.msb < row.endBit) return;
+
+      const clampedMsb = Math.min(slice.msb, row.startBit);
+      const clampedLsb = Math.max(slice.lsb, row.endBit);
+      const isPartial = slice.msb > row.startBit || slice.lsb < row.endBit;
+
+      const startCol = bitToGridColumn(clampedMsb, row.startBit, row.bits.length);
+      const endCol = bitToGridColumn(clampedLsb, row.startBit, row.bits.length) + 1;
+
+      result.push({
+        field,
+        fieldIndex: i,
+        startCol,
+        endCol,
+        isPartial,
+        sliceIndex,
+        ...(split && { part }),
+      });
     });
   }
 
@@ -0,0 +1,16 @@
+import type { BitNumbering } from '../types/register';
+
+export const BIT_NUMBERING_LABELS: Record<BitNumbering, string> = {
+  lsb0: 'LSB 0 (bit 0 is the least significant)',
+  msb0: 'MSB 0 (bit 0 is the most significant)',
+};
+
+/** A register bit index as shown to the user under the numbering convention. */
+export function displayBit(bit: number, registerWidth: number, numbering: BitNumbering): number {
+  return numbering === 'msb0' ? registerWidth - 1 - bit : bit;
+}
+
+/** The LSB-0 register bit index for a bit index entered under the numbering convention. */
+export function modelBit(bit: number, registerWidth: number, numbering: BitNumbering): number {
+  return numbering === 'msb0' ? registerWidth - 1 - bit : bit;
+}
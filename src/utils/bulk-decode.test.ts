@@ -0,0 +1,53 @@
+import { bulkDecode, bulkDecodeToCsv } from './bulk-decode';
+import { parseSamples } from './waveform';
+import { makeEnumField, makeField, makeFlagField, makeRegister } from '../test/helpers';
+
+describe('bulkDecode', () => {
+  const register = makeRegister({
+    name: 'CTRL',
+    width: 8,
+    fields: [
+      makeFlagField({ id: 'en', name: 'EN', msb: 0, lsb: 0 }),
+      makeEnumField({ id: 'mode', name: 'MODE', msb: 2, lsb: 1 }),
+      makeField({ id: 'div', name: 'DIV', msb: 7, lsb: 4 }),
+    ],
+  });
+
+  it('decodes one cell per field for each value', () => {
+    const table = bulkDecode(register, [0x31n, 0x02n]);
+    expect(table.fields.map((f) => f.name)).toEqual(['EN', 'MODE', 'DIV']);
+    expect(table.rows).toEqual([
+      { value: 0x31n, cells: ['true', 'A (0)', '3'] },
+      { value: 0x02n, cells: ['false', 'B (1)', '0'] },
+    ]);
+  });
+
+  it('decodes the value column of a multi-column CSV', () => {
+    const csv = 'cycle,value,timestamp\n10,0x31,1000\n11,0x02,1010';
+    const table = bulkDecode(register, parseSamples(csv, register.width).values);
+    expect(table.rows.map((r) => r.value)).toEqual([0x31n, 0x02n]);
+    expect(bulkDecodeToCsv(register, table)).toBe('value,EN,MODE,DIV\n0x31,true,A (0),3\n0x02,false,B (1),0\n');
+  });
+
+  it('leaves variant fields empty for values that select another variant', () => {
+    const sel = makeEnumField({ id: 'sel', name: 'SEL', msb: 0, lsb: 0 });
+    const duty = makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 1 });
+    const timer = makeRegister({
+      width: 8,
+      fields: [sel],
+      variantSelectorId: 'sel',
+      variants: [{ id: 'pwm', name: 'PWM', selectorValues: [0], fields: [duty] }],
+    });
+    const { rows } = bulkDecode(timer, [0x10n, 0x11n]);
+    expect(rows.map((r) => r.cells[1])).toEqual(['8', null]);
+  });
+
+  it('writes CSV with a hex value column and quotes cells that need it', () => {
+    const quoted = makeRegister({
+      width: 8,
+      fields: [makeEnumField({ id: 'm', name: 'M', msb: 0, lsb: 0, enumEntries: [{ value: 0, name: 'OFF, idle' }] })],
+    });
+    expect(bulkDecodeToCsv(register, bulkDecode(register, [0x31n]))).toBe('value,EN,MODE,DIV\n0x31,true,A (0),3\n');
+    expect(bulkDecodeToCsv(quoted, bulkDecode(quoted, [0n, 1n]))).toBe('value,M\n0x00,"OFF, idle (0)"\n0x01,1\n');
+  });
+});
@@ -0,0 +1,46 @@
+import type { Field, RegisterDef } from '../types/register';
+import { decodeField, formatDecodedValue } from './decode';
+import { formatRegisterValue } from './format';
+import { activeLayout, allFields } from './variants';
+
+export interface BulkDecodeRow {
+  value: bigint;
+  /** One per field of the table; null where the field is not part of the value's layout. */
+  cells: (string | null)[];
+}
+
+export interface BulkDecodeTable {
+  fields: Field[];
+  rows: BulkDecodeRow[];
+}
+
+/**
+ * Decode each value into one cell per field. Variant fields get a column of
+ * their own and are empty for values that select another variant.
+ */
+export function bulkDecode(register: RegisterDef, values: bigint[]): BulkDecodeTable {
+  const fields = allFields(register);
+  const rows = values.map((value) => {
+    const layout = activeLayout(register, value).fields;
+    return {
+      value,
+      cells: fields.map((field) =>
+        layout.some((f) => f.id === field.id) ? formatDecodedValue(decodeField(value, field)) : null,
+      ),
+    };
+  });
+  return { fields, rows };
+}
+
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/** The table as CSV: the raw value in hex, then one column per field. */
+export function bulkDecodeToCsv(register: RegisterDef, table: BulkDecodeTable): string {
+  const lines = [
+    ['value', ...table.fields.map((f) => f.name)],
+    ...table.rows.map((row) => [formatRegisterValue(row.value, register.width), ...row.cells.map((c) => c ?? '')]),
+  ];
+  return lines.map((cells) => cells.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,45 @@
+import { byteOrderOf, bytesToValue, formatBytes, parseBytes, valueToBytes } from './byte-order';
+
+describe('byteOrderOf', () => {
+  it('prefers the register byte order over the project default', () => {
+    expect(byteOrderOf({}, 'little')).toBe('little');
+    expect(byteOrderOf({ byteOrder: 'big' }, 'little')).toBe('big');
+  });
+});
+
+describe('valueToBytes / bytesToValue', () => {
+  it('lays out little-endian values least significant byte first', () => {
+    expect(valueToBytes(0x1234AC04n, 32, 'little')).toEqual([0x04, 0xAC, 0x34, 0x12]);
+    expect(bytesToValue([0x04, 0xAC, 0x34, 0x12], 32, 'little')).toBe(0x1234AC04n);
+  });
+
+  it('lays out big-endian values most significant byte first', () => {
+    expect(valueToBytes(0x1234AC04n, 32, 'big')).toEqual([0x12, 0x34, 0xAC, 0x04]);
+    expect(bytesToValue([0x12, 0x34, 0xAC, 0x04], 32, 'big')).toBe(0x1234AC04n);
+  });
+
+  it('counts a partial top byte and pads or cuts the byte list', () => {
+    expect(valueToBytes(0x3FFn, 10, 'little')).toEqual([0xFF, 0x03]);
+    expect(bytesToValue([0x01], 16, 'big')).toBe(0x0100n);
+    expect(bytesToValue([0x01, 0x02, 0x03], 16, 'little')).toBe(0x0201n);
+  });
+});
+
+describe('formatBytes / parseBytes', () => {
+  it('formats bytes as hex pairs', () => {
+    expect(formatBytes([0x04, 0xAC])).toBe('04 AC');
+  });
+
+  it('parses separated bytes, 0x prefixes and runs of digits', () => {
+    expect(parseBytes('04 ac 34 12')).toEqual([0x04, 0xAC, 0x34, 0x12]);
+    expect(parseBytes('0x04, 0xAC')).toEqual([0x04, 0xAC]);
+    expect(parseBytes('04AC3412')).toEqual([0x04, 0xAC, 0x34, 0x12]);
+    expect(parseBytes('4 c')).toEqual([0x04, 0x0C]);
+    expect(parseBytes('')).toEqual([]);
+  });
+
+  it('rejects non-hex text and odd-length runs', () => {
+    expect(parseBytes('04 zz')).toBeNull();
+    expect(parseBytes('04A')).toBeNull();
+  });
+});
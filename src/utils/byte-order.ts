@@ -0,0 +1,63 @@
+import type { ByteOrder, RegisterDef } from '../types/register';
+
+export const BYTE_ORDER_LABELS: Record<ByteOrder, string> = {
+  little: 'Little-endian',
+  big: 'Big-endian',
+};
+
+/** The register's byte order, falling back to the project default. */
+export function byteOrderOf(register: Pick<RegisterDef, 'byteOrder'>, projectDefault: ByteOrder): ByteOrder {
+  return register.byteOrder ?? projectDefault;
+}
+
+/** Number of bytes a register value occupies; a partial top byte counts as a byte. */
+export function byteCount(width: number): number {
+  return Math.ceil(width / 8);
+}
+
+/** The value's bytes in memory order: least significant first for little-endian. */
+export function valueToBytes(value: bigint, width: number, order: ByteOrder): number[] {
+  const bytes: number[] = [];
+  for (let i = 0; i < byteCount(width); i++) {
+    bytes.push(Number((value >> BigInt(i * 8)) & 0xFFn));
+  }
+  return order === 'little' ? bytes : bytes.reverse();
+}
+
+/**
+ * The value stored by bytes in memory order. Missing bytes are taken as zero
+ * and bytes beyond the register are ignored.
+ */
+export function bytesToValue(bytes: number[], width: number, order: ByteOrder): bigint {
+  const count = byteCount(width);
+  const memory = Array.from({ length: count }, (_, i) => bytes[i] ?? 0);
+  const lsbFirst = order === 'little' ? memory : memory.reverse();
+  return lsbFirst.reduceRight((value, byte) => (value << 8n) | BigInt(byte), 0n);
+}
+
+/** Bytes as space-separated hex pairs, e.g. `04 AC 34 12`. */
+export function formatBytes(bytes: number[]): string {
+  return bytes.map((b) => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+}
+
+/**
+ * Parse bytes as copied from a memory dump: hex bytes separated by spaces or
+ * commas, each with an optional `0x` prefix. A run of digits without
+ * separators is read two digits at a time. Returns null for anything else.
+ */
+export function parseBytes(text: string): number[] | null {
+  const bytes: number[] = [];
+  for (const token of text.trim().split(/[\s,]+/).filter(Boolean)) {
+    const digits = token.replace(/^0[xX]/, '');
+    if (!/^[0-9a-fA-F]+$/.test(digits)) return null;
+    if (digits.length <= 2) {
+      bytes.push(parseInt(digits, 16));
+      continue;
+    }
+    if (digits.length % 2 !== 0) return null;
+    for (let i = 0; i < digits.length; i += 2) {
+      bytes.push(parseInt(digits.slice(i, i + 2), 16));
+    }
+  }
+  return bytes;
+}
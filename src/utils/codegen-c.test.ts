@@ -0,0 +1,157 @@
+import { cTypeForWidth, generateCHeader, DEFAULT_C_HEADER_OPTIONS } from './codegen-c';
+import { makeEnumField, makeFlagField, makeField, makeRegister, makeState } from '../test/helpers';
+
+const ctrl = makeRegister({
+  name: 'Ctrl',
+  description: 'Control register',
+  width: 32,
+  offset: 0x10,
+  fields: [
+    makeEnumField({ id: 'f2', name: 'Mode', msb: 5, lsb: 4, enumEntries: [{ value: 0, name: 'Idle' }, { value: 3, name: 'Run fast' }] }),
+    makeFlagField({ id: 'f1', name: 'EN', msb: 0, lsb: 0, flagLabels: { clear: 'Off', set: 'On' } }),
+  ],
+});
+
+describe('cTypeForWidth', () => {
+  it('picks the smallest fitting unsigned type', () => {
+    expect(cTypeForWidth(1)).toBe('uint8_t');
+    expect(cTypeForWidth(8)).toBe('uint8_t');
+    expect(cTypeForWidth(9)).toBe('uint16_t');
+    expect(cTypeForWidth(32)).toBe('uint32_t');
+    expect(cTypeForWidth(33)).toBe('uint64_t');
+    expect(cTypeForWidth(64)).toBe('uint64_t');
+    expect(cTypeForWidth(65)).toBeNull();
+  });
+});
+
+describe('generateCHeader', () => {
+  it('wraps the output in an include guard derived from the project title', () => {
+    const header = generateCHeader(makeState({ project: { title: 'My Chip' } }));
+    expect(header).toContain('#ifndef MY_CHIP_H\n#define MY_CHIP_H');
+    expect(header).toContain('#include <stdint.h>');
+    expect(header.trimEnd().endsWith('#endif /* MY_CHIP_H */')).toBe(true);
+  });
+
+  it('falls back to a generic guard without a title', () => {
+    expect(generateCHeader(makeState())).toContain('#ifndef REGISTERS_H');
+  });
+
+  it('emits offset, position and mask macros', () => {
+    const header = generateCHeader(makeState({ registers: [ctrl] }));
+    expect(header).toMatch(/#define CTRL_OFFSET +0x10U/);
+    expect(header).toMatch(/#define CTRL_EN_Pos +0U/);
+    expect(header).toMatch(/#define CTRL_EN_Msk +\(0x1UL << CTRL_EN_Pos\)/);
+    expect(header).toMatch(/#define CTRL_MODE_Pos +4U/);
+    expect(header).toMatch(/#define CTRL_MODE_Msk +\(0x3UL << CTRL_MODE_Pos\)/);
+  });
+
+  it('emits variant fields prefixed with the variant name', () => {
+    const reg = makeRegister({
+      name: 'TIM',
+      width: 8,
+      fields: [makeField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0 })],
+      variantSelectorId: 'mode',
+      variants: [{ id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2 })] }],
+    });
+    const header = generateCHeader(makeState({ registers: [reg] }));
+    expect(header).toMatch(/#define TIM_MODE_Pos +0U/);
+    expect(header).toMatch(/#define TIM_PWM_DUTY_Pos +2U/);
+  });
+
+  it('orders fields by bit position', () => {
+    const header = generateCHeader(makeState({ registers: [ctrl] }));
+    expect(header.indexOf('CTRL_EN_Pos')).toBeLessThan(header.indexOf('CTRL_MODE_Pos'));
+  });
+
+  it('omits the offset macro for registers without an offset', () => {
+    const header = generateCHeader(makeState({ registers: [makeRegister({ name: 'STATUS' })] }));
+    expect(header).not.toContain('STATUS_OFFSET');
+  });
+
+  it('emits constants for enum entries and flag labels', () => {
+    const header = generateCHeader(makeState({ registers: [ctrl] }));
+    expect(header).toMatch(/#define CTRL_MODE_IDLE +0U/);
+    expect(header).toMatch(/#define CTRL_MODE_RUN_FAST +3U/);
+    expect(header).toMatch(/#define CTRL_EN_OFF +0U/);
+    expect(header).toMatch(/#define CTRL_EN_ON +1U/);
+  });
+
+  it('applies the prefix and case style', () => {
+    const lower = generateCHeader(makeState({ registers: [ctrl] }), { ...DEFAULT_C_HEADER_OPTIONS, prefix: 'tim1_', nameCase: 'lower' });
+    expect(lower).toMatch(/#define tim1_ctrl_mode_Pos +4U/);
+    expect(lower).toMatch(/#define tim1_ctrl_mode_run_fast +3U/);
+
+    const preserved = generateCHeader(makeState({ registers: [ctrl] }), { ...DEFAULT_C_HEADER_OPTIONS, prefix: 'TIM1_', nameCase: 'preserve' });
+    expect(preserved).toMatch(/#define TIM1_Ctrl_Mode_Pos +4U/);
+  });
+
+  it('suffixes value names that would redefine a field macro', () => {
+    const reg = makeRegister({
+      name: 'R',
+      fields: [makeEnumField({ name: 'F', msb: 1, lsb: 0, enumEntries: [{ value: 0, name: 'Pos' }, { value: 1, name: 'Msk' }] })],
+    });
+    const header = generateCHeader(makeState({ registers: [reg] }), { ...DEFAULT_C_HEADER_OPTIONS, nameCase: 'preserve' });
+    expect(header).toMatch(/#define R_F_Pos +0U/);
+    expect(header).toMatch(/#define R_F_Pos_VAL +0U/);
+    expect(header).toMatch(/#define R_F_Msk_VAL +1U/);
+    expect(header.match(/#define R_F_Pos /g)).toHaveLength(1);
+  });
+
+  it('emits inline helpers only when requested', () => {
+    const regs = makeState({ registers: [makeRegister({ name: 'R', width: 8, fields: [makeField({ name: 'VAL', msb: 6, lsb: 2 })] })] });
+    expect(generateCHeader(regs)).not.toContain('static inline');
+
+    const header = generateCHeader(regs, { ...DEFAULT_C_HEADER_OPTIONS, inlineHelpers: true });
+    expect(header).toContain('static inline uint8_t R_VAL_get(uint8_t reg)');
+    expect(header).toContain('return (uint8_t)((reg & R_VAL_Msk) >> R_VAL_Pos);');
+    expect(header).toContain('static inline uint8_t R_VAL_set(uint8_t reg, uint8_t value)');
+  });
+
+  it('uses 64-bit literals for 64-bit registers', () => {
+    const reg = makeRegister({ name: 'WIDE', width: 64, fields: [makeField({ name: 'HI', msb: 63, lsb: 32 })] });
+    const header = generateCHeader(makeState({ registers: [reg] }), { ...DEFAULT_C_HEADER_OPTIONS, inlineHelpers: true });
+    expect(header).toMatch(/#define WIDE_HI_Msk +\(0xFFFFFFFFULL << WIDE_HI_Pos\)/);
+    expect(header).toContain('static inline uint64_t WIDE_HI_get(uint64_t reg)');
+  });
+
+  it('splits registers wider than 64 bits into 32-bit words', () => {
+    const reg = makeRegister({
+      name: 'BIG',
+      width: 96,
+      fields: [
+        makeField({ id: 'a', name: 'LOW', msb: 7, lsb: 0 }),
+        makeField({ id: 'b', name: 'SPAN', msb: 39, lsb: 24 }),
+        makeField({ id: 'c', name: 'TOP', msb: 95, lsb: 64 }),
+      ],
+    });
+    const header = generateCHeader(makeState({ registers: [reg] }), { ...DEFAULT_C_HEADER_OPTIONS, inlineHelpers: true });
+    expect(header).toContain('(96-bit, uint32_t[3])');
+    expect(header).toMatch(/#define BIG_WORDS +3U/);
+    expect(header).toMatch(/#define BIG_TOP_Word +2U/);
+    expect(header).toMatch(/#define BIG_TOP_Pos +0U/);
+    expect(header).toMatch(/#define BIG_SPAN_Part0_Word +0U/);
+    expect(header).toMatch(/#define BIG_SPAN_Part0_Pos +24U/);
+    expect(header).toMatch(/#define BIG_SPAN_Part0_Msk +\(0xFFUL << BIG_SPAN_Part0_Pos\)/);
+    expect(header).toMatch(/#define BIG_SPAN_Part1_Word +1U/);
+    expect(header).toMatch(/#define BIG_SPAN_Part1_Msk +\(0xFFUL << BIG_SPAN_Part1_Pos\)/);
+    // Helpers only for fields contained in a single word
+    expect(header).toContain('BIG_LOW_get(uint32_t reg)');
+    expect(header).not.toContain('BIG_SPAN_get');
+  });
+
+  it('sanitizes and deduplicates identifiers', () => {
+    const header = generateCHeader(makeState({
+      registers: [
+        makeRegister({ id: 'a', name: '3v3 ctrl', offset: 0 }),
+        makeRegister({ id: 'b', name: '3V3-CTRL', offset: 4 }),
+      ],
+    }));
+    expect(header).toMatch(/#define _3V3_CTRL_OFFSET +0x0U/);
+    expect(header).toMatch(/#define _3V3_CTRL_1_OFFSET +0x4U/);
+  });
+
+  it('keeps descriptions from closing the comment early', () => {
+    const reg = makeRegister({ name: 'R', description: 'ends */ here' });
+    expect(generateCHeader(makeState({ registers: [reg] }))).toContain('/* R - ends * / here (32-bit, uint32_t) */');
+  });
+});
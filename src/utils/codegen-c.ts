@@ -0,0 +1,227 @@
+import type { AppState, EnumEntry, Field, RegisterDef } from '../types/register';
+import { withExpandedSplitFields } from './field-slices';
+import { expandRegisters } from './register-array';
+import { flattenGroups } from './register-groups';
+import { flattenVariants } from './variants';
+
+export type NameCase = 'upper' | 'lower' | 'preserve';
+
+export interface CHeaderOptions {
+  /** Prepended to every generated identifier, e.g. `TIM1_`. */
+  prefix: string;
+  nameCase: NameCase;
+  /** Emit `static inline` get/set helpers for each field. */
+  inlineHelpers: boolean;
+}
+
+export const DEFAULT_C_HEADER_OPTIONS: CHeaderOptions = {
+  prefix: '',
+  nameCase: 'upper',
+  inlineHelpers: false,
+};
+
+/** Registers wider than 64 bits are split into words of this size. */
+const WORD_BITS = 32;
+
+/** Smallest fixed-width unsigned C type holding `width` bits, or null above 64 bits. */
+export function cTypeForWidth(width: number): string | null {
+  if (width <= 8) return 'uint8_t';
+  if (width <= 16) return 'uint16_t';
+  if (width <= 32) return 'uint32_t';
+  if (width <= 64) return 'uint64_t';
+  return null;
+}
+
+/** Reduce a name to a C identifier (letters, digits, underscores; no leading digit). */
+function toCIdentifier(name: string, fallback: string): string {
+  const id = name.trim().replace(/[^A-Za-z0-9_]/g, '_');
+  if (!id) return fallback;
+  return /^[0-9]/.test(id) ? `_${id}` : id;
+}
+
+function applyCase(name: string, nameCase: NameCase): string {
+  switch (nameCase) {
+    case 'upper':
+      return name.toUpperCase();
+    case 'lower':
+      return name.toLowerCase();
+    case 'preserve':
+      return name;
+  }
+}
+
+/** Append `_1`, `_2`, ... to names already taken so every generated identifier is unique. */
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let i = 1; used.has(name); i++) name = `${base}_${i}`;
+  used.add(name);
+  return name;
+}
+
+/** Keep user text from terminating a block comment early. */
+function commentText(s: string): string {
+  return s.replace(/\*\//g, '* /').replace(/\s+/g, ' ').trim();
+}
+
+function hex(value: number | bigint): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+/** Literal suffix wide enough for masks of the given C type. */
+function literalSuffix(cType: string): string {
+  return cType === 'uint64_t' ? 'ULL' : 'UL';
+}
+
+function fieldMask(width: number): bigint {
+  return (1n << BigInt(width)) - 1n;
+}
+
+/** Named values a field can take: enum entries, the labels of a flag, or the masks of bitset bits. */
+function namedValues(field: Field): EnumEntry[] {
+  if (field.type === 'enum') return field.enumEntries;
+  if (field.type === 'bitset') return field.bitNames.map((b) => ({ value: 2 ** b.bit, name: b.name }));
+  if (field.type === 'flag' && field.flagLabels) {
+    return [{ value: 0, name: field.flagLabels.clear }, { value: 1, name: field.flagLabels.set }];
+  }
+  return [];
+}
+
+/** Column-align a block of `#define NAME VALUE` pairs. */
+function defines(pairs: [string, string][]): string[] {
+  const width = pairs.reduce((max, [name]) => Math.max(max, name.length), 0);
+  return pairs.map(([name, value]) => `#define ${name.padEnd(width)} ${value}`);
+}
+
+/** Suffixes of a field's own macros and helpers, which value names must not reuse. */
+const FIELD_SUFFIX = /^(Pos|Msk|Word|get|set|Part\d+_.*)$/;
+
+function enumDefines(field: Field, fieldMacro: string, nameCase: NameCase): [string, string][] {
+  const used = new Set<string>();
+  return namedValues(field).map((entry) => {
+    const base = applyCase(toCIdentifier(entry.name, `VALUE_${entry.value}`), nameCase);
+    const name = uniqueName(FIELD_SUFFIX.test(base) ? `${base}_VAL` : base, used);
+    return [`${fieldMacro}_${name}`, `${entry.value}U`];
+  });
+}
+
+function helperLines(fieldMacro: string, cType: string): string[] {
+  return [
+    `static inline ${cType} ${fieldMacro}_get(${cType} reg)`,
+    '{',
+    `  return (${cType})((reg & ${fieldMacro}_Msk) >> ${fieldMacro}_Pos);`,
+    '}',
+    '',
+    `static inline ${cType} ${fieldMacro}_set(${cType} reg, ${cType} value)`,
+    '{',
+    `  return (${cType})((reg & ~${fieldMacro}_Msk) | (((${cType})value << ${fieldMacro}_Pos) & ${fieldMacro}_Msk));`,
+    '}',
+  ];
+}
+
+/** Macros for a field of a register that fits a single C integer type. */
+function scalarFieldLines(field: Field, fieldMacro: string, cType: string, options: CHeaderOptions): string[] {
+  const width = field.msb - field.lsb + 1;
+  const lines = defines([
+    [`${fieldMacro}_Pos`, `${field.lsb}U`],
+    [`${fieldMacro}_Msk`, `(${hex(fieldMask(width))}${literalSuffix(cType)} << ${fieldMacro}_Pos)`],
+    ...enumDefines(field, fieldMacro, options.nameCase),
+  ]);
+  if (options.inlineHelpers) lines.push('', ...helperLines(fieldMacro, cType));
+  return lines;
+}
+
+/**
+ * Macros for a field of a register stored as an array of 32-bit words.
+ * A field crossing a word boundary gets one `_PartN` set of macros per word,
+ * least significant part first.
+ */
+function wordFieldLines(field: Field, fieldMacro: string, options: CHeaderOptions): string[] {
+  const parts: { word: number; lsb: number; width: number }[] = [];
+  for (let bit = field.lsb; bit <= field.msb;) {
+    const word = Math.floor(bit / WORD_BITS);
+    const top = Math.min(field.msb, (word + 1) * WORD_BITS - 1);
+    parts.push({ word, lsb: bit - word * WORD_BITS, width: top - bit + 1 });
+    bit = top + 1;
+  }
+
+  const pairs: [string, string][] = [];
+  parts.forEach((part, i) => {
+    const macro = parts.length === 1 ? fieldMacro : `${fieldMacro}_Part${i}`;
+    pairs.push(
+      [`${macro}_Word`, `${part.word}U`],
+      [`${macro}_Pos`, `${part.lsb}U`],
+      [`${macro}_Msk`, `(${hex(fieldMask(part.width))}UL << ${macro}_Pos)`],
+    );
+  });
+  pairs.push(...enumDefines(field, fieldMacro, options.nameCase));
+
+  const lines = defines(pairs);
+  if (options.inlineHelpers && parts.length === 1) lines.push('', ...helperLines(fieldMacro, 'uint32_t'));
+  return lines;
+}
+
+function registerLines(reg: RegisterDef, regMacro: string, options: CHeaderOptions): string[] {
+  const cType = cTypeForWidth(reg.width);
+  const storage = cType ?? `uint32_t[${Math.ceil(reg.width / WORD_BITS)}]`;
+  const title = reg.description ? `${reg.name} - ${reg.description}` : reg.name;
+  const lines = [`/* ${commentText(title)} (${reg.width}-bit, ${storage}) */`];
+
+  const regDefines: [string, string][] = [];
+  if (reg.offset != null) regDefines.push([`${regMacro}_OFFSET`, `${hex(reg.offset)}U`]);
+  if (!cType) regDefines.push([`${regMacro}_WORDS`, `${Math.ceil(reg.width / WORD_BITS)}U`]);
+  lines.push(...defines(regDefines));
+
+  const used = new Set<string>();
+  for (const field of [...reg.fields].sort((a, b) => a.lsb - b.lsb)) {
+    const fieldName = uniqueName(applyCase(toCIdentifier(field.name, 'FIELD'), options.nameCase), used);
+    const fieldMacro = `${regMacro}_${fieldName}`;
+    lines.push('');
+    if (field.description) lines.push(`/* ${commentText(field.description)} */`);
+    lines.push(...(cType
+      ? scalarFieldLines(field, fieldMacro, cType, options)
+      : wordFieldLines(field, fieldMacro, options)));
+  }
+  return lines;
+}
+
+/**
+ * Generate a C header with offset, position and mask macros for every
+ * register, constants for enum values and flag labels, and optionally
+ * `static inline` accessors. Registers of up to 64 bits use the smallest
+ * fitting `uintN_t`; wider ones are described as arrays of 32-bit words,
+ * word 0 holding the least significant bits. Split fields get one set of
+ * macros per slice, and variant fields are named `<variant>_<field>`.
+ */
+export function generateCHeader(
+  state: Pick<AppState, 'registers' | 'groups' | 'project'>,
+  options: CHeaderOptions = DEFAULT_C_HEADER_OPTIONS,
+): string {
+  const { project } = state;
+  const registers = expandRegisters(flattenGroups(state.registers, state.groups))
+    .map((reg) => flattenVariants(withExpandedSplitFields(reg)).register);
+  const prefix = options.prefix.trim() ? toCIdentifier(options.prefix, '') : '';
+  const guard = `${toCIdentifier(project?.title ?? '', 'REGISTERS').toUpperCase()}_H`;
+
+  const lines = ['/*'];
+  if (project?.title) lines.push(` * ${commentText(project.title)}`);
+  if (project?.description) lines.push(` * ${commentText(project.description)}`);
+  if (project?.title || project?.description) lines.push(' *');
+  lines.push(
+    ' * Generated by Register Viewer.',
+    ' */',
+    '',
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    '',
+    '#include <stdint.h>',
+  );
+
+  const used = new Set<string>();
+  for (const reg of registers) {
+    const regMacro = uniqueName(applyCase(prefix + toCIdentifier(reg.name, 'REGISTER'), options.nameCase), used);
+    lines.push('', ...registerLines(reg, regMacro, options));
+  }
+
+  lines.push('', `#endif /* ${guard} */`, '');
+  return lines.join('\n');
+}
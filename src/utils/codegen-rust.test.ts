@@ -0,0 +1,127 @@
+import { generateRustModule, rustIntType, rustUintType } from './codegen-rust';
+import { makeEnumField, makeFixedPointField, makeFlagField, makeFloatField, makeField, makeRegister, makeState } from '../test/helpers';
+
+const ctrl = makeRegister({
+  name: 'CTRL_REG',
+  description: 'Control register',
+  width: 32,
+  offset: 0x10,
+  fields: [
+    makeEnumField({ id: 'f2', name: 'MODE', msb: 5, lsb: 4, enumEntries: [{ value: 0, name: 'IDLE' }, { value: 3, name: 'run fast' }] }),
+    makeFlagField({ id: 'f1', name: 'EN', msb: 0, lsb: 0, description: 'Enable' }),
+  ],
+});
+
+describe('rust integer types', () => {
+  it('picks the smallest fitting type', () => {
+    expect(rustUintType(1)).toBe('u8');
+    expect(rustUintType(9)).toBe('u16');
+    expect(rustUintType(64)).toBe('u64');
+    expect(rustUintType(65)).toBe('u128');
+    expect(rustIntType(12)).toBe('i16');
+  });
+});
+
+describe('generateRustModule', () => {
+  it('emits a transparent newtype per register', () => {
+    const code = generateRustModule(makeState({ registers: [ctrl] }));
+    expect(code).toContain('/// Control register\n#[derive(Clone, Copy, Debug, Default, PartialEq, Eq)]\n#[repr(transparent)]\npub struct CtrlReg(pub u32);');
+    expect(code).toContain('pub const OFFSET: usize = 0x10;');
+    expect(code).toContain('pub const WIDTH: u32 = 32;');
+  });
+
+  it('documents field bits, adding MSB-0 positions when the project uses them', () => {
+    expect(generateRustModule(makeState({ registers: [ctrl] }))).toContain('/// Bits 5:4.');
+    const code = generateRustModule(makeState({ registers: [ctrl], bitNumbering: 'msb0' }));
+    expect(code).toContain('/// Bits 5:4 (MSB-0: 26:27).');
+    expect(code).toContain('/// Bit 0 (MSB-0: 31).');
+  });
+
+  it('uses the register width for the storage type, up to u128', () => {
+    const code = generateRustModule(makeState({ registers: [makeRegister({ name: 'WIDE', width: 100 })] }));
+    expect(code).toContain('pub struct Wide(pub u128);');
+  });
+
+  it('emits accessors for variant fields prefixed with the variant name', () => {
+    const reg = makeRegister({
+      name: 'TIM',
+      width: 8,
+      fields: [makeField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0 })],
+      variantSelectorId: 'mode',
+      variants: [{ id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2 })] }],
+    });
+    const code = generateRustModule(makeState({ registers: [reg] }));
+    expect(code).toContain('pub fn mode(&self)');
+    expect(code).toContain('pub fn pwm_duty(&self)');
+  });
+
+  it('uses bool for flags', () => {
+    const code = generateRustModule(makeState({ registers: [ctrl] }));
+    expect(code).toContain('pub fn en(&self) -> bool {\n        let raw = self.0 & 0x1;\n        raw != 0\n    }');
+    expect(code).toContain('pub fn set_en(&mut self, value: bool) {');
+  });
+
+  it('generates a Rust enum for enum fields', () => {
+    const code = generateRustModule(makeState({ registers: [ctrl] }));
+    expect(code).toContain('#[repr(u8)]\npub enum CtrlRegMode {\n    Idle = 0,\n    RunFast = 3,\n}');
+    expect(code).toContain('3 => Some(Self::RunFast),');
+    expect(code).toContain('pub fn mode(&self) -> Option<CtrlRegMode> {');
+    expect(code).toContain('pub fn mode_bits(&self) -> u8 {');
+    expect(code).toContain('pub fn set_mode(&mut self, value: CtrlRegMode) {');
+    expect(code).toContain('self.0 = (self.0 & !(0x3 << 4)) | ((bits & 0x3) << 4);');
+  });
+
+  it('drops enum entries with duplicate values', () => {
+    const reg = makeRegister({ name: 'R', fields: [makeEnumField({ name: 'E', enumEntries: [{ value: 1, name: 'A' }, { value: 1, name: 'B' }] })] });
+    const code = generateRustModule(makeState({ registers: [reg] }));
+    expect(code).toContain('A = 1,');
+    expect(code).not.toContain('B = 1,');
+  });
+
+  it('sign-extends two\'s complement integers', () => {
+    const reg = makeRegister({ name: 'R', width: 16, fields: [makeField({ name: 'TEMP', msb: 11, lsb: 0, signedness: 'twos-complement' })] });
+    const code = generateRustModule(makeState({ registers: [reg] }));
+    expect(code).toContain('pub fn temp(&self) -> i16 {');
+    expect(code).toContain('let raw = raw as i16;\n        (raw << 4) >> 4');
+    expect(code).toContain('pub fn set_temp(&mut self, value: i16) {\n        let bits = value as u16;');
+  });
+
+  it('converts sign-magnitude integers', () => {
+    const reg = makeRegister({ name: 'R', width: 8, fields: [makeField({ name: 'OFS', msb: 7, lsb: 0, signedness: 'sign-magnitude' })] });
+    const code = generateRustModule(makeState({ registers: [reg] }));
+    expect(code).toContain('let magnitude = (raw & 0x7F) as i8;');
+    expect(code).toContain('if raw >> 7 != 0 { -magnitude } else { magnitude }');
+    expect(code).toContain('let bits = (value.unsigned_abs() as u8 & 0x7F) | (sign << 7);');
+  });
+
+  it('maps floats and fixed-point values to f32/f64', () => {
+    const reg = makeRegister({
+      name: 'R',
+      width: 64,
+      fields: [
+        makeFloatField({ id: 'a', name: 'GAIN', msb: 31, lsb: 0 }),
+        makeFixedPointField({ id: 'b', name: 'OFFSET', msb: 39, lsb: 32, qFormat: { m: 4, n: 4 } }),
+      ],
+    });
+    const code = generateRustModule(makeState({ registers: [reg] }));
+    expect(code).toContain('f32::from_bits(raw as u32)');
+    expect(code).toContain('let bits = value.to_bits() as u64;');
+    expect(code).toContain('pub fn offset(&self) -> f64 {');
+    expect(code).toContain('raw as f64 / 16.0');
+  });
+
+  it('escapes keywords and deduplicates names', () => {
+    const reg = makeRegister({
+      name: 'R',
+      fields: [
+        makeField({ id: 'a', name: 'type', msb: 3, lsb: 0 }),
+        makeField({ id: 'b', name: 'bits', msb: 7, lsb: 4 }),
+      ],
+    });
+    const code = generateRustModule(makeState({ registers: [reg, makeRegister({ id: 'r2', name: 'r' })] }));
+    expect(code).toContain('pub fn type_(&self) -> u8 {');
+    expect(code).toContain('pub fn set_type(&mut self, value: u8) {');
+    expect(code).toContain('pub fn bits_1(&self) -> u8 {');
+    expect(code).toContain('pub struct R_1(pub u32);');
+  });
+});
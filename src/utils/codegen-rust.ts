@@ -0,0 +1,320 @@
+import type { AppState, Field } from '../types/register';
+import { displayBit } from './bit-numbering';
+import { withExpandedSplitFields } from './field-slices';
+import { expandRegisters } from './register-array';
+import { flattenGroups } from './register-groups';
+import { flattenVariants } from './variants';
+
+const RUST_KEYWORDS = new Set([
+  'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum', 'extern',
+  'false', 'fn', 'for', 'gen', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut',
+  'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'true', 'try',
+  'type', 'unsafe', 'use', 'where', 'while', 'abstract', 'become', 'box', 'do', 'final', 'macro',
+  'override', 'priv', 'typeof', 'unsized', 'virtual', 'yield',
+]);
+
+/** Method names every register type defines itself. */
+const RESERVED_METHODS = ['from_bits', 'bits'];
+
+/** Smallest Rust integer width (8..128) holding `bits` bits. */
+function intBits(bits: number): number {
+  for (const n of [8, 16, 32, 64]) {
+    if (bits <= n) return n;
+  }
+  return 128;
+}
+
+/** Smallest unsigned Rust integer type holding `bits` bits. */
+export function rustUintType(bits: number): string {
+  return `u${intBits(bits)}`;
+}
+
+/** Smallest signed Rust integer type holding `bits` bits. */
+export function rustIntType(bits: number): string {
+  return `i${intBits(bits)}`;
+}
+
+/** Split a name into words at separators and lower-to-upper case transitions. */
+function words(name: string): string[] {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .flatMap((chunk) => chunk.split(/(?<=[a-z])(?=[A-Z])/))
+    .filter(Boolean);
+}
+
+function safeIdentifier(id: string, fallback: string): string {
+  if (!id) return fallback;
+  if (/^[0-9]/.test(id)) return `_${id}`;
+  return RUST_KEYWORDS.has(id) ? `${id}_` : id;
+}
+
+function toPascalCase(name: string, fallback: string): string {
+  const id = words(name).map((w) => w[0].toUpperCase() + w.slice(1).toLowerCase()).join('');
+  return safeIdentifier(id, fallback);
+}
+
+function toSnakeCase(name: string, fallback: string): string {
+  return safeIdentifier(words(name).map((w) => w.toLowerCase()).join('_'), fallback);
+}
+
+/** Append `_1`, `_2`, ... to names already taken so every generated identifier is unique. */
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let i = 1; used.has(name); i++) name = `${base}_${i}`;
+  used.add(name);
+  return name;
+}
+
+function hex(value: number | bigint): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+/** A Rust f64 literal for 2^n. */
+function powerOfTwoLiteral(n: number): string {
+  const text = String(2 ** n);
+  return /[.e]/.test(text) ? text : `${text}.0`;
+}
+
+function docLines(text: string | undefined, indent: string): string[] {
+  if (!text) return [];
+  return text.split(/\r?\n/).map((line) => `${indent}///${line.trim() ? ` ${line.trim()}` : ''}`);
+}
+
+interface Accessor {
+  /** Rust type returned by the getter and accepted by the setter. */
+  valueType: string;
+  /** Body lines of the getter; `raw` holds the field bits in the register type. */
+  get: string[];
+  /** Body lines of the setter that bind `bits` to the register-typed field bits. */
+  set: string[];
+}
+
+function fieldAccessor(field: Field, regType: string, enumName: string | null): Accessor {
+  const width = field.msb - field.lsb + 1;
+  const uType = rustUintType(width);
+  const iType = rustIntType(width);
+  // Sign-extend a `width`-bit value held in `raw` by shifting it through the top of iType
+  const signShift = intBits(width) - width;
+  const signExtended = signShift > 0
+    ? [`let raw = raw as ${iType};`, `(raw << ${signShift}) >> ${signShift}`]
+    : [`raw as ${iType}`];
+
+  switch (field.type) {
+    case 'flag':
+      return { valueType: 'bool', get: ['raw != 0'], set: [`let bits = value as ${regType};`] };
+    case 'enum':
+      if (enumName) {
+        return {
+          valueType: enumName,
+          get: [`${enumName}::from_bits(raw as ${uType})`],
+          set: [`let bits = value as ${regType};`],
+        };
+      }
+      return { valueType: uType, get: [`raw as ${uType}`], set: [`let bits = value as ${regType};`] };
+    case 'integer':
+      if (field.signedness === 'twos-complement') {
+        return { valueType: iType, get: signExtended, set: [`let bits = value as ${regType};`] };
+      }
+      if (field.signedness === 'sign-magnitude') {
+        const magnitudeMask = hex((1n << BigInt(width - 1)) - 1n);
+        return {
+          valueType: iType,
+          get: [
+            `let magnitude = (raw & ${magnitudeMask}) as ${iType};`,
+            `if raw >> ${width - 1} != 0 { -magnitude } else { magnitude }`,
+          ],
+          set: [
+            `let sign: ${regType} = if value < 0 { 1 } else { 0 };`,
+            `let bits = (value.unsigned_abs() as ${regType} & ${magnitudeMask}) | (sign << ${width - 1});`,
+          ],
+        };
+      }
+      return { valueType: uType, get: [`raw as ${uType}`], set: [`let bits = value as ${regType};`] };
+    case 'float':
+      if (field.floatType === 'half') {
+        // Rust has no stable f16; expose the IEEE 754 bits
+        return { valueType: 'u16', get: ['raw as u16'], set: [`let bits = value as ${regType};`] };
+      }
+      {
+        const floatType = field.floatType === 'double' ? 'f64' : 'f32';
+        const bitsType = field.floatType === 'double' ? 'u64' : 'u32';
+        return {
+          valueType: floatType,
+          get: [`${floatType}::from_bits(raw as ${bitsType})`],
+          set: [`let bits = value.to_bits() as ${regType};`],
+        };
+      }
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':
+    case 'bitset':
+      // Exposed as the raw code; converting it is left to the caller
+      return { valueType: uType, get: [`raw as ${uType}`], set: [`let bits = value as ${regType};`] };
+    case 'fixed-point': {
+      const scale = powerOfTwoLiteral(field.qFormat.n);
+      return {
+        valueType: 'f64',
+        get: [...signExtended.slice(0, -1), `let raw = ${signExtended[signExtended.length - 1]};`, `raw as f64 / ${scale}`],
+        set: [
+          // Round half away from zero without relying on std's f64::round
+          `let scaled = value * ${scale};`,
+          `let scaled = if scaled < 0.0 { scaled - 0.5 } else { scaled + 0.5 };`,
+          `let bits = scaled as ${iType} as ${regType};`,
+        ],
+      };
+    }
+  }
+}
+
+function enumLines(field: Field, enumName: string): string[] {
+  if (field.type !== 'enum') return [];
+  const reprType = rustUintType(field.msb - field.lsb + 1);
+  const used = new Set<string>();
+  // Discriminants must be unique; later entries sharing a value are dropped
+  const seenValues = new Set<number>();
+  const variants = field.enumEntries
+    .filter((entry) => !seenValues.has(entry.value) && seenValues.add(entry.value))
+    .map((entry) => ({
+      name: uniqueName(toPascalCase(entry.name, `Value${entry.value}`), used),
+      value: entry.value,
+    }));
+
+  return [
+    ...docLines(field.description ?? `Values of the ${field.name} field.`, ''),
+    '#[derive(Clone, Copy, Debug, PartialEq, Eq)]',
+    `#[repr(${reprType})]`,
+    `pub enum ${enumName} {`,
+    ...variants.map((v) => `    ${v.name} = ${v.value},`),
+    '}',
+    '',
+    `impl ${enumName} {`,
+    '    /// Convert raw field bits, returning `None` for values without a variant.',
+    `    pub const fn from_bits(bits: ${reprType}) -> Option<Self> {`,
+    '        match bits {',
+    ...variants.map((v) => `            ${v.value} => Some(Self::${v.name}),`),
+    '            _ => None,',
+    '        }',
+    '    }',
+    '}',
+  ];
+}
+
+/**
+ * Generate a Rust module with a `#[repr(transparent)]` newtype per register
+ * and typed accessors per field: `bool` for flags, a Rust enum per enum
+ * field (getter returns `Option` since not every bit pattern has a
+ * variant), signed integers for two's-complement and sign-magnitude
+ * fields, `f32`/`f64` for floats and `f64` for fixed-point values.
+ * The output only uses `core`, so it works in `no_std` firmware. Split
+ * fields get an integer accessor per slice, and variant fields are named
+ * `<variant>_<field>`. Bit positions in the docs are
+ * LSB-0, followed by the MSB-0 position when the project numbers bits that way.
+ */
+export function generateRustModule(state: Pick<AppState, 'registers' | 'groups' | 'project' | 'bitNumbering'>): string {
+  const { project } = state;
+  const registers = expandRegisters(flattenGroups(state.registers, state.groups))
+    .map((reg) => flattenVariants(withExpandedSplitFields(reg)).register);
+  const lines: string[] = [];
+  if (project?.title) lines.push(`//! ${project.title}`);
+  if (project?.description) lines.push(`//!`, `//! ${project.description.replace(/\s+/g, ' ').trim()}`);
+  if (project?.title || project?.description) lines.push('//!');
+  lines.push('//! Generated by Register Viewer.');
+
+  const typeNames = new Set<string>();
+  for (const reg of registers) {
+    const regType = rustUintType(reg.width);
+    const structName = uniqueName(toPascalCase(reg.name, 'Register'), typeNames);
+    const fields = [...reg.fields].sort((a, b) => a.lsb - b.lsb);
+
+    const methodNames = new Set(RESERVED_METHODS);
+    const accessors = fields.map((field) => {
+      const hasEnum = field.type === 'enum' && field.enumEntries.length > 0;
+      const enumName = hasEnum
+        ? uniqueName(structName + toPascalCase(field.name, 'Field').replace(/^_/, ''), typeNames)
+        : null;
+      const getter = uniqueName(toSnakeCase(field.name, 'field'), methodNames);
+      const setter = uniqueName(`set_${getter.replace(/_$/, '')}`, methodNames);
+      const rawGetter = enumName ? uniqueName(`${getter.replace(/_$/, '')}_bits`, methodNames) : null;
+      return { field, getter, setter, rawGetter, enumName, accessor: fieldAccessor(field, regType, enumName) };
+    });
+
+    lines.push(
+      '',
+      ...docLines(reg.description ?? reg.name, ''),
+      '#[derive(Clone, Copy, Debug, Default, PartialEq, Eq)]',
+      '#[repr(transparent)]',
+      `pub struct ${structName}(pub ${regType});`,
+      '',
+      `impl ${structName} {`,
+    );
+    if (reg.offset != null) {
+      lines.push('    /// Address offset.', `    pub const OFFSET: usize = ${hex(reg.offset)};`);
+    }
+    lines.push(
+      '    /// Register width in bits.',
+      `    pub const WIDTH: u32 = ${reg.width};`,
+      '',
+      `    pub const fn from_bits(bits: ${regType}) -> Self {`,
+      '        Self(bits)',
+      '    }',
+      '',
+      `    pub const fn bits(self) -> ${regType} {`,
+      '        self.0',
+      '    }',
+    );
+
+    for (const { field, getter, setter, rawGetter, accessor } of accessors) {
+      const width = field.msb - field.lsb + 1;
+      const mask = hex((1n << BigInt(width)) - 1n);
+      const rawBits = field.lsb > 0 ? `(self.0 >> ${field.lsb}) & ${mask}` : `self.0 & ${mask}`;
+      const fieldMask = field.lsb > 0 ? `(${mask} << ${field.lsb})` : mask;
+      const placed = field.lsb > 0 ? `((bits & ${mask}) << ${field.lsb})` : `(bits & ${mask})`;
+      const returnType = rawGetter ? `Option<${accessor.valueType}>` : accessor.valueType;
+      const doc = docLines(field.description, '    ');
+      const msb0 = (bit: number) => displayBit(bit, reg.width, 'msb0');
+      const msb0Doc = state.bitNumbering === 'msb0'
+        ? ` (MSB-0: ${width === 1 ? msb0(field.lsb) : `${msb0(field.msb)}:${msb0(field.lsb)}`})`
+        : '';
+      const bitsDoc = `${width === 1 ? `Bit ${field.lsb}` : `Bits ${field.msb}:${field.lsb}`}${msb0Doc}.`;
+
+      lines.push(
+        '',
+        ...(doc.length > 0 ? [...doc, '    ///'] : []),
+        `    /// ${bitsDoc}`,
+        '    #[inline]',
+        `    pub fn ${getter}(&self) -> ${returnType} {`,
+        `        let raw = ${rawBits};`,
+        ...accessor.get.map((l) => `        ${l}`),
+        '    }',
+      );
+      if (rawGetter) {
+        lines.push(
+          '',
+          `    /// Raw bits of \`${getter}\`, including values without an enum variant.`,
+          '    #[inline]',
+          `    pub fn ${rawGetter}(&self) -> ${rustUintType(width)} {`,
+          `        (${rawBits}) as ${rustUintType(width)}`,
+          '    }',
+        );
+      }
+      lines.push(
+        '',
+        `    /// Set ${bitsDoc.charAt(0).toLowerCase()}${bitsDoc.slice(1)}`,
+        '    #[inline]',
+        `    pub fn ${setter}(&mut self, value: ${accessor.valueType}) {`,
+        ...accessor.set.map((l) => `        ${l}`),
+        `        self.0 = (self.0 & !${fieldMask}) | ${placed};`,
+        '    }',
+      );
+    }
+    lines.push('}');
+
+    for (const { field, enumName } of accessors) {
+      if (enumName) lines.push('', ...enumLines(field, enumName));
+    }
+  }
+
+  lines.push('');
+  return lines.join('\n');
+}
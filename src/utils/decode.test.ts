@@ -1,5 +1,6 @@
 import { makeField, makeFlagField, makeEnumField, makeFloatField, makeFixedPointField } from '../test/helpers';
-import { decodeField, formatDecodedValue } from './decode';
+import { decodeField, decodedIssue, formatDecodedValue } from './decode';
+import type { Field } from '../types/register';
 
 // ---------------------------------------------------------------------------
 // decodeField — flag
@@ -170,6 +171,69 @@ describe('decodeField — fixed-point', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// decodeField — scaled fields
+// ---------------------------------------------------------------------------
+describe('decodeField — scaling', () => {
+  it('adds the physical value of a scaled integer', () => {
+    const field = makeField({ msb: 11, lsb: 0, scaling: { scale: 0.5, offset: -40, unit: '°C' } });
+    expect(decodeField(100n, field)).toEqual({ type: 'integer', value: 100n, physical: { value: 10, unit: '°C' } });
+  });
+
+  it('scales the fixed-point value, not the raw bits', () => {
+    const field = makeFixedPointField({ msb: 7, lsb: 0, qFormat: { m: 4, n: 4 }, scaling: { scale: 2, offset: 1 } });
+    expect(decodeField(0x18n, field)).toEqual({ type: 'fixed-point', value: 1.5, physical: { value: 4, unit: undefined } });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decodeField — BCD, Gray, ASCII and one-hot
+// ---------------------------------------------------------------------------
+describe('decodeField — encoded types', () => {
+  const field = (type: 'bcd' | 'gray' | 'ascii' | 'one-hot', msb = 15): Field => ({ id: 'f', name: 'F', msb, lsb: 0, type });
+
+  it('decodes each type', () => {
+    expect(decodeField(0x0930n, field('bcd'))).toEqual({ type: 'bcd', value: 930n, digits: '0930' });
+    expect(decodeField(0xACn, field('gray'))).toEqual({ type: 'gray', value: 200n });
+    expect(decodeField(0x4F4Bn, field('ascii'))).toEqual({ type: 'ascii', value: 'OK', valid: true });
+    expect(decodeField(0x0008n, field('one-hot'))).toEqual({ type: 'one-hot', value: 3, hotBits: [3] });
+  });
+
+  it('formats them for display', () => {
+    expect(formatDecodedValue(decodeField(0x0930n, field('bcd')))).toBe('930');
+    expect(formatDecodedValue(decodeField(0x0000n, field('bcd')))).toBe('0');
+    expect(formatDecodedValue(decodeField(0x0008n, field('one-hot')))).toBe('bit 3');
+    expect(formatDecodedValue(decodeField(0x0009n, field('one-hot')))).toBe('bits 0, 3');
+    expect(formatDecodedValue(decodeField(0n, field('one-hot')))).toBe('none');
+  });
+
+  it('reports invalid encodings', () => {
+    expect(decodedIssue(decodeField(0x0930n, field('bcd')))).toBeNull();
+    expect(decodedIssue(decodeField(0x09A0n, field('bcd')))).toBe('Invalid BCD: digit above 9');
+    expect(decodedIssue(decodeField(0x80n, field('ascii')))).toBe('Invalid ASCII: byte above 0x7F');
+    expect(decodedIssue(decodeField(0n, field('one-hot')))).toBe('Invalid one-hot: no bit set');
+    expect(decodedIssue(decodeField(0x11n, field('one-hot')))).toBe('Invalid one-hot: several bits set');
+    expect(decodedIssue(decodeField(0x10n, field('one-hot')))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// decodeField — bitset
+// ---------------------------------------------------------------------------
+describe('decodeField — bitset', () => {
+  const field: Field = { id: 'f', name: 'SR', msb: 7, lsb: 0, type: 'bitset', bitNames: [{ bit: 0, name: 'RXNE' }, { bit: 5, name: 'TXE' }] };
+
+  it('decodes the names of the set bits', () => {
+    expect(decodeField(0x21n, field)).toEqual({ type: 'bitset', value: 0x21n, names: ['RXNE', 'TXE'] });
+  });
+
+  it('joins the names for display', () => {
+    expect(formatDecodedValue(decodeField(0x21n, field))).toBe('RXNE | TXE');
+    expect(formatDecodedValue(decodeField(0x02n, field))).toBe('bit 1');
+    expect(formatDecodedValue(decodeField(0n, field))).toBe('none');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // formatDecodedValue
 // ---------------------------------------------------------------------------
@@ -198,6 +262,11 @@ describe('formatDecodedValue', () => {
     expect(formatDecodedValue({ type: 'integer', value: 42 })).toBe('42');
   });
 
+  it('formats a scaled value as the physical value with its unit', () => {
+    expect(formatDecodedValue({ type: 'integer', value: 1000n, physical: { value: 805.6640625, unit: 'mV' } })).toBe('805.664 mV');
+    expect(formatDecodedValue({ type: 'fixed-point', value: 1.5, physical: { value: 4 } })).toBe('4');
+  });
+
   it('formats integer -0 as "-0"', () => {
     expect(formatDecodedValue({ type: 'integer', value: '-0' })).toBe('-0');
   });
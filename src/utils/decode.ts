@@ -1,12 +1,18 @@
 import type { Field, DecodedValue } from '../types/register';
-import { extractBits, toSigned, fromSignMagnitudeBits } from './bitwise';
+import { toSigned, fromSignMagnitudeBits } from './bitwise';
+import { extractFieldBits, fieldBitWidth } from './field-slices';
 import { bitsToFloat16, bitsToFloat32, bitsToFloat64 } from './float';
 import { decodeFixedPoint } from './fixed-point';
+import { bitsetNames, decodeAscii, decodeBcd, grayToBinary, hotBits } from './encodings';
+import { formatPhysical, toPhysical } from './scaling';
 
-/** Decode a field's value from a full register value. */
+/**
+ * Decode a field's value from a full register value. Scaled integer and
+ * fixed-point fields also carry their physical value.
+ */
 export function decodeField(registerValue: bigint, field: Field): DecodedValue {
-  const rawBits = extractBits(registerValue, field.msb, field.lsb);
-  const bitWidth = field.msb - field.lsb + 1;
+  const rawBits = extractFieldBits(registerValue, field);
+  const bitWidth = fieldBitWidth(field);
 
   switch (field.type) {
     case 'flag':
@@ -30,7 +36,9 @@ export function decodeField(registerValue: bigint, field: Field): DecodedValue {
         default:
           value = rawBits;
       }
-      return { type: 'integer', value };
+      if (!field.scaling) return { type: 'integer', value };
+      const physical = toPhysical(value === '-0' ? 0 : Number(value), field.scaling);
+      return { type: 'integer', value, physical: { value: physical, unit: field.scaling.unit } };
     }
 
     case 'float': {
@@ -49,13 +57,36 @@ export function decodeField(registerValue: bigint, field: Field): DecodedValue {
       return { type: 'float', value };
     }
 
-    case 'fixed-point':
-      return { type: 'fixed-point', value: decodeFixedPoint(rawBits, field.qFormat) };
+    case 'fixed-point': {
+      const value = decodeFixedPoint(rawBits, field.qFormat);
+      if (!field.scaling) return { type: 'fixed-point', value };
+      return { type: 'fixed-point', value, physical: { value: toPhysical(value, field.scaling), unit: field.scaling.unit } };
+    }
+
+    case 'bcd':
+      return { type: 'bcd', ...decodeBcd(rawBits, bitWidth) };
+
+    case 'gray':
+      return { type: 'gray', value: grayToBinary(rawBits) };
+
+    case 'ascii':
+      return { type: 'ascii', ...decodeAscii(rawBits, bitWidth) };
+
+    case 'one-hot': {
+      const bits = hotBits(rawBits);
+      return { type: 'one-hot', value: bits.length === 1 ? bits[0] : null, hotBits: bits };
+    }
+
+    case 'bitset':
+      return { type: 'bitset', value: rawBits, names: bitsetNames(rawBits, field.bitNames) };
   }
 }
 
-/** Format a decoded value as a display string. */
+/** Format a decoded value as a display string; scaled values show the physical value and unit. */
 export function formatDecodedValue(decoded: DecodedValue): string {
+  if ((decoded.type === 'integer' || decoded.type === 'fixed-point') && decoded.physical) {
+    return formatPhysical(decoded.physical);
+  }
   switch (decoded.type) {
     case 'flag':
       return decoded.value ? 'true' : 'false';
@@ -69,5 +100,35 @@ export function formatDecodedValue(decoded: DecodedValue): string {
       return decoded.value.toPrecision(6);
     case 'fixed-point':
       return decoded.value.toFixed(4);
+    case 'bcd':
+      // Drop leading zeros but keep at least one digit
+      return decoded.digits.replace(/^0+(?=.)/, '');
+    case 'gray':
+      return decoded.value.toString();
+    case 'ascii':
+      return decoded.value;
+    case 'one-hot':
+      if (decoded.value !== null) return `bit ${decoded.value}`;
+      return decoded.hotBits.length === 0 ? 'none' : `bits ${decoded.hotBits.join(', ')}`;
+    case 'bitset':
+      return decoded.names.length === 0 ? 'none' : decoded.names.join(' | ');
+  }
+}
+
+/**
+ * Why a decoded value is not a valid encoding for its field type (a BCD digit
+ * above 9, a non-ASCII byte, no or several hot bits), or null if it is valid.
+ */
+export function decodedIssue(decoded: DecodedValue): string | null {
+  switch (decoded.type) {
+    case 'bcd':
+      return decoded.value === null ? 'Invalid BCD: digit above 9' : null;
+    case 'ascii':
+      return decoded.valid ? null : 'Invalid ASCII: byte above 0x7F';
+    case 'one-hot':
+      if (decoded.hotBits.length === 0) return 'Invalid one-hot: no bit set';
+      return decoded.hotBits.length > 1 ? 'Invalid one-hot: several bits set' : null;
+    default:
+      return null;
   }
 }
@@ -1,5 +1,6 @@
 import { makeField, makeFlagField, makeEnumField, makeFloatField, makeFixedPointField } from '../test/helpers';
 import { encodeField } from './encode';
+import type { Field } from '../types/register';
 import { decodeField, formatDecodedValue } from './decode';
 
 // ---------------------------------------------------------------------------
@@ -166,6 +167,55 @@ describe('encodeField — fixed-point', () => {
   });
 });
 
+describe('encodeField — scaling', () => {
+  const temp = makeField({ msb: 11, lsb: 0, scaling: { scale: 0.5, offset: -40, unit: '°C' } });
+
+  it('inverts the scaling and rounds to the nearest raw value', () => {
+    expect(encodeField('10', temp)).toBe(100n);
+    expect(encodeField('10.3 °C', temp)).toBe(101n);
+  });
+
+  it('encodes physical values of signed and fixed-point fields', () => {
+    const signed = makeField({ msb: 7, lsb: 0, signedness: 'twos-complement', scaling: { scale: 0.25, offset: 0 } });
+    expect(encodeField('-1', signed)).toBe(0xFCn);
+    const fixed = makeFixedPointField({ msb: 7, lsb: 0, qFormat: { m: 4, n: 4 }, scaling: { scale: 2, offset: 1, unit: 'V' } });
+    expect(encodeField('4 V', fixed)).toBe(0x18n);
+  });
+
+  it('throws for input that is not a number', () => {
+    expect(() => encodeField('warm', temp)).toThrow();
+  });
+});
+
+describe('encodeField — encoded types', () => {
+  const field = (type: 'bcd' | 'gray' | 'ascii' | 'one-hot'): Field => ({ id: 'f', name: 'F', msb: 15, lsb: 0, type });
+
+  it('encodes BCD digits, Gray code and ASCII text', () => {
+    expect(encodeField('930', field('bcd'))).toBe(0x0930n);
+    expect(encodeField('200', field('gray'))).toBe(0xACn);
+    expect(encodeField('OK', field('ascii'))).toBe(0x4F4Bn);
+    expect(encodeField('A', field('ascii'))).toBe(0x4100n);
+  });
+
+  it('sets the chosen bit of a one-hot field', () => {
+    expect(encodeField('3', field('one-hot'))).toBe(0x8n);
+    expect(() => encodeField('16', field('one-hot'))).toThrow(RangeError);
+  });
+});
+
+describe('encodeField — bitset', () => {
+  const field: Field = { id: 'f', name: 'SR', msb: 7, lsb: 0, type: 'bitset', bitNames: [{ bit: 0, name: 'RXNE' }, { bit: 5, name: 'TXE' }] };
+
+  it('sets the named bits', () => {
+    expect(encodeField('RXNE|TXE', field)).toBe(0x21n);
+    expect(encodeField('none', field)).toBe(0n);
+  });
+
+  it('throws for unknown names', () => {
+    expect(() => encodeField('BUSY', field)).toThrow(SyntaxError);
+  });
+});
+
 // ---------------------------------------------------------------------------
 // Round-trip: decode then encode back to the same raw value
 // ---------------------------------------------------------------------------
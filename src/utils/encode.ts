@@ -2,13 +2,18 @@ import type { Field } from '../types/register';
 import { toUnsigned, toSignMagnitudeBits } from './bitwise';
 import { float16ToBits, float32ToBits, float64ToBits } from './float';
 import { encodeFixedPoint } from './fixed-point';
+import { binaryToGray, encodeAscii, encodeBcd, parseAsciiText, parseBitset } from './encodings';
+import { fieldBitWidth } from './field-slices';
+import { fromPhysical, parsePhysical } from './scaling';
 
 /**
  * Encode a user-provided value into raw bits for a given field.
  * Returns the raw unsigned bits that should be placed in the field's bit range.
+ * Scaled integer and fixed-point fields take the physical value (optionally
+ * followed by the unit) and invert the scaling.
  */
 export function encodeField(input: string | number | boolean, field: Field): bigint {
-  const bitWidth = field.msb - field.lsb + 1;
+  const bitWidth = fieldBitWidth(field);
 
   switch (field.type) {
     case 'flag':
@@ -23,12 +28,18 @@ export function encodeField(input: string | number | boolean, field: Field): big
 
     case 'integer': {
       const strInput = typeof input === 'string' ? input.trim() : '';
-      const numVal = typeof input === 'string' ? parseBigInt(input) : BigInt(Math.round(Number(input)));
+      let numVal: bigint;
+      if (field.scaling) {
+        const physical = typeof input === 'string' ? parsePhysical(input, field.scaling) : Number(input);
+        numVal = BigInt(Math.round(fromPhysical(physical, field.scaling)));
+      } else {
+        numVal = typeof input === 'string' ? parseBigInt(input) : BigInt(Math.round(Number(input)));
+      }
       switch (field.signedness) {
         case 'twos-complement':
           return toUnsigned(numVal, bitWidth);
         case 'sign-magnitude':
-          if (strInput === '-0') return toSignMagnitudeBits('-0', bitWidth);
+          if (strInput === '-0' && !field.scaling) return toSignMagnitudeBits('-0', bitWidth);
           return toSignMagnitudeBits(numVal, bitWidth);
         default: {
           const mask = (1n << BigInt(bitWidth)) - 1n;
@@ -49,9 +60,44 @@ export function encodeField(input: string | number | boolean, field: Field): big
     }
 
     case 'fixed-point': {
+      if (field.scaling) {
+        const physical = typeof input === 'string' ? parsePhysical(input, field.scaling) : Number(input);
+        return encodeFixedPoint(fromPhysical(physical, field.scaling), field.qFormat);
+      }
       const numVal = typeof input === 'string' ? parseFloat(input) : Number(input);
       return encodeFixedPoint(numVal, field.qFormat);
     }
+
+    case 'bcd': {
+      const numVal = typeof input === 'string' ? BigInt(input.trim()) : BigInt(Math.round(Number(input)));
+      const mask = (1n << BigInt(bitWidth)) - 1n;
+      return encodeBcd(numVal) & mask;
+    }
+
+    case 'gray': {
+      const numVal = typeof input === 'string' ? parseBigInt(input) : BigInt(Math.round(Number(input)));
+      const mask = (1n << BigInt(bitWidth)) - 1n;
+      return binaryToGray(numVal & mask);
+    }
+
+    case 'ascii': {
+      const bytes = parseAsciiText(String(input));
+      if (!bytes) throw new SyntaxError(`Invalid ASCII text: ${String(input)}`);
+      return encodeAscii(bytes, bitWidth);
+    }
+
+    case 'one-hot': {
+      // The input is the index of the hot bit
+      const index = Number(input);
+      if (!Number.isInteger(index) || index < 0 || index >= bitWidth) {
+        throw new RangeError(`Bit index ${String(input)} is outside the field`);
+      }
+      return 1n << BigInt(index);
+    }
+
+    case 'bitset':
+      if (typeof input !== 'string') return BigInt(Math.round(Number(input))) & ((1n << BigInt(bitWidth)) - 1n);
+      return parseBitset(input, field.bitNames, bitWidth);
   }
 }
 
@@ -0,0 +1,83 @@
+import { binaryToGray, bitsetNames, decodeAscii, decodeBcd, encodeAscii, encodeBcd, grayToBinary, hotBits, parseAsciiText, parseBitset } from './encodings';
+
+describe('BCD', () => {
+  it('decodes one digit per nibble', () => {
+    expect(decodeBcd(0x1234n, 16)).toEqual({ value: 1234n, digits: '1234' });
+    expect(decodeBcd(0x05n, 12)).toEqual({ value: 5n, digits: '005' });
+  });
+
+  it('keeps digits above 9 as hex and reports no value', () => {
+    expect(decodeBcd(0x1An, 8)).toEqual({ value: null, digits: '1A' });
+  });
+
+  it('encodes decimal digits into nibbles', () => {
+    expect(encodeBcd(59n)).toBe(0x59n);
+  });
+});
+
+describe('Gray code', () => {
+  it('converts both ways', () => {
+    for (let n = 0n; n < 64n; n++) {
+      expect(grayToBinary(binaryToGray(n))).toBe(n);
+    }
+    expect(binaryToGray(200n)).toBe(0xACn);
+  });
+
+  it('changes one bit between neighbours', () => {
+    expect(hotBits(binaryToGray(7n) ^ binaryToGray(8n))).toHaveLength(1);
+  });
+});
+
+describe('ASCII', () => {
+  it('decodes the most significant byte first and escapes control bytes', () => {
+    expect(decodeAscii(0x52563031n, 32)).toEqual({ value: 'RV01', valid: true });
+    expect(decodeAscii(0x415C0000n, 32)).toEqual({ value: 'A\\\\\\x00\\x00', valid: true });
+  });
+
+  it('flags bytes outside 7-bit ASCII', () => {
+    expect(decodeAscii(0x41FFn, 16).valid).toBe(false);
+  });
+
+  it('parses escapes and pads short text with NUL bytes', () => {
+    const bytes = parseAsciiText('A\\\\\\x01')!;
+    expect(bytes).toEqual([0x41, 0x5C, 0x01]);
+    expect(encodeAscii(bytes, 32)).toBe(0x415C0100n);
+    expect(encodeAscii([0x41, 0x42, 0x43], 16)).toBe(0x4142n);
+  });
+
+  it('rejects non-ASCII characters and bad escapes', () => {
+    expect(parseAsciiText('é')).toBeNull();
+    expect(parseAsciiText('\\q')).toBeNull();
+  });
+});
+
+describe('hotBits', () => {
+  it('lists set bits from the lowest up', () => {
+    expect(hotBits(0n)).toEqual([]);
+    expect(hotBits(0b10010n)).toEqual([1, 4]);
+  });
+});
+
+describe('bitset', () => {
+  const bitNames = [{ bit: 0, name: 'RXNE' }, { bit: 5, name: 'TXE' }];
+
+  it('names the set bits, falling back to bit numbers', () => {
+    expect(bitsetNames(0x21n, bitNames)).toEqual(['RXNE', 'TXE']);
+    expect(bitsetNames(0x05n, bitNames)).toEqual(['RXNE', 'bit 2']);
+    expect(bitsetNames(0n, bitNames)).toEqual([]);
+  });
+
+  it('parses names, bit numbers and masks', () => {
+    expect(parseBitset('RXNE | TXE', bitNames, 8)).toBe(0x21n);
+    expect(parseBitset('txe|bit 2', bitNames, 8)).toBe(0x24n);
+    expect(parseBitset('none', bitNames, 8)).toBe(0n);
+    expect(parseBitset('', bitNames, 8)).toBe(0n);
+    expect(parseBitset('0x81', bitNames, 8)).toBe(0x81n);
+  });
+
+  it('rejects unknown names and bits outside the field', () => {
+    expect(() => parseBitset('RXNE | BUSY', bitNames, 8)).toThrow('Unknown bit "BUSY"');
+    expect(() => parseBitset('bit 8', bitNames, 8)).toThrow('Bit 8 is outside the field');
+    expect(() => parseBitset('0x100', bitNames, 8)).toThrow('Mask does not fit in 8 bits');
+  });
+});
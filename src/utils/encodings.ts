@@ -0,0 +1,129 @@
+import type { BitName } from '../types/register';
+
+/**
+ * Decode BCD raw bits into digits, most significant first, one per nibble
+ * (a partial top nibble counts as a digit). Digits above 9 are kept as hex
+ * digits so the display shows what is in the register; `value` is null then.
+ */
+export function decodeBcd(rawBits: bigint, bitWidth: number): { value: bigint | null; digits: string } {
+  const nibbles = Math.ceil(bitWidth / 4);
+  const digits = rawBits.toString(16).toUpperCase().padStart(nibbles, '0');
+  const valid = /^[0-9]*$/.test(digits);
+  return { value: valid ? BigInt(digits) : null, digits };
+}
+
+/** Encode a non-negative decimal number as BCD, one digit per nibble. */
+export function encodeBcd(value: bigint): bigint {
+  return BigInt('0x' + value.toString(10));
+}
+
+/** Convert Gray code to its binary value. */
+export function grayToBinary(gray: bigint): bigint {
+  let binary = gray;
+  for (let shift = gray >> 1n; shift > 0n; shift >>= 1n) binary ^= shift;
+  return binary;
+}
+
+/** Convert a binary value to Gray code. */
+export function binaryToGray(binary: bigint): bigint {
+  return binary ^ (binary >> 1n);
+}
+
+/**
+ * Decode raw bits as ASCII text, most significant byte first. A partial top
+ * byte is ignored. Control characters are shown as `\xNN` escapes (and `\`
+ * as `\\`), so the text can be edited and parsed back with `parseAsciiText`.
+ * `valid` is false when a byte is outside 7-bit ASCII.
+ */
+export function decodeAscii(rawBits: bigint, bitWidth: number): { value: string; valid: boolean } {
+  let value = '';
+  let valid = true;
+  for (let i = Math.floor(bitWidth / 8) - 1; i >= 0; i--) {
+    const byte = Number((rawBits >> BigInt(i * 8)) & 0xFFn);
+    if (byte > 0x7F) valid = false;
+    if (byte === 0x5C) value += '\\\\';
+    else if (byte >= 0x20 && byte < 0x7F) value += String.fromCharCode(byte);
+    else value += '\\x' + byte.toString(16).toUpperCase().padStart(2, '0');
+  }
+  return { value, valid };
+}
+
+/**
+ * Parse text typed for an ASCII field into byte values: printable ASCII,
+ * `\xNN` escapes and `\\`. Returns null for anything else.
+ */
+export function parseAsciiText(text: string): number[] | null {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (text[i] === '\\') {
+      if (text[i + 1] === '\\') {
+        bytes.push(0x5C);
+        i += 1;
+        continue;
+      }
+      const escape = /^x([0-9a-fA-F]{2})/.exec(text.slice(i + 1));
+      if (!escape) return null;
+      bytes.push(parseInt(escape[1], 16));
+      i += 3;
+      continue;
+    }
+    if (code > 0x7F) return null;
+    bytes.push(code);
+  }
+  return bytes;
+}
+
+/**
+ * Pack bytes into an ASCII field, first byte in the most significant byte.
+ * Shorter text is padded with NUL bytes; longer text is cut off.
+ */
+export function encodeAscii(bytes: number[], bitWidth: number): bigint {
+  const count = Math.floor(bitWidth / 8);
+  let raw = 0n;
+  for (let i = 0; i < count; i++) {
+    raw = (raw << 8n) | BigInt(bytes[i] ?? 0);
+  }
+  return raw;
+}
+
+/** Indices of the set bits, lowest first. */
+export function hotBits(rawBits: bigint): number[] {
+  const bits: number[] = [];
+  for (let i = 0, v = rawBits; v > 0n; i++, v >>= 1n) {
+    if (v & 1n) bits.push(i);
+  }
+  return bits;
+}
+
+/** Names of the set bits of a bitset, lowest first; unnamed bits show as `bit N`. */
+export function bitsetNames(rawBits: bigint, bitNames: BitName[]): string[] {
+  return hotBits(rawBits).map((bit) => bitNames.find((b) => b.bit === bit)?.name ?? `bit ${bit}`);
+}
+
+/**
+ * Parse bitset input: bit names joined by `|` (`RXNE | TXE`), `bit N` for
+ * unnamed bits, `none` or empty for no bits, or the whole input as an integer
+ * mask (`0x21`). Throws with a readable message for unknown names and bits
+ * outside the field.
+ */
+export function parseBitset(text: string, bitNames: BitName[], bitWidth: number): bigint {
+  const trimmed = text.trim();
+  if (trimmed === '' || trimmed.toLowerCase() === 'none') return 0n;
+  if (/^(0[xX][0-9a-fA-F]+|0[bB][01]+|[0-9]+)$/.test(trimmed)) {
+    const mask = BigInt(trimmed);
+    if (mask >> BigInt(bitWidth) !== 0n) throw new RangeError(`Mask does not fit in ${bitWidth} bits`);
+    return mask;
+  }
+  let value = 0n;
+  for (const token of trimmed.split('|').map((t) => t.trim())) {
+    const named = bitNames.find((b) => b.name === token)
+      ?? bitNames.find((b) => b.name.toLowerCase() === token.toLowerCase());
+    const unnamed = /^bit\s*(\d+)$/i.exec(token);
+    const bit = named ? named.bit : unnamed ? Number(unnamed[1]) : undefined;
+    if (bit === undefined) throw new SyntaxError(`Unknown bit "${token}"`);
+    if (bit >= bitWidth) throw new RangeError(`Bit ${bit} is outside the field`);
+    value |= 1n << BigInt(bit);
+  }
+  return value;
+}
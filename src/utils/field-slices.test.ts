@@ -0,0 +1,87 @@
+import {
+  expandSplitFields,
+  extractFieldBits,
+  fieldBitWidth,
+  fieldHasBit,
+  fieldMask,
+  formatBitRange,
+  parseBitRange,
+  replaceFieldBits,
+  withSlices,
+} from './field-slices';
+import { makeField, makeFlagField } from '../test/helpers';
+
+// ADDR bits [3:0] live at register bits [31:28], bits [7:4] at [11:8]
+const addr = makeField({ id: 'addr', name: 'ADDR', msb: 31, lsb: 8, slices: [{ msb: 31, lsb: 28 }, { msb: 11, lsb: 8 }] });
+
+describe('extractFieldBits / replaceFieldBits', () => {
+  it('concatenates slices with the first slice in the low bits', () => {
+    expect(fieldBitWidth(addr)).toBe(8);
+    expect(extractFieldBits(0xA000_0B00n, addr)).toBe(0xBAn);
+  });
+
+  it('writes a value back across its slices and leaves other bits alone', () => {
+    expect(replaceFieldBits(0x0FFF_F0FFn, addr, 0xC5n)).toBe(0x5FFF_FCFFn);
+  });
+
+  it('behaves like a plain range for unsplit fields', () => {
+    const field = makeField({ msb: 7, lsb: 4 });
+    expect(extractFieldBits(0xA5n, field)).toBe(0xAn);
+    expect(replaceFieldBits(0xA5n, field, 0x3n)).toBe(0x35n);
+    expect(fieldBitWidth(field)).toBe(4);
+  });
+});
+
+describe('fieldMask / fieldHasBit', () => {
+  it('covers only the slice bits', () => {
+    expect(fieldMask(addr)).toBe(0xF000_0F00n);
+    expect(fieldHasBit(addr, 29)).toBe(true);
+    expect(fieldHasBit(addr, 20)).toBe(false);
+  });
+});
+
+describe('formatBitRange / parseBitRange', () => {
+  it('formats plain, single-bit and split ranges', () => {
+    expect(formatBitRange(makeField({ msb: 7, lsb: 4 }))).toBe('[7:4]');
+    expect(formatBitRange(makeFlagField({ msb: 3, lsb: 3 }))).toBe('[3]');
+    expect(formatBitRange(addr)).toBe('{11:8, 31:28}');
+  });
+
+  it('parses the same notation, least significant part first', () => {
+    expect(parseBitRange('{11:8, 31:28}')).toEqual(addr.slices);
+    expect(parseBitRange('[5]')).toEqual([{ msb: 5, lsb: 5 }]);
+    expect(parseBitRange('4:7')).toBeNull();
+    expect(parseBitRange('a:b')).toBeNull();
+  });
+
+  it('counts from the register MSB under MSB-0 numbering', () => {
+    expect(formatBitRange(makeField({ msb: 31, lsb: 28 }), 'msb0', 32)).toBe('[0:3]');
+    expect(formatBitRange(makeFlagField({ msb: 0, lsb: 0 }), 'msb0', 32)).toBe('[31]');
+    expect(formatBitRange(addr, 'msb0', 32)).toBe('{20:23, 0:3}');
+    expect(parseBitRange('{20:23, 0:3}', 'msb0', 32)).toEqual(addr.slices);
+    expect(parseBitRange('3:0', 'msb0', 32)).toBeNull();
+    expect(parseBitRange('30:32', 'msb0', 32)).toBeNull();
+  });
+});
+
+describe('withSlices', () => {
+  it('sets the span for several slices and clears slices for one', () => {
+    const field = makeField({ msb: 3, lsb: 0 });
+    expect(withSlices(field, addr.slices!)).toMatchObject({ msb: 31, lsb: 8, slices: addr.slices });
+    const joined = withSlices(addr, [{ msb: 15, lsb: 8 }]);
+    expect(joined).toMatchObject({ msb: 15, lsb: 8 });
+    expect(joined.slices).toBeUndefined();
+  });
+});
+
+describe('expandSplitFields', () => {
+  it('turns each slice into an integer field named after its value bits', () => {
+    const parts = expandSplitFields([{ ...addr, resetValue: 0xA5n }, makeFlagField({ id: 'en', msb: 0, lsb: 0 })]);
+    expect(parts.map((f) => [f.id, f.name, f.msb, f.lsb, f.resetValue])).toEqual([
+      ['addr:0', 'ADDR_3_0', 31, 28, 0x5n],
+      ['addr:1', 'ADDR_7_4', 11, 8, 0xAn],
+      ['en', 'TEST_FLAG', 0, 0, undefined],
+    ]);
+    expect(parts[0].type).toBe('integer');
+  });
+});
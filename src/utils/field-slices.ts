@@ -0,0 +1,150 @@
+import type { BaseField, BitNumbering, BitSlice, Field, RegisterDef } from '../types/register';
+import { extractBits, replaceBits } from './bitwise';
+import { displayBit, modelBit } from './bit-numbering';
+
+type SlicedField = Pick<BaseField, 'msb' | 'lsb' | 'slices'>;
+
+/** Register bit ranges of a field, from the least significant part of its value up. */
+export function fieldSlices(field: SlicedField): BitSlice[] {
+  return field.slices && field.slices.length > 0 ? field.slices : [{ msb: field.msb, lsb: field.lsb }];
+}
+
+/** Whether the field's bits are split across more than one slice. */
+export function isSplitField(field: SlicedField): boolean {
+  return (field.slices?.length ?? 0) > 1;
+}
+
+/** The msb/lsb span covering all slices. */
+export function sliceSpan(slices: BitSlice[]): BitSlice {
+  return {
+    msb: Math.max(...slices.map((s) => s.msb)),
+    lsb: Math.min(...slices.map((s) => s.lsb)),
+  };
+}
+
+/** Number of bits in the field's value. */
+export function fieldBitWidth(field: SlicedField): number {
+  return fieldSlices(field).reduce((sum, s) => sum + s.msb - s.lsb + 1, 0);
+}
+
+/** The field's raw value: its slices concatenated, the first slice in the low bits. */
+export function extractFieldBits(value: bigint, field: SlicedField): bigint {
+  let raw = 0n;
+  let shift = 0;
+  for (const slice of fieldSlices(field)) {
+    raw |= extractBits(value, slice.msb, slice.lsb) << BigInt(shift);
+    shift += slice.msb - slice.lsb + 1;
+  }
+  return raw;
+}
+
+/** Write a raw field value back into its slices of the register value. */
+export function replaceFieldBits(value: bigint, field: SlicedField, raw: bigint): bigint {
+  let result = value;
+  let shift = 0;
+  for (const slice of fieldSlices(field)) {
+    result = replaceBits(result, slice.msb, slice.lsb, raw >> BigInt(shift));
+    shift += slice.msb - slice.lsb + 1;
+  }
+  return result;
+}
+
+/** Register bits covered by the field. */
+export function fieldMask(field: SlicedField): bigint {
+  let mask = 0n;
+  for (const slice of fieldSlices(field)) {
+    if (slice.msb < slice.lsb) continue;
+    mask |= ((1n << BigInt(slice.msb - slice.lsb + 1)) - 1n) << BigInt(slice.lsb);
+  }
+  return mask;
+}
+
+/** Whether the field covers a register bit. */
+export function fieldHasBit(field: SlicedField, bit: number): boolean {
+  return fieldSlices(field).some((s) => bit >= s.lsb && bit <= s.msb);
+}
+
+/**
+ * Bit range label: `[7:4]`, `[3]`, or for split fields a concatenation with
+ * the most significant part first, e.g. `{11:8, 31:28}`. Under MSB-0
+ * numbering the bits are counted from the register's top bit, so `[31:28]`
+ * of a 32-bit register reads `[0:3]`.
+ */
+export function formatBitRange(field: SlicedField, numbering: BitNumbering = 'lsb0', registerWidth = 0): string {
+  const bit = (b: number) => displayBit(b, registerWidth, numbering);
+  const range = (s: BitSlice) => (s.msb === s.lsb ? `${bit(s.msb)}` : `${bit(s.msb)}:${bit(s.lsb)}`);
+  if (!isSplitField(field)) return `[${range(fieldSlices(field)[0])}]`;
+  return `{${[...fieldSlices(field)].reverse().map(range).join(', ')}}`;
+}
+
+/**
+ * Parse a bit range in the `formatBitRange` notation (brackets and braces
+ * optional): `7:4`, `3`, or `11:8, 31:28` with the most significant part
+ * first. Returns slices from the least significant part up, or null.
+ */
+export function parseBitRange(text: string, numbering: BitNumbering = 'lsb0', registerWidth = 0): BitSlice[] | null {
+  const parts = text.replace(/[[\]{}]/g, '').split(',').map((p) => p.trim());
+  const slices: BitSlice[] = [];
+  for (const part of parts) {
+    const match = /^(\d+)(?:\s*:\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const first = Number(match[1]);
+    const second = match[2] !== undefined ? Number(match[2]) : first;
+    // MSB-0 indices beyond the register would map to negative bits
+    if (numbering === 'msb0' && Math.max(first, second) >= registerWidth) return null;
+    const msb = modelBit(first, registerWidth, numbering);
+    const lsb = modelBit(second, registerWidth, numbering);
+    if (msb < lsb) return null;
+    slices.push({ msb, lsb });
+  }
+  return slices.reverse();
+}
+
+/**
+ * The field with its range set from slices: a single slice clears `slices`,
+ * several set it along with the spanning msb/lsb.
+ */
+export function withSlices<F extends Field>(field: F, slices: BitSlice[]): F {
+  const { slices: _slices, ...rest } = field;
+  void _slices;
+  if (slices.length === 1) return { ...rest, msb: slices[0].msb, lsb: slices[0].lsb } as F;
+  return { ...rest, ...sliceSpan(slices), slices } as F;
+}
+
+/**
+ * Fields for formats without split fields: each split field becomes one
+ * unsigned integer field per slice, named after the value bits it holds
+ * (`ADDR_3_0`, `ADDR_7_4`). Other fields are returned unchanged.
+ */
+export function expandSplitFields(fields: Field[]): Field[] {
+  return fields.flatMap((field): Field[] => {
+    if (!isSplitField(field)) return [field];
+    let shift = 0;
+    return fieldSlices(field).map((slice, i) => {
+      const width = slice.msb - slice.lsb + 1;
+      const part: Field = {
+        id: `${field.id}:${i}`,
+        name: `${field.name}_${shift + width - 1}_${shift}`,
+        type: 'integer',
+        msb: slice.msb,
+        lsb: slice.lsb,
+        ...(field.description !== undefined && { description: field.description }),
+        ...(field.access !== undefined && { access: field.access }),
+        ...(field.resetValue !== undefined && { resetValue: (field.resetValue >> BigInt(shift)) & ((1n << BigInt(width)) - 1n) }),
+      };
+      shift += width;
+      return part;
+    });
+  });
+}
+
+/** The register with its split fields, including those of variants, expanded as in `expandSplitFields`. */
+export function withExpandedSplitFields(reg: RegisterDef): RegisterDef {
+  const variantSplit = reg.variants?.some((v) => v.fields.some(isSplitField));
+  if (!reg.fields.some(isSplitField) && !variantSplit) return reg;
+  return {
+    ...reg,
+    fields: expandSplitFields(reg.fields),
+    ...(variantSplit && { variants: reg.variants!.map((v) => ({ ...v, fields: expandSplitFields(v.fields) })) }),
+  };
+}
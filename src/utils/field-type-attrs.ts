@@ -0,0 +1,74 @@
+import type { BitName, Field, FieldScaling } from '../types/register';
+import { sanitizeField } from './sanitize';
+import { fieldBitWidth } from './field-slices';
+
+/** Bit names as `bit=name` pairs joined by `;` (`0=RXNE;5=TXE`). */
+export function formatBitNames(bitNames: BitName[]): string {
+  return bitNames.map((b) => `${b.bit}=${b.name}`).join(';');
+}
+
+/** Parse bit names written by `formatBitNames`; malformed pairs are dropped by `sanitizeField`. */
+export function parseBitNames(text: string): BitName[] {
+  return text.split(';').filter(Boolean).map((pair) => {
+    const [bit, ...name] = pair.split('=');
+    return { bit: Number(bit), name: name.join('=') };
+  });
+}
+
+function scalingAttrs(scaling: FieldScaling): Record<string, string> {
+  return { scale: String(scaling.scale), offset: String(scaling.offset), ...(scaling.unit && { unit: scaling.unit }) };
+}
+
+/**
+ * Attributes describing field types that XML register formats cannot express
+ * natively (float, fixed-point, signedness, scaling, BCD, Gray, ASCII, one-hot,
+ * bitsets, 1-bit enums and integers), or null
+ * if the format's own flag/enum/integer mapping already round-trips the field.
+ * Stored as vendor extension attributes by the SVD and IP-XACT exporters.
+ */
+export function fieldTypeAttrs(field: Field): Record<string, string> | null {
+  const bitWidth = fieldBitWidth(field);
+  switch (field.type) {
+    case 'flag':
+      return null;
+    case 'enum':
+      return bitWidth === 1 ? { type: 'enum' } : null;
+    case 'integer': {
+      const attrs: Record<string, string> | null = field.signedness
+        ? { type: 'integer', signedness: field.signedness }
+        : bitWidth === 1 ? { type: 'integer' } : null;
+      return field.scaling ? { type: 'integer', ...attrs, ...scalingAttrs(field.scaling) } : attrs;
+    }
+    case 'float':
+      return { type: 'float', floatType: field.floatType };
+    case 'fixed-point':
+      return {
+        type: 'fixed-point',
+        m: String(field.qFormat.m),
+        n: String(field.qFormat.n),
+        ...(field.scaling && scalingAttrs(field.scaling)),
+      };
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':
+      return { type: field.type };
+    case 'bitset':
+      return { type: 'bitset', bitNames: formatBitNames(field.bitNames) };
+  }
+}
+
+/** Re-type an imported field using attributes written from `fieldTypeAttrs`. */
+export function applyFieldTypeAttrs(field: Field, attrs: Record<string, string>): Field {
+  const raw: Record<string, unknown> = { ...field, type: attrs.type };
+  if (attrs.signedness) raw.signedness = attrs.signedness;
+  if (attrs.floatType) raw.floatType = attrs.floatType;
+  if (attrs.m !== undefined && attrs.n !== undefined) raw.qFormat = { m: Number(attrs.m), n: Number(attrs.n) };
+  if (attrs.bitNames !== undefined) raw.bitNames = parseBitNames(attrs.bitNames);
+  if (attrs.scale !== undefined) raw.scaling = { scale: Number(attrs.scale), offset: Number(attrs.offset ?? 0), unit: attrs.unit };
+  // A 1-bit enum is exported as enumerated values, which import as flag labels
+  if (attrs.type === 'enum' && field.type === 'flag' && field.flagLabels) {
+    raw.enumEntries = [{ value: 0, name: field.flagLabels.clear }, { value: 1, name: field.flagLabels.set }];
+  }
+  return sanitizeField(raw);
+}
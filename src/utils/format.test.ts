@@ -1,4 +1,4 @@
-import { formatOffset, offsetHexDigits, formatBinary } from './format';
+import { formatOffset, offsetHexDigits, formatBinary, formatResetValue, formatRegisterValue } from './format';
 
 describe('formatOffset', () => {
   it('formats zero as 0x00', () => {
@@ -77,3 +77,21 @@ describe('formatBinary', () => {
     expect(formatBinary('1010')).toBe('1010');
   });
 });
+
+describe('formatRegisterValue', () => {
+  it('pads to the register width in hex digits', () => {
+    expect(formatRegisterValue(0x1An, 32)).toBe('0x0000001A');
+    expect(formatRegisterValue(0x5n, 10)).toBe('0x005');
+  });
+});
+
+describe('formatResetValue', () => {
+  it('returns an empty string when unset', () => {
+    expect(formatResetValue(undefined)).toBe('');
+  });
+
+  it('formats as uppercase hex', () => {
+    expect(formatResetValue(0n)).toBe('0x0');
+    expect(formatResetValue(0xdeadn)).toBe('0xDEAD');
+  });
+});
@@ -2,6 +2,16 @@ export function formatOffset(offset: number, minDigits: number = 2): string {
   return '0x' + offset.toString(16).toUpperCase().padStart(minDigits, '0');
 }
 
+/** Format an optional reset value for editing: `0x`-prefixed hex, or '' when unset. */
+export function formatResetValue(value: bigint | undefined): string {
+  return value === undefined ? '' : '0x' + value.toString(16).toUpperCase();
+}
+
+/** Format a register value as `0x`-prefixed hex, zero-padded to the register width. */
+export function formatRegisterValue(value: bigint, width: number): string {
+  return '0x' + value.toString(16).toUpperCase().padStart(Math.ceil(width / 4), '0');
+}
+
 /** Compute the number of hex digits needed to represent `maxOffset`, minimum 2. */
 export function offsetHexDigits(maxOffset: number): number {
   if (maxOffset <= 0) return 2;
@@ -0,0 +1,338 @@
+import { exportToIpxact, importFromIpxact, parseIpxactInteger } from './ipxact';
+import type { EnumField, FixedPointField, FlagField, FloatField, IntegerField } from '../types/register';
+import { makeEnumField, makeFixedPointField, makeFlagField, makeFloatField, makeField, makeRegister, makeState } from '../test/helpers';
+import { parseXml } from './xml';
+
+const COMPONENT_2014 = `<?xml version="1.0" encoding="UTF-8"?>
+<ipxact:component xmlns:ipxact="http://www.accellera.org/XMLSchema/IPXACT/1685-2014">
+  <ipxact:vendor>acme</ipxact:vendor>
+  <ipxact:library>ip</ipxact:library>
+  <ipxact:name>uart</ipxact:name>
+  <ipxact:version>1.0</ipxact:version>
+  <ipxact:memoryMaps>
+    <ipxact:memoryMap>
+      <ipxact:name>regs</ipxact:name>
+      <ipxact:addressBlock>
+        <ipxact:name>ctrl_block</ipxact:name>
+        <ipxact:baseAddress>'h1000</ipxact:baseAddress>
+        <ipxact:range>'h100</ipxact:range>
+        <ipxact:width>32</ipxact:width>
+        <ipxact:register>
+          <ipxact:name>CTRL</ipxact:name>
+          <ipxact:description>Control
+            register</ipxact:description>
+          <ipxact:addressOffset>'h0</ipxact:addressOffset>
+          <ipxact:size>32</ipxact:size>
+          <ipxact:field>
+            <ipxact:name>EN</ipxact:name>
+            <ipxact:bitOffset>0</ipxact:bitOffset>
+            <ipxact:resets><ipxact:reset><ipxact:value>1</ipxact:value></ipxact:reset></ipxact:resets>
+            <ipxact:bitWidth>1</ipxact:bitWidth>
+            <ipxact:access>read-write</ipxact:access>
+          </ipxact:field>
+          <ipxact:field>
+            <ipxact:name>PARITY</ipxact:name>
+            <ipxact:description>Parity mode</ipxact:description>
+            <ipxact:bitOffset>4</ipxact:bitOffset>
+            <ipxact:resets><ipxact:reset><ipxact:value>2'b10</ipxact:value></ipxact:reset></ipxact:resets>
+            <ipxact:bitWidth>2</ipxact:bitWidth>
+            <ipxact:enumeratedValues>
+              <ipxact:enumeratedValue><ipxact:name>NONE</ipxact:name><ipxact:value>0</ipxact:value></ipxact:enumeratedValue>
+              <ipxact:enumeratedValue><ipxact:name>EVEN</ipxact:name><ipxact:value>'h2</ipxact:value></ipxact:enumeratedValue>
+            </ipxact:enumeratedValues>
+          </ipxact:field>
+        </ipxact:register>
+        <ipxact:register>
+          <ipxact:name>STATUS</ipxact:name>
+          <ipxact:addressOffset>0x4</ipxact:addressOffset>
+          <ipxact:size>16</ipxact:size>
+          <ipxact:access>read-only</ipxact:access>
+          <ipxact:field>
+            <ipxact:name>RXNE</ipxact:name>
+            <ipxact:bitOffset>0</ipxact:bitOffset>
+            <ipxact:bitWidth>1</ipxact:bitWidth>
+            <ipxact:readAction>clear</ipxact:readAction>
+          </ipxact:field>
+        </ipxact:register>
+        <ipxact:registerFile>
+          <ipxact:name>CH</ipxact:name>
+          <ipxact:dim>2</ipxact:dim>
+          <ipxact:addressOffset>'h20</ipxact:addressOffset>
+          <ipxact:range>'h8</ipxact:range>
+          <ipxact:register>
+            <ipxact:name>DATA</ipxact:name>
+            <ipxact:addressOffset>'h4</ipxact:addressOffset>
+            <ipxact:size>32</ipxact:size>
+            <ipxact:field>
+              <ipxact:name>VALUE</ipxact:name>
+              <ipxact:bitOffset>0</ipxact:bitOffset>
+              <ipxact:bitWidth>32</ipxact:bitWidth>
+            </ipxact:field>
+          </ipxact:register>
+        </ipxact:registerFile>
+      </ipxact:addressBlock>
+      <ipxact:addressUnitBits>8</ipxact:addressUnitBits>
+    </ipxact:memoryMap>
+  </ipxact:memoryMaps>
+  <ipxact:description>Serial port</ipxact:description>
+</ipxact:component>`;
+
+const COMPONENT_2009 = `<?xml version="1.0" encoding="UTF-8"?>
+<spirit:component xmlns:spirit="http://www.spiritconsortium.org/XMLSchema/SPIRIT/1.5">
+  <spirit:vendor>acme</spirit:vendor>
+  <spirit:library>ip</spirit:library>
+  <spirit:name>gpio</spirit:name>
+  <spirit:version>1.0</spirit:version>
+  <spirit:memoryMaps>
+    <spirit:memoryMap>
+      <spirit:name>regs</spirit:name>
+      <spirit:addressBlock>
+        <spirit:name>A</spirit:name>
+        <spirit:baseAddress>0x0</spirit:baseAddress>
+        <spirit:range>16</spirit:range>
+        <spirit:width>16</spirit:width>
+        <spirit:register>
+          <spirit:name>DIR</spirit:name>
+          <spirit:dim>2</spirit:dim>
+          <spirit:addressOffset>#10</spirit:addressOffset>
+          <spirit:size>16</spirit:size>
+          <spirit:reset><spirit:value>0xFF0F</spirit:value><spirit:mask>0x00FF</spirit:mask></spirit:reset>
+          <spirit:field>
+            <spirit:name>PINS</spirit:name>
+            <spirit:bitOffset>0</spirit:bitOffset>
+            <spirit:bitWidth>16</spirit:bitWidth>
+          </spirit:field>
+        </spirit:register>
+      </spirit:addressBlock>
+      <spirit:addressBlock>
+        <spirit:name>B</spirit:name>
+        <spirit:baseAddress>0x100</spirit:baseAddress>
+        <spirit:range>16</spirit:range>
+        <spirit:width>16</spirit:width>
+        <spirit:register>
+          <spirit:name>OUT</spirit:name>
+          <spirit:addressOffset>PARAM_OFFSET</spirit:addressOffset>
+          <spirit:size>16</spirit:size>
+        </spirit:register>
+      </spirit:addressBlock>
+      <spirit:addressUnitBits>16</spirit:addressUnitBits>
+    </spirit:memoryMap>
+  </spirit:memoryMaps>
+</spirit:component>`;
+
+describe('parseIpxactInteger', () => {
+  it('parses decimal, hex and scaled values', () => {
+    expect(parseIpxactInteger('42')).toBe(42n);
+    expect(parseIpxactInteger('0x1F')).toBe(31n);
+    expect(parseIpxactInteger('#1F')).toBe(31n);
+    expect(parseIpxactInteger('4k')).toBe(4096n);
+  });
+
+  it('parses SystemVerilog literals', () => {
+    expect(parseIpxactInteger("'h1F")).toBe(31n);
+    expect(parseIpxactInteger("8'b1010_0101")).toBe(0xA5n);
+    expect(parseIpxactInteger("32'd100")).toBe(100n);
+  });
+
+  it('rejects expressions', () => {
+    expect(parseIpxactInteger('WIDTH-1')).toBeUndefined();
+    expect(parseIpxactInteger("4'b102")).toBeUndefined();
+    expect(parseIpxactInteger(undefined)).toBeUndefined();
+  });
+});
+
+describe('importFromIpxact', () => {
+  it('returns null for non-component documents', () => {
+    expect(importFromIpxact('<device><peripherals/></device>')).toBeNull();
+    expect(importFromIpxact('<ipxact:component xmlns:ipxact="x"/>')).toBeNull();
+    expect(importFromIpxact('not xml')).toBeNull();
+  });
+
+  it('imports 1685-2014 registers at absolute offsets', () => {
+    const result = importFromIpxact(COMPONENT_2014)!;
+    expect(result.registers.map((r) => [r.name, r.offset, r.width])).toEqual([
+      ['CTRL', 0x1000, 32],
+      ['STATUS', 0x1004, 16],
+      ['CH_0_DATA', 0x1024, 32],
+      ['CH_1_DATA', 0x102C, 32],
+    ]);
+    expect(result.registers[0].description).toBe('Control register');
+    expect(result.project).toEqual({ title: 'uart', description: 'Serial port' });
+    expect(result.addressUnitBits).toBe(8);
+  });
+
+  it('maps fields, enumerated values and field resets', () => {
+    const result = importFromIpxact(COMPONENT_2014)!;
+    const [ctrl] = result.registers;
+    expect(ctrl.fields[0]).toMatchObject({ name: 'EN', msb: 0, lsb: 0, type: 'flag' });
+    expect(ctrl.fields[1]).toMatchObject({ name: 'PARITY', msb: 5, lsb: 4, type: 'enum', description: 'Parity mode' });
+    expect((ctrl.fields[1] as EnumField).enumEntries).toEqual([{ value: 0, name: 'NONE' }, { value: 2, name: 'EVEN' }]);
+    expect(result.values[ctrl.id]).toBe(0x21n);
+    expect(ctrl.resetValue).toBe(0x21n);
+  });
+
+  it('maps register access and field side effects to access types', () => {
+    const result = importFromIpxact(COMPONENT_2014)!;
+    expect(result.warnings).toEqual([]);
+    const [ctrl, status] = result.registers;
+    expect(ctrl.access).toBeUndefined();
+    expect(ctrl.fields[0].access).toBeUndefined();
+    expect(status.access).toBe('ro');
+    expect(status.fields[0].access).toBe('rc');
+  });
+
+  it('reads 1685-2022 field access policies and reports side effects that cannot be represented', () => {
+    const xml = COMPONENT_2014.replace(
+      '<ipxact:readAction>clear</ipxact:readAction>',
+      `<ipxact:fieldAccessPolicies><ipxact:fieldAccessPolicy>
+        <ipxact:access>read-write</ipxact:access>
+        <ipxact:modifiedWriteValue>oneToToggle</ipxact:modifiedWriteValue>
+      </ipxact:fieldAccessPolicy></ipxact:fieldAccessPolicies>`,
+    );
+    const result = importFromIpxact(xml)!;
+    expect(result.registers[1].fields[0].access).toBe('rw');
+    expect(result.warnings).toEqual([{
+      registerIndex: 1,
+      registerName: 'STATUS',
+      errors: [{ message: '"RXNE": modified write value "oneToToggle" is not supported' }],
+      imported: true,
+    }]);
+  });
+
+  it('imports 1685-2009 components with register resets, dims and block prefixes', () => {
+    const result = importFromIpxact(COMPONENT_2009)!;
+    expect(result.addressUnitBits).toBe(16);
+    expect(result.registers.map((r) => [r.name, r.offset])).toEqual([
+      ['A_DIR_0', 0x10],
+      ['A_DIR_1', 0x11],
+    ]);
+    expect(result.values[result.registers[0].id]).toBe(0x0Fn);
+    expect(result.warnings).toEqual([{
+      registerIndex: 2,
+      registerName: 'B_OUT',
+      errors: [{ message: 'Address offset or size is not a constant' }],
+    }]);
+  });
+});
+
+describe('exportToIpxact', () => {
+  it('round-trips variant fields', () => {
+    const mode = makeEnumField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0, enumEntries: [{ value: 0, name: 'PWM' }, { value: 1, name: 'CAPTURE' }] });
+    const timer = makeRegister({
+      name: 'TIM',
+      offset: 0,
+      width: 8,
+      fields: [mode],
+      variantSelectorId: 'mode',
+      variants: [
+        { id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2 })] },
+        { id: 'cap', name: 'CAPTURE', selectorValues: [1, 2], fields: [makeFlagField({ id: 'edge', name: 'EDGE', msb: 2, lsb: 2 })] },
+      ],
+    });
+    const result = importFromIpxact(exportToIpxact(makeState({ registers: [timer] })))!;
+    expect(result.warnings).toEqual([]);
+    const reg = result.registers[0];
+    expect(reg.fields.map((f) => f.name)).toEqual(['MODE']);
+    expect(reg.variantSelectorId).toBe(reg.fields[0].id);
+    expect(reg.variants!.map((v) => [v.name, v.selectorValues, v.fields.map((f) => [f.name, f.type, f.msb, f.lsb])])).toEqual([
+      ['PWM', [0], [['DUTY', 'integer', 7, 2]]],
+      ['CAPTURE', [1, 2], [['EDGE', 'flag', 2, 2]]],
+    ]);
+  });
+
+  it('produces a well-formed 1685-2014 component', () => {
+    const xml = exportToIpxact(makeState({
+      project: { title: 'My Chip', description: 'A & B' },
+      addressUnitBits: 16,
+      registers: [makeRegister({ name: 'CTRL', offset: 4, width: 32, fields: [makeField({ name: 'VAL' })] })],
+    }));
+    const doc = parseXml(xml)!;
+    expect(doc).not.toBeNull();
+    expect(doc.documentElement.namespaceURI).toBe('http://www.accellera.org/XMLSchema/IPXACT/1685-2014');
+    expect(xml).toContain('<ipxact:name>My_Chip</ipxact:name>');
+    expect(xml).toContain("<ipxact:addressOffset>'h4</ipxact:addressOffset>");
+    expect(xml).toContain('<ipxact:addressUnitBits>16</ipxact:addressUnitBits>');
+    expect(xml).toContain('<ipxact:description>A &amp; B</ipxact:description>');
+  });
+
+  it('round-trips registers, field types and empty registers', () => {
+    const state = makeState({
+      project: { title: 'chip', description: 'Test chip' },
+      registers: [
+        makeRegister({
+          name: 'CTRL',
+          offset: 0,
+          description: 'Control',
+          fields: [
+            makeFlagField({ id: 'a', name: 'EN', msb: 0, lsb: 0, flagLabels: { clear: 'OFF', set: 'ON' } }),
+            makeEnumField({ id: 'b', name: 'SEL', msb: 1, lsb: 1, enumEntries: [{ value: 0, name: 'A' }, { value: 1, name: 'B' }] }),
+            makeField({ id: 'c', name: 'TEMP', msb: 15, lsb: 8, signedness: 'sign-magnitude' }),
+            makeFixedPointField({ id: 'd', name: 'GAIN', msb: 31, lsb: 16, qFormat: { m: 4, n: 12 } }),
+          ],
+        }),
+        makeRegister({ id: 'r2', name: 'F', width: 32, fields: [makeFloatField({ name: 'X' })] }),
+        makeRegister({ id: 'r3', name: 'EMPTY', width: 8 }),
+      ],
+    });
+    const result = importFromIpxact(exportToIpxact(state))!;
+    expect(result.warnings).toEqual([]);
+    expect(result.project).toEqual({ title: 'chip', description: 'Test chip' });
+
+    const [ctrl, f, empty] = result.registers;
+    expect(ctrl).toMatchObject({ name: 'CTRL', offset: 0, description: 'Control' });
+    expect((ctrl.fields[0] as FlagField).flagLabels).toEqual({ clear: 'OFF', set: 'ON' });
+    expect(ctrl.fields[1]).toMatchObject({ type: 'enum', enumEntries: [{ value: 0, name: 'A' }, { value: 1, name: 'B' }] });
+    expect((ctrl.fields[2] as IntegerField).signedness).toBe('sign-magnitude');
+    expect((ctrl.fields[3] as FixedPointField).qFormat).toEqual({ m: 4, n: 12 });
+    expect(f).toMatchObject({ name: 'F', offset: 4 });
+    expect((f.fields[0] as FloatField).floatType).toBe('single');
+    expect(empty).toMatchObject({ name: 'EMPTY', offset: 8, width: 8, fields: [] });
+  });
+
+  it('round-trips access, repeating W1C/W1S/RC register defaults on each field', () => {
+    const state = makeState({
+      registers: [
+        makeRegister({
+          name: 'STATUS',
+          offset: 0,
+          access: 'ro',
+          fields: [
+            makeFlagField({ id: 'a', name: 'IRQ', msb: 0, lsb: 0, access: 'w1c' }),
+            makeFlagField({ id: 'b', name: 'BUSY', msb: 1, lsb: 1 }),
+          ],
+        }),
+        makeRegister({ id: 'r2', name: 'EVT', offset: 4, access: 'w1s', fields: [makeField({ name: 'PEND' })] }),
+      ],
+    });
+    const xml = exportToIpxact(state);
+    expect(xml).toContain('<ipxact:modifiedWriteValue>oneToClear</ipxact:modifiedWriteValue>');
+    const result = importFromIpxact(xml)!;
+    expect(result.warnings).toEqual([]);
+    const [status, evt] = result.registers;
+    expect(status.access).toBe('ro');
+    expect(status.fields.map((f) => f.access)).toEqual(['w1c', undefined]);
+    expect(evt.access).toBeUndefined();
+    expect(evt.fields[0].access).toBe('w1s');
+  });
+
+  it('round-trips reset values as field resets, including fieldless registers', () => {
+    const state = makeState({
+      registers: [
+        makeRegister({
+          name: 'CTRL',
+          offset: 0,
+          width: 8,
+          resetValue: 0x80n,
+          fields: [makeField({ id: 'a', name: 'MODE', msb: 7, lsb: 4 }), makeField({ id: 'b', name: 'DIV', msb: 3, lsb: 0, resetValue: 0x2n })],
+        }),
+        makeRegister({ id: 'r2', name: 'EMPTY', offset: 1, width: 8, resetValue: 0x5An }),
+        makeRegister({ id: 'r3', name: 'NONE', offset: 2, width: 8, fields: [makeField({ name: 'X' })] }),
+      ],
+    });
+    const xml = exportToIpxact(state);
+    expect(xml).toContain("<ipxact:value>'h8</ipxact:value>");
+    const result = importFromIpxact(xml)!;
+    expect(result.warnings).toEqual([]);
+    expect(result.registers.map((r) => r.resetValue)).toEqual([0x82n, 0x5An, undefined]);
+  });
+});
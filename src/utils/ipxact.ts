@@ -0,0 +1,549 @@
+import { ADDRESS_UNIT_BITS_VALUES, type AccessType, type AddressUnitBits, type AppState, type BaseField, type EnumEntry, type Field, type ProjectMetadata, type RegisterDef } from '../types/register';
+import { accessFromXml, accessToXml, type XmlAccess } from './access';
+import { extractBits } from './bitwise';
+import { applyFieldTypeAttrs, fieldTypeAttrs } from './field-type-attrs';
+import { hasReset, resetValueOf } from './reset';
+import type { ImportResult, ImportWarning } from './storage';
+import { validateRegisterDef } from './validation';
+import { childElement, childElements, childText, escapeXml, normalizeWhitespace, parseXml } from './xml';
+import { withExpandedSplitFields } from './field-slices';
+import { expandRegisters } from './register-array';
+import { flattenGroups } from './register-groups';
+import { flattenVariants, parseVariantOrigin, restoreVariants, variantOriginAttrs, type VariantOrigin } from './variants';
+
+const IPXACT_2014_NAMESPACE = 'http://www.accellera.org/XMLSchema/IPXACT/1685-2014';
+
+/** Namespace of the field vendor extension recording types IP-XACT cannot express and variant origins. */
+const VENDOR_NAMESPACE = 'urn:register-viewer';
+
+const SCALE_SUFFIX: Record<string, bigint> = {
+  k: 1n << 10n,
+  m: 1n << 20n,
+  g: 1n << 30n,
+  t: 1n << 40n,
+};
+
+const VERILOG_RADIX: Record<string, string> = { b: '0b', o: '0o', d: '', h: '0x' };
+
+/**
+ * Parse an IP-XACT integer: decimal, `0x` or `#` hex with an optional k/M/G/T
+ * scale suffix (1685-2009), or a SystemVerilog literal such as `'h1F` or
+ * `8'b1010` (1685-2014 and later). Returns undefined for anything else,
+ * including parameter expressions.
+ */
+export function parseIpxactInteger(text: string | undefined): bigint | undefined {
+  if (text === undefined) return undefined;
+  const s = text.trim().replace(/_/g, '');
+  const verilog = /^(?:\d+)?'[sS]?([bodhBODH])([0-9a-fA-F]+)$/.exec(s);
+  if (verilog) {
+    try {
+      const prefix = VERILOG_RADIX[verilog[1].toLowerCase()];
+      return BigInt(prefix + verilog[2]);
+    } catch {
+      return undefined;
+    }
+  }
+  const match = /^\+?(?:(0[xX]|#)([0-9a-fA-F]+)|([0-9]+))([kKmMgGtT])?$/.exec(s);
+  if (!match) return undefined;
+  const [, hexPrefix, hexDigits, decimal, suffix] = match;
+  const value = hexPrefix ? BigInt('0x' + hexDigits) : BigInt(decimal);
+  return suffix ? value * SCALE_SUFFIX[suffix.toLowerCase()] : value;
+}
+
+function parseIpxactNumber(text: string | undefined): number | undefined {
+  const value = parseIpxactInteger(text);
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Access of a register or address block. IP-XACT 1685-2022 moved `access`
+ * into `accessPolicies`; earlier versions have it as a direct child.
+ */
+function readAccess(el: Element): string | undefined {
+  const policies = childElement(el, 'accessPolicies');
+  const policy = policies && childElement(policies, 'accessPolicy');
+  return childText(policy ?? el, 'access');
+}
+
+/** Access and side effects of a field; 1685-2022 keeps them in `fieldAccessPolicies`. */
+function readFieldAccess(fieldEl: Element): XmlAccess {
+  const policies = childElement(fieldEl, 'fieldAccessPolicies');
+  const el = (policies && childElement(policies, 'fieldAccessPolicy')) ?? fieldEl;
+  return {
+    access: childText(el, 'access'),
+    modifiedWriteValues: childText(el, 'modifiedWriteValue'),
+    readAction: childText(el, 'readAction'),
+  };
+}
+
+/** Reset value of a field: the first reset without a reset type, else the first one. */
+function readFieldReset(fieldEl: Element): bigint | undefined {
+  const resets = childElement(fieldEl, 'resets');
+  if (!resets) return undefined;
+  const all = childElements(resets, 'reset');
+  const chosen = all.find((r) => !r.getAttribute('resetTypeRef')) ?? all[0];
+  return chosen ? parseIpxactInteger(childText(chosen, 'value')) : undefined;
+}
+
+/** Register-level reset (1685-2009): `<reset><value/><mask/></reset>`. */
+function readRegisterReset(regEl: Element): bigint | undefined {
+  const reset = childElement(regEl, 'reset');
+  if (!reset) return undefined;
+  const value = parseIpxactInteger(childText(reset, 'value'));
+  const mask = parseIpxactInteger(childText(reset, 'mask'));
+  return value !== undefined && mask !== undefined ? value & mask : value;
+}
+
+function readEnumEntries(fieldEl: Element, fieldName: string, lossy: string[]): EnumEntry[] {
+  const enumsEl = childElement(fieldEl, 'enumeratedValues');
+  if (!enumsEl) return [];
+  const entries: EnumEntry[] = [];
+  const seen = new Set<number>();
+  for (const ev of childElements(enumsEl, 'enumeratedValue')) {
+    const name = childText(ev, 'name') ?? '';
+    const value = parseIpxactNumber(childText(ev, 'value'));
+    if (value === undefined) {
+      lossy.push(`"${fieldName}": enumerated value "${name}" has an unsupported value expression`);
+      continue;
+    }
+    if (seen.has(value)) continue;
+    seen.add(value);
+    entries.push({ value, name });
+  }
+  return entries.sort((a, b) => a.value - b.value);
+}
+
+/** Attributes of this tool's vendor extension element on a field, if present. */
+function readVendorAttrs(fieldEl: Element): Record<string, string> | null {
+  const extensions = childElement(fieldEl, 'vendorExtensions');
+  if (!extensions) return null;
+  for (const el of Array.from(extensions.children)) {
+    if (el.namespaceURI !== VENDOR_NAMESPACE || el.localName !== 'field') continue;
+    const attrs: Record<string, string> = {};
+    for (const attr of Array.from(el.attributes)) attrs[attr.localName] = attr.value;
+    return attrs;
+  }
+  return null;
+}
+
+interface FieldResult {
+  field: Field;
+  reset?: bigint;
+  /** Set for fields exported from a variant. */
+  variant?: VariantOrigin;
+}
+
+function readField(fieldEl: Element, regAccess: AccessType | undefined, lossy: string[]): FieldResult | null {
+  const name = childText(fieldEl, 'name') ?? '';
+  const vendorAttrs = readVendorAttrs(fieldEl);
+  // Registers without fields are exported with a placeholder field (the schema requires one)
+  if (vendorAttrs?.placeholder === 'true') return null;
+
+  const lsb = parseIpxactNumber(childText(fieldEl, 'bitOffset'));
+  const bitWidth = parseIpxactNumber(childText(fieldEl, 'bitWidth'));
+  if (lsb === undefined || bitWidth === undefined) {
+    lossy.push(`"${name}" skipped: bit offset or width is not a constant`);
+    return null;
+  }
+
+  const msb = lsb + bitWidth - 1;
+  const base: BaseField = { id: crypto.randomUUID(), name, msb, lsb };
+  const access = accessFromXml(readFieldAccess(fieldEl), name, lossy);
+  if (access && access !== (regAccess ?? 'rw')) base.access = access;
+  const description = childText(fieldEl, 'description');
+  const withDesc = description ? { ...base, description: normalizeWhitespace(description) } : base;
+  const entries = readEnumEntries(fieldEl, name, lossy);
+
+  let field: Field;
+  if (bitWidth === 1) {
+    const clear = entries.find((e) => e.value === 0)?.name;
+    const set = entries.find((e) => e.value === 1)?.name;
+    field = clear || set
+      ? { ...withDesc, type: 'flag', flagLabels: { clear: clear ?? 'clear', set: set ?? 'set' } }
+      : { ...withDesc, type: 'flag' };
+  } else if (entries.length > 0) {
+    field = { ...withDesc, type: 'enum', enumEntries: entries };
+  } else {
+    field = { ...withDesc, type: 'integer' };
+  }
+  if (vendorAttrs?.type) field = applyFieldTypeAttrs(field, vendorAttrs);
+
+  const reset = readFieldReset(fieldEl);
+  return {
+    field,
+    reset: reset === undefined ? undefined : reset & ((1n << BigInt(bitWidth)) - 1n),
+    variant: parseVariantOrigin(vendorAttrs),
+  };
+}
+
+/** An imported register with the notes collected while converting it. */
+interface PendingRegister {
+  reg: RegisterDef;
+  resetValue?: bigint;
+  lossy: string[];
+  /** Set when the register cannot be imported at all. */
+  error?: string;
+}
+
+function dimCount(el: Element): number {
+  const dims = childElements(el, 'dim').map((d) => parseIpxactNumber(d.textContent ?? '') ?? 1);
+  return dims.reduce((product, d) => product * d, 1);
+}
+
+function readRegister(
+  regEl: Element,
+  baseAddress: number,
+  namePrefix: string,
+  inheritedAccess: string | undefined,
+  addressUnitBits: number,
+  out: PendingRegister[],
+): void {
+  const lossy: string[] = [];
+  const name = childText(regEl, 'name') ?? '';
+  const addressOffset = parseIpxactNumber(childText(regEl, 'addressOffset'));
+  const width = parseIpxactNumber(childText(regEl, 'size'));
+  const error = addressOffset === undefined || width === undefined
+    ? 'Address offset or size is not a constant'
+    : undefined;
+  const access = accessFromXml({ access: readAccess(regEl) ?? inheritedAccess }, name, lossy);
+
+  const fields: Field[] = [];
+  const variantOrigins = new Map<string, VariantOrigin>();
+  let fieldResets: bigint | undefined;
+  for (const fieldEl of childElements(regEl, 'field')) {
+    const result = readField(fieldEl, access, lossy);
+    if (!result) continue;
+    fields.push(result.field);
+    if (result.variant) variantOrigins.set(result.field.name, result.variant);
+    if (result.reset !== undefined) {
+      fieldResets = (fieldResets ?? 0n) | (result.reset << BigInt(result.field.lsb));
+    }
+  }
+  if (fields.length === 0) {
+    // A fieldless register carries its reset on the exported placeholder field
+    const placeholder = childElements(regEl, 'field').find((el) => readVendorAttrs(el)?.placeholder === 'true');
+    if (placeholder) fieldResets = readFieldReset(placeholder);
+  }
+  if (childElement(regEl, 'alternateRegisters')) lossy.push('Alternate registers are not supported');
+  const resetValue = fieldResets ?? readRegisterReset(regEl);
+  const description = childText(regEl, 'description');
+
+  const count = dimCount(regEl);
+  const stride = parseIpxactNumber(childText(regEl, 'stride'))
+    ?? Math.max(1, Math.ceil((width ?? 0) / addressUnitBits));
+  for (let i = 0; i < count; i++) {
+    const flat: RegisterDef = {
+      id: crypto.randomUUID(),
+      name: namePrefix + name + (count > 1 ? `_${i}` : ''),
+      width: width ?? 0,
+      offset: baseAddress + (addressOffset ?? 0) + i * stride,
+      // Each array element needs its own field ids
+      fields: fields.map((f) => ({ ...f, id: crypto.randomUUID() })),
+    };
+    const reg = restoreVariants(flat, (f) => variantOrigins.get(f.name));
+    if (description) reg.description = normalizeWhitespace(description);
+    if (access && access !== 'rw') reg.access = access;
+    out.push({ reg, resetValue, lossy: [...lossy], error });
+  }
+}
+
+/** Read registers and register files of an address block or register file, flattening nested files. */
+function readRegisterContainer(
+  container: Element,
+  baseAddress: number,
+  namePrefix: string,
+  inheritedAccess: string | undefined,
+  addressUnitBits: number,
+  out: PendingRegister[],
+): void {
+  const access = readAccess(container) ?? inheritedAccess;
+  for (const el of Array.from(container.children)) {
+    if (el.localName === 'register') {
+      readRegister(el, baseAddress, namePrefix, access, addressUnitBits, out);
+    } else if (el.localName === 'registerFile') {
+      const name = childText(el, 'name') ?? '';
+      const offset = parseIpxactNumber(childText(el, 'addressOffset')) ?? 0;
+      const count = dimCount(el);
+      const range = parseIpxactNumber(childText(el, 'range')) ?? 0;
+      for (let i = 0; i < count; i++) {
+        const prefix = `${namePrefix}${name}${count > 1 ? `_${i}` : ''}_`;
+        readRegisterContainer(el, baseAddress + offset + i * range, prefix, access, addressUnitBits, out);
+      }
+    }
+  }
+}
+
+/**
+ * Import an IP-XACT (IEEE 1685-2009, -2014 or -2022) component. Address
+ * blocks of all memory maps are flattened into a single register list:
+ * offsets are absolute (block base address + register offset), and register
+ * names are prefixed with the block name when there is more than one block.
+ * Register files are flattened the same way. Field resets become the
+ * initial register values.
+ *
+ * Returns null if the document is not an IP-XACT component with memory maps.
+ */
+export function importFromIpxact(xml: string): ImportResult | null {
+  const doc = parseXml(xml);
+  const component = doc?.documentElement;
+  if (!component || component.localName !== 'component') return null;
+  const memoryMapsEl = childElement(component, 'memoryMaps');
+  if (!memoryMapsEl) return null;
+
+  const memoryMaps = childElements(memoryMapsEl, 'memoryMap');
+  const blocks = memoryMaps.flatMap((map) => childElements(map, 'addressBlock').map((block) => ({ map, block })));
+  const usePrefix = blocks.length > 1;
+
+  const unitBitsByMap = memoryMaps.map((map) => parseIpxactNumber(childText(map, 'addressUnitBits')) ?? 8);
+  const unitBits = unitBitsByMap[0] ?? 8;
+  const componentName = childText(component, 'name') ?? '';
+  const componentWarnings: ImportWarning[] = [];
+  if (unitBitsByMap.some((bits) => bits !== unitBits)) {
+    componentWarnings.push({
+      registerIndex: -1,
+      registerName: componentName,
+      errors: [{ message: `Memory maps use different addressUnitBits; offsets use ${unitBits}-bit units throughout` }],
+      imported: true,
+    });
+  }
+
+  const pending: PendingRegister[] = [];
+  for (const { block } of blocks) {
+    const name = childText(block, 'name') ?? '';
+    const baseAddress = parseIpxactNumber(childText(block, 'baseAddress')) ?? 0;
+    readRegisterContainer(block, baseAddress, usePrefix ? `${name}_` : '', undefined, unitBits, pending);
+  }
+
+  const registers: RegisterDef[] = [];
+  const values: Record<string, bigint> = {};
+  const warnings: ImportWarning[] = [...componentWarnings];
+  pending.forEach(({ reg, resetValue, lossy, error }, i) => {
+    const errors = error ? [{ message: error }] : validateRegisterDef(reg);
+    if (errors.length > 0) {
+      warnings.push({ registerIndex: i, registerName: reg.name || `(index ${i})`, errors });
+      return;
+    }
+    if (resetValue !== undefined) {
+      const reset = resetValue & ((1n << BigInt(reg.width)) - 1n);
+      registers.push({ ...reg, resetValue: reset });
+      values[reg.id] = reset;
+    } else {
+      registers.push(reg);
+    }
+    if (lossy.length > 0) {
+      warnings.push({
+        registerIndex: i,
+        registerName: reg.name,
+        errors: lossy.map((message) => ({ message })),
+        imported: true,
+      });
+    }
+  });
+
+  const project: ProjectMetadata = {};
+  const description = childText(component, 'description');
+  if (componentName) project.title = componentName;
+  if (description) project.description = normalizeWhitespace(description);
+
+  const addressUnitBits = (ADDRESS_UNIT_BITS_VALUES as readonly number[]).includes(unitBits)
+    ? unitBits as AddressUnitBits : undefined;
+
+  return {
+    registers,
+    values,
+    warnings,
+    project: Object.keys(project).length > 0 ? project : undefined,
+    addressUnitBits,
+  };
+}
+
+// --- Export ---
+
+/** Reduce a name to an XML NMTOKEN-safe identifier (letters, digits, underscores; no leading digit). */
+function toIdentifier(name: string, fallback: string): string {
+  const id = name.trim().replace(/[^A-Za-z0-9_]/g, '_');
+  if (!id) return fallback;
+  return /^[0-9]/.test(id) ? `_${id}` : id;
+}
+
+function hex(value: number | bigint): string {
+  return "'h" + value.toString(16).toUpperCase();
+}
+
+function vendorExtensionXml(attrs: Record<string, string>, indent: string): string[] {
+  const attrText = Object.entries(attrs).map(([k, v]) => `${k}="${escapeXml(v)}"`).join(' ');
+  return [
+    `${indent}<ipxact:vendorExtensions>`,
+    `${indent}  <rv:field ${attrText}/>`,
+    `${indent}</ipxact:vendorExtensions>`,
+  ];
+}
+
+function enumeratedValuesXml(field: Field, indent: string): string[] {
+  let entries: EnumEntry[] = [];
+  if (field.type === 'enum') {
+    entries = field.enumEntries;
+  } else if (field.type === 'flag' && field.flagLabels) {
+    entries = [{ value: 0, name: field.flagLabels.clear }, { value: 1, name: field.flagLabels.set }];
+  }
+  if (entries.length === 0) return [];
+  const lines = [`${indent}<ipxact:enumeratedValues>`];
+  for (const entry of entries) {
+    lines.push(
+      `${indent}  <ipxact:enumeratedValue>`,
+      `${indent}    <ipxact:name>${escapeXml(toIdentifier(entry.name, `VALUE_${entry.value}`))}</ipxact:name>`,
+      `${indent}    <ipxact:value>${entry.value}</ipxact:value>`,
+      `${indent}  </ipxact:enumeratedValue>`,
+    );
+  }
+  lines.push(`${indent}</ipxact:enumeratedValues>`);
+  return lines;
+}
+
+function resetsXml(reset: bigint | undefined, indent: string): string[] {
+  if (reset === undefined) return [];
+  return [
+    `${indent}<ipxact:resets>`,
+    `${indent}  <ipxact:reset>`,
+    `${indent}    <ipxact:value>${hex(reset)}</ipxact:value>`,
+    `${indent}  </ipxact:reset>`,
+    `${indent}</ipxact:resets>`,
+  ];
+}
+
+function fieldXml(
+  field: Field,
+  regAccess: AccessType | undefined,
+  reset: bigint | undefined,
+  origin: VariantOrigin | undefined,
+  indent: string,
+): string[] {
+  const lines = [
+    `${indent}<ipxact:field>`,
+    `${indent}  <ipxact:name>${escapeXml(toIdentifier(field.name, 'FIELD'))}</ipxact:name>`,
+  ];
+  if (field.description) lines.push(`${indent}  <ipxact:description>${escapeXml(field.description)}</ipxact:description>`);
+  lines.push(
+    `${indent}  <ipxact:bitOffset>${field.lsb}</ipxact:bitOffset>`,
+    ...resetsXml(reset, `${indent}  `),
+    `${indent}  <ipxact:bitWidth>${field.msb - field.lsb + 1}</ipxact:bitWidth>`,
+  );
+  // Register access has no side effects in IP-XACT, so fields repeat a W1C/W1S/RC default
+  const inherited = regAccess === 'w1c' || regAccess === 'w1s' || regAccess === 'rc' ? regAccess : undefined;
+  const fieldAccess = field.access ?? inherited;
+  const access = fieldAccess && accessToXml(fieldAccess);
+  if (access) lines.push(`${indent}  <ipxact:access>${access.access}</ipxact:access>`);
+  lines.push(...enumeratedValuesXml(field, `${indent}  `));
+  if (access?.modifiedWriteValues) {
+    lines.push(`${indent}  <ipxact:modifiedWriteValue>${access.modifiedWriteValues}</ipxact:modifiedWriteValue>`);
+  }
+  if (access?.readAction) lines.push(`${indent}  <ipxact:readAction>${access.readAction}</ipxact:readAction>`);
+  const attrs = fieldTypeAttrs(field);
+  if (attrs || origin) {
+    const variantAttrs = origin && variantOriginAttrs({ ...origin, selector: toIdentifier(origin.selector, 'FIELD') });
+    lines.push(...vendorExtensionXml({ ...attrs, ...variantAttrs }, `${indent}  `));
+  }
+  lines.push(`${indent}</ipxact:field>`);
+  return lines;
+}
+
+function registerXml(reg: RegisterDef, origins: Map<string, VariantOrigin>, name: string, offset: number, indent: string): string[] {
+  const lines = [
+    `${indent}<ipxact:register>`,
+    `${indent}  <ipxact:name>${escapeXml(name)}</ipxact:name>`,
+  ];
+  if (reg.description) lines.push(`${indent}  <ipxact:description>${escapeXml(reg.description)}</ipxact:description>`);
+  lines.push(
+    `${indent}  <ipxact:addressOffset>${hex(offset)}</ipxact:addressOffset>`,
+    `${indent}  <ipxact:size>${reg.width}</ipxact:size>`,
+  );
+  if (reg.access) lines.push(`${indent}  <ipxact:access>${accessToXml(reg.access).access}</ipxact:access>`);
+  // IP-XACT 2014 only has field resets, so the register reset is split across fields
+  const reset = hasReset(reg) ? resetValueOf(reg) : undefined;
+  if (reg.fields.length > 0) {
+    for (const field of [...reg.fields].sort((a, b) => a.lsb - b.lsb)) {
+      const fieldReset = reset === undefined ? undefined : extractBits(reset, field.msb, field.lsb);
+      lines.push(...fieldXml(field, reg.access, fieldReset, origins.get(field.id), `${indent}  `));
+    }
+  } else {
+    // The schema requires at least one field per register
+    lines.push(
+      `${indent}  <ipxact:field>`,
+      `${indent}    <ipxact:name>${escapeXml(name)}</ipxact:name>`,
+      `${indent}    <ipxact:bitOffset>0</ipxact:bitOffset>`,
+      ...resetsXml(reset, `${indent}    `),
+      `${indent}    <ipxact:bitWidth>${reg.width}</ipxact:bitWidth>`,
+      ...vendorExtensionXml({ placeholder: 'true' }, `${indent}    `),
+      `${indent}  </ipxact:field>`,
+    );
+  }
+  lines.push(`${indent}</ipxact:register>`);
+  return lines;
+}
+
+/**
+ * Export the project as an IP-XACT 1685-2014 component with one memory map
+ * and a single address block holding every register (one per register array
+ * instance; grouped registers at their absolute address, prefixed with the
+ * group name). Registers without an offset are placed after the highest used
+ * address. Field types IP-XACT cannot express are kept in field vendor
+ * extensions so `importFromIpxact` can restore them; so are the variants of
+ * variant fields, written as `<variant>_<field>` beside the common fields.
+ * IP-XACT fields are contiguous, so split fields are written as one field
+ * per slice.
+ */
+export function exportToIpxact(state: Pick<AppState, 'registers' | 'groups' | 'project' | 'addressUnitBits'>): string {
+  const { project, addressUnitBits } = state;
+  const flattened = expandRegisters(flattenGroups(state.registers, state.groups))
+    .map((reg) => flattenVariants(withExpandedSplitFields(reg)));
+  const registers = flattened.map((f) => f.register);
+  const componentName = toIdentifier(project?.title ?? '', 'registers');
+  const unitsFor = (reg: RegisterDef) => Math.ceil(reg.width / addressUnitBits);
+
+  let nextFree = registers.reduce(
+    (max, r) => (r.offset != null ? Math.max(max, r.offset + unitsFor(r)) : max), 0,
+  );
+  const usedNames = new Set<string>();
+  const placed = registers.map((reg, i) => {
+    let offset = reg.offset;
+    if (offset == null) {
+      offset = nextFree;
+      nextFree += unitsFor(reg);
+    }
+    const base = toIdentifier(reg.name, 'REGISTER');
+    let name = base;
+    for (let i = 1; usedNames.has(name); i++) name = `${base}_${i}`;
+    usedNames.add(name);
+    return { reg, name, offset, origins: flattened[i].origins };
+  });
+  const blockWidth = registers.reduce<number>((max, r) => Math.max(max, r.width), addressUnitBits);
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<ipxact:component xmlns:ipxact="${IPXACT_2014_NAMESPACE}" xmlns:rv="${VENDOR_NAMESPACE}">`,
+    '  <ipxact:vendor>register-viewer</ipxact:vendor>',
+    '  <ipxact:library>registers</ipxact:library>',
+    `  <ipxact:name>${escapeXml(componentName)}</ipxact:name>`,
+    '  <ipxact:version>1.0</ipxact:version>',
+    '  <ipxact:memoryMaps>',
+    '    <ipxact:memoryMap>',
+    '      <ipxact:name>registers</ipxact:name>',
+    '      <ipxact:addressBlock>',
+    '        <ipxact:name>registers</ipxact:name>',
+    `        <ipxact:baseAddress>${hex(0)}</ipxact:baseAddress>`,
+    `        <ipxact:range>${hex(Math.max(1, nextFree))}</ipxact:range>`,
+    `        <ipxact:width>${blockWidth}</ipxact:width>`,
+  ];
+  for (const { reg, name, offset, origins } of placed) {
+    lines.push(...registerXml(reg, origins, name, offset, '        '));
+  }
+  lines.push(
+    '      </ipxact:addressBlock>',
+    `      <ipxact:addressUnitBits>${addressUnitBits}</ipxact:addressUnitBits>`,
+    '    </ipxact:memoryMap>',
+    '  </ipxact:memoryMaps>',
+  );
+  if (project?.description) lines.push(`  <ipxact:description>${escapeXml(project.description)}</ipxact:description>`);
+  lines.push('</ipxact:component>', '');
+  return lines.join('\n');
+}
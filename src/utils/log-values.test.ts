@@ -0,0 +1,68 @@
+import { compileLogPatterns, DEFAULT_LOG_PATTERNS, parseLogNumber, readLogValues } from './log-values';
+import { makeRegister, makeState } from '../test/helpers';
+
+const { patterns } = compileLogPatterns(DEFAULT_LOG_PATTERNS);
+
+describe('compileLogPatterns', () => {
+  it('compiles the default patterns', () => {
+    expect(compileLogPatterns(DEFAULT_LOG_PATTERNS).errors).toEqual([]);
+    expect(patterns).toHaveLength(2);
+  });
+
+  it('reports invalid patterns and missing groups, and skips blank lines', () => {
+    const result = compileLogPatterns(['(', '', '(?<name>\\w+)', '(?<value>\\d+)']);
+    expect(result.patterns).toHaveLength(0);
+    expect(result.errors).toHaveLength(3);
+    expect(result.errors[0]).toMatch(/^Pattern 1:/);
+    expect(result.errors[1]).toBe('Pattern 3 needs a (?<value>…) group');
+    expect(result.errors[2]).toBe('Pattern 4 needs a (?<name>…) or (?<offset>…) group');
+  });
+});
+
+describe('parseLogNumber', () => {
+  it('reads hex, binary and decimal with digit separators', () => {
+    expect(parseLogNumber('0x0000_1A03')).toBe(0x1A03n);
+    expect(parseLogNumber('0b1010')).toBe(10n);
+    expect(parseLogNumber('1_000')).toBe(1000n);
+    expect(parseLogNumber('0xZZ')).toBeNull();
+  });
+});
+
+describe('readLogValues', () => {
+  const state = makeState({
+    registers: [
+      makeRegister({ id: 'ctrl', name: 'CTRL', offset: 0 }),
+      makeRegister({ id: 'stat', name: 'STAT', offset: 0x40, width: 8 }),
+      makeRegister({ id: 'uart-ctrl', name: 'CTRL', offset: 0, groupId: 'uart' }),
+      makeRegister({ id: 'uart-baud', name: 'BAUD', offset: 4, groupId: 'uart' }),
+    ],
+    groups: [{ id: 'uart', name: 'UART0', baseAddress: 0x100 }],
+  });
+
+  it('matches names and offsets and keeps log order', () => {
+    const log = 'boot\nCTRL=0x0000_1A03 UART0_CTRL = 5\n[reg 0x40] <= 0x7\n[reg 0x104] <= 0xdead';
+    const { matches, issues } = readLogValues(log, patterns, state);
+    expect(issues).toEqual([]);
+    expect(matches.map((m) => [m.line, m.register.id, m.value])).toEqual([
+      [2, 'ctrl', 0x1A03n],
+      [2, 'uart-ctrl', 5n],
+      [3, 'stat', 7n],
+      [4, 'uart-baud', 0xDEADn],
+    ]);
+  });
+
+  it('falls back to unique plain names inside groups, ignoring case', () => {
+    const { matches } = readLogValues('baud=9600', patterns, state);
+    expect(matches.map((m) => m.register.id)).toEqual(['uart-baud']);
+  });
+
+  it('reports unknown registers and values that do not fit', () => {
+    const { matches, issues } = readLogValues('NOPE=1\n[reg 0x44] <= 1\nSTAT=0x100', patterns, state);
+    expect(matches).toEqual([]);
+    expect(issues.map((i) => [i.line, i.message])).toEqual([
+      [1, 'No register named NOPE'],
+      [2, 'No register at offset 0x44'],
+      [3, 'Value does not fit in STAT (8 bits)'],
+    ]);
+  });
+});
@@ -0,0 +1,124 @@
+import type { AppState, RegisterDef } from '../types/register';
+import { expandRegisters } from './register-array';
+import { flattenGroups } from './register-groups';
+
+const NUMBER = String.raw`0[xX][0-9a-fA-F_]+|0[bB][01_]+|[0-9][0-9_]*`;
+
+/**
+ * Patterns for `CTRL=0x0000_1A03` and `[reg 0x40] <= 0xdead`. Each pattern
+ * names the register with a `name` or `offset` group and the value with a
+ * `value` group.
+ */
+export const DEFAULT_LOG_PATTERNS: string[] = [
+  String.raw`(?<name>[A-Za-z_][\w.]*)\s*=\s*(?<value>${NUMBER})`,
+  String.raw`\[reg\s+(?<offset>${NUMBER})\]\s*<=\s*(?<value>${NUMBER})`,
+];
+
+/**
+ * Compile log patterns, one source per entry; blank entries are ignored.
+ * Errors name the pattern by its 1-based position.
+ */
+export function compileLogPatterns(sources: string[]): { patterns: RegExp[]; errors: string[] } {
+  const patterns: RegExp[] = [];
+  const errors: string[] = [];
+  sources.forEach((source, i) => {
+    if (source.trim() === '') return;
+    let pattern: RegExp;
+    try {
+      pattern = new RegExp(source, 'g');
+    } catch (e) {
+      errors.push(`Pattern ${i + 1}: ${(e as Error).message}`);
+      return;
+    }
+    if (!source.includes('(?<value>')) {
+      errors.push(`Pattern ${i + 1} needs a (?<value>…) group`);
+    } else if (!source.includes('(?<name>') && !source.includes('(?<offset>')) {
+      errors.push(`Pattern ${i + 1} needs a (?<name>…) or (?<offset>…) group`);
+    } else {
+      patterns.push(pattern);
+    }
+  });
+  return { patterns, errors };
+}
+
+/** Parse a logged number: hex, binary or decimal, with `_` digit separators. */
+export function parseLogNumber(text: string): bigint | null {
+  const digits = text.replace(/_/g, '');
+  if (!/^(0[xX][0-9a-fA-F]+|0[bB][01]+|[0-9]+)$/.test(digits)) return null;
+  return BigInt(digits);
+}
+
+export interface LogValueMatch {
+  /** 1-based line number. */
+  line: number;
+  /** The matched text. */
+  text: string;
+  register: RegisterDef;
+  value: bigint;
+}
+
+export interface LogValueIssue {
+  line: number;
+  text: string;
+  message: string;
+}
+
+/**
+ * Find register values in log text. Names are matched against group-qualified
+ * names first, then plain register names that are unique; offsets are
+ * absolute, in address units. Matches are in log order, so when a register
+ * appears more than once its last match is its latest value.
+ */
+export function readLogValues(
+  text: string,
+  patterns: RegExp[],
+  state: Pick<AppState, 'registers' | 'groups'>,
+): { matches: LogValueMatch[]; issues: LogValueIssue[] } {
+  const flat = expandRegisters(flattenGroups(state.registers, state.groups));
+  const plain = expandRegisters(state.registers);
+  const matches: LogValueMatch[] = [];
+  const issues: LogValueIssue[] = [];
+
+  function byName(name: string): RegisterDef | undefined {
+    const lower = name.toLowerCase();
+    const found = flat.find((r) => r.name === name) ?? flat.find((r) => r.name.toLowerCase() === lower);
+    if (found) return found;
+    const candidates = plain.filter((r) => r.name.toLowerCase() === lower);
+    return candidates.length === 1 ? flat.find((r) => r.id === candidates[0].id) : undefined;
+  }
+
+  text.split(/\r?\n/).forEach((lineText, i) => {
+    for (const pattern of patterns) {
+      for (const m of lineText.matchAll(pattern)) {
+        const groups = m.groups ?? {};
+        const issue = (message: string) => issues.push({ line: i + 1, text: m[0], message });
+        const value = parseLogNumber(groups.value ?? '');
+        if (value === null) {
+          issue(`"${groups.value ?? ''}" is not a number`);
+          continue;
+        }
+        let register: RegisterDef | undefined;
+        if (groups.name !== undefined) {
+          register = byName(groups.name);
+          if (!register) {
+            issue(`No register named ${groups.name}`);
+            continue;
+          }
+        } else {
+          const offset = parseLogNumber(groups.offset ?? '');
+          register = offset === null ? undefined : flat.find((r) => r.offset != null && BigInt(r.offset) === offset);
+          if (!register) {
+            issue(`No register at offset ${groups.offset ?? ''}`);
+            continue;
+          }
+        }
+        if (value >> BigInt(register.width) !== 0n) {
+          issue(`Value does not fit in ${register.name} (${register.width} bits)`);
+          continue;
+        }
+        matches.push({ line: i + 1, text: m[0], register, value });
+      }
+    }
+  });
+  return { matches, issues };
+}
@@ -69,6 +69,19 @@ describe('buildMapRegisters', () => {
     expect(result[0].hasOverlap).toBe(true);
     expect(result[1].hasOverlap).toBe(false);
   });
+
+  it('expands register arrays into instances', () => {
+    const regs = [
+      makeRegister({ id: 'ch', name: 'CH%s', offset: 0x10, width: 32, dim: { count: 2, stride: 8 } }),
+      makeRegister({ id: 'a', offset: 0x14, width: 32 }),
+    ];
+    const result = buildMapRegisters(regs, new Set());
+    expect(result.map((r) => [r.reg.id, r.reg.name, r.startUnit])).toEqual([
+      ['ch:0', 'CH0', 0x10],
+      ['a', 'TEST_REG', 0x14],
+      ['ch:1', 'CH1', 0x18],
+    ]);
+  });
 });
 
 describe('computeMapRows', () => {
@@ -1,5 +1,7 @@
 import type { Field, RegisterDef } from '../types/register';
 import type { RegisterOverlapWarning } from './validation';
+import { fieldSlices } from './field-slices';
+import { expandRegisters } from './register-array';
 
 /** A register prepared for map layout with precomputed address-unit extents. */
 export interface MapRegister {
@@ -61,15 +63,15 @@ export function getOverlapWarningIds(
 }
 
 /**
- * Filter registers to those with offsets, sort by offset, and assign
- * color indices and address-unit extents.
+ * Expand register arrays, filter registers to those with offsets, sort by
+ * offset, and assign color indices and address-unit extents.
  */
 export function buildMapRegisters(
   registers: RegisterDef[],
   overlapWarningIds: Set<string>,
   addressUnitBits: number = 8,
 ): MapRegister[] {
-  return registers
+  return expandRegisters(registers)
     .filter((r): r is RegisterDef & { offset: number } => r.offset != null)
     .sort((a, b) => a.offset - b.offset)
     .map((reg) => {
@@ -104,15 +106,18 @@ export function computeFieldSegments(
 
   for (let i = 0; i < reg.fields.length; i++) {
     const field = reg.fields[i];
-    // Check overlap
-    if (field.lsb > cellEndBit || field.msb < cellStartBit) continue;
+    // Split fields get one segment per slice, sharing the field index
+    for (const slice of fieldSlices(field)) {
+      // Check overlap
+      if (slice.lsb > cellEndBit || slice.msb < cellStartBit) continue;
 
-    const clampedMsb = Math.min(field.msb, cellEndBit);
-    const clampedLsb = Math.max(field.lsb, cellStartBit);
-    const widthBits = clampedMsb - clampedLsb + 1;
-    const isPartial = field.msb > cellEndBit || field.lsb < cellStartBit;
+      const clampedMsb = Math.min(slice.msb, cellEndBit);
+      const clampedLsb = Math.max(slice.lsb, cellStartBit);
+      const widthBits = clampedMsb - clampedLsb + 1;
+      const isPartial = slice.msb > cellEndBit || slice.lsb < cellStartBit;
 
-    segments.push({ field, fieldIndex: i, clampedMsb, clampedLsb, widthBits, isPartial });
+      segments.push({ field, fieldIndex: i, clampedMsb, clampedLsb, widthBits, isPartial });
+    }
   }
 
   // Sort MSB descending (highest bit first = left-to-right)
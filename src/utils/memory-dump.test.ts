@@ -0,0 +1,76 @@
+import { matchMemoryDump, parseMemoryDump } from './memory-dump';
+import { makeRegister } from '../test/helpers';
+
+function bytesOf(text: string, wordOrder: 'little' | 'big' = 'little') {
+  return Object.fromEntries(parseMemoryDump(text, wordOrder).bytes);
+}
+
+describe('parseMemoryDump', () => {
+  it('reads xxd output and ignores its ASCII column', () => {
+    const dump = '00000000: 4142 4344 0100  ABCD..\n';
+    expect(bytesOf(dump)).toEqual({ 0: 0x41, 1: 0x42, 2: 0x43, 3: 0x44, 4: 0x01, 5: 0x00 });
+  });
+
+  it('reads hexdump -C output and fills * repeats up to the next address', () => {
+    const dump = [
+      '00000000  01 02 03 04 05 06 07 08  09 0a 0b 0c 0d 0e 0f 10  |................|',
+      '00000010  ff ff ff ff ff ff ff ff  ff ff ff ff ff ff ff ff  |................|',
+      '*',
+      '00000030  aa bb                                             |..|',
+      '00000032',
+    ].join('\n');
+    const { bytes, skippedLines } = parseMemoryDump(dump, 'little');
+    expect(skippedLines).toEqual([]);
+    expect(bytes.size).toBe(0x32);
+    expect(bytes.get(0x0F)).toBe(0x10);
+    expect(bytes.get(0x2F)).toBe(0xFF);
+    expect(bytes.get(0x31)).toBe(0xBB);
+  });
+
+  it('reads GDB words in the given word order', () => {
+    const dump = '0x40000000 <GPIOA>:\t0x12345678\t0x00000001';
+    expect(bytesOf(dump, 'little')).toMatchObject({ 0x40000000: 0x78, 0x40000003: 0x12, 0x40000004: 0x01 });
+    expect(bytesOf(dump, 'big')).toMatchObject({ 0x40000000: 0x12, 0x40000003: 0x78, 0x40000007: 0x01 });
+  });
+
+  it('reads plain address: bytes lines', () => {
+    expect(bytesOf('0x10: de ad\n12: be ef')).toEqual({ 0x10: 0xDE, 0x11: 0xAD, 0x12: 0xBE, 0x13: 0xEF });
+  });
+
+  it('reports lines it cannot read', () => {
+    expect(parseMemoryDump('(gdb) x/4wx 0x0\n\n12 34 56\n0x0: 01', 'little').skippedLines).toEqual([1, 3]);
+  });
+});
+
+describe('matchMemoryDump', () => {
+  const options = { addressUnitBits: 8 as const, byteOrder: 'little' as const, baseAddress: 0x1000 };
+
+  it('reads each register at its byte address with its byte order', () => {
+    const registers = [
+      makeRegister({ id: 'a', offset: 0 }),
+      makeRegister({ id: 'b', offset: 4, byteOrder: 'big' }),
+      makeRegister({ id: 'c', offset: 8, width: 10 }),
+      makeRegister({ id: 'none' }),
+    ];
+    const { bytes } = parseMemoryDump('0x1000: 04 ac 34 12 12 34 ac 04 ff ff', 'little');
+    const match = matchMemoryDump(registers, bytes, options);
+    expect(match.values).toEqual({ a: 0x1234AC04n, b: 0x1234AC04n, c: 0x3FFn });
+    expect(match.partial).toEqual([]);
+    expect(match.unmatched).toEqual([]);
+  });
+
+  it('scales offsets by the address unit size', () => {
+    const registers = [makeRegister({ id: 'a', offset: 1, width: 16 })];
+    const { bytes } = parseMemoryDump('0x1000: 00 00 34 12', 'little');
+    expect(matchMemoryDump(registers, bytes, { ...options, addressUnitBits: 16 }).values).toEqual({ a: 0x1234n });
+  });
+
+  it('reports partly covered registers and bytes no register covers', () => {
+    const registers = [makeRegister({ id: 'a', offset: 0 }), makeRegister({ id: 'b', offset: 8 })];
+    const { bytes } = parseMemoryDump('0x1002: 01 02 03 04 05 06 07 08', 'little');
+    const match = matchMemoryDump(registers, bytes, options);
+    expect(match.values).toEqual({});
+    expect(match.partial.map((r) => r.id)).toEqual(['a', 'b']);
+    expect(match.unmatched).toEqual([[0x1004, 0x1007]]);
+  });
+});
@@ -0,0 +1,140 @@
+import type { AddressUnitBits, ByteOrder, RegisterDef } from '../types/register';
+import { clampToWidth } from './bitwise';
+import { byteCount, byteOrderOf, bytesToValue } from './byte-order';
+
+/** Bytes of a memory dump by byte address. */
+export type MemoryDump = Map<number, number>;
+
+export interface DumpParseResult {
+  bytes: MemoryDump;
+  /** 1-based numbers of non-blank lines that could not be read. */
+  skippedLines: number[];
+}
+
+/** A line address, optional GDB `<symbol+4>` and `:`, then the data. */
+const DATA_LINE = /^\s*(0[xX])?([0-9a-fA-F]+)(?:\s*<[^>]*>)?\s*(:)?\s+(.*)$/;
+/** A bare address, as `hexdump -C` prints after the last line. */
+const ADDRESS_LINE = /^\s*(?:0[xX])?([0-9a-fA-F]+)\s*$/;
+
+/**
+ * Bytes of the data part of a dump line, in memory order. The ASCII column is
+ * dropped: `|…|` for `hexdump -C`, otherwise everything after two spaces, as
+ * `xxd` prints it. Tokens are then read until one is not hex or is wider than
+ * the first; a narrower token ends the line (a short last group). `0x` tokens
+ * are GDB values, laid out in memory with `wordOrder`; bare groups are bytes
+ * in order.
+ */
+function lineBytes(data: string, wordOrder: ByteOrder): number[] {
+  const bytes: number[] = [];
+  let size: number | undefined;
+  const ascii = /\s*\|.*\|\s*$/;
+  const hex = ascii.test(data) ? data.replace(ascii, '') : data.split(/ {2,}/)[0];
+  for (const token of hex.trim().split(/\s+/)) {
+    const value = /^0[xX]([0-9a-fA-F]+)$/.exec(token);
+    const digits = value ? value[1] : token;
+    if (!/^([0-9a-fA-F]{2})+$/.test(digits)) break;
+    size ??= digits.length;
+    if (digits.length > size) break;
+    const group = digits.match(/../g)!.map((pair) => parseInt(pair, 16));
+    bytes.push(...(value && wordOrder === 'little' ? group.reverse() : group));
+    if (digits.length < size) break;
+  }
+  return bytes;
+}
+
+/**
+ * Parse a memory dump: `xxd`, `hexdump -C` (including `*` for repeated
+ * lines), GDB `x` output such as `x/32wx`, or plain `address: bytes` lines.
+ * Addresses are byte addresses. GDB prints each word as a number, so its
+ * bytes are laid out in memory with `wordOrder`.
+ */
+export function parseMemoryDump(text: string, wordOrder: ByteOrder): DumpParseResult {
+  const bytes: MemoryDump = new Map();
+  const skippedLines: number[] = [];
+  let last: { address: number; bytes: number[] } | undefined;
+  let repeating = false;
+
+  /** Fill a `*` gap up to `address` by repeating the last line. */
+  function endRepeat(address: number) {
+    if (!repeating || !last || last.bytes.length === 0) return;
+    for (let at = last.address + last.bytes.length; at < address; at += last.bytes.length) {
+      last.bytes.forEach((b, i) => { if (at + i < address) bytes.set(at + i, b); });
+    }
+    repeating = false;
+  }
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === '') return;
+    if (line.trim() === '*') {
+      repeating = true;
+      return;
+    }
+    const bare = ADDRESS_LINE.exec(line);
+    if (bare) {
+      endRepeat(parseInt(bare[1], 16));
+      return;
+    }
+    // Without a `0x` prefix or a colon, only a dump-style address (4+ digits) counts
+    const match = DATA_LINE.exec(line);
+    const isAddress = match && (match[1] || match[3] || match[2].length >= 4);
+    const data = isAddress ? lineBytes(match[4], wordOrder) : [];
+    if (!match || data.length === 0) {
+      skippedLines.push(i + 1);
+      return;
+    }
+    const address = parseInt(match[2], 16);
+    endRepeat(address);
+    data.forEach((b, j) => bytes.set(address + j, b));
+    last = { address, bytes: data };
+  });
+  return { bytes, skippedLines };
+}
+
+export interface DumpMatch {
+  /** New values of the registers the dump fully covers, by register id. */
+  values: Record<string, bigint>;
+  /** Registers the dump covers only in part; their values are left alone. */
+  partial: RegisterDef[];
+  /** Dump bytes no register covers, as inclusive byte address ranges. */
+  unmatched: [number, number][];
+}
+
+/**
+ * Read register values from a dump. Each register with an offset starts at
+ * `baseAddress + offset × addressUnitBits / 8` and is read with its byte
+ * order (or `byteOrder` when it has none). `registers` are register
+ * instances with absolute offsets, as from `expandRegisters(flattenGroups(…))`.
+ */
+export function matchMemoryDump(
+  registers: RegisterDef[],
+  dump: MemoryDump,
+  options: { addressUnitBits: AddressUnitBits; byteOrder: ByteOrder; baseAddress: number },
+): DumpMatch {
+  const values: Record<string, bigint> = {};
+  const partial: RegisterDef[] = [];
+  const covered = new Set<number>();
+
+  for (const reg of registers) {
+    if (reg.offset == null) continue;
+    const start = options.baseAddress + (reg.offset * options.addressUnitBits) / 8;
+    const addresses = Array.from({ length: byteCount(reg.width) }, (_, i) => start + i);
+    addresses.forEach((a) => covered.add(a));
+    const present = addresses.filter((a) => dump.has(a));
+    if (present.length === 0) continue;
+    if (present.length < addresses.length) {
+      partial.push(reg);
+      continue;
+    }
+    const bytes = addresses.map((a) => dump.get(a)!);
+    values[reg.id] = clampToWidth(bytesToValue(bytes, reg.width, byteOrderOf(reg, options.byteOrder)), reg.width);
+  }
+
+  const unmatched: [number, number][] = [];
+  for (const address of [...dump.keys()].sort((a, b) => a - b)) {
+    if (covered.has(address)) continue;
+    const range = unmatched[unmatched.length - 1];
+    if (range && range[1] === address - 1) range[1] = address;
+    else unmatched.push([address, address]);
+  }
+  return { values, partial, unmatched };
+}
@@ -0,0 +1,63 @@
+import { baseRegisterId, expandRegister, expandRegisters, findRegister, instanceId, instanceIndex, instanceName } from './register-array';
+import { makeRegister } from '../test/helpers';
+
+const channels = makeRegister({ id: 'ch', name: 'CH%s_CTRL', offset: 0x10, dim: { count: 3, stride: 8 } });
+
+describe('instanceName', () => {
+  it('substitutes %s or appends the index', () => {
+    expect(instanceName('CH%s_CTRL', 2)).toBe('CH2_CTRL');
+    expect(instanceName('DATA', 1)).toBe('DATA_1');
+  });
+});
+
+describe('instanceId / baseRegisterId', () => {
+  it('round-trips the register id', () => {
+    expect(baseRegisterId(instanceId('ch', 2))).toBe('ch');
+    expect(baseRegisterId('plain')).toBe('plain');
+    expect(instanceIndex(instanceId('ch', 2))).toBe(2);
+    expect(instanceIndex('plain')).toBeUndefined();
+  });
+});
+
+describe('expandRegister', () => {
+  it('returns plain registers unchanged', () => {
+    const reg = makeRegister();
+    expect(expandRegister(reg)).toEqual([reg]);
+  });
+
+  it('creates one register per instance at the stride', () => {
+    const instances = expandRegister(channels);
+    expect(instances.map((r) => [r.id, r.name, r.offset])).toEqual([
+      ['ch:0', 'CH0_CTRL', 0x10],
+      ['ch:1', 'CH1_CTRL', 0x18],
+      ['ch:2', 'CH2_CTRL', 0x20],
+    ]);
+    expect(instances.every((r) => r.dim === undefined && r.fields === channels.fields)).toBe(true);
+  });
+
+  it('leaves instances without an offset when the array has none', () => {
+    const reg = makeRegister({ dim: { count: 2, stride: 4 } });
+    expect(expandRegister(reg).map((r) => r.offset)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('findRegister', () => {
+  const registers = [makeRegister({ id: 'a' }), channels];
+
+  it('finds plain registers and instances', () => {
+    expect(findRegister(registers, 'a')).toBe(registers[0]);
+    expect(findRegister(registers, 'ch:1')?.name).toBe('CH1_CTRL');
+    expect(expandRegisters(registers)).toHaveLength(4);
+  });
+
+  it('resolves an array id to its first instance', () => {
+    expect(findRegister(registers, 'ch')?.id).toBe('ch:0');
+  });
+
+  it('returns undefined for unknown or out-of-range ids', () => {
+    expect(findRegister(registers, null)).toBeUndefined();
+    expect(findRegister(registers, 'missing')).toBeUndefined();
+    expect(findRegister(registers, 'ch:3')).toBeUndefined();
+    expect(findRegister(registers, 'a:0')).toBeUndefined();
+  });
+});
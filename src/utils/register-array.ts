@@ -0,0 +1,63 @@
+import type { RegisterDef, RegisterDim } from '../types/register';
+
+/** Upper bound on register array instances, to keep expansion cheap. */
+export const MAX_DIM_COUNT = 1024;
+
+const INSTANCE_SEPARATOR = ':';
+
+export function isRegisterArray(reg: RegisterDef): reg is RegisterDef & { dim: RegisterDim } {
+  return reg.dim !== undefined;
+}
+
+/** Id of one instance of a register array, stable across edits to the array. */
+export function instanceId(registerId: string, index: number): string {
+  return `${registerId}${INSTANCE_SEPARATOR}${index}`;
+}
+
+/** The register an id belongs to: the array for instance ids, else the id itself. */
+export function baseRegisterId(id: string): string {
+  const sep = id.lastIndexOf(INSTANCE_SEPARATOR);
+  return sep === -1 ? id : id.slice(0, sep);
+}
+
+/** Index of an array instance id, or undefined for plain register ids. */
+export function instanceIndex(id: string): number | undefined {
+  const sep = id.lastIndexOf(INSTANCE_SEPARATOR);
+  return sep === -1 ? undefined : Number(id.slice(sep + 1));
+}
+
+/** Instance name from an array name pattern: `%s` becomes the index, else `_<index>` is appended. */
+export function instanceName(pattern: string, index: number): string {
+  return pattern.includes('%s') ? pattern.replaceAll('%s', String(index)) : `${pattern}_${index}`;
+}
+
+/**
+ * The registers an entry stands for: itself, or one register per array
+ * instance with its own id, name and offset (and no `dim`).
+ */
+export function expandRegister(reg: RegisterDef): RegisterDef[] {
+  if (!isRegisterArray(reg)) return [reg];
+  const { dim, ...rest } = reg;
+  return Array.from({ length: dim.count }, (_, i) => ({
+    ...rest,
+    id: instanceId(reg.id, i),
+    name: instanceName(reg.name, i),
+    ...(reg.offset != null && { offset: reg.offset + i * dim.stride }),
+  }));
+}
+
+export function expandRegisters(registers: RegisterDef[]): RegisterDef[] {
+  return registers.flatMap(expandRegister);
+}
+
+/**
+ * Resolve a register or instance id. An array's own id resolves to its first
+ * instance; out-of-range instance ids resolve to nothing.
+ */
+export function findRegister(registers: RegisterDef[], id: string | null): RegisterDef | undefined {
+  if (id === null) return undefined;
+  const reg = registers.find((r) => r.id === baseRegisterId(id)) ?? registers.find((r) => r.id === id);
+  if (!reg || !isRegisterArray(reg)) return reg?.id === id ? reg : undefined;
+  const instances = expandRegister(reg);
+  return id === reg.id ? instances[0] : instances.find((r) => r.id === id);
+}
@@ -83,6 +83,30 @@ describe('registersEqual — top-level differences', () => {
     expect(registersEqual(makeReg({ offset: 0 }), makeReg())).toBe(false);
   });
 
+  it('detects different default access', () => {
+    expect(registersEqual(makeReg({ access: 'ro' }), makeReg())).toBe(false);
+  });
+
+  it('detects different array dimensions', () => {
+    expect(registersEqual(makeReg({ dim: { count: 2, stride: 4 } }), makeReg())).toBe(false);
+    expect(registersEqual(makeReg({ dim: { count: 2, stride: 4 } }), makeReg({ dim: { count: 2, stride: 8 } }))).toBe(false);
+    expect(registersEqual(makeReg({ dim: { count: 2, stride: 4 } }), makeReg({ dim: { count: 2, stride: 4 } }))).toBe(true);
+  });
+
+  it('detects different reset value', () => {
+    expect(registersEqual(makeReg({ resetValue: 1n }), makeReg())).toBe(false);
+    expect(registersEqual(makeReg({ resetValue: 1n }), makeReg({ resetValue: 1n }))).toBe(true);
+  });
+
+  it('detects different variants and selector', () => {
+    const variant = { id: 'v1', name: 'PWM', selectorValues: [0], fields: [makeField()] };
+    expect(registersEqual(makeReg({ variants: [variant] }), makeReg())).toBe(false);
+    expect(registersEqual(makeReg({ variants: [variant] }), makeReg({ variants: [{ ...variant, selectorValues: [1] }] }))).toBe(false);
+    expect(registersEqual(makeReg({ variants: [variant] }), makeReg({ variants: [{ ...variant, fields: [makeField({ msb: 1 })] }] }))).toBe(false);
+    expect(registersEqual(makeReg({ variants: [variant] }), makeReg({ variants: [{ ...variant }] }))).toBe(true);
+    expect(registersEqual(makeReg({ variantSelectorId: 'f1' }), makeReg())).toBe(false);
+  });
+
   it('detects different field count', () => {
     expect(registersEqual(
       makeReg({ fields: [makeField()] }),
@@ -123,6 +147,20 @@ describe('registersEqual — field base properties', () => {
     )).toBe(false);
   });
 
+  it('detects different field access', () => {
+    expect(registersEqual(
+      makeReg({ fields: [makeField({ access: 'w1c' })] }),
+      makeReg({ fields: [makeField({ access: 'w1s' })] }),
+    )).toBe(false);
+  });
+
+  it('detects different field reset value', () => {
+    expect(registersEqual(
+      makeReg({ fields: [makeField({ resetValue: 1n })] }),
+      makeReg({ fields: [makeField()] }),
+    )).toBe(false);
+  });
+
   it('detects different field type', () => {
     expect(registersEqual(
       makeReg({ fields: [makeField({ type: 'flag' })] }),
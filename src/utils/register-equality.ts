@@ -1,4 +1,14 @@
-import type { Field, RegisterDef } from '../types/register';
+import type { BitSlice, Field, FieldScaling, RegisterDef, RegisterVariant } from '../types/register';
+
+function slicesEqual(a: BitSlice[] | undefined, b: BitSlice[] | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.length === b.length && a.every((s, i) => s.msb === b[i].msb && s.lsb === b[i].lsb);
+}
+
+function scalingEqual(a: FieldScaling | undefined, b: FieldScaling | undefined): boolean {
+  if (!a || !b) return a === b;
+  return a.scale === b.scale && a.offset === b.offset && a.unit === b.unit;
+}
 
 function fieldsEqual(a: Field, b: Field): boolean {
   if (
@@ -7,7 +17,10 @@ function fieldsEqual(a: Field, b: Field): boolean {
     a.name !== b.name ||
     a.description !== b.description ||
     a.msb !== b.msb ||
-    a.lsb !== b.lsb
+    a.lsb !== b.lsb ||
+    a.access !== b.access ||
+    a.resetValue !== b.resetValue ||
+    !slicesEqual(a.slices, b.slices)
   ) return false;
 
   switch (a.type) {
@@ -29,16 +42,38 @@ function fieldsEqual(a: Field, b: Field): boolean {
       return true;
     }
     case 'integer':
-      return a.signedness === (b as typeof a).signedness;
+      return a.signedness === (b as typeof a).signedness && scalingEqual(a.scaling, (b as typeof a).scaling);
     case 'float':
       return a.floatType === (b as typeof a).floatType;
     case 'fixed-point': {
       const bfp = b as typeof a;
-      return a.qFormat.m === bfp.qFormat.m && a.qFormat.n === bfp.qFormat.n;
+      return a.qFormat.m === bfp.qFormat.m && a.qFormat.n === bfp.qFormat.n && scalingEqual(a.scaling, bfp.scaling);
+    }
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':
+      return true;
+    case 'bitset': {
+      const bb = b as typeof a;
+      return a.bitNames.length === bb.bitNames.length &&
+        a.bitNames.every((n, i) => n.bit === bb.bitNames[i].bit && n.name === bb.bitNames[i].name);
     }
   }
 }
 
+function fieldListsEqual(a: Field[], b: Field[]): boolean {
+  return a.length === b.length && a.every((f, i) => fieldsEqual(f, b[i]));
+}
+
+function variantsEqual(a: RegisterVariant, b: RegisterVariant): boolean {
+  return a.id === b.id &&
+    a.name === b.name &&
+    a.selectorValues.length === b.selectorValues.length &&
+    a.selectorValues.every((v, i) => v === b.selectorValues[i]) &&
+    fieldListsEqual(a.fields, b.fields);
+}
+
 export function registersEqual(a: RegisterDef, b: RegisterDef): boolean {
   if (
     a.id !== b.id ||
@@ -46,11 +81,18 @@ export function registersEqual(a: RegisterDef, b: RegisterDef): boolean {
     a.description !== b.description ||
     a.width !== b.width ||
     a.offset !== b.offset ||
+    a.access !== b.access ||
+    a.resetValue !== b.resetValue ||
+    a.dim?.count !== b.dim?.count ||
+    a.dim?.stride !== b.dim?.stride ||
+    a.groupId !== b.groupId ||
+    a.variantSelectorId !== b.variantSelectorId ||
+    (a.variants?.length ?? 0) !== (b.variants?.length ?? 0) ||
     a.fields.length !== b.fields.length
   ) return false;
 
   for (let i = 0; i < a.fields.length; i++) {
     if (!fieldsEqual(a.fields[i], b.fields[i])) return false;
   }
-  return true;
+  return (a.variants ?? []).every((v, i) => variantsEqual(v, b.variants![i]));
 }
@@ -0,0 +1,44 @@
+import { absoluteOffset, flattenGroups, groupSections, qualifiedName } from './register-groups';
+import { makeRegister } from '../test/helpers';
+
+const uart = { id: 'g1', name: 'UART0', baseAddress: 0x4000 };
+const timer = { id: 'g2', name: 'TIMER', baseAddress: 0x5000 };
+const groups = [uart, timer];
+
+const ctrl = makeRegister({ id: 'a', name: 'CTRL', offset: 4, groupId: 'g1' });
+const id = makeRegister({ id: 'b', name: 'ID', offset: 0 });
+const orphan = makeRegister({ id: 'c', name: 'OLD', offset: 8, groupId: 'missing' });
+
+describe('absoluteOffset / qualifiedName', () => {
+  it('adds the group base address and prefixes the group name', () => {
+    expect(absoluteOffset(ctrl, groups)).toBe(0x4004);
+    expect(qualifiedName(ctrl, groups)).toBe('UART0_CTRL');
+  });
+
+  it('leaves ungrouped registers and registers of missing groups alone', () => {
+    expect(absoluteOffset(id, groups)).toBe(0);
+    expect(absoluteOffset(orphan, groups)).toBe(8);
+    expect(qualifiedName(orphan, groups)).toBe('OLD');
+    expect(absoluteOffset(makeRegister({ groupId: 'g1' }), groups)).toBeUndefined();
+  });
+});
+
+describe('flattenGroups', () => {
+  it('resolves offsets and names and drops the group id', () => {
+    const [flatCtrl, flatId] = flattenGroups([ctrl, id], groups);
+    expect(flatCtrl).toMatchObject({ id: 'a', name: 'UART0_CTRL', offset: 0x4004 });
+    expect(flatCtrl.groupId).toBeUndefined();
+    expect(flatId).toBe(id);
+  });
+});
+
+describe('groupSections', () => {
+  it('lists ungrouped registers first, then every group in order', () => {
+    const sections = groupSections([ctrl, id, orphan], groups);
+    expect(sections.map((s) => [s.group?.name ?? null, s.registers.map((r) => r.id)])).toEqual([
+      [null, ['b', 'c']],
+      ['UART0', ['a']],
+      ['TIMER', []],
+    ]);
+  });
+});
@@ -0,0 +1,55 @@
+import type { RegisterDef, RegisterGroup } from '../types/register';
+
+export interface RegisterSection {
+  group: RegisterGroup | null; // null for registers outside any group
+  registers: RegisterDef[];
+}
+
+/** The group a register belongs to; registers pointing at a missing group count as ungrouped. */
+export function groupOf(reg: RegisterDef, groups: RegisterGroup[]): RegisterGroup | undefined {
+  return reg.groupId === undefined ? undefined : groups.find((g) => g.id === reg.groupId);
+}
+
+/** Address of a register in address units: its offset plus its group's base address. */
+export function absoluteOffset(reg: RegisterDef, groups: RegisterGroup[]): number | undefined {
+  if (reg.offset == null) return undefined;
+  return reg.offset + (groupOf(reg, groups)?.baseAddress ?? 0);
+}
+
+/** Register name qualified by its group, as it appears in flat exports (`UART0_CTRL`). */
+export function qualifiedName(reg: RegisterDef, groups: RegisterGroup[]): string {
+  const group = groupOf(reg, groups);
+  return group ? `${group.name}_${reg.name}` : reg.name;
+}
+
+/**
+ * The registers as a flat project: offsets become absolute, names are
+ * qualified by their group and `groupId` is dropped. Ids are unchanged, so
+ * values and selection still apply.
+ */
+export function flattenGroups(registers: RegisterDef[], groups: RegisterGroup[]): RegisterDef[] {
+  return registers.map((reg) => {
+    if (reg.groupId === undefined) return reg;
+    const { groupId: _groupId, ...rest } = reg;
+    void _groupId;
+    const offset = absoluteOffset(reg, groups);
+    return {
+      ...rest,
+      name: qualifiedName(reg, groups),
+      ...(offset !== undefined && { offset }),
+    };
+  });
+}
+
+/**
+ * Split registers into list sections: ungrouped registers first, then one
+ * section per group in group order, including empty groups. Registers keep
+ * their relative order within a section.
+ */
+export function groupSections(registers: RegisterDef[], groups: RegisterGroup[]): RegisterSection[] {
+  const ungrouped = registers.filter((r) => !groupOf(r, groups));
+  return [
+    { group: null, registers: ungrouped },
+    ...groups.map((group) => ({ group, registers: registers.filter((r) => r.groupId === group.id) })),
+  ];
+}
@@ -0,0 +1,53 @@
+import { hasReset, resetValueOf } from './reset';
+import { makeEnumField, makeField, makeFlagField, makeRegister } from '../test/helpers';
+
+describe('resetValueOf', () => {
+  it('is 0 when nothing is set', () => {
+    expect(resetValueOf(makeRegister())).toBe(0n);
+  });
+
+  it('uses the register reset value masked to the width', () => {
+    expect(resetValueOf(makeRegister({ width: 8, resetValue: 0x1A5n }))).toBe(0xA5n);
+  });
+
+  it('lets field resets override the register bits', () => {
+    const reg = makeRegister({
+      width: 16,
+      resetValue: 0xFFFFn,
+      fields: [
+        makeField({ id: 'a', msb: 7, lsb: 4, resetValue: 0x3n }),
+        makeFlagField({ id: 'b', msb: 0, lsb: 0, resetValue: 0n }),
+        makeField({ id: 'c', msb: 15, lsb: 12 }),
+      ],
+    });
+    expect(resetValueOf(reg)).toBe(0xFF3En);
+  });
+
+  it('truncates field resets wider than the field', () => {
+    const reg = makeRegister({ width: 8, fields: [makeField({ msb: 3, lsb: 0, resetValue: 0x1Fn })] });
+    expect(resetValueOf(reg)).toBe(0xFn);
+  });
+
+  it('writes the field resets of the variant selected at reset', () => {
+    const reg = makeRegister({
+      width: 8,
+      fields: [makeEnumField({ id: 'mode', msb: 0, lsb: 0 })],
+      variantSelectorId: 'mode',
+      variants: [
+        { id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', msb: 7, lsb: 4, resetValue: 0x5n })] },
+        { id: 'cap', name: 'CAP', selectorValues: [1], fields: [makeField({ id: 'edge', msb: 3, lsb: 2, resetValue: 0x3n })] },
+      ],
+    });
+    expect(resetValueOf(reg)).toBe(0x50n);
+    expect(resetValueOf({ ...reg, resetValue: 0x1n })).toBe(0x0Dn);
+  });
+});
+
+describe('hasReset', () => {
+  it('is true when the register or a field defines a reset', () => {
+    expect(hasReset(makeRegister())).toBe(false);
+    expect(hasReset(makeRegister({ resetValue: 0n }))).toBe(true);
+    expect(hasReset(makeRegister({ fields: [makeField({ resetValue: 1n })] }))).toBe(true);
+    expect(hasReset(makeRegister({ variants: [{ id: 'v', name: 'V', selectorValues: [0], fields: [makeField({ resetValue: 1n })] }] }))).toBe(true);
+  });
+});
@@ -0,0 +1,28 @@
+import type { Field, RegisterDef } from '../types/register';
+import { replaceFieldBits } from './field-slices';
+import { activeLayout, allFields } from './variants';
+
+function withFieldResets(value: bigint, fields: Field[]): bigint {
+  for (const field of fields) {
+    if (field.resetValue === undefined) continue;
+    // Slices reaching past the register width are cut off by the final mask
+    value = replaceFieldBits(value, field, field.resetValue);
+  }
+  return value;
+}
+
+/**
+ * Register value after reset: the register reset value with each field's own
+ * reset (if any) written into its bits, masked to the register width. Of the
+ * variant fields, only those of the variant selected at reset count.
+ */
+export function resetValueOf(register: RegisterDef): bigint {
+  const widthMask = (1n << BigInt(register.width)) - 1n;
+  const base = withFieldResets(register.resetValue ?? 0n, register.fields);
+  return withFieldResets(base, activeLayout(register, base).fields) & widthMask;
+}
+
+/** Whether the register or any of its fields, variant fields included, defines a reset value. */
+export function hasReset(register: Pick<RegisterDef, 'resetValue' | 'fields' | 'variants'>): boolean {
+  return register.resetValue !== undefined || allFields(register).some((f) => f.resetValue !== undefined);
+}
@@ -1,5 +1,5 @@
-import { sanitizeField, sanitizeRegisterDef } from './sanitize';
-import type { EnumField, Field, FixedPointField, FlagField, FloatField, IntegerField, RegisterDef } from '../types/register';
+import { sanitizeField, sanitizeGroup, sanitizeRegisterDef, sanitizeResetValue, sanitizeVariant } from './sanitize';
+import type { BitsetField, EnumField, Field, FixedPointField, FlagField, FloatField, IntegerField, RegisterDef } from '../types/register';
 
 describe('sanitizeField', () => {
   it('picks only known properties, strips unknown ones', () => {
@@ -81,6 +81,23 @@ describe('sanitizeField', () => {
     expect('description' in field).toBe(false);
   });
 
+  it('preserves access when valid', () => {
+    for (const access of ['rw', 'ro', 'wo', 'w1c', 'w1s', 'rc'] as const) {
+      const field = sanitizeField({ name: 'F', msb: 0, lsb: 0, type: 'flag', access });
+      expect(field.access).toBe(access);
+    }
+  });
+
+  it('omits access when not a valid string', () => {
+    const field = sanitizeField({ name: 'F', msb: 0, lsb: 0, type: 'flag', access: 'read-only' });
+    expect('access' in field).toBe(false);
+  });
+
+  it('parses a reset value and omits an invalid one', () => {
+    expect(sanitizeField({ name: 'F', msb: 3, lsb: 0, type: 'integer', resetValue: '0xa' }).resetValue).toBe(10n);
+    expect('resetValue' in sanitizeField({ name: 'F', msb: 3, lsb: 0, type: 'integer', resetValue: 'zz' })).toBe(false);
+  });
+
   it('preserves signedness when valid', () => {
     for (const signedness of ['unsigned', 'twos-complement', 'sign-magnitude'] as const) {
       const field = sanitizeField({
@@ -326,6 +343,42 @@ describe('sanitizeField', () => {
     }) as FixedPointField;
     expect(field.qFormat).toEqual({ m: 0, n: 0 });
   });
+
+  it('accepts the BCD, Gray, ASCII and one-hot types', () => {
+    for (const type of ['bcd', 'gray', 'ascii', 'one-hot']) {
+      expect(sanitizeField({ name: 'F', msb: 7, lsb: 0, type }).type).toBe(type);
+    }
+  });
+
+  it('keeps well-formed bit names of a bitset field', () => {
+    const field = sanitizeField({
+      name: 'SR',
+      type: 'bitset',
+      bitNames: [{ bit: 0, name: 'RXNE' }, { bit: -1, name: 'BAD' }, { bit: 5 }, { bit: 5, name: 'TXE' }],
+    }) as BitsetField;
+    expect(field.bitNames).toEqual([{ bit: 0, name: 'RXNE' }, { bit: 5, name: 'TXE' }]);
+  });
+
+  it('keeps a scaling spec with a non-zero scale, defaulting the offset', () => {
+    const field = sanitizeField({ name: 'T', type: 'integer', scaling: { scale: 0.5, unit: ' °C ' } }) as IntegerField;
+    expect(field.scaling).toEqual({ scale: 0.5, offset: 0, unit: '°C' });
+    const unscaled = sanitizeField({ name: 'T', type: 'fixed-point', scaling: { scale: 0, offset: 1 } }) as FixedPointField;
+    expect(unscaled.scaling).toBeUndefined();
+  });
+
+  it('keeps well-formed slices of a split field and spans msb/lsb over them', () => {
+    const field = sanitizeField({
+      name: 'ADDR', msb: 0, lsb: 0, type: 'integer',
+      slices: [{ msb: 31, lsb: 28 }, { msb: 1.5, lsb: 0 }, 'x', { msb: 11, lsb: 8 }],
+    });
+    expect(field).toMatchObject({ msb: 31, lsb: 8, slices: [{ msb: 31, lsb: 28 }, { msb: 11, lsb: 8 }] });
+  });
+
+  it('drops a slice list with fewer than two valid slices', () => {
+    const field = sanitizeField({ name: 'F', msb: 7, lsb: 4, type: 'integer', slices: [{ msb: 3, lsb: 0 }] });
+    expect(field).toMatchObject({ msb: 7, lsb: 4 });
+    expect(field.slices).toBeUndefined();
+  });
 });
 
 describe('sanitizeRegisterDef', () => {
@@ -361,6 +414,11 @@ describe('sanitizeRegisterDef', () => {
     expect(reg.id).not.toBe('');
   });
 
+  it('keeps a valid byte order and drops anything else', () => {
+    expect(sanitizeRegisterDef({ name: 'REG', width: 8, byteOrder: 'big' }).byteOrder).toBe('big');
+    expect(sanitizeRegisterDef({ name: 'REG', width: 8, byteOrder: 'BE' }).byteOrder).toBeUndefined();
+  });
+
   it('defaults fields to empty array when missing', () => {
     const reg = sanitizeRegisterDef({ name: 'REG', width: 8 });
     expect(reg.fields).toEqual([]);
@@ -410,6 +468,23 @@ describe('sanitizeRegisterDef', () => {
     expect(reg.description).toBe('Status register');
   });
 
+  it('preserves a valid default access and drops an invalid one', () => {
+    expect(sanitizeRegisterDef({ name: 'R', width: 8, fields: [], access: 'ro' }).access).toBe('ro');
+    expect('access' in sanitizeRegisterDef({ name: 'R', width: 8, fields: [], access: 7 })).toBe(false);
+  });
+
+  it('preserves a valid array dimension and drops an invalid one', () => {
+    expect(sanitizeRegisterDef({ name: 'R', width: 8, fields: [], dim: { count: 4, stride: 2, extra: 1 } }).dim).toEqual({ count: 4, stride: 2 });
+    for (const dim of [{ count: 0, stride: 1 }, { count: 2, stride: 0 }, { count: 2000, stride: 1 }, { count: 1.5, stride: 1 }, 'x']) {
+      expect('dim' in sanitizeRegisterDef({ name: 'R', width: 8, fields: [], dim })).toBe(false);
+    }
+  });
+
+  it('preserves a valid reset value and drops an invalid one', () => {
+    expect(sanitizeRegisterDef({ name: 'R', width: 8, fields: [], resetValue: '0x80' }).resetValue).toBe(0x80n);
+    expect('resetValue' in sanitizeRegisterDef({ name: 'R', width: 8, fields: [], resetValue: -1 })).toBe(false);
+  });
+
   it('omits description when not a string', () => {
     const reg = sanitizeRegisterDef({
       name: 'STATUS',
@@ -543,3 +618,49 @@ describe('sanitizeRegisterDef', () => {
     expect((reg.fields[2] as IntegerField).signedness).toBe('twos-complement');
   });
 });
+
+describe('sanitizeResetValue', () => {
+  it('accepts hex, binary and decimal strings, numbers and bigints', () => {
+    expect(sanitizeResetValue('0x1F')).toBe(31n);
+    expect(sanitizeResetValue('0b101')).toBe(5n);
+    expect(sanitizeResetValue('42')).toBe(42n);
+    expect(sanitizeResetValue(7)).toBe(7n);
+    expect(sanitizeResetValue(9n)).toBe(9n);
+  });
+
+  it('rejects negative, fractional and malformed values', () => {
+    for (const raw of [-1, 1.5, '-0x1', 'abc', '', null, undefined, -2n]) {
+      expect(sanitizeResetValue(raw)).toBeUndefined();
+    }
+  });
+});
+
+describe('sanitizeGroup', () => {
+  it('keeps known properties and defaults the base address', () => {
+    expect(sanitizeGroup({ id: 'g', name: ' UART0 ', description: 'Serial', baseAddress: 0x4000, extra: 1 }))
+      .toEqual({ id: 'g', name: 'UART0', description: 'Serial', baseAddress: 0x4000 });
+    expect(sanitizeGroup({ name: 'T', baseAddress: -1 })).toMatchObject({ name: 'T', baseAddress: 0 });
+  });
+
+  it('rejects groups without a name', () => {
+    expect(sanitizeGroup({ baseAddress: 0 })).toBeUndefined();
+    expect(sanitizeGroup({ name: '  ' })).toBeUndefined();
+    expect(sanitizeGroup(null)).toBeUndefined();
+  });
+});
+
+describe('sanitizeVariant', () => {
+  it('keeps non-negative integer selector values and sanitizes fields', () => {
+    const variant = sanitizeVariant({ id: 'v', name: 'PWM', selectorValues: [0, -1, 2.5, '3', 4], fields: [{ name: 'F', type: 'flag', msb: 1, lsb: 1 }, null] });
+    expect(variant).toMatchObject({ id: 'v', name: 'PWM', selectorValues: [0, 4] });
+    expect(variant!.fields).toHaveLength(1);
+    expect(sanitizeVariant('nope')).toBeUndefined();
+  });
+
+  it('resolves the register selector by id or field name', () => {
+    const fields = [{ id: 'm', name: 'MODE', type: 'flag', msb: 0, lsb: 0 }];
+    expect(sanitizeRegisterDef({ name: 'R', width: 8, fields, variantSelectorId: 'm' }).variantSelectorId).toBe('m');
+    expect(sanitizeRegisterDef({ name: 'R', width: 8, fields, variantSelector: 'MODE' }).variantSelectorId).toBe('m');
+    expect(sanitizeRegisterDef({ name: 'R', width: 8, fields, variantSelectorId: 'x' }).variantSelectorId).toBeUndefined();
+  });
+});
@@ -1,15 +1,78 @@
-import type { EnumEntry, Field, FlagField, IntegerField, FieldType, QFormat, RegisterDef, Signedness } from '../types/register';
+import type { AccessType, BitName, BitNumbering, BitSlice, ByteOrder, EnumEntry, Field, FieldScaling, FlagField, IntegerField, FieldType, QFormat, RegisterDef, RegisterDim, RegisterGroup, RegisterVariant, Signedness } from '../types/register';
+import { ACCESS_TYPES } from '../types/register';
+import { sliceSpan } from './field-slices';
+import { MAX_DIM_COUNT } from './register-array';
 
 const VALID_FIELD_TYPES: ReadonlySet<string> = new Set<FieldType>([
-  'flag', 'enum', 'integer', 'float', 'fixed-point',
+  'flag', 'enum', 'integer', 'float', 'fixed-point', 'bcd', 'gray', 'ascii', 'one-hot', 'bitset',
 ]);
 
 const VALID_FLOAT_TYPES: ReadonlySet<string> = new Set(['half', 'single', 'double']);
 const VALID_SIGNEDNESS: ReadonlySet<string> = new Set<Signedness>(['unsigned', 'twos-complement', 'sign-magnitude']);
+const VALID_ACCESS: ReadonlySet<string> = new Set<string>(ACCESS_TYPES);
+
+function sanitizeAccess(raw: unknown): AccessType | undefined {
+  return typeof raw === 'string' && VALID_ACCESS.has(raw) ? raw as AccessType : undefined;
+}
+
+export function sanitizeByteOrder(raw: unknown): ByteOrder | undefined {
+  return raw === 'little' || raw === 'big' ? raw : undefined;
+}
+
+export function sanitizeBitNumbering(raw: unknown): BitNumbering | undefined {
+  return raw === 'lsb0' || raw === 'msb0' ? raw : undefined;
+}
+
+/**
+ * Parse a reset value stored as a hex string (`"0x1f"`), a decimal string or
+ * a non-negative integer (or bigint). Returns undefined for anything else.
+ */
+export function sanitizeResetValue(raw: unknown): bigint | undefined {
+  if (typeof raw === 'bigint') return raw >= 0n ? raw : undefined;
+  if (typeof raw === 'number') {
+    return Number.isSafeInteger(raw) && raw >= 0 ? BigInt(raw) : undefined;
+  }
+  if (typeof raw !== 'string' || !raw.trim()) return undefined;
+  try {
+    const value = BigInt(raw.trim());
+    return value >= 0n ? value : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Keep a scaling spec only when scale is a non-zero finite number; offset defaults to 0. */
+function sanitizeScaling(raw: unknown): FieldScaling | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.scale !== 'number' || !Number.isFinite(obj.scale) || obj.scale === 0) return undefined;
+  const scaling: FieldScaling = {
+    scale: obj.scale,
+    offset: typeof obj.offset === 'number' && Number.isFinite(obj.offset) ? obj.offset : 0,
+  };
+  if (typeof obj.unit === 'string' && obj.unit.trim()) {
+    scaling.unit = obj.unit.trim();
+  }
+  return scaling;
+}
+
+/**
+ * Keep the well-formed `{msb, lsb}` entries of a raw slice list. Returns
+ * undefined unless at least two remain, since a single slice is a plain range.
+ */
+function sanitizeSlices(raw: unknown): BitSlice[] | undefined {
+  if (!Array.isArray(raw)) return undefined;
+  const slices = raw
+    .filter((s: unknown): s is Record<string, unknown> => typeof s === 'object' && s !== null)
+    .filter((s) => Number.isInteger(s.msb) && Number.isInteger(s.lsb))
+    .map((s) => ({ msb: s.msb as number, lsb: s.lsb as number }));
+  return slices.length > 1 ? slices : undefined;
+}
 
 /**
  * Construct a Field from a raw parsed object, picking only known properties.
- * Assigns a new UUID if the source lacks an `id`.
+ * Assigns a new UUID if the source lacks an `id`. For split fields msb/lsb
+ * are recomputed to span the slices.
  */
 export function sanitizeField(raw: Record<string, unknown>): Field {
   const type = (typeof raw.type === 'string' && VALID_FIELD_TYPES.has(raw.type))
@@ -18,13 +81,25 @@ export function sanitizeField(raw: Record<string, unknown>): Field {
 
   const id = (typeof raw.id === 'string' && raw.id) ? raw.id : crypto.randomUUID();
   const name = typeof raw.name === 'string' ? raw.name : '';
-  const msb = Number.isInteger(raw.msb) ? raw.msb as number : 0;
-  const lsb = Number.isInteger(raw.lsb) ? raw.lsb as number : 0;
-  const base: { id: string; name: string; msb: number; lsb: number; description?: string } =
+  const slices = sanitizeSlices(raw.slices);
+  const msb = slices ? sliceSpan(slices).msb : Number.isInteger(raw.msb) ? raw.msb as number : 0;
+  const lsb = slices ? sliceSpan(slices).lsb : Number.isInteger(raw.lsb) ? raw.lsb as number : 0;
+  const base: { id: string; name: string; msb: number; lsb: number; slices?: BitSlice[]; description?: string; access?: AccessType; resetValue?: bigint } =
     { id, name, msb, lsb };
+  if (slices) {
+    base.slices = slices;
+  }
   if (typeof raw.description === 'string') {
     base.description = raw.description;
   }
+  const access = sanitizeAccess(raw.access);
+  if (access) {
+    base.access = access;
+  }
+  const resetValue = sanitizeResetValue(raw.resetValue);
+  if (resetValue !== undefined) {
+    base.resetValue = resetValue;
+  }
 
   switch (type) {
     case 'flag': {
@@ -57,6 +132,10 @@ export function sanitizeField(raw: Record<string, unknown>): Field {
         // Backward compat: migrate old `signed: true` to `twos-complement`
         result.signedness = 'twos-complement';
       }
+      const scaling = sanitizeScaling(raw.scaling);
+      if (scaling) {
+        result.scaling = scaling;
+      }
       return result;
     }
     case 'float': {
@@ -73,27 +152,93 @@ export function sanitizeField(raw: Record<string, unknown>): Field {
           qFormat = { m: qf.m as number, n: qf.n as number } satisfies QFormat;
         }
       }
-      return { ...base, type: 'fixed-point', qFormat };
+      const scaling = sanitizeScaling(raw.scaling);
+      return scaling ? { ...base, type: 'fixed-point', qFormat, scaling } : { ...base, type: 'fixed-point', qFormat };
+    }
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':
+      return { ...base, type };
+    case 'bitset': {
+      let bitNames: BitName[] = [];
+      if (Array.isArray(raw.bitNames)) {
+        bitNames = raw.bitNames.filter(
+          (b: unknown): b is BitName =>
+            typeof b === 'object' && b !== null &&
+            Number.isInteger((b as Record<string, unknown>).bit) && ((b as Record<string, unknown>).bit as number) >= 0 &&
+            typeof (b as Record<string, unknown>).name === 'string'
+        ).map((b) => ({ bit: b.bit, name: b.name }));
+      }
+      return { ...base, type: 'bitset', bitNames };
     }
   }
 }
 
+/** Keep a register array dimension only when count and stride are positive integers. */
+export function sanitizeDim(raw: unknown): RegisterDim | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const { count, stride } = raw as Record<string, unknown>;
+  if (!Number.isInteger(count) || !Number.isInteger(stride)) return undefined;
+  if ((count as number) < 1 || (count as number) > MAX_DIM_COUNT || (stride as number) < 1) return undefined;
+  return { count: count as number, stride: stride as number };
+}
+
+function sanitizeFields(raw: unknown): Field[] {
+  return Array.isArray(raw)
+    ? raw
+      .filter((f: unknown): f is Record<string, unknown> => typeof f === 'object' && f !== null)
+      .map((f) => sanitizeField(f))
+    : [];
+}
+
+/**
+ * Construct a RegisterVariant from a raw parsed object, keeping only
+ * non-negative integer selector values. Returns undefined for non-objects.
+ */
+export function sanitizeVariant(raw: unknown): RegisterVariant | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const obj = raw as Record<string, unknown>;
+  const selectorValues = Array.isArray(obj.selectorValues)
+    ? obj.selectorValues.filter((v): v is number => Number.isSafeInteger(v) && (v as number) >= 0)
+    : [];
+  return {
+    id: (typeof obj.id === 'string' && obj.id) ? obj.id : crypto.randomUUID(),
+    name: typeof obj.name === 'string' ? obj.name : '',
+    selectorValues,
+    fields: sanitizeFields(obj.fields),
+  };
+}
+
+/**
+ * Construct a RegisterGroup from a raw parsed object. Returns undefined
+ * without a name; the base address defaults to 0.
+ */
+export function sanitizeGroup(raw: unknown): RegisterGroup | undefined {
+  if (typeof raw !== 'object' || raw === null) return undefined;
+  const obj = raw as Record<string, unknown>;
+  if (typeof obj.name !== 'string' || !obj.name.trim()) return undefined;
+  const group: RegisterGroup = {
+    id: (typeof obj.id === 'string' && obj.id) ? obj.id : crypto.randomUUID(),
+    name: obj.name.trim(),
+    baseAddress: Number.isSafeInteger(obj.baseAddress) && (obj.baseAddress as number) >= 0 ? obj.baseAddress as number : 0,
+  };
+  if (typeof obj.description === 'string' && obj.description) {
+    group.description = obj.description;
+  }
+  return group;
+}
+
 /**
  * Construct a RegisterDef from a raw parsed object, picking only known properties.
  * Assigns a new UUID if the source lacks an `id`.
  */
 export function sanitizeRegisterDef(raw: Record<string, unknown>): RegisterDef {
-  const rawFields = Array.isArray(raw.fields)
-    ? raw.fields.filter((f: unknown): f is Record<string, unknown> =>
-        typeof f === 'object' && f !== null
-      )
-    : [];
-
   const reg: RegisterDef = {
     id: (typeof raw.id === 'string' && raw.id) ? raw.id : crypto.randomUUID(),
     name: typeof raw.name === 'string' ? raw.name : '',
     width: Number.isInteger(raw.width) ? raw.width as number : 0,
-    fields: rawFields.map((f) => sanitizeField(f)),
+    fields: sanitizeFields(raw.fields),
   };
 
   if (typeof raw.description === 'string') {
@@ -102,6 +247,37 @@ export function sanitizeRegisterDef(raw: Record<string, unknown>): RegisterDef {
   if (Number.isInteger(raw.offset)) {
     reg.offset = raw.offset as number;
   }
+  const access = sanitizeAccess(raw.access);
+  if (access) {
+    reg.access = access;
+  }
+  const resetValue = sanitizeResetValue(raw.resetValue);
+  if (resetValue !== undefined) {
+    reg.resetValue = resetValue;
+  }
+  const dim = sanitizeDim(raw.dim);
+  if (dim) {
+    reg.dim = dim;
+  }
+  const byteOrder = sanitizeByteOrder(raw.byteOrder);
+  if (byteOrder) {
+    reg.byteOrder = byteOrder;
+  }
+  if (typeof raw.groupId === 'string' && raw.groupId) {
+    reg.groupId = raw.groupId;
+  }
+  const variants = Array.isArray(raw.variants)
+    ? raw.variants.map(sanitizeVariant).filter((v): v is RegisterVariant => v !== undefined)
+    : [];
+  if (variants.length > 0) {
+    reg.variants = variants;
+  }
+  // The selector is referenced by field id, or by name in JSON exports, which omit ids
+  const selector = reg.fields.find((f) => f.id === raw.variantSelectorId)
+    ?? (typeof raw.variantSelector === 'string' ? reg.fields.find((f) => f.name === raw.variantSelector) : undefined);
+  if (selector) {
+    reg.variantSelectorId = selector.id;
+  }
 
   return reg;
 }
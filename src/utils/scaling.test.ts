@@ -0,0 +1,39 @@
+import { formatPhysical, parsePhysical, physicalLimits, physicalToRaw, rawLimits } from './scaling';
+import { makeField, makeFixedPointField } from '../test/helpers';
+
+describe('parsePhysical / formatPhysical', () => {
+  const scaling = { scale: 1, offset: 0, unit: 'Hz' };
+
+  it('accepts an optional trailing unit', () => {
+    expect(parsePhysical(' 50 Hz', scaling)).toBe(50);
+    expect(parsePhysical('50', scaling)).toBe(50);
+    expect(parsePhysical('Hz', scaling)).toBeNaN();
+  });
+
+  it('formats to six significant digits', () => {
+    expect(formatPhysical({ value: 1 / 3, unit: 'Hz' })).toBe('0.333333 Hz');
+    expect(formatPhysical({ value: 1e9 })).toBe('1000000000');
+  });
+});
+
+describe('rawLimits', () => {
+  it('follows the signedness of integer fields', () => {
+    expect(rawLimits(makeField({ msb: 7, lsb: 0 }))).toEqual([0, 255]);
+    expect(rawLimits(makeField({ msb: 7, lsb: 0, signedness: 'twos-complement' }))).toEqual([-128, 127]);
+    expect(rawLimits(makeField({ msb: 7, lsb: 0, signedness: 'sign-magnitude' }))).toEqual([-127, 127]);
+  });
+
+  it('uses Qm.n units for fixed-point fields', () => {
+    expect(rawLimits(makeFixedPointField({ qFormat: { m: 4, n: 4 } }))).toEqual([-8, 7.9375]);
+  });
+});
+
+describe('physicalToRaw / physicalLimits', () => {
+  it('rounds to the field resolution and rejects values that do not fit', () => {
+    const field = makeFixedPointField({ qFormat: { m: 4, n: 4 } });
+    const scaling = { scale: 10, offset: 0 };
+    expect(physicalToRaw(15.3, field, scaling)).toBe(1.5);
+    expect(physicalToRaw(80, field, scaling)).toBeNull();
+    expect(physicalLimits(field, { scale: -10, offset: 0 })).toEqual([-79.375, 80]);
+  });
+});
@@ -0,0 +1,66 @@
+import type { FieldScaling, FixedPointField, IntegerField, PhysicalValue } from '../types/register';
+import { fieldBitWidth } from './field-slices';
+
+/** Physical value of a raw field value: `raw * scale + offset`. */
+export function toPhysical(raw: number, scaling: FieldScaling): number {
+  return raw * scaling.scale + scaling.offset;
+}
+
+/** Raw field value for a physical value, inverting `toPhysical`. */
+export function fromPhysical(value: number, scaling: FieldScaling): number {
+  return (value - scaling.offset) / scaling.scale;
+}
+
+/** Format a physical value to six significant digits, followed by its unit. */
+export function formatPhysical(physical: PhysicalValue): string {
+  const text = String(Number(physical.value.toPrecision(6)));
+  return physical.unit ? `${text} ${physical.unit}` : text;
+}
+
+/**
+ * Parse a physical value typed by the user. A trailing unit matching the
+ * scaling's unit is accepted (`3.3 V`). Returns NaN for anything else.
+ */
+export function parsePhysical(text: string, scaling: FieldScaling): number {
+  let trimmed = text.trim();
+  if (scaling.unit && trimmed.endsWith(scaling.unit)) {
+    trimmed = trimmed.slice(0, -scaling.unit.length).trim();
+  }
+  // Number('') is 0, so an empty value (or a bare unit) must be rejected explicitly
+  return trimmed === '' ? NaN : Number(trimmed);
+}
+
+/** Smallest and largest raw value the field can hold (fixed-point fields in Qm.n units). */
+export function rawLimits(field: IntegerField | FixedPointField): [number, number] {
+  if (field.type === 'fixed-point') {
+    const { m, n } = field.qFormat;
+    const half = Math.pow(2, m + n - 1);
+    return [-half / Math.pow(2, n), (half - 1) / Math.pow(2, n)];
+  }
+  const width = fieldBitWidth(field);
+  switch (field.signedness) {
+    case 'twos-complement':
+      return [-Math.pow(2, width - 1), Math.pow(2, width - 1) - 1];
+    case 'sign-magnitude':
+      return [-(Math.pow(2, width - 1) - 1), Math.pow(2, width - 1) - 1];
+    default:
+      return [0, Math.pow(2, width) - 1];
+  }
+}
+
+/**
+ * Raw value for a physical input, rounded to the field's resolution.
+ * Returns null when the rounded value does not fit the field.
+ */
+export function physicalToRaw(value: number, field: IntegerField | FixedPointField, scaling: FieldScaling): number | null {
+  const step = field.type === 'fixed-point' ? Math.pow(2, -field.qFormat.n) : 1;
+  const raw = Math.round(fromPhysical(value, scaling) / step) * step;
+  const [min, max] = rawLimits(field);
+  return raw >= min && raw <= max ? raw : null;
+}
+
+/** Physical values at the field's raw limits, lowest first (a negative scale swaps them). */
+export function physicalLimits(field: IntegerField | FixedPointField, scaling: FieldScaling): [number, number] {
+  const [a, b] = rawLimits(field).map((raw) => toPhysical(raw, scaling));
+  return a <= b ? [a, b] : [b, a];
+}
@@ -5,6 +5,7 @@ import {
   loadFromLocalStorage,
   exportToJson,
   importFromJson,
+  valuesFromJson,
 } from './storage';
 import { makeState, makeRegister, makeField } from '../test/helpers';
 
@@ -214,6 +215,144 @@ describe('offset round-trip', () => {
   });
 });
 
+describe('access round-trip', () => {
+  it('preserves register and field access through export/import', () => {
+    const field = makeField({ id: 'field-1', name: 'IRQ', access: 'w1c' });
+    const reg = makeRegister({ id: 'reg-1', name: 'STATUS', access: 'ro', fields: [field] });
+    const result = importFromJson(exportToJson(makeState({ registers: [reg] })));
+    expect(result!.registers[0].access).toBe('ro');
+    expect(result!.registers[0].fields[0].access).toBe('w1c');
+  });
+});
+
+describe('reset value round-trip', () => {
+  const reg = makeRegister({
+    id: 'reg-1',
+    name: 'CTRL',
+    resetValue: 0x80n,
+    fields: [makeField({ id: 'field-1', name: 'MODE', msb: 3, lsb: 0, resetValue: 0x5n })],
+  });
+
+  it('stores reset values as hex strings', () => {
+    const serialized = serializeState(makeState({ registers: [reg] }));
+    expect(serialized.registers[0].resetValue).toBe('0x80');
+    expect(serialized.registers[0].fields[0].resetValue).toBe('0x5');
+    expect(() => JSON.stringify(serialized)).not.toThrow();
+  });
+
+  it('preserves register and field reset values through serialize/deserialize', () => {
+    const restored = deserializeState(JSON.parse(JSON.stringify(serializeState(makeState({ registers: [reg] })))));
+    expect(restored.registers[0].resetValue).toBe(0x80n);
+    expect(restored.registers[0].fields[0].resetValue).toBe(0x5n);
+  });
+
+  it('preserves reset values through export/import', () => {
+    const result = importFromJson(exportToJson(makeState({ registers: [reg] })))!;
+    expect(result.registers[0].resetValue).toBe(0x80n);
+    expect(result.registers[0].fields[0].resetValue).toBe(0x5n);
+  });
+});
+
+describe('register array round-trip', () => {
+  const reg = makeRegister({ id: 'reg-1', name: 'CH%s', offset: 0, dim: { count: 2, stride: 4 } });
+
+  it('preserves the dimension and per-instance values through serialize/deserialize', () => {
+    const state = makeState({ registers: [reg], registerValues: { 'reg-1:0': 1n, 'reg-1:1': 0x1FFFFFFFFn } });
+    const restored = deserializeState(JSON.parse(JSON.stringify(serializeState(state))));
+    expect(restored.registers[0].dim).toEqual({ count: 2, stride: 4 });
+    expect(restored.registerValues).toEqual({ 'reg-1:0': 1n, 'reg-1:1': 0xFFFFFFFFn });
+  });
+
+  it('exports instance values by instance name and maps them back on import', () => {
+    const json = exportToJson(makeState({ registers: [reg], registerValues: { 'reg-1:0': 1n, 'reg-1:1': 2n } }));
+    expect(JSON.parse(json).registerValues).toEqual({ CH0: '0x1', CH1: '0x2' });
+    const result = importFromJson(json)!;
+    const id = result.registers[0].id;
+    expect(result.registers[0].dim).toEqual({ count: 2, stride: 4 });
+    expect(result.values).toEqual({ [`${id}:0`]: 1n, [`${id}:1`]: 2n });
+  });
+});
+
+describe('variant round-trip', () => {
+  const reg = makeRegister({
+    id: 'reg-1',
+    name: 'TIMER',
+    width: 8,
+    fields: [makeField({ id: 'mode', name: 'MODE', msb: 0, lsb: 0 })],
+    variantSelectorId: 'mode',
+    variants: [{ id: 'v1', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 1, resetValue: 3n })] }],
+  });
+
+  it('preserves variants and their field resets through serialize/deserialize', () => {
+    const restored = deserializeState(JSON.parse(JSON.stringify(serializeState(makeState({ registers: [reg] })))));
+    expect(restored.registers[0].variantSelectorId).toBe('mode');
+    expect(restored.registers[0].variants).toEqual(reg.variants);
+  });
+
+  it('exports the selector by field name and resolves it on import', () => {
+    const data = JSON.parse(exportToJson(makeState({ registers: [reg] })));
+    expect(data.registers[0].variantSelector).toBe('MODE');
+    expect(data.registers[0].variants).toEqual([{ name: 'PWM', selectorValues: [0], fields: [{ name: 'DUTY', type: 'integer', msb: 7, lsb: 1, resetValue: '0x3' }] }]);
+    const [imported] = importFromJson(JSON.stringify(data))!.registers;
+    expect(imported.variantSelectorId).toBe(imported.fields[0].id);
+    expect(imported.variants![0]).toMatchObject({ name: 'PWM', selectorValues: [0], fields: [{ name: 'DUTY', resetValue: 3n }] });
+  });
+});
+
+describe('register groups', () => {
+  const state = makeState({
+    groups: [{ id: 'g1', name: 'UART0', description: 'Serial port', baseAddress: 0x4000 }],
+    registers: [
+      makeRegister({ id: 'reg-1', name: 'CTRL', offset: 0, groupId: 'g1' }),
+      makeRegister({ id: 'reg-2', name: 'ID', offset: 0 }),
+    ],
+    registerValues: { 'reg-1': 5n, 'reg-2': 7n },
+  });
+
+  it('preserves groups through serialize/deserialize and drops dangling group ids', () => {
+    const serialized = serializeState(state);
+    const restored = deserializeState(JSON.parse(JSON.stringify(serialized)));
+    expect(restored.groups).toEqual(state.groups);
+    expect(restored.registers[0].groupId).toBe('g1');
+
+    const dangling = deserializeState({ ...serialized, groups: undefined });
+    expect(dangling.groups).toEqual([]);
+    expect(dangling.registers[0].groupId).toBeUndefined();
+  });
+
+  it('exports groups by name and keys values by qualified name', () => {
+    const data = JSON.parse(exportToJson(state));
+    expect(data.groups).toEqual([{ name: 'UART0', description: 'Serial port', baseAddress: 0x4000 }]);
+    expect(data.registers[0].group).toBe('UART0');
+    expect(data.registers[0].groupId).toBeUndefined();
+    expect(data.registerValues).toEqual({ UART0_CTRL: '0x5', ID: '0x7' });
+  });
+
+  it('round-trips the hierarchy through JSON import', () => {
+    const result = importFromJson(exportToJson(state))!;
+    expect(result.warnings).toEqual([]);
+    expect(result.groups).toHaveLength(1);
+    const [group] = result.groups!;
+    expect(group).toMatchObject({ name: 'UART0', baseAddress: 0x4000 });
+    expect(result.registers[0].groupId).toBe(group.id);
+    expect(result.registers[1].groupId).toBeUndefined();
+    expect(result.values[result.registers[0].id]).toBe(5n);
+  });
+
+  it('warns about registers naming an unknown group', () => {
+    const result = importFromJson(JSON.stringify({
+      registers: [{ name: 'CTRL', width: 8, fields: [], group: 'NOPE' }],
+    }))!;
+    expect(result.registers[0].groupId).toBeUndefined();
+    expect(result.warnings).toEqual([{
+      registerIndex: 0,
+      registerName: 'CTRL',
+      errors: [{ message: 'Group "NOPE" not found; imported without a group' }],
+      imported: true,
+    }]);
+  });
+});
+
 describe('exportToJson', () => {
   it('includes version 1 property', () => {
     const state = makeState({ registers: [] });
@@ -593,3 +732,107 @@ describe('addressUnitBits round-trip', () => {
     expect(state.addressUnitBits).toBe(8);
   });
 });
+
+describe('byteOrder round-trip', () => {
+  it('preserves the project and register byte order through export/import', () => {
+    const state = makeState({
+      byteOrder: 'big',
+      registers: [makeRegister({ byteOrder: 'little' })],
+    });
+    const json = exportToJson(state);
+    expect(JSON.parse(json).byteOrder).toBe('big');
+    const result = importFromJson(json);
+    expect(result!.byteOrder).toBe('big');
+    expect(result!.registers[0].byteOrder).toBe('little');
+  });
+
+  it('omits byteOrder from export when it is the default (little)', () => {
+    const data = JSON.parse(exportToJson(makeState()));
+    expect(data.byteOrder).toBeUndefined();
+  });
+
+  it('defaults to little-endian for missing or invalid values in localStorage', () => {
+    const serialized = {
+      registers: [{ id: 'r', name: 'R', width: 32, fields: [], byteOrder: 'middle' as never }],
+      activeRegisterId: null,
+      registerValues: {},
+      theme: 'dark' as const,
+      sidebarWidth: 224,
+      sidebarCollapsed: false,
+    };
+    const state = deserializeState(serialized);
+    expect(state.byteOrder).toBe('little');
+    expect(state.registers[0].byteOrder).toBeUndefined();
+  });
+});
+
+describe('bitNumbering round-trip', () => {
+  it('exports MSB-0 numbering and leaves field bits in the LSB-0 model', () => {
+    const state = makeState({
+      bitNumbering: 'msb0',
+      registers: [makeRegister({ fields: [makeField({ msb: 31, lsb: 28 })] })],
+    });
+    const json = exportToJson(state);
+    const data = JSON.parse(json);
+    expect(data.bitNumbering).toBe('msb0');
+    expect(data.registers[0].fields[0]).toMatchObject({ msb: 31, lsb: 28 });
+    expect(importFromJson(json)!.bitNumbering).toBe('msb0');
+  });
+
+  it('omits the default numbering and restores it from localStorage', () => {
+    expect(JSON.parse(exportToJson(makeState())).bitNumbering).toBeUndefined();
+    localStorage.clear();
+    saveToLocalStorage(makeState({ bitNumbering: 'msb0' }));
+    expect(loadFromLocalStorage()!.bitNumbering).toBe('msb0');
+  });
+});
+
+describe('snapshots round-trip', () => {
+  const state = makeState({
+    registers: [makeRegister({ id: 'reg-1', name: 'CTRL', width: 8 })],
+    registerValues: { 'reg-1': 0x01n },
+    snapshots: [{ id: 'snap-1', name: 'after init', values: { 'reg-1': 0xA5n } }],
+  });
+
+  it('saves and restores snapshots through localStorage', () => {
+    localStorage.clear();
+    saveToLocalStorage(state);
+    expect(loadFromLocalStorage()!.snapshots).toEqual(state.snapshots);
+  });
+
+  it('exports snapshot values by register name and imports them with the new ids', () => {
+    const json = exportToJson(state);
+    expect(JSON.parse(json).snapshots).toEqual([{ name: 'after init', registerValues: { CTRL: '0xa5' } }]);
+    const result = importFromJson(json)!;
+    expect(result.snapshots).toHaveLength(1);
+    expect(result.snapshots![0].name).toBe('after init');
+    expect(result.snapshots![0].values).toEqual({ [result.registers[0].id]: 0xA5n });
+  });
+
+  it('omits snapshots from export when there are none', () => {
+    expect(JSON.parse(exportToJson(makeState())).snapshots).toBeUndefined();
+  });
+
+  it('drops malformed snapshots and masks values to the register width', () => {
+    const restored = deserializeState({
+      ...serializeState(state),
+      snapshots: [{ id: 's', name: 'wide', values: { 'reg-1': '0x1ff' } }, { name: 'no id' } as never],
+    });
+    expect(restored.snapshots).toEqual([{ id: 's', name: 'wide', values: { 'reg-1': 0xFFn } }]);
+  });
+});
+
+describe('valuesFromJson', () => {
+  it('matches exported values to this project by register name', () => {
+    const state = makeState({
+      registers: [makeRegister({ id: 'reg-1', name: 'CTRL' }), makeRegister({ id: 'reg-2', name: 'STAT' })],
+    });
+    const json = JSON.stringify({ registers: [], registerValues: { CTRL: '0x1a', OTHER: '0x1' } });
+    expect(valuesFromJson(json, state)).toEqual({ 'reg-1': 0x1An });
+  });
+
+  it('returns null for text without register values', () => {
+    expect(valuesFromJson('not json', makeState())).toBeNull();
+    expect(valuesFromJson('{"registers": []}', makeState())).toBeNull();
+  });
+});
@@ -1,18 +1,44 @@
-import { SIDEBAR_WIDTH_MIN, SIDEBAR_WIDTH_MAX, SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, ADDRESS_UNIT_BITS_VALUES, MAP_TABLE_WIDTH_VALUES, type AddressUnitBits, type AppState, type Field, type MapTableWidth, type ProjectMetadata, type RegisterDef, type SerializedAppState } from '../types/register';
-import { sanitizeField, sanitizeRegisterDef } from './sanitize';
+import { SIDEBAR_WIDTH_MIN, SIDEBAR_WIDTH_MAX, SIDEBAR_WIDTH_DEFAULT, ADDRESS_UNIT_BITS_DEFAULT, ADDRESS_UNIT_BITS_VALUES, BIT_NUMBERING_DEFAULT, BYTE_ORDER_DEFAULT, MAP_TABLE_WIDTH_VALUES, type AddressUnitBits, type AppState, type BitNumbering, type ByteOrder, type Field, type MapTableWidth, type ProjectMetadata, type RegisterDef, type RegisterGroup, type RegisterVariant, type SerializedAppState, type SerializedField, type SerializedRegisterDef, type SerializedRegisterVariant, type SerializedValueSnapshot, type ValueSnapshot } from '../types/register';
+import { sanitizeBitNumbering, sanitizeByteOrder, sanitizeDim, sanitizeField, sanitizeGroup, sanitizeRegisterDef, sanitizeResetValue, sanitizeVariant } from './sanitize';
+import { expandRegisters } from './register-array';
+import { flattenGroups, groupOf } from './register-groups';
 import { validateRegisterDef, MAX_REGISTER_WIDTH, type ValidationError } from './validation';
 
 const STORAGE_KEY = 'register-viewer-state';
 
-export function serializeState(state: AppState): SerializedAppState {
-  const serializedValues: Record<string, string> = {};
-  for (const [id, value] of Object.entries(state.registerValues)) {
-    serializedValues[id] = '0x' + value.toString(16);
+function hexString(value: bigint): string {
+  return '0x' + value.toString(16);
+}
+
+function serializeField({ resetValue, ...rest }: Field): SerializedField {
+  return resetValue !== undefined ? { ...rest, resetValue: hexString(resetValue) } : rest;
+}
+
+/** Convert a register's bigint reset values to hex strings for JSON. */
+export function serializeRegister(register: RegisterDef): SerializedRegisterDef {
+  const { resetValue, fields, variants, ...rest } = register;
+  const result: SerializedRegisterDef = { ...rest, fields: fields.map(serializeField) };
+  if (resetValue !== undefined) result.resetValue = hexString(resetValue);
+  if (variants) result.variants = variants.map((v) => ({ ...v, fields: v.fields.map(serializeField) }));
+  return result;
+}
+
+function serializeValues(values: Record<string, bigint>): Record<string, string> {
+  const serialized: Record<string, string> = {};
+  for (const [id, value] of Object.entries(values)) {
+    serialized[id] = hexString(value);
   }
+  return serialized;
+}
+
+export function serializeState(state: AppState): SerializedAppState {
+  const snapshots: SerializedValueSnapshot[] = state.snapshots.map((s) => ({ ...s, values: serializeValues(s.values) }));
   return {
-    registers: state.registers,
+    registers: state.registers.map(serializeRegister),
+    groups: state.groups,
     activeRegisterId: state.activeRegisterId,
-    registerValues: serializedValues,
+    registerValues: serializeValues(state.registerValues),
+    snapshots,
     theme: state.theme,
     project: state.project,
     sidebarWidth: state.sidebarWidth,
@@ -21,38 +47,71 @@ export function serializeState(state: AppState): SerializedAppState {
     mapShowGaps: state.mapShowGaps,
     mapSortDescending: state.mapSortDescending,
     addressUnitBits: state.addressUnitBits,
+    byteOrder: state.byteOrder,
+    bitNumbering: state.bitNumbering,
   };
 }
 
 export function deserializeState(data: SerializedAppState): AppState {
+  const groups = Array.isArray(data.groups)
+    ? data.groups.map(sanitizeGroup).filter((g): g is RegisterGroup => g !== undefined)
+    : [];
   // Clamp register widths and re-sanitize fields to ensure discriminated union invariants
-  const registers = data.registers.map((reg) => {
+  const registers = data.registers.map((reg): RegisterDef => {
+    const { resetValue: rawReset, dim: rawDim, groupId, variants: rawVariants, byteOrder: rawByteOrder, ...rest } = reg;
     const width = reg.width > MAX_REGISTER_WIDTH ? MAX_REGISTER_WIDTH : reg.width;
     const fields = Array.isArray(reg.fields)
       ? reg.fields.map((f) => sanitizeField(f as unknown as Record<string, unknown>))
       : [];
-    return { ...reg, width, fields };
+    const result: RegisterDef = { ...rest, width, fields };
+    const resetValue = sanitizeResetValue(rawReset);
+    if (resetValue !== undefined) result.resetValue = resetValue;
+    const dim = sanitizeDim(rawDim);
+    if (dim) result.dim = dim;
+    const byteOrder = sanitizeByteOrder(rawByteOrder);
+    if (byteOrder) result.byteOrder = byteOrder;
+    if (groupId !== undefined && groups.some((g) => g.id === groupId)) result.groupId = groupId;
+    const variants = Array.isArray(rawVariants)
+      ? rawVariants.map(sanitizeVariant).filter((v): v is RegisterVariant => v !== undefined)
+      : [];
+    if (variants.length > 0) result.variants = variants;
+    return result;
   });
 
-  const values: Record<string, bigint> = {};
-  const widthById = new Map(registers.map((r) => [r.id, r.width]));
-  for (const [id, hex] of Object.entries(data.registerValues)) {
-    try {
-      let val = BigInt(hex);
-      const width = widthById.get(id);
-      if (width !== undefined) {
-        const mask = (1n << BigInt(width)) - 1n;
-        val = val & mask;
+  const widthById = new Map(expandRegisters(registers).map((r) => [r.id, r.width]));
+  function deserializeValues(raw: Record<string, string>): Record<string, bigint> {
+    const values: Record<string, bigint> = {};
+    for (const [id, hex] of Object.entries(raw)) {
+      try {
+        let val = BigInt(hex);
+        const width = widthById.get(id);
+        if (width !== undefined) {
+          const mask = (1n << BigInt(width)) - 1n;
+          val = val & mask;
+        }
+        values[id] = val;
+      } catch {
+        values[id] = 0n;
       }
-      values[id] = val;
-    } catch {
-      values[id] = 0n;
     }
+    return values;
   }
+  const snapshots = Array.isArray(data.snapshots)
+    ? data.snapshots
+      .filter((s) => typeof s === 'object' && s !== null && typeof s.id === 'string' && typeof s.name === 'string')
+      .map((s): ValueSnapshot => ({
+        id: s.id,
+        name: s.name,
+        values: typeof s.values === 'object' && s.values !== null ? deserializeValues(s.values) : {},
+      }))
+    : [];
   return {
     registers,
+    groups,
     activeRegisterId: data.activeRegisterId,
-    registerValues: values,
+    registerValues: deserializeValues(data.registerValues),
+    snapshots,
+    valueHistory: {},
     theme: data.theme,
     project: sanitizeProjectMetadata(data.project),
     sidebarWidth: typeof data.sidebarWidth === 'number'
@@ -65,6 +124,8 @@ export function deserializeState(data: SerializedAppState): AppState {
     mapSortDescending: data.mapSortDescending === true,
     addressUnitBits: typeof data.addressUnitBits === 'number' && (ADDRESS_UNIT_BITS_VALUES as readonly number[]).includes(data.addressUnitBits)
       ? data.addressUnitBits as AddressUnitBits : ADDRESS_UNIT_BITS_DEFAULT,
+    byteOrder: sanitizeByteOrder(data.byteOrder) ?? BYTE_ORDER_DEFAULT,
+    bitNumbering: sanitizeBitNumbering(data.bitNumbering) ?? BIT_NUMBERING_DEFAULT,
   };
 }
 
@@ -89,17 +150,39 @@ export function loadFromLocalStorage(): AppState | null {
 }
 
 type DistributiveOmit<T, K extends string> = T extends unknown ? Omit<T, K> : never;
-type ExportField = DistributiveOmit<Field, 'id'>;
-type ExportRegister = Omit<RegisterDef, 'id' | 'fields'> & { fields: ExportField[] };
+type ExportField = DistributiveOmit<SerializedField, 'id'>;
+type ExportVariant = Omit<SerializedRegisterVariant, 'id' | 'fields'> & { fields: ExportField[] };
+type ExportRegister = DistributiveOmit<Omit<SerializedRegisterDef, 'fields' | 'variants'>, 'id' | 'groupId' | 'variantSelectorId'> & {
+  fields: ExportField[];
+  variants?: ExportVariant[];
+  variantSelector?: string;
+};
 
-export function stripIds(register: RegisterDef): ExportRegister {
-  const { id: _regId, fields, ...rest } = register;
-  void _regId;
-  const cleanFields = fields.map(({ id: _fieldId, ...fieldRest }) => {
+function stripFieldIds(fields: SerializedField[]): ExportField[] {
+  return fields.map(({ id: _fieldId, ...fieldRest }) => {
     void _fieldId;
     return fieldRest;
   });
-  return { ...rest, fields: cleanFields };
+}
+
+/**
+ * Portable form of a register without ids. The variant selector, which
+ * refers to a field id, is written as `variantSelector` with the field name.
+ */
+export function stripIds(register: RegisterDef): ExportRegister {
+  const { id: _regId, groupId: _groupId, variantSelectorId, fields, variants, ...rest } = serializeRegister(register);
+  void _regId;
+  void _groupId;
+  const result: ExportRegister = { ...rest, fields: stripFieldIds(fields) };
+  const selector = register.fields.find((f) => f.id === variantSelectorId);
+  if (selector) result.variantSelector = selector.name;
+  if (variants) {
+    result.variants = variants.map(({ id: _variantId, fields: variantFields, ...variantRest }) => {
+      void _variantId;
+      return { ...variantRest, fields: stripFieldIds(variantFields) };
+    });
+  }
+  return result;
 }
 
 export function sanitizeProjectMetadata(raw: unknown): ProjectMetadata | undefined {
@@ -114,26 +197,53 @@ export function sanitizeProjectMetadata(raw: unknown): ProjectMetadata | undefin
   return Object.keys(result).length > 0 ? result : undefined;
 }
 
+/**
+ * Portable JSON export. Ids are dropped: registers name their group in a
+ * `group` property and values, including snapshot values, are keyed by
+ * (group-qualified) register name.
+ */
 export function exportToJson(state: AppState): string {
-  const cleanRegisters = state.registers.map(stripIds);
-  const registerValues: Record<string, string> = {};
-  for (const reg of state.registers) {
-    const value = state.registerValues[reg.id];
-    if (value !== undefined) {
-      registerValues[reg.name] = '0x' + value.toString(16);
+  const cleanRegisters = state.registers.map((reg) => {
+    const group = groupOf(reg, state.groups);
+    return group ? { ...stripIds(reg), group: group.name } : stripIds(reg);
+  });
+  const instances = expandRegisters(flattenGroups(state.registers, state.groups));
+  function valuesByName(values: Record<string, bigint>): Record<string, string> {
+    const byName: Record<string, string> = {};
+    for (const reg of instances) {
+      const value = values[reg.id];
+      if (value !== undefined) {
+        byName[reg.name] = '0x' + value.toString(16);
+      }
     }
+    return byName;
   }
   const data: Record<string, unknown> = {
     version: 1,
     registers: cleanRegisters,
-    registerValues,
+    registerValues: valuesByName(state.registerValues),
   };
+  if (state.snapshots.length > 0) {
+    data.snapshots = state.snapshots.map((s) => ({ name: s.name, registerValues: valuesByName(s.values) }));
+  }
+  if (state.groups.length > 0) {
+    data.groups = state.groups.map(({ id: _id, ...group }) => {
+      void _id;
+      return group;
+    });
+  }
   if (state.project) {
     data.project = state.project;
   }
   if (state.addressUnitBits !== ADDRESS_UNIT_BITS_DEFAULT) {
     data.addressUnitBits = state.addressUnitBits;
   }
+  if (state.byteOrder !== BYTE_ORDER_DEFAULT) {
+    data.byteOrder = state.byteOrder;
+  }
+  if (state.bitNumbering !== BIT_NUMBERING_DEFAULT) {
+    data.bitNumbering = state.bitNumbering;
+  }
   return JSON.stringify(data, null, 2);
 }
 
@@ -143,6 +253,8 @@ export interface ImportWarning {
   registerIndex: number;
   registerName: string;
   errors: ValidationError[];
+  /** True when the register was still imported, but some details could not be converted. */
+  imported?: boolean;
 }
 
 export interface ImportResult {
@@ -151,6 +263,66 @@ export interface ImportResult {
   warnings: ImportWarning[];
   project?: ProjectMetadata;
   addressUnitBits?: AddressUnitBits;
+  byteOrder?: ByteOrder;
+  bitNumbering?: BitNumbering;
+  groups?: RegisterGroup[];
+  snapshots?: ValueSnapshot[];
+}
+
+/**
+ * Values from a JSON `registerValues` object, keyed by register id. Keys are
+ * register ids (UUIDs, as saved by older versions) or (group-qualified)
+ * register names; keys matching no register are dropped.
+ */
+function resolveValues(raw: unknown, instances: RegisterDef[]): Record<string, bigint> {
+  const values: Record<string, bigint> = {};
+  if (typeof raw !== 'object' || raw === null) return values;
+  const nameToId = new Map(instances.map((r) => [r.name, r.id]));
+  for (const [key, hex] of Object.entries(raw)) {
+    // Resolve key: if it's a UUID matching a register id, use as-is;
+    // otherwise treat it as a register name and map to the generated id
+    let resolvedId: string | undefined;
+    if (UUID_RE.test(key) && instances.some((r) => r.id === key)) {
+      resolvedId = key;
+    } else {
+      resolvedId = nameToId.get(key);
+    }
+    if (resolvedId) {
+      try {
+        values[resolvedId] = BigInt(hex as string);
+      } catch {
+        values[resolvedId] = 0n;
+      }
+    }
+  }
+  return values;
+}
+
+/**
+ * The register values of a JSON export, matched to this project's registers
+ * by name. Returns null when the text is not a JSON object with values.
+ */
+export function valuesFromJson(json: string, state: Pick<AppState, 'registers' | 'groups'>): Record<string, bigint> | null {
+  try {
+    const data = JSON.parse(json);
+    if (typeof data !== 'object' || data === null || typeof data.registerValues !== 'object') return null;
+    return resolveValues(data.registerValues, expandRegisters(flattenGroups(state.registers, state.groups)));
+  } catch {
+    return null;
+  }
+}
+
+/** Groups from a JSON export, with fresh ids; later groups reusing a name are dropped. */
+function importGroups(raw: unknown): RegisterGroup[] {
+  if (!Array.isArray(raw)) return [];
+  const groups: RegisterGroup[] = [];
+  for (const item of raw) {
+    const group = sanitizeGroup(item);
+    if (group && !groups.some((g) => g.name === group.name)) {
+      groups.push({ ...group, id: crypto.randomUUID() });
+    }
+  }
+  return groups;
 }
 
 export function importFromJson(json: string): ImportResult | null {
@@ -160,12 +332,14 @@ export function importFromJson(json: string): ImportResult | null {
 
     const warnings: ImportWarning[] = [];
     const validRegisters: RegisterDef[] = [];
+    const groups = importGroups(data.groups);
 
     for (let i = 0; i < data.registers.length; i++) {
       const raw = data.registers[i];
       if (typeof raw !== 'object' || raw === null) continue;
 
       const reg = sanitizeRegisterDef(raw as Record<string, unknown>);
+      delete reg.groupId; // groups are referenced by name, resolved below
       const errors = validateRegisterDef(reg);
 
       if (errors.length > 0) {
@@ -177,39 +351,40 @@ export function importFromJson(json: string): ImportResult | null {
         continue;
       }
 
-      validRegisters.push(reg);
-    }
-
-    // Build a name-to-id lookup for resolving name-based registerValues keys
-    const nameToId = new Map<string, string>();
-    for (const reg of validRegisters) {
-      nameToId.set(reg.name, reg.id);
-    }
-
-    const values: Record<string, bigint> = {};
-    if (data.registerValues) {
-      for (const [key, hex] of Object.entries(data.registerValues)) {
-        // Resolve key: if it's a UUID matching a register id, use as-is;
-        // otherwise treat it as a register name and map to the generated id
-        let resolvedId: string | undefined;
-        if (UUID_RE.test(key) && validRegisters.some((r) => r.id === key)) {
-          resolvedId = key;
+      const groupName = (raw as Record<string, unknown>).group;
+      if (typeof groupName === 'string') {
+        const group = groups.find((g) => g.name === groupName);
+        if (group) {
+          reg.groupId = group.id;
         } else {
-          resolvedId = nameToId.get(key);
-        }
-        if (resolvedId) {
-          try {
-            values[resolvedId] = BigInt(hex as string);
-          } catch {
-            values[resolvedId] = 0n;
-          }
+          warnings.push({
+            registerIndex: i,
+            registerName: reg.name,
+            errors: [{ message: `Group "${groupName}" not found; imported without a group` }],
+            imported: true,
+          });
         }
       }
+      validRegisters.push(reg);
     }
+
+    const instances = expandRegisters(flattenGroups(validRegisters, groups));
+    const values = resolveValues(data.registerValues, instances);
+    const snapshots: ValueSnapshot[] = Array.isArray(data.snapshots)
+      ? data.snapshots
+        .filter((s: unknown) => typeof s === 'object' && s !== null && typeof (s as Record<string, unknown>).name === 'string')
+        .map((s: Record<string, unknown>) => ({
+          id: crypto.randomUUID(),
+          name: s.name as string,
+          values: resolveValues(s.registerValues, instances),
+        }))
+      : [];
     const project = sanitizeProjectMetadata(data.project);
     const addressUnitBits: AddressUnitBits | undefined = typeof data.addressUnitBits === 'number' && (ADDRESS_UNIT_BITS_VALUES as readonly number[]).includes(data.addressUnitBits)
       ? data.addressUnitBits as AddressUnitBits : undefined;
-    return { registers: validRegisters, values, warnings, project, addressUnitBits };
+    const byteOrder = sanitizeByteOrder(data.byteOrder);
+    const bitNumbering = sanitizeBitNumbering(data.bitNumbering);
+    return { registers: validRegisters, values, warnings, project, addressUnitBits, byteOrder, bitNumbering, groups, snapshots };
   } catch {
     return null;
   }
@@ -0,0 +1,498 @@
+import { exportToSvd, importFromSvd, parseSvdInteger } from './svd';
+import type { EnumField, FixedPointField, FlagField, FloatField, IntegerField } from '../types/register';
+import { makeEnumField, makeFixedPointField, makeFlagField, makeFloatField, makeField, makeRegister, makeState } from '../test/helpers';
+import { parseXml } from './xml';
+
+function device(peripherals: string, extra = ''): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<device schemaVersion="1.3" xmlns:xs="http://www.w3.org/2001/XMLSchema-instance">
+  <name>TESTCHIP</name>
+  <description>Test   device
+    description</description>
+  <addressUnitBits>8</addressUnitBits>
+  <width>32</width>
+  <size>32</size>
+  <resetValue>0x00000000</resetValue>
+  ${extra}
+  <peripherals>${peripherals}</peripherals>
+</device>`;
+}
+
+const TIMER = `
+<peripheral>
+  <name>TIMER0</name>
+  <baseAddress>0x40000000</baseAddress>
+  <registers>
+    <register>
+      <name>CTRL</name>
+      <description>Control register</description>
+      <addressOffset>0x00</addressOffset>
+      <resetValue>0x00000011</resetValue>
+      <fields>
+        <field>
+          <name>EN</name>
+          <bitOffset>0</bitOffset>
+          <bitWidth>1</bitWidth>
+        </field>
+        <field>
+          <name>MODE</name>
+          <lsb>4</lsb>
+          <msb>6</msb>
+          <enumeratedValues>
+            <enumeratedValue><name>ONESHOT</name><value>0</value></enumeratedValue>
+            <enumeratedValue><name>PERIODIC</name><value>#001</value></enumeratedValue>
+            <enumeratedValue><name>PWM</name><value>0x2</value></enumeratedValue>
+          </enumeratedValues>
+        </field>
+        <field>
+          <name>PRESCALE</name>
+          <bitRange>[15:8]</bitRange>
+        </field>
+      </fields>
+    </register>
+    <register>
+      <name>COUNT</name>
+      <addressOffset>0x4</addressOffset>
+      <size>16</size>
+    </register>
+  </registers>
+</peripheral>`;
+
+describe('parseSvdInteger', () => {
+  it('parses decimal, hex and binary forms', () => {
+    expect(parseSvdInteger('42')).toBe(42n);
+    expect(parseSvdInteger('0x2A')).toBe(42n);
+    expect(parseSvdInteger('#101010')).toBe(42n);
+  });
+
+  it('applies scale suffixes', () => {
+    expect(parseSvdInteger('4k')).toBe(4096n);
+    expect(parseSvdInteger('1M')).toBe(1048576n);
+  });
+
+  it('returns undefined for malformed input', () => {
+    expect(parseSvdInteger('abc')).toBeUndefined();
+    expect(parseSvdInteger(undefined)).toBeUndefined();
+  });
+});
+
+describe('importFromSvd', () => {
+  it('returns null for malformed XML', () => {
+    expect(importFromSvd('<device><peripherals>')).toBeNull();
+  });
+
+  it('returns null for a non-SVD document', () => {
+    expect(importFromSvd('<component><name>x</name></component>')).toBeNull();
+  });
+
+  it('imports registers with absolute offsets and sizes', () => {
+    const result = importFromSvd(device(TIMER))!;
+    expect(result.registers.map((r) => r.name)).toEqual(['CTRL', 'COUNT']);
+    expect(result.registers[0].offset).toBe(0x40000000);
+    expect(result.registers[0].width).toBe(32);
+    expect(result.registers[1].offset).toBe(0x40000004);
+    expect(result.registers[1].width).toBe(16);
+    expect(result.registers[0].description).toBe('Control register');
+  });
+
+  it('maps all three bit-range forms', () => {
+    const { fields } = importFromSvd(device(TIMER))!.registers[0];
+    expect(fields.map((f) => [f.name, f.msb, f.lsb])).toEqual([
+      ['EN', 0, 0],
+      ['MODE', 6, 4],
+      ['PRESCALE', 15, 8],
+    ]);
+  });
+
+  it('maps 1-bit fields to flags and enumeratedValues to enums', () => {
+    const { fields } = importFromSvd(device(TIMER))!.registers[0];
+    expect(fields[0].type).toBe('flag');
+    const mode = fields[1] as EnumField;
+    expect(mode.type).toBe('enum');
+    expect(mode.enumEntries).toEqual([
+      { value: 0, name: 'ONESHOT' },
+      { value: 1, name: 'PERIODIC' },
+      { value: 2, name: 'PWM' },
+    ]);
+    expect(fields[2].type).toBe('integer');
+  });
+
+  it('uses 1-bit enumerated values as flag labels', () => {
+    const svd = device(`
+      <peripheral><name>P</name><baseAddress>0</baseAddress><registers>
+        <register><name>R</name><addressOffset>0</addressOffset><fields>
+          <field><name>EN</name><bitOffset>0</bitOffset><bitWidth>1</bitWidth>
+            <enumeratedValues>
+              <enumeratedValue><name>DISABLED</name><value>0</value></enumeratedValue>
+              <enumeratedValue><name>ENABLED</name><value>1</value></enumeratedValue>
+            </enumeratedValues>
+          </field>
+        </fields></register>
+      </registers></peripheral>`);
+    const field = importFromSvd(svd)!.registers[0].fields[0] as FlagField;
+    expect(field.flagLabels).toEqual({ clear: 'DISABLED', set: 'ENABLED' });
+  });
+
+  it('uses resetValue as the initial register value', () => {
+    const result = importFromSvd(device(TIMER))!;
+    expect(result.values[result.registers[0].id]).toBe(0x11n);
+    // COUNT inherits the device-level reset value
+    expect(result.values[result.registers[1].id]).toBe(0n);
+    expect(result.registers.map((r) => r.resetValue)).toEqual([0x11n, 0n]);
+  });
+
+  it('imports project metadata and address unit size', () => {
+    const result = importFromSvd(device(TIMER))!;
+    expect(result.project).toEqual({ title: 'TESTCHIP', description: 'Test device description' });
+    expect(result.addressUnitBits).toBe(8);
+  });
+
+  it('prefixes register names with the peripheral name when there are several peripherals', () => {
+    const svd = device(TIMER + `
+      <peripheral derivedFrom="TIMER0">
+        <name>TIMER1</name>
+        <baseAddress>0x40001000</baseAddress>
+      </peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.registers.map((r) => r.name)).toEqual(['TIMER0_CTRL', 'TIMER0_COUNT', 'TIMER1_CTRL', 'TIMER1_COUNT']);
+    expect(result.registers[2].offset).toBe(0x40001000);
+  });
+
+  it('expands dim register arrays', () => {
+    const svd = device(`
+      <peripheral><name>DMA</name><baseAddress>0x100</baseAddress><registers>
+        <register>
+          <dim>3</dim><dimIncrement>0x10</dimIncrement>
+          <name>CH%s_CTRL</name><addressOffset>0x0</addressOffset>
+        </register>
+      </registers></peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.registers.map((r) => [r.name, r.offset])).toEqual([
+      ['CH0_CTRL', 0x100],
+      ['CH1_CTRL', 0x110],
+      ['CH2_CTRL', 0x120],
+    ]);
+  });
+
+  it('warns about an unreadable dimIndex on peripherals and clusters', () => {
+    const svd = device(`
+      <peripheral>
+        <dim>2</dim><dimIncrement>0x100</dimIncrement><dimIndex>A,B,C</dimIndex>
+        <name>UART%s</name><baseAddress>0x0</baseAddress><registers>
+          <register><name>DR</name><addressOffset>0x0</addressOffset></register>
+          <cluster>
+            <dim>2</dim><dimIncrement>0x10</dimIncrement><dimIndex>x-</dimIndex>
+            <name>CH%s</name><addressOffset>0x20</addressOffset>
+            <register><name>CR</name><addressOffset>0x0</addressOffset></register>
+          </cluster>
+        </registers>
+      </peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.registers.map((r) => r.name)).toEqual(['DR', 'CH0_CR', 'CH1_CR', 'DR', 'CH0_CR', 'CH1_CR']);
+    const note = (name: string) => `Could not parse dimIndex for "${name}"; using numeric indices`;
+    const messages = result.warnings.map((w) => w.errors.map((e) => e.message));
+    expect(messages).toHaveLength(6);
+    expect(messages[0]).toEqual([note('UART%s')]);
+    expect(messages[1]).toEqual([note('UART%s'), note('CH%s')]);
+  });
+
+  it('flattens clusters into prefixed registers', () => {
+    const svd = device(`
+      <peripheral><name>P</name><baseAddress>0x0</baseAddress><registers>
+        <cluster>
+          <name>GRP</name><addressOffset>0x20</addressOffset>
+          <register><name>A</name><addressOffset>0x4</addressOffset></register>
+        </cluster>
+      </registers></peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.registers[0].name).toBe('GRP_A');
+    expect(result.registers[0].offset).toBe(0x24);
+  });
+
+  it('expands don\'t-care bits in binary enumerated values', () => {
+    const svd = device(`
+      <peripheral><name>P</name><baseAddress>0</baseAddress><registers>
+        <register><name>R</name><addressOffset>0</addressOffset><fields>
+          <field><name>F</name><bitRange>[2:0]</bitRange>
+            <enumeratedValues>
+              <enumeratedValue><name>LOW</name><value>#0x0</value></enumeratedValue>
+            </enumeratedValues>
+          </field>
+        </fields></register>
+      </registers></peripheral>`);
+    const field = importFromSvd(svd)!.registers[0].fields[0] as EnumField;
+    expect(field.enumEntries).toEqual([{ value: 0, name: 'LOW' }, { value: 2, name: 'LOW' }]);
+  });
+
+  it('maps access, modifiedWriteValues and readAction to access types', () => {
+    const svd = device(`
+      <peripheral><name>P</name><baseAddress>0</baseAddress><access>read-only</access><registers>
+        <register><name>STATUS</name><addressOffset>0</addressOffset><fields>
+          <field><name>BUSY</name><bitRange>[0:0]</bitRange></field>
+          <field><name>IRQ</name><bitRange>[1:1]</bitRange><access>read-write</access><modifiedWriteValues>oneToClear</modifiedWriteValues></field>
+          <field><name>ERR</name><bitRange>[2:2]</bitRange><readAction>clear</readAction></field>
+        </fields></register>
+        <register><name>CMD</name><addressOffset>4</addressOffset><access>write-only</access></register>
+      </registers></peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.warnings).toEqual([]);
+    const [status, cmd] = result.registers;
+    expect(status.access).toBe('ro');
+    expect(status.fields.map((f) => f.access)).toEqual([undefined, 'w1c', 'rc']);
+    expect(cmd.access).toBe('wo');
+  });
+
+  it('reports lossy conversions as warnings on imported registers', () => {
+    const svd = device(`
+      <peripheral><name>P</name><baseAddress>0</baseAddress><registers>
+        <register><name>R</name><addressOffset>0</addressOffset><fields>
+          <field><name>F</name><bitRange>[3:0]</bitRange>
+            <enumeratedValues>
+              <enumeratedValue><name>ZERO</name><value>0</value></enumeratedValue>
+              <enumeratedValue><name>OTHER</name><isDefault>true</isDefault></enumeratedValue>
+            </enumeratedValues>
+          </field>
+        </fields></register>
+      </registers></peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.registers).toHaveLength(1);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].imported).toBe(true);
+    expect(result.warnings[0].errors[0].message).toMatch(/default enumerated value "OTHER"/);
+  });
+
+  it('skips registers that fail validation', () => {
+    const svd = device(`
+      <peripheral><name>P</name><baseAddress>0</baseAddress><registers>
+        <register><name>HUGE</name><addressOffset>0</addressOffset><size>256</size></register>
+        <register><name>OK</name><addressOffset>0x40</addressOffset></register>
+      </registers></peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.registers.map((r) => r.name)).toEqual(['OK']);
+    expect(result.warnings).toHaveLength(1);
+    expect(result.warnings[0].registerName).toBe('HUGE');
+    expect(result.warnings[0].imported).toBeUndefined();
+  });
+
+  it('reports a missing derivedFrom peripheral', () => {
+    const svd = device(TIMER + `
+      <peripheral derivedFrom="NOPE"><name>TIMER9</name><baseAddress>0</baseAddress></peripheral>`);
+    const result = importFromSvd(svd)!;
+    expect(result.warnings.some((w) => w.registerName === 'TIMER9')).toBe(true);
+  });
+});
+
+describe('exportToSvd', () => {
+  const registers = [
+    makeRegister({
+      id: 'reg-1',
+      name: 'CTRL',
+      description: 'Control & status',
+      offset: 0x10,
+      width: 32,
+      fields: [
+        makeFlagField({ id: 'f1', name: 'EN', msb: 0, lsb: 0 }),
+        makeFlagField({ id: 'f2', name: 'DIR', msb: 1, lsb: 1, flagLabels: { clear: 'UP', set: 'DOWN' } }),
+        makeEnumField({ id: 'f3', name: 'MODE', msb: 5, lsb: 4, enumEntries: [{ value: 0, name: 'IDLE' }, { value: 3, name: 'RUN' }] }),
+        makeField({ id: 'f4', name: 'GAIN', msb: 15, lsb: 8, signedness: 'twos-complement' }),
+        makeFixedPointField({ id: 'f5', name: 'COEFF', msb: 31, lsb: 16, qFormat: { m: 8, n: 8 } }),
+      ],
+    }),
+    makeRegister({
+      id: 'reg-2',
+      name: 'DATA',
+      width: 32,
+      fields: [makeFloatField({ id: 'f6', name: 'SAMPLE', msb: 31, lsb: 0 })],
+    }),
+  ];
+  const state = makeState({ registers, project: { title: 'My Chip', description: 'Test chip' } });
+
+  it('produces well-formed XML with a device root', () => {
+    const doc = parseXml(exportToSvd(state));
+    expect(doc).not.toBeNull();
+    expect(doc!.documentElement.localName).toBe('device');
+  });
+
+  it('uses the project title as an identifier for the device name', () => {
+    const doc = parseXml(exportToSvd(state))!;
+    expect(doc.querySelector('device > name')!.textContent).toBe('My_Chip');
+    expect(doc.querySelector('device > description')!.textContent).toBe('Test chip');
+  });
+
+  it('escapes XML special characters in descriptions', () => {
+    expect(exportToSvd(state)).toContain('Control &amp; status');
+  });
+
+  it('places registers without an offset after the highest used address', () => {
+    const result = importFromSvd(exportToSvd(state))!;
+    expect(result.registers.map((r) => [r.name, r.offset])).toEqual([
+      ['CTRL', 0x10],
+      ['DATA', 0x14],
+    ]);
+  });
+
+  it('writes the address unit size', () => {
+    const result = importFromSvd(exportToSvd(makeState({ registers, addressUnitBits: 16 })))!;
+    expect(result.addressUnitBits).toBe(16);
+  });
+
+  it('round-trips field types through import', () => {
+    const result = importFromSvd(exportToSvd(state))!;
+    expect(result.warnings).toEqual([]);
+    const [ctrl, data] = result.registers;
+    const byName = new Map(ctrl.fields.map((f) => [f.name, f]));
+    expect(byName.get('EN')!.type).toBe('flag');
+    expect((byName.get('DIR') as FlagField).flagLabels).toEqual({ clear: 'UP', set: 'DOWN' });
+    expect((byName.get('MODE') as EnumField).enumEntries).toEqual([{ value: 0, name: 'IDLE' }, { value: 3, name: 'RUN' }]);
+    expect((byName.get('GAIN') as IntegerField).signedness).toBe('twos-complement');
+    expect((byName.get('COEFF') as FixedPointField).qFormat).toEqual({ m: 8, n: 8 });
+    expect((data.fields[0] as FloatField).floatType).toBe('single');
+  });
+
+  it('round-trips field scaling through vendor extensions', () => {
+    const reg = makeRegister({
+      offset: 0,
+      fields: [
+        makeField({ id: 'a', name: 'TEMP', msb: 11, lsb: 0, scaling: { scale: 0.5, offset: -40, unit: '°C' } }),
+        makeFixedPointField({ id: 'b', name: 'VOLT', msb: 31, lsb: 16, qFormat: { m: 8, n: 8 }, scaling: { scale: 2, offset: 0 } }),
+      ],
+    });
+    const [imported] = importFromSvd(exportToSvd(makeState({ registers: [reg] })))!.registers;
+    expect((imported.fields[0] as IntegerField).scaling).toEqual({ scale: 0.5, offset: -40, unit: '°C' });
+    expect((imported.fields[1] as FixedPointField).scaling).toEqual({ scale: 2, offset: 0 });
+  });
+
+  it('round-trips bitset bit names through vendor extensions', () => {
+    const reg = makeRegister({
+      offset: 0,
+      fields: [{ id: 'a', name: 'SR', msb: 7, lsb: 0, type: 'bitset', bitNames: [{ bit: 0, name: 'RXNE' }, { bit: 5, name: 'TXE' }] }],
+    });
+    const [imported] = importFromSvd(exportToSvd(makeState({ registers: [reg] })))!.registers;
+    expect(imported.fields[0]).toMatchObject({ type: 'bitset', bitNames: [{ bit: 0, name: 'RXNE' }, { bit: 5, name: 'TXE' }] });
+  });
+
+  it('round-trips register and field access', () => {
+    const reg = makeRegister({
+      offset: 0,
+      access: 'ro',
+      fields: [
+        makeFlagField({ id: 'a', name: 'IRQ', msb: 0, lsb: 0, access: 'w1c' }),
+        makeFlagField({ id: 'b', name: 'GO', msb: 1, lsb: 1, access: 'w1s' }),
+        makeFlagField({ id: 'c', name: 'BUSY', msb: 2, lsb: 2 }),
+      ],
+    });
+    const svd = exportToSvd(makeState({ registers: [reg] }));
+    expect(svd).toContain('<modifiedWriteValues>oneToClear</modifiedWriteValues>');
+    const result = importFromSvd(svd)!;
+    expect(result.warnings).toEqual([]);
+    expect(result.registers[0].access).toBe('ro');
+    expect(result.registers[0].fields.map((f) => f.access)).toEqual(['w1c', 'w1s', undefined]);
+  });
+
+  it('writes register access, reset value and side effects in schema order', () => {
+    const reg = makeRegister({ offset: 0, access: 'w1c', resetValue: 0x5n });
+    const svd = exportToSvd(makeState({ registers: [reg] }));
+    const registerXml = svd.slice(svd.indexOf('<register>'));
+    const elements = [...registerXml.matchAll(/<(size|access|resetValue|modifiedWriteValues|readAction)>/g)].map((m) => m[1]);
+    expect(elements).toEqual(['size', 'access', 'resetValue', 'modifiedWriteValues']);
+    const result = importFromSvd(svd)!;
+    expect(result.registers[0].access).toBe('w1c');
+    expect(result.registers[0].resetValue).toBe(0x5n);
+  });
+
+  it('round-trips variant fields', () => {
+    const mode = makeEnumField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0, enumEntries: [{ value: 0, name: 'PWM' }, { value: 1, name: 'CAPTURE' }] });
+    const timer = makeRegister({
+      name: 'TIM',
+      offset: 0,
+      width: 8,
+      fields: [mode],
+      variantSelectorId: 'mode',
+      variants: [
+        { id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2 })] },
+        { id: 'cap', name: 'CAPTURE', selectorValues: [1, 2], fields: [makeFlagField({ id: 'edge', name: 'EDGE', msb: 2, lsb: 2 })] },
+      ],
+    });
+    const result = importFromSvd(exportToSvd(makeState({ registers: [timer] })))!;
+    expect(result.warnings).toEqual([]);
+    const reg = result.registers[0];
+    expect(reg.fields.map((f) => f.name)).toEqual(['MODE']);
+    expect(reg.variantSelectorId).toBe(reg.fields[0].id);
+    expect(reg.variants!.map((v) => [v.name, v.selectorValues, v.fields.map((f) => [f.name, f.type, f.msb, f.lsb])])).toEqual([
+      ['PWM', [0], [['DUTY', 'integer', 7, 2]]],
+      ['CAPTURE', [1, 2], [['EDGE', 'flag', 2, 2]]],
+    ]);
+  });
+
+  it('includes the reset of the variant selected at reset in the register reset value', () => {
+    const timer = makeRegister({
+      name: 'TIM',
+      width: 8,
+      fields: [makeEnumField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0 })],
+      variantSelectorId: 'mode',
+      variants: [
+        { id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2, resetValue: 0x3n })] },
+        { id: 'cap', name: 'CAPTURE', selectorValues: [1], fields: [makeFlagField({ id: 'edge', name: 'EDGE', msb: 2, lsb: 2, resetValue: 1n })] },
+      ],
+    });
+    expect(exportToSvd(makeState({ registers: [timer] }))).toContain('<resetValue>0xC</resetValue>');
+  });
+
+  it('suffixes field and enumerated value names that reduce to the same identifier', () => {
+    const reg = makeRegister({
+      name: 'R',
+      fields: [
+        makeEnumField({ id: 'a', name: 'Low speed', msb: 1, lsb: 0, enumEntries: [{ value: 0, name: 'Off mode' }, { value: 1, name: 'Off-mode' }] }),
+        makeFloatField({ id: 'b', name: 'Low-speed', msb: 31, lsb: 0 }),
+      ],
+    });
+    const svd = exportToSvd(makeState({ registers: [reg] }));
+    expect(svd).toContain('<name>Low_speed</name>');
+    expect(svd).toContain('<name>Low_speed_1</name>');
+    expect(svd).toContain('<name>Off_mode_1</name>');
+    const { fields } = importFromSvd(svd)!.registers[0];
+    expect(fields.map((f) => [f.name, f.type])).toEqual([['Low_speed', 'enum'], ['Low_speed_1', 'float']]);
+    expect((fields[0] as EnumField).enumEntries.map((e) => e.name)).toEqual(['Off_mode', 'Off_mode_1']);
+  });
+
+  it('writes one register per array instance', () => {
+    const reg = makeRegister({ name: 'CH%s_CTRL', offset: 0x100, dim: { count: 2, stride: 0x10 } });
+    const result = importFromSvd(exportToSvd(makeState({ registers: [reg] })))!;
+    expect(result.registers.map((r) => [r.name, r.offset])).toEqual([['CH0_CTRL', 0x100], ['CH1_CTRL', 0x110]]);
+  });
+
+  it('writes grouped registers at their absolute address with the group name as prefix', () => {
+    const reg = makeRegister({ name: 'CTRL', offset: 4, groupId: 'g1' });
+    const svd = exportToSvd(makeState({ registers: [reg], groups: [{ id: 'g1', name: 'UART0', baseAddress: 0x4000 }] }));
+    const result = importFromSvd(svd)!;
+    expect(result.registers.map((r) => [r.name, r.offset])).toEqual([['UART0_CTRL', 0x4004]]);
+  });
+
+  it('writes the composed reset value and omits it when unset', () => {
+    const reg = makeRegister({
+      offset: 0,
+      width: 16,
+      resetValue: 0xFF00n,
+      fields: [makeField({ id: 'a', name: 'LO', msb: 3, lsb: 0, resetValue: 0x3n })],
+    });
+    const svd = exportToSvd(makeState({ registers: [reg] }));
+    expect(svd).toContain('<resetValue>0xFF03</resetValue>');
+    expect(importFromSvd(svd)!.registers[0].resetValue).toBe(0xFF03n);
+    expect(exportToSvd(state)).not.toContain('<resetValue>');
+  });
+
+  it('keeps 1-bit integer fields from turning into flags', () => {
+    const reg = makeRegister({ fields: [makeField({ name: 'BIT', msb: 3, lsb: 3 })], offset: 0 });
+    const result = importFromSvd(exportToSvd(makeState({ registers: [reg] })))!;
+    expect(result.registers[0].fields[0].type).toBe('integer');
+  });
+
+  it('makes duplicate and invalid register names unique identifiers', () => {
+    const regs = [
+      makeRegister({ id: 'a', name: 'REG A', offset: 0 }),
+      makeRegister({ id: 'b', name: 'REG-A', offset: 4 }),
+    ];
+    const result = importFromSvd(exportToSvd(makeState({ registers: regs })))!;
+    expect(result.registers.map((r) => r.name)).toEqual(['REG_A', 'REG_A_1']);
+  });
+});
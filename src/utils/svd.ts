@@ -0,0 +1,643 @@
+import { ADDRESS_UNIT_BITS_VALUES, type AccessType, type AddressUnitBits, type AppState, type BaseField, type EnumEntry, type Field, type ProjectMetadata, type RegisterDef } from '../types/register';
+import { accessFromXml, accessToXml, type XmlAccess } from './access';
+import { applyFieldTypeAttrs, fieldTypeAttrs } from './field-type-attrs';
+import { hasReset, resetValueOf } from './reset';
+import type { ImportResult, ImportWarning } from './storage';
+import { validateRegisterDef } from './validation';
+import { childElement, childElements, childText, escapeXml, normalizeWhitespace, parseXml } from './xml';
+import { withExpandedSplitFields } from './field-slices';
+import { expandRegisters } from './register-array';
+import { flattenGroups } from './register-groups';
+import { flattenVariants, parseVariantOrigin, restoreVariants, variantOriginAttrs } from './variants';
+
+/**
+ * Element inside the device-level `<vendorExtensions>` that records field types
+ * SVD cannot express (float, fixed-point, signedness) and the variant of
+ * variant fields, so they survive a round trip.
+ */
+const VENDOR_EXTENSION_TAG = 'registerViewer';
+
+/** Maximum number of don't-care bits expanded in a binary enumerated value (`#1x0x`). */
+const MAX_DONT_CARE_BITS = 8;
+
+const SCALE_SUFFIX: Record<string, bigint> = {
+  k: 1n << 10n,
+  m: 1n << 20n,
+  g: 1n << 30n,
+  t: 1n << 40n,
+};
+
+/**
+ * Parse an SVD `scaledNonNegativeInteger`: decimal, `0x` hex, or `#` binary,
+ * with an optional k/M/G/T binary scale suffix. Returns undefined if malformed.
+ */
+export function parseSvdInteger(text: string | undefined): bigint | undefined {
+  if (text === undefined) return undefined;
+  const s = text.trim().replace(/^\+/, '');
+  const match = /^(0[xX][0-9a-fA-F]+|#[01]+|0[bB][01]+|[0-9]+)([kKmMgGtT])?$/.exec(s);
+  if (!match) return undefined;
+  const [, digits, suffix] = match;
+  const value = digits.startsWith('#') ? BigInt('0b' + digits.slice(1)) : BigInt(digits);
+  return suffix ? value * SCALE_SUFFIX[suffix.toLowerCase()] : value;
+}
+
+function parseSvdNumber(text: string | undefined): number | undefined {
+  const value = parseSvdInteger(text);
+  return value === undefined ? undefined : Number(value);
+}
+
+/**
+ * Expand an enumerated value string into concrete values. Binary values may
+ * contain `x` don't-care digits (`#1x0`), which expand to every combination.
+ * Returns null if the value is malformed or has too many don't-care bits.
+ */
+function expandEnumValue(text: string): number[] | null {
+  const s = text.trim();
+  if (/^#[01xX]+$/.test(s) && /[xX]/.test(s)) {
+    const digits = s.slice(1).toLowerCase();
+    const dontCare = [...digits].filter((d) => d === 'x').length;
+    if (dontCare > MAX_DONT_CARE_BITS) return null;
+    const values: number[] = [];
+    for (let combo = 0; combo < 1 << dontCare; combo++) {
+      let bit = dontCare - 1;
+      let resolved = '';
+      for (const d of digits) {
+        if (d === 'x') {
+          resolved += (combo >> bit) & 1;
+          bit--;
+        } else {
+          resolved += d;
+        }
+      }
+      values.push(parseInt(resolved, 2));
+    }
+    return values;
+  }
+  const value = parseSvdNumber(s);
+  return value === undefined ? null : [value];
+}
+
+/** Parse a `dimIndex` list: `0,1,2`, `0-3`, or `A-D`. */
+function parseDimIndex(text: string | undefined, count: number): string[] | null {
+  if (text === undefined) return Array.from({ length: count }, (_, i) => String(i));
+  const s = text.trim();
+  const numRange = /^([0-9]+)\s*-\s*([0-9]+)$/.exec(s);
+  if (numRange) {
+    const start = parseInt(numRange[1], 10);
+    return Array.from({ length: count }, (_, i) => String(start + i));
+  }
+  const charRange = /^([A-Z])\s*-\s*([A-Z])$/.exec(s);
+  if (charRange) {
+    const start = charRange[1].charCodeAt(0);
+    return Array.from({ length: count }, (_, i) => String.fromCharCode(start + i));
+  }
+  const list = s.split(',').map((x) => x.trim());
+  return list.length === count ? list : null;
+}
+
+/** A dimensioned element, expanded to one name/offset pair per instance. */
+interface DimInstance {
+  name: string;
+  offsetDelta: number;
+}
+
+/** Expand an element's `dim`/`dimIncrement`/`dimIndex` into instances, or one instance if not dimensioned. */
+function expandDim(el: Element, name: string, lossy: string[]): DimInstance[] {
+  const dim = parseSvdNumber(childText(el, 'dim'));
+  if (dim === undefined) return [{ name, offsetDelta: 0 }];
+  const increment = parseSvdNumber(childText(el, 'dimIncrement')) ?? 0;
+  const indices = parseDimIndex(childText(el, 'dimIndex'), dim);
+  if (!indices) {
+    lossy.push(`Could not parse dimIndex for "${name}"; using numeric indices`);
+  }
+  const resolved = indices ?? Array.from({ length: dim }, (_, i) => String(i));
+  return resolved.map((index, i) => ({
+    name: name.replace('[%s]', index).replace('%s', index),
+    offsetDelta: i * increment,
+  }));
+}
+
+/** Inheritable register properties (SVD `registerPropertiesGroup`). */
+interface RegisterProps {
+  size?: number;
+  resetValue?: bigint;
+  access?: string;
+}
+
+function readRegisterProps(el: Element, inherited: RegisterProps): RegisterProps {
+  return {
+    size: parseSvdNumber(childText(el, 'size')) ?? inherited.size,
+    resetValue: parseSvdInteger(childText(el, 'resetValue')) ?? inherited.resetValue,
+    access: childText(el, 'access') ?? inherited.access,
+  };
+}
+
+function readXmlAccess(el: Element): XmlAccess {
+  return {
+    access: childText(el, 'access'),
+    modifiedWriteValues: childText(el, 'modifiedWriteValues'),
+    readAction: childText(el, 'readAction'),
+  };
+}
+
+/** Resolve a field's bit range from any of the three SVD forms. */
+function readBitRange(el: Element): { msb: number; lsb: number } | null {
+  const bitOffset = parseSvdNumber(childText(el, 'bitOffset'));
+  if (bitOffset !== undefined) {
+    const bitWidth = parseSvdNumber(childText(el, 'bitWidth')) ?? 1;
+    return { msb: bitOffset + bitWidth - 1, lsb: bitOffset };
+  }
+  const lsb = parseSvdNumber(childText(el, 'lsb'));
+  const msb = parseSvdNumber(childText(el, 'msb'));
+  if (lsb !== undefined && msb !== undefined) return { msb, lsb };
+  const bitRange = childText(el, 'bitRange');
+  if (bitRange) {
+    const match = /^\[\s*(\d+)\s*:\s*(\d+)\s*\]$/.exec(bitRange);
+    if (match) return { msb: parseInt(match[1], 10), lsb: parseInt(match[2], 10) };
+  }
+  return null;
+}
+
+interface SvdContext {
+  /** `enumeratedValues` elements by name, for resolving `derivedFrom`. */
+  enumsByName: Map<string, Element>;
+}
+
+/** Pick the enumeratedValues block describing read values, resolving `derivedFrom`. */
+function selectEnumeratedValues(fieldEl: Element, ctx: SvdContext, fieldName: string, lossy: string[]): Element | null {
+  const blocks = childElements(fieldEl, 'enumeratedValues');
+  if (blocks.length === 0) return null;
+  const readable = blocks.find((b) => (childText(b, 'usage') ?? 'read-write') !== 'write') ?? blocks[0];
+  if (blocks.length > 1) {
+    lossy.push(`"${fieldName}": only one of ${blocks.length} enumeratedValues blocks was imported`);
+  }
+  const derivedFrom = readable.getAttribute('derivedFrom');
+  if (derivedFrom) {
+    const base = ctx.enumsByName.get(derivedFrom.split('.').pop()!);
+    if (!base) {
+      lossy.push(`"${fieldName}": enumeratedValues derivedFrom "${derivedFrom}" not found`);
+      return null;
+    }
+    return base;
+  }
+  return readable;
+}
+
+function readEnumEntries(enumsEl: Element, fieldName: string, lossy: string[]): EnumEntry[] {
+  const entries: EnumEntry[] = [];
+  const seen = new Set<number>();
+  for (const ev of childElements(enumsEl, 'enumeratedValue')) {
+    const name = childText(ev, 'name') ?? '';
+    if (childText(ev, 'isDefault') === 'true') {
+      lossy.push(`"${fieldName}": default enumerated value "${name}" cannot be represented`);
+      continue;
+    }
+    const valueText = childText(ev, 'value');
+    const values = valueText !== undefined ? expandEnumValue(valueText) : null;
+    if (!values) {
+      lossy.push(`"${fieldName}": skipped enumerated value "${name}" (unsupported value "${valueText ?? ''}")`);
+      continue;
+    }
+    for (const value of values) {
+      if (seen.has(value)) continue;
+      seen.add(value);
+      entries.push({ value, name });
+    }
+  }
+  return entries.sort((a, b) => a.value - b.value);
+}
+
+function readField(
+  fieldEl: Element,
+  name: string,
+  range: { msb: number; lsb: number },
+  regAccess: AccessType | undefined,
+  ctx: SvdContext,
+  lossy: string[],
+): Field {
+  const base: BaseField = { id: crypto.randomUUID(), name, msb: range.msb, lsb: range.lsb };
+  const access = accessFromXml(readXmlAccess(fieldEl), name, lossy);
+  if (access && access !== (regAccess ?? 'rw')) base.access = access;
+  const description = childText(fieldEl, 'description');
+  const withDesc = description ? { ...base, description: normalizeWhitespace(description) } : base;
+  const bitWidth = range.msb - range.lsb + 1;
+
+  const enumsEl = selectEnumeratedValues(fieldEl, ctx, name, lossy);
+  const entries = enumsEl ? readEnumEntries(enumsEl, name, lossy) : [];
+
+  if (bitWidth === 1) {
+    const clear = entries.find((e) => e.value === 0)?.name;
+    const set = entries.find((e) => e.value === 1)?.name;
+    if (clear || set) {
+      return { ...withDesc, type: 'flag', flagLabels: { clear: clear ?? 'clear', set: set ?? 'set' } };
+    }
+    return { ...withDesc, type: 'flag' };
+  }
+  if (entries.length > 0) {
+    return { ...withDesc, type: 'enum', enumEntries: entries };
+  }
+  return { ...withDesc, type: 'integer' };
+}
+
+function readFields(regEl: Element, regAccess: AccessType | undefined, ctx: SvdContext, lossy: string[]): Field[] {
+  const fieldsEl = childElement(regEl, 'fields');
+  if (!fieldsEl) return [];
+  const fields: Field[] = [];
+  for (const fieldEl of childElements(fieldsEl, 'field')) {
+    const name = childText(fieldEl, 'name') ?? '';
+    const range = readBitRange(fieldEl);
+    if (!range) {
+      lossy.push(`Field "${name}" skipped: no bit range`);
+      continue;
+    }
+    for (const instance of expandDim(fieldEl, name, lossy)) {
+      // Field arrays repeat at dimIncrement bits
+      const shifted = { msb: range.msb + instance.offsetDelta, lsb: range.lsb + instance.offsetDelta };
+      fields.push(readField(fieldEl, instance.name, shifted, regAccess, ctx, lossy));
+    }
+  }
+  return fields;
+}
+
+/** An imported register with the notes collected while converting it. */
+interface PendingRegister {
+  reg: RegisterDef;
+  resetValue?: bigint;
+  lossy: string[];
+}
+
+function readRegisters(
+  container: Element,
+  baseAddress: number,
+  namePrefix: string,
+  inherited: RegisterProps,
+  ctx: SvdContext,
+  // Notes on the enclosing peripheral and clusters, repeated for each register inside
+  containerLossy: string[],
+  out: PendingRegister[],
+): void {
+  for (const el of Array.from(container.children)) {
+    if (el.localName !== 'register' && el.localName !== 'cluster') continue;
+    const lossy = [...containerLossy];
+    const name = childText(el, 'name') ?? '';
+    const addressOffset = parseSvdNumber(childText(el, 'addressOffset')) ?? 0;
+    const props = readRegisterProps(el, inherited);
+
+    if (el.localName === 'cluster') {
+      for (const instance of expandDim(el, name, lossy)) {
+        readRegisters(el, baseAddress + addressOffset + instance.offsetDelta, `${namePrefix}${instance.name}_`, props, ctx, lossy, out);
+      }
+      continue;
+    }
+
+    if (el.getAttribute('derivedFrom')) {
+      lossy.push(`derivedFrom on registers is not supported; "${name}" imported without inherited fields`);
+    }
+    const description = childText(el, 'description');
+    const access = accessFromXml({ ...readXmlAccess(el), access: props.access }, name, lossy);
+    const fields = readFields(el, access, ctx, lossy);
+    for (const instance of expandDim(el, name, lossy)) {
+      const reg: RegisterDef = {
+        id: crypto.randomUUID(),
+        name: namePrefix + instance.name,
+        width: props.size ?? 32,
+        offset: baseAddress + addressOffset + instance.offsetDelta,
+        // Each instance needs its own field ids
+        fields: fields.map((f) => ({ ...f, id: crypto.randomUUID() })),
+      };
+      if (description) reg.description = normalizeWhitespace(description);
+      if (access && access !== 'rw') reg.access = access;
+      out.push({ reg, resetValue: props.resetValue, lossy: [...lossy] });
+    }
+  }
+}
+
+function overrideKey(registerName: string, fieldName: string): string {
+  return `${registerName}\u0000${fieldName}`;
+}
+
+/** Read field type overrides written by `exportToSvd` from the device's vendor extensions. */
+function readTypeOverrides(device: Element): Map<string, Record<string, string>> {
+  const overrides = new Map<string, Record<string, string>>();
+  const extensions = childElement(device, 'vendorExtensions');
+  const root = extensions && childElement(extensions, VENDOR_EXTENSION_TAG);
+  if (!root) return overrides;
+  for (const el of childElements(root, 'field')) {
+    const attrs: Record<string, string> = {};
+    for (const attr of Array.from(el.attributes)) attrs[attr.name] = attr.value;
+    if (attrs.register && attrs.name && (attrs.type || attrs.variant)) {
+      overrides.set(overrideKey(attrs.register, attrs.name), attrs);
+    }
+  }
+  return overrides;
+}
+
+/**
+ * Import a CMSIS-SVD device description. Peripherals are flattened into a
+ * single register list: register offsets are absolute addresses (peripheral
+ * base address + address offset), and register names are prefixed with the
+ * peripheral name when the device has more than one peripheral.
+ *
+ * Returns null if the document is not well-formed SVD.
+ */
+export function importFromSvd(xml: string): ImportResult | null {
+  const doc = parseXml(xml);
+  const device = doc?.documentElement;
+  if (!device || device.localName !== 'device') return null;
+  const peripheralsEl = childElement(device, 'peripherals');
+  if (!peripheralsEl) return null;
+
+  const ctx: SvdContext = { enumsByName: new Map() };
+  for (const el of Array.from(device.getElementsByTagName('enumeratedValues'))) {
+    const name = childText(el, 'name');
+    if (name && !el.getAttribute('derivedFrom')) ctx.enumsByName.set(name, el);
+  }
+
+  const deviceProps = readRegisterProps(device, {});
+  const peripherals = childElements(peripheralsEl, 'peripheral');
+  const peripheralsByName = new Map(peripherals.map((p) => [childText(p, 'name') ?? '', p]));
+  const usePrefix = peripherals.length > 1;
+
+  const pending: PendingRegister[] = [];
+  const deviceWarnings: ImportWarning[] = [];
+  for (const peripheral of peripherals) {
+    const name = childText(peripheral, 'name') ?? '';
+    const baseAddress = parseSvdNumber(childText(peripheral, 'baseAddress')) ?? 0;
+    let source = peripheral;
+    const derivedFrom = peripheral.getAttribute('derivedFrom');
+    if (derivedFrom && !childElement(peripheral, 'registers')) {
+      const base = peripheralsByName.get(derivedFrom);
+      if (!base) {
+        deviceWarnings.push({
+          registerIndex: -1,
+          registerName: name,
+          errors: [{ message: `Peripheral derivedFrom "${derivedFrom}" not found; peripheral skipped` }],
+        });
+        continue;
+      }
+      source = base;
+    }
+    const registersEl = childElement(source, 'registers');
+    if (!registersEl) continue;
+    const props = readRegisterProps(source, deviceProps);
+    const lossy: string[] = [];
+    for (const instance of expandDim(peripheral, name, lossy)) {
+      readRegisters(registersEl, baseAddress + instance.offsetDelta, usePrefix ? `${instance.name}_` : '', props, ctx, lossy, pending);
+    }
+  }
+
+  const typeOverrides = readTypeOverrides(device);
+  if (typeOverrides.size > 0) {
+    for (const entry of pending) {
+      const { reg } = entry;
+      const attrsOf = (f: Field) => typeOverrides.get(overrideKey(reg.name, f.name));
+      const typed = {
+        ...reg,
+        fields: reg.fields.map((f) => {
+          const attrs = attrsOf(f);
+          return attrs?.type ? applyFieldTypeAttrs(f, attrs) : f;
+        }),
+      };
+      entry.reg = restoreVariants(typed, (f) => parseVariantOrigin(attrsOf(f)));
+    }
+  }
+
+  const registers: RegisterDef[] = [];
+  const values: Record<string, bigint> = {};
+  const warnings: ImportWarning[] = [...deviceWarnings];
+  pending.forEach(({ reg, resetValue, lossy }, i) => {
+    const errors = validateRegisterDef(reg);
+    if (errors.length > 0) {
+      warnings.push({ registerIndex: i, registerName: reg.name || `(index ${i})`, errors });
+      return;
+    }
+    if (resetValue !== undefined) {
+      const reset = resetValue & ((1n << BigInt(reg.width)) - 1n);
+      registers.push({ ...reg, resetValue: reset });
+      values[reg.id] = reset;
+    } else {
+      registers.push(reg);
+    }
+    if (lossy.length > 0) {
+      warnings.push({
+        registerIndex: i,
+        registerName: reg.name,
+        errors: lossy.map((message) => ({ message })),
+        imported: true,
+      });
+    }
+  });
+
+  const project: ProjectMetadata = {};
+  const deviceName = childText(device, 'name');
+  const deviceDescription = childText(device, 'description');
+  if (deviceName) project.title = deviceName;
+  if (deviceDescription) project.description = normalizeWhitespace(deviceDescription);
+
+  const unitBits = parseSvdNumber(childText(device, 'addressUnitBits'));
+  const addressUnitBits = unitBits !== undefined && (ADDRESS_UNIT_BITS_VALUES as readonly number[]).includes(unitBits)
+    ? unitBits as AddressUnitBits : undefined;
+
+  return {
+    registers,
+    values,
+    warnings,
+    project: Object.keys(project).length > 0 ? project : undefined,
+    addressUnitBits,
+  };
+}
+
+// --- Export ---
+
+/** Reduce a name to an SVD identifier (letters, digits, underscores; no leading digit). */
+function toSvdIdentifier(name: string, fallback: string): string {
+  const id = name.trim().replace(/[^A-Za-z0-9_]/g, '_');
+  if (!id) return fallback;
+  return /^[0-9]/.test(id) ? `_${id}` : id;
+}
+
+/** `base`, or `base_1`, `base_2`… when that is taken; the name returned is marked as used. */
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let i = 1; used.has(name); i++) name = `${base}_${i}`;
+  used.add(name);
+  return name;
+}
+
+/** SVD names of the register's fields by field id, unique within the register. */
+function fieldNames(reg: RegisterDef): Map<string, string> {
+  const used = new Set<string>();
+  return new Map(reg.fields.map((f) => [f.id, uniqueName(toSvdIdentifier(f.name, 'FIELD'), used)]));
+}
+
+function hex(value: number | bigint, digits = 0): string {
+  return '0x' + value.toString(16).toUpperCase().padStart(digits, '0');
+}
+
+function enumeratedValuesXml(field: Field, indent: string): string[] {
+  let entries: EnumEntry[] = [];
+  if (field.type === 'enum') {
+    entries = field.enumEntries;
+  } else if (field.type === 'flag' && field.flagLabels) {
+    entries = [{ value: 0, name: field.flagLabels.clear }, { value: 1, name: field.flagLabels.set }];
+  }
+  if (entries.length === 0) return [];
+  // Enumerated value names must be unique within the field
+  const used = new Set<string>();
+  const lines = [`${indent}<enumeratedValues>`];
+  for (const entry of entries) {
+    lines.push(
+      `${indent}  <enumeratedValue>`,
+      `${indent}    <name>${escapeXml(uniqueName(toSvdIdentifier(entry.name, `VALUE_${entry.value}`), used))}</name>`,
+      `${indent}    <value>${entry.value}</value>`,
+      `${indent}  </enumeratedValue>`,
+    );
+  }
+  lines.push(`${indent}</enumeratedValues>`);
+  return lines;
+}
+
+/**
+ * Access elements, split because registers put `<resetValue>` between
+ * `<access>` and the side-effect elements; fields take them back to back.
+ */
+function accessXml(access: AccessType, indent: string): { access: string; sideEffects: string[] } {
+  const xml = accessToXml(access);
+  const sideEffects: string[] = [];
+  if (xml.modifiedWriteValues) sideEffects.push(`${indent}<modifiedWriteValues>${xml.modifiedWriteValues}</modifiedWriteValues>`);
+  if (xml.readAction) sideEffects.push(`${indent}<readAction>${xml.readAction}</readAction>`);
+  return { access: `${indent}<access>${xml.access}</access>`, sideEffects };
+}
+
+function registerXml(reg: RegisterDef, name: string, names: Map<string, string>, offset: number, indent: string): string[] {
+  const lines = [
+    `${indent}<register>`,
+    `${indent}  <name>${escapeXml(name)}</name>`,
+  ];
+  if (reg.description) lines.push(`${indent}  <description>${escapeXml(reg.description)}</description>`);
+  lines.push(
+    `${indent}  <addressOffset>${hex(offset)}</addressOffset>`,
+    `${indent}  <size>${reg.width}</size>`,
+  );
+  const regAccess = reg.access && accessXml(reg.access, `${indent}  `);
+  if (regAccess) lines.push(regAccess.access);
+  if (hasReset(reg)) lines.push(`${indent}  <resetValue>${hex(resetValueOf(reg))}</resetValue>`);
+  if (regAccess) lines.push(...regAccess.sideEffects);
+  if (reg.fields.length > 0) {
+    lines.push(`${indent}  <fields>`);
+    for (const field of [...reg.fields].sort((a, b) => a.lsb - b.lsb)) {
+      lines.push(`${indent}    <field>`);
+      lines.push(`${indent}      <name>${escapeXml(names.get(field.id)!)}</name>`);
+      if (field.description) lines.push(`${indent}      <description>${escapeXml(field.description)}</description>`);
+      lines.push(`${indent}      <bitRange>[${field.msb}:${field.lsb}]</bitRange>`);
+      if (field.access) {
+        const fieldAccess = accessXml(field.access, `${indent}      `);
+        lines.push(fieldAccess.access, ...fieldAccess.sideEffects);
+      }
+      lines.push(...enumeratedValuesXml(field, `${indent}      `));
+      lines.push(`${indent}    </field>`);
+    }
+    lines.push(`${indent}  </fields>`);
+  }
+  lines.push(`${indent}</register>`);
+  return lines;
+}
+
+/**
+ * Export the project as a CMSIS-SVD device description with a single
+ * peripheral holding every register, register arrays written out instance by
+ * instance and grouped registers at their absolute address, prefixed with
+ * the group name. Registers without an offset are placed after the highest
+ * used address. Field types SVD cannot express are kept in the device's
+ * vendor extensions so `importFromSvd` can restore them, as are the
+ * variants of variant fields, which are written as `<variant>_<field>`
+ * alongside the common fields. Split fields become one SVD field per slice.
+ */
+export function exportToSvd(state: AppState): string {
+  const { project, addressUnitBits } = state;
+  const flattened = expandRegisters(flattenGroups(state.registers, state.groups))
+    .map((reg) => flattenVariants(withExpandedSplitFields(reg)));
+  const registers = flattened.map((f) => f.register);
+  const deviceName = toSvdIdentifier(project?.title ?? '', 'DEVICE');
+  const unitsFor = (reg: RegisterDef) => Math.ceil(reg.width / addressUnitBits);
+
+  let nextFree = registers.reduce(
+    (max, r) => (r.offset != null ? Math.max(max, r.offset + unitsFor(r)) : max), 0,
+  );
+  const placed = registers.map((reg) => {
+    if (reg.offset != null) return { reg, offset: reg.offset };
+    const offset = nextFree;
+    nextFree += unitsFor(reg);
+    return { reg, offset };
+  });
+
+  // SVD register names must be unique within a peripheral
+  const usedNames = new Set<string>();
+  const named = placed.map(({ reg, offset }, i) => ({
+    reg,
+    offset,
+    name: uniqueName(toSvdIdentifier(reg.name, 'REGISTER'), usedNames),
+    fields: fieldNames(reg),
+    origins: flattened[i].origins,
+  }));
+
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<device schemaVersion="1.3" xmlns:xs="http://www.w3.org/2001/XMLSchema-instance" xs:noNamespaceSchemaLocation="CMSIS-SVD.xsd">',
+    `  <name>${escapeXml(deviceName)}</name>`,
+    '  <version>1.0</version>',
+    `  <description>${escapeXml(project?.description ?? project?.title ?? 'Exported from Register Viewer')}</description>`,
+    `  <addressUnitBits>${addressUnitBits}</addressUnitBits>`,
+    '  <width>32</width>',
+    '  <peripherals>',
+    '    <peripheral>',
+    `      <name>${escapeXml(deviceName)}</name>`,
+    `      <baseAddress>${hex(0, 8)}</baseAddress>`,
+  ];
+  if (nextFree > 0) {
+    lines.push(
+      '      <addressBlock>',
+      '        <offset>0x0</offset>',
+      `        <size>${hex(nextFree)}</size>`,
+      '        <usage>registers</usage>',
+      '      </addressBlock>',
+    );
+  }
+  if (named.length > 0) {
+    lines.push('      <registers>');
+    for (const { reg, offset, name, fields } of named) {
+      lines.push(...registerXml(reg, name, fields, offset, '        '));
+    }
+    lines.push('      </registers>');
+  }
+  lines.push('    </peripheral>', '  </peripherals>');
+
+  const overrides: string[] = [];
+  for (const { reg, name, fields, origins } of named) {
+    for (const field of reg.fields) {
+      const attrs = fieldTypeAttrs(field);
+      const origin = origins.get(field.id);
+      if (!attrs && !origin) continue;
+      const selector = origin && reg.fields.find((f) => f.name === origin.selector);
+      const all = {
+        register: name,
+        name: fields.get(field.id)!,
+        ...attrs,
+        ...(origin && variantOriginAttrs({ ...origin, selector: selector ? fields.get(selector.id)! : toSvdIdentifier(origin.selector, 'FIELD') })),
+      };
+      const attrText = Object.entries(all).map(([k, v]) => `${k}="${escapeXml(v)}"`).join(' ');
+      overrides.push(`      <field ${attrText}/>`);
+    }
+  }
+  if (overrides.length > 0) {
+    lines.push(
+      '  <vendorExtensions>',
+      `    <${VENDOR_EXTENSION_TAG} version="1">`,
+      ...overrides,
+      `    </${VENDOR_EXTENSION_TAG}>`,
+      '  </vendorExtensions>',
+    );
+  }
+  lines.push('</device>', '');
+  return lines.join('\n');
+}
@@ -0,0 +1,321 @@
+import { exportToSystemRdl, importFromSystemRdl } from './systemrdl';
+import type { EnumField, FixedPointField, FlagField, FloatField, IntegerField } from '../types/register';
+import { makeEnumField, makeFixedPointField, makeFlagField, makeFloatField, makeField, makeRegister, makeState } from '../test/helpers';
+
+const TIMER = `
+// Timer block
+enum mode_e {
+  IDLE = 2'h0 { desc = "Stopped"; };
+  ONESHOT;
+  PERIODIC = 2'd3;
+};
+
+reg ctrl_t {
+  desc = "Control
+          register";
+  field { sw = rw; hw = r; desc = "Enable"; } EN[0:0] = 1'b1;
+  field { encode = mode_e; } MODE[2:1] = 2'h2;
+  field { fieldwidth = 4; } PRESCALE;
+  field {} RSVD[15:12];
+};
+
+addrmap timer {
+  name = "Timer";
+  desc = "General purpose timer";
+
+  ctrl_t CTRL @ 0x0;
+  reg {
+    regwidth = 16;
+    field { sw = r; } COUNT[15:0];
+  } CNT @ 0x8;
+  reg {
+    field {} VAL[7:0];
+  } CH[2] @ 0x10 += 0x8;
+};
+`;
+
+describe('importFromSystemRdl', () => {
+  it('returns null for unparseable input', () => {
+    expect(importFromSystemRdl('addrmap x {')).toBeNull();
+    expect(importFromSystemRdl('not rdl $$')).toBeNull();
+  });
+
+  it('returns null without an addrmap', () => {
+    expect(importFromSystemRdl('reg r { field {} F[0:0]; };')).toBeNull();
+  });
+
+  it('imports registers with byte offsets and project metadata', () => {
+    const result = importFromSystemRdl(TIMER)!;
+    expect(result.registers.map((r) => [r.name, r.offset, r.width])).toEqual([
+      ['CTRL', 0, 32],
+      ['CNT', 8, 16],
+      ['CH_0', 0x10, 32],
+      ['CH_1', 0x18, 32],
+    ]);
+    expect(result.registers[0].description).toBe('Control register');
+    expect(result.project).toEqual({ title: 'Timer', description: 'General purpose timer' });
+    expect(result.addressUnitBits).toBe(8);
+  });
+
+  it('positions fields from ranges, widths and auto-placement', () => {
+    const [ctrl] = importFromSystemRdl(TIMER)!.registers;
+    expect(ctrl.fields.map((f) => [f.name, f.msb, f.lsb, f.type])).toEqual([
+      ['EN', 0, 0, 'flag'],
+      ['MODE', 2, 1, 'enum'],
+      ['PRESCALE', 6, 3, 'integer'],
+      ['RSVD', 15, 12, 'integer'],
+    ]);
+    expect(ctrl.fields[0].description).toBe('Enable');
+  });
+
+  it('reads enum encodings with implicit values', () => {
+    const [ctrl] = importFromSystemRdl(TIMER)!.registers;
+    expect((ctrl.fields[1] as EnumField).enumEntries).toEqual([
+      { value: 0, name: 'IDLE' },
+      { value: 1, name: 'ONESHOT' },
+      { value: 3, name: 'PERIODIC' },
+    ]);
+  });
+
+  it('builds register values from field resets', () => {
+    const result = importFromSystemRdl(TIMER)!;
+    expect(result.values[result.registers[0].id]).toBe(0b101n);
+    expect(result.values[result.registers[1].id]).toBeUndefined();
+    expect(result.registers[0].resetValue).toBe(0b101n);
+    expect(result.registers[1].resetValue).toBeUndefined();
+  });
+
+  it('reports unsupported access and properties as warnings', () => {
+    const result = importFromSystemRdl(`
+      addrmap top {
+        reg {
+          field { sw = rw; wot; } IRQ[0:0];
+          field { sw = rw1; onread = rset; } ONCE[1:1];
+        } STATUS @ 0x0;
+      };
+    `)!;
+    expect(result.registers).toHaveLength(1);
+    expect(result.warnings).toEqual([{
+      registerIndex: 0,
+      registerName: 'STATUS',
+      errors: [
+        { message: '"IRQ": property "wot" is not supported' },
+        { message: '"ONCE": sw access "rw1" is not supported' },
+        { message: '"ONCE": onread "rset" is not supported' },
+      ],
+      imported: true,
+    }]);
+  });
+
+  it('maps sw, onwrite and onread to access types', () => {
+    const result = importFromSystemRdl(`
+      addrmap top {
+        reg {
+          field { sw = r; } BUSY[0:0];
+          field { onwrite = woclr; } IRQ[1:1];
+          field { woset; } GO[2:2];
+          field { sw = r; rclr; } ERR[3:3];
+          field { sw = w; } CMD[7:4];
+          field {} DATA[15:8];
+        } R @ 0x0;
+      };
+    `)!;
+    expect(result.warnings).toEqual([]);
+    expect(result.registers[0].fields.map((f) => f.access)).toEqual(['ro', 'w1c', 'w1s', 'rc', 'wo', undefined]);
+    const [, cnt] = importFromSystemRdl(TIMER)!.registers;
+    expect(cnt.fields[0].access).toBe('ro');
+  });
+
+  it('reports unsupported components', () => {
+    const result = importFromSystemRdl(`
+      addrmap top {
+        mem { mementries = 16; memwidth = 32; } RAM @ 0x100;
+        reg { field {} F[0:0]; } R @ 0x0;
+      };
+    `)!;
+    expect(result.registers).toHaveLength(1);
+    expect(result.warnings[0].registerName).toBe('top');
+    expect(result.warnings[0].errors[0].message).toBe('mem "RAM" is not supported; skipped');
+  });
+
+  it('applies defaults and dynamic assignments', () => {
+    const result = importFromSystemRdl(`
+      addrmap top {
+        default regwidth = 8;
+        reg {
+          field {} A[3:0];
+          A->reset = 4'h5;
+          A->desc = "Low nibble";
+        } R;
+      };
+    `)!;
+    const [reg] = result.registers;
+    expect(reg.width).toBe(8);
+    expect(reg.fields[0].description).toBe('Low nibble');
+    expect(result.values[reg.id]).toBe(5n);
+  });
+
+  it('flattens regfiles with a name prefix and auto-allocates addresses', () => {
+    const result = importFromSystemRdl(`
+      regfile chan_t {
+        reg { field {} EN[0:0]; } CFG;
+        reg { field {} DATA[31:0]; } DATA;
+      };
+      addrmap top {
+        reg { field {} ID[7:0]; } ID;
+        chan_t CH[2] @ 0x100;
+      };
+    `)!;
+    expect(result.registers.map((r) => [r.name, r.offset])).toEqual([
+      ['ID', 0],
+      ['CH_0_CFG', 0x100],
+      ['CH_0_DATA', 0x104],
+      ['CH_1_CFG', 0x108],
+      ['CH_1_DATA', 0x10C],
+    ]);
+  });
+
+  it('skips registers that fail validation', () => {
+    const result = importFromSystemRdl(`
+      addrmap top {
+        reg { regwidth = 256; field {} F[9:0]; } BAD @ 0x0;
+        reg { field {} OK[0:0]; } GOOD @ 0x40;
+      };
+    `)!;
+    expect(result.registers.map((r) => r.name)).toEqual(['GOOD']);
+    expect(result.warnings[0].registerName).toBe('BAD');
+    expect(result.warnings[0].imported).toBeUndefined();
+  });
+});
+
+describe('exportToSystemRdl', () => {
+  it('round-trips variant fields', () => {
+    const mode = makeEnumField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0, enumEntries: [{ value: 0, name: 'PWM' }, { value: 1, name: 'CAPTURE' }] });
+    const timer = makeRegister({
+      name: 'TIM',
+      offset: 0,
+      width: 8,
+      fields: [mode],
+      variantSelectorId: 'mode',
+      variants: [
+        { id: 'pwm', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2 })] },
+        { id: 'cap', name: 'CAPTURE', selectorValues: [1, 2], fields: [makeFlagField({ id: 'edge', name: 'EDGE', msb: 2, lsb: 2 })] },
+      ],
+    });
+    const result = importFromSystemRdl(exportToSystemRdl(makeState({ registers: [timer] })))!;
+    expect(result.warnings).toEqual([]);
+    const reg = result.registers[0];
+    expect(reg.fields.map((f) => f.name)).toEqual(['MODE']);
+    expect(reg.variantSelectorId).toBe(reg.fields[0].id);
+    expect(reg.variants!.map((v) => [v.name, v.selectorValues, v.fields.map((f) => [f.name, f.type, f.msb, f.lsb])])).toEqual([
+      ['PWM', [0], [['DUTY', 'integer', 7, 2]]],
+      ['CAPTURE', [1, 2], [['EDGE', 'flag', 2, 2]]],
+    ]);
+  });
+
+  it('emits an addrmap with registers at byte offsets', () => {
+    const rdl = exportToSystemRdl(makeState({
+      project: { title: 'My Chip', description: 'Test "chip"' },
+      addressUnitBits: 16,
+      registers: [makeRegister({ name: 'CTRL', offset: 2, description: 'Control' })],
+    }));
+    expect(rdl).toContain('addrmap my_chip {');
+    expect(rdl).toContain('name = "My Chip";');
+    expect(rdl).toContain('desc = "Test \\"chip\\"";');
+    expect(rdl).toContain('} CTRL @ 0x4;');
+  });
+
+  it('escapes keywords and places registers without an offset after the others', () => {
+    const rdl = exportToSystemRdl(makeState({
+      registers: [
+        makeRegister({ id: 'a', name: 'reg', offset: 0x10 }),
+        makeRegister({ id: 'b', name: 'NEXT' }),
+      ],
+    }));
+    expect(rdl).toContain('} \\reg @ 0x10;');
+    expect(rdl).toContain('} NEXT @ 0x14;');
+  });
+
+  it('round-trips field types, enums and odd register widths', () => {
+    const state = makeState({
+      project: { title: 'Chip' },
+      registers: [
+        makeRegister({
+          name: 'CTRL',
+          width: 12,
+          offset: 0,
+          description: 'Control',
+          fields: [
+            makeFlagField({ id: 'a', name: 'EN', msb: 0, lsb: 0, flagLabels: { clear: 'OFF', set: 'ON' } }),
+            makeEnumField({ id: 'b', name: 'MODE', msb: 2, lsb: 1, enumEntries: [{ value: 0, name: 'IDLE' }, { value: 2, name: 'RUN' }] }),
+            makeEnumField({ id: 'c', name: 'SEL', msb: 3, lsb: 3, enumEntries: [{ value: 0, name: 'A' }, { value: 1, name: 'B' }] }),
+            makeField({ id: 'd', name: 'TEMP', msb: 11, lsb: 4, signedness: 'twos-complement', description: 'Temperature' }),
+          ],
+        }),
+        makeRegister({
+          id: 'r2',
+          name: 'DATA',
+          width: 64,
+          offset: 8,
+          fields: [
+            makeFloatField({ id: 'e', name: 'GAIN', msb: 31, lsb: 0 }),
+            makeFixedPointField({ id: 'f', name: 'BIAS', msb: 47, lsb: 32, qFormat: { m: 8, n: 8 } }),
+            makeField({ id: 'g', name: 'BIT', msb: 48, lsb: 48 }),
+          ],
+        }),
+      ],
+    });
+    const result = importFromSystemRdl(exportToSystemRdl(state))!;
+    expect(result.warnings).toEqual([]);
+    expect(result.project?.title).toBe('Chip');
+
+    const [ctrl, data] = result.registers;
+    expect(ctrl).toMatchObject({ name: 'CTRL', width: 12, offset: 0, description: 'Control' });
+    expect((ctrl.fields[0] as FlagField).flagLabels).toEqual({ clear: 'OFF', set: 'ON' });
+    expect((ctrl.fields[1] as EnumField).enumEntries).toEqual([{ value: 0, name: 'IDLE' }, { value: 2, name: 'RUN' }]);
+    expect(ctrl.fields[2]).toMatchObject({ type: 'enum', enumEntries: [{ value: 0, name: 'A' }, { value: 1, name: 'B' }] });
+    expect(ctrl.fields[3] as IntegerField).toMatchObject({ signedness: 'twos-complement', description: 'Temperature' });
+
+    expect(data).toMatchObject({ name: 'DATA', width: 64, offset: 8 });
+    expect((data.fields[0] as FloatField).floatType).toBe('single');
+    expect((data.fields[1] as FixedPointField).qFormat).toEqual({ m: 8, n: 8 });
+    expect(data.fields[2].type).toBe('integer');
+  });
+
+  it('writes each field\'s effective access and round-trips it', () => {
+    const state = makeState({
+      registers: [makeRegister({
+        name: 'STATUS',
+        offset: 0,
+        access: 'ro',
+        fields: [
+          makeFlagField({ id: 'a', name: 'IRQ', msb: 0, lsb: 0, access: 'w1c' }),
+          makeFlagField({ id: 'b', name: 'BUSY', msb: 1, lsb: 1 }),
+          makeFlagField({ id: 'c', name: 'ERR', msb: 2, lsb: 2, access: 'rc' }),
+        ],
+      })],
+    });
+    const rdl = exportToSystemRdl(state);
+    expect(rdl).toContain('onwrite = woclr;');
+    expect(rdl).toContain('onread = rclr;');
+    const result = importFromSystemRdl(rdl)!;
+    expect(result.warnings).toEqual([]);
+    expect(result.registers[0].fields.map((f) => f.access)).toEqual(['w1c', 'ro', 'rc']);
+  });
+
+  it('writes field resets from the composed reset value', () => {
+    const state = makeState({
+      registers: [makeRegister({
+        name: 'CTRL',
+        offset: 0,
+        width: 8,
+        resetValue: 0x80n,
+        fields: [makeField({ id: 'a', name: 'MODE', msb: 7, lsb: 4 }), makeField({ id: 'b', name: 'DIV', msb: 3, lsb: 0, resetValue: 0x2n })],
+      })],
+    });
+    const rdl = exportToSystemRdl(state);
+    expect(rdl).toContain("} MODE[7:4] = 4'h8;");
+    expect(rdl).toContain("} DIV[3:0] = 4'h2;");
+    expect(importFromSystemRdl(rdl)!.registers[0].resetValue).toBe(0x82n);
+  });
+});
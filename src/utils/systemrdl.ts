@@ -0,0 +1,1017 @@
+import type { AccessType, AppState, BaseField, EnumEntry, Field, ProjectMetadata, RegisterDef } from '../types/register';
+import { resolveAccess } from './access';
+import { extractBits } from './bitwise';
+import { hasReset, resetValueOf } from './reset';
+import { sanitizeField } from './sanitize';
+import type { ImportResult, ImportWarning } from './storage';
+import { validateRegisterDef } from './validation';
+import { formatBitNames, parseBitNames } from './field-type-attrs';
+import { withExpandedSplitFields } from './field-slices';
+import { expandRegisters } from './register-array';
+import { flattenGroups } from './register-groups';
+import { flattenVariants, parseVariantOrigin, restoreVariants, variantOriginAttrs, type VariantOrigin } from './variants';
+
+/**
+ * User-defined field property recording types SystemRDL cannot express
+ * (float, fixed-point, signedness), e.g. `rv_type = "fixed-point:4.4";`.
+ */
+const TYPE_PROPERTY = 'rv_type';
+
+/**
+ * User-defined field property recording the variant of a variant field as
+ * URL-encoded attributes, e.g. `rv_variant = "variant=PWM&selectorValues=0&selector=MODE&variantField=DUTY";`.
+ */
+const VARIANT_PROPERTY = 'rv_variant';
+
+/** User-defined register property holding a width that is not a valid `regwidth`. */
+const WIDTH_PROPERTY = 'rv_width';
+
+// --- Lexer ---
+
+interface Token {
+  kind: 'id' | 'number' | 'string' | 'punct' | 'eof';
+  text: string;
+  value?: bigint;
+  /** Escaped identifiers (`\reg`) are never keywords. */
+  escaped?: boolean;
+  line: number;
+}
+
+class RdlSyntaxError extends Error {}
+
+const PUNCTUATION = ['->', '+=', '%=', '::', '{', '}', '[', ']', '(', ')', ';', '=', ':', '@', ',', '.', '#'];
+
+const VERILOG_BASE: Record<string, number> = { b: 2, o: 8, d: 10, h: 16 };
+
+function parseVerilogNumber(text: string): bigint {
+  const match = /^\d+'([bodh])([0-9a-f_]+)$/i.exec(text);
+  if (!match) throw new RdlSyntaxError(`Malformed number ${text}`);
+  const base = VERILOG_BASE[match[1].toLowerCase()];
+  let value = 0n;
+  for (const digit of match[2].replace(/_/g, '')) {
+    const d = parseInt(digit, 16);
+    if (d >= base) throw new RdlSyntaxError(`Malformed number ${text}`);
+    value = value * BigInt(base) + BigInt(d);
+  }
+  return value;
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const ws = /^\s+/.exec(rest) ?? /^\/\/[^\n]*/.exec(rest) ?? /^\/\*[\s\S]*?\*\//.exec(rest);
+    if (ws) {
+      line += ws[0].split('\n').length - 1;
+      i += ws[0].length;
+      continue;
+    }
+
+    const str = /^"((?:[^"\\]|\\.)*)"/.exec(rest);
+    if (str) {
+      tokens.push({ kind: 'string', text: str[1].replace(/\\(.)/g, '$1'), line });
+      line += str[0].split('\n').length - 1;
+      i += str[0].length;
+      continue;
+    }
+
+    const num = /^\d+'[bodhBODH][0-9a-fA-F_]+/.exec(rest) ?? /^0[xX][0-9a-fA-F_]+/.exec(rest) ?? /^\d[\d_]*/.exec(rest);
+    if (num) {
+      const text = num[0];
+      const value = text.includes("'") ? parseVerilogNumber(text) : BigInt(text.replace(/_/g, ''));
+      tokens.push({ kind: 'number', text, value, line });
+      i += text.length;
+      continue;
+    }
+
+    const id = /^(\\?)([A-Za-z_][A-Za-z0-9_]*)/.exec(rest);
+    if (id) {
+      tokens.push({ kind: 'id', text: id[2], escaped: id[1] === '\\', line });
+      i += id[0].length;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((p) => rest.startsWith(p));
+    if (!punct) throw new RdlSyntaxError(`Unexpected character "${rest[0]}" on line ${line}`);
+    tokens.push({ kind: 'punct', text: punct, line });
+    i += punct.length;
+  }
+  tokens.push({ kind: 'eof', text: '', line });
+  return tokens;
+}
+
+// --- Parser ---
+
+type PropValue = bigint | string | boolean | { ref: string };
+
+interface InstanceDecl {
+  name: string;
+  /** `[msb:lsb]` ranges on fields, `[count]` on everything else. */
+  brackets: ({ msb: number; lsb: number } | { count: number })[];
+  reset?: bigint;
+  at?: bigint;
+  stride?: bigint;
+}
+
+type ComponentKind = 'addrmap' | 'regfile' | 'reg' | 'field' | 'mem' | 'signal';
+
+interface ComponentDef {
+  kind: ComponentKind;
+  name?: string;
+  items: BodyItem[];
+}
+
+interface EnumDef {
+  name: string;
+  entries: { name: string; value?: bigint }[];
+}
+
+type BodyItem =
+  | { type: 'component'; def: ComponentDef; instances: InstanceDecl[] }
+  | { type: 'instantiate'; typeName: string; instances: InstanceDecl[] }
+  | { type: 'enum'; def: EnumDef }
+  | { type: 'property'; name: string; value: PropValue; isDefault: boolean }
+  | { type: 'dynamic'; path: string[]; name: string; value: PropValue }
+  | { type: 'unsupported'; what: string };
+
+const COMPONENT_KINDS = new Set<string>(['addrmap', 'regfile', 'reg', 'field', 'mem', 'signal']);
+
+interface Cursor {
+  tokens: Token[];
+  pos: number;
+}
+
+function peek(c: Cursor, offset = 0): Token {
+  return c.tokens[Math.min(c.pos + offset, c.tokens.length - 1)];
+}
+
+function next(c: Cursor): Token {
+  const token = peek(c);
+  if (token.kind !== 'eof') c.pos++;
+  return token;
+}
+
+function isPunct(token: Token, text: string): boolean {
+  return token.kind === 'punct' && token.text === text;
+}
+
+function isKeyword(token: Token, text: string): boolean {
+  return token.kind === 'id' && !token.escaped && token.text === text;
+}
+
+function expectPunct(c: Cursor, text: string): void {
+  const token = next(c);
+  if (!isPunct(token, text)) {
+    throw new RdlSyntaxError(`Expected "${text}" on line ${token.line}, found "${token.text}"`);
+  }
+}
+
+function expectIdentifier(c: Cursor): string {
+  const token = next(c);
+  if (token.kind !== 'id') throw new RdlSyntaxError(`Expected identifier on line ${token.line}, found "${token.text}"`);
+  return token.text;
+}
+
+function expectNumber(c: Cursor): bigint {
+  const token = next(c);
+  if (token.kind !== 'number') throw new RdlSyntaxError(`Expected number on line ${token.line}, found "${token.text}"`);
+  return token.value!;
+}
+
+/** Skip tokens up to and including the `;` that ends the current statement, honouring nested braces. */
+function skipStatement(c: Cursor): void {
+  let depth = 0;
+  for (;;) {
+    const token = next(c);
+    if (token.kind === 'eof') throw new RdlSyntaxError('Unexpected end of file');
+    if (isPunct(token, '{')) depth++;
+    else if (isPunct(token, '}')) depth--;
+    else if (isPunct(token, ';') && depth === 0) return;
+  }
+}
+
+function parseValue(c: Cursor): PropValue {
+  const token = next(c);
+  if (token.kind === 'string') return token.text;
+  if (token.kind === 'number') return token.value!;
+  if (token.kind === 'id') {
+    if (isKeyword(token, 'true')) return true;
+    if (isKeyword(token, 'false')) return false;
+    let ref = token.text;
+    while (isPunct(peek(c), '::')) {
+      next(c);
+      ref += `::${expectIdentifier(c)}`;
+    }
+    return { ref };
+  }
+  throw new RdlSyntaxError(`Unsupported property value "${token.text}" on line ${token.line}`);
+}
+
+function parseInstances(c: Cursor): InstanceDecl[] {
+  const instances: InstanceDecl[] = [];
+  if (isPunct(peek(c), ';')) {
+    next(c);
+    return instances;
+  }
+  for (;;) {
+    const instance: InstanceDecl = { name: expectIdentifier(c), brackets: [] };
+    while (isPunct(peek(c), '[')) {
+      next(c);
+      const first = Number(expectNumber(c));
+      if (isPunct(peek(c), ':')) {
+        next(c);
+        const second = Number(expectNumber(c));
+        instance.brackets.push({ msb: Math.max(first, second), lsb: Math.min(first, second) });
+      } else {
+        instance.brackets.push({ count: first });
+      }
+      expectPunct(c, ']');
+    }
+    for (;;) {
+      const token = peek(c);
+      if (isPunct(token, '=')) { next(c); instance.reset = expectNumber(c); }
+      else if (isPunct(token, '@')) { next(c); instance.at = expectNumber(c); }
+      else if (isPunct(token, '+=')) { next(c); instance.stride = expectNumber(c); }
+      else if (isPunct(token, '%=')) { next(c); expectNumber(c); }
+      else break;
+    }
+    instances.push(instance);
+    if (isPunct(peek(c), ',')) {
+      next(c);
+      continue;
+    }
+    expectPunct(c, ';');
+    return instances;
+  }
+}
+
+function parseEnum(c: Cursor): EnumDef {
+  const def: EnumDef = { name: expectIdentifier(c), entries: [] };
+  expectPunct(c, '{');
+  while (!isPunct(peek(c), '}')) {
+    const entry: { name: string; value?: bigint } = { name: expectIdentifier(c) };
+    if (isPunct(peek(c), '=')) {
+      next(c);
+      entry.value = expectNumber(c);
+    }
+    if (isPunct(peek(c), '{')) {
+      // Entry properties (name, desc) have no counterpart in the model
+      next(c);
+      while (!isPunct(peek(c), '}')) skipStatement(c);
+      next(c);
+    }
+    expectPunct(c, ';');
+    def.entries.push(entry);
+  }
+  next(c);
+  expectPunct(c, ';');
+  return def;
+}
+
+function parseBody(c: Cursor, closing: 'eof' | '}'): BodyItem[] {
+  const items: BodyItem[] = [];
+  for (;;) {
+    const token = peek(c);
+    if (closing === 'eof' ? token.kind === 'eof' : isPunct(token, '}')) {
+      next(c);
+      return items;
+    }
+    if (token.kind === 'eof') throw new RdlSyntaxError('Unexpected end of file');
+    items.push(parseItem(c));
+  }
+}
+
+function parseItem(c: Cursor): BodyItem {
+  const token = peek(c);
+  if (isPunct(token, ';')) {
+    next(c);
+    return { type: 'unsupported', what: '' };
+  }
+  if (token.kind !== 'id') throw new RdlSyntaxError(`Unexpected "${token.text}" on line ${token.line}`);
+
+  if (!token.escaped) {
+    if (token.text === 'enum') {
+      next(c);
+      return { type: 'enum', def: parseEnum(c) };
+    }
+    if (token.text === 'property') {
+      // User-defined property declarations; values are read by name
+      skipStatement(c);
+      return { type: 'unsupported', what: '' };
+    }
+    if (token.text === 'constraint' || token.text === 'struct' || token.text === 'alias') {
+      skipStatement(c);
+      return { type: 'unsupported', what: `${token.text} definitions are not supported` };
+    }
+    if (token.text === 'default') {
+      next(c);
+      const name = expectIdentifier(c);
+      let value: PropValue = true;
+      if (isPunct(peek(c), '=')) {
+        next(c);
+        value = parseValue(c);
+      }
+      expectPunct(c, ';');
+      return { type: 'property', name, value, isDefault: true };
+    }
+    if (token.text === 'external' || token.text === 'internal' || token.text === 'abstract') {
+      next(c);
+      return parseItem(c);
+    }
+    if (COMPONENT_KINDS.has(token.text)) {
+      next(c);
+      const def: ComponentDef = { kind: token.text as ComponentKind, items: [] };
+      if (peek(c).kind === 'id') def.name = expectIdentifier(c);
+      if (isPunct(peek(c), '#')) {
+        throw new RdlSyntaxError(`Parameterized components are not supported (line ${peek(c).line})`);
+      }
+      expectPunct(c, '{');
+      def.items = parseBody(c, '}');
+      return { type: 'component', def, instances: parseInstances(c) };
+    }
+  }
+
+  const after = peek(c, 1);
+  if (after.kind === 'id') {
+    const typeName = expectIdentifier(c);
+    return { type: 'instantiate', typeName, instances: parseInstances(c) };
+  }
+  if (isPunct(after, '->') || isPunct(after, '.')) {
+    const path = [expectIdentifier(c)];
+    while (isPunct(peek(c), '.')) {
+      next(c);
+      path.push(expectIdentifier(c));
+    }
+    expectPunct(c, '->');
+    const name = expectIdentifier(c);
+    let value: PropValue = true;
+    if (isPunct(peek(c), '=')) {
+      next(c);
+      value = parseValue(c);
+    }
+    expectPunct(c, ';');
+    return { type: 'dynamic', path, name, value };
+  }
+
+  const name = expectIdentifier(c);
+  let value: PropValue = true;
+  if (isPunct(peek(c), '=')) {
+    next(c);
+    value = parseValue(c);
+  }
+  expectPunct(c, ';');
+  return { type: 'property', name, value, isDefault: false };
+}
+
+// --- Elaboration ---
+
+/** Named component and enum definitions visible at a point in the source. */
+interface Scope {
+  components: Map<string, ComponentDef>;
+  enums: Map<string, EnumDef>;
+  parent?: Scope;
+}
+
+function childScope(items: BodyItem[], parent?: Scope): Scope {
+  const scope: Scope = { components: new Map(), enums: new Map(), parent };
+  for (const item of items) {
+    if (item.type === 'component' && item.def.name) scope.components.set(item.def.name, item.def);
+    if (item.type === 'enum') scope.enums.set(item.def.name, item.def);
+  }
+  return scope;
+}
+
+function lookupComponent(scope: Scope | undefined, name: string): ComponentDef | undefined {
+  for (let s = scope; s; s = s.parent) {
+    const def = s.components.get(name);
+    if (def) return def;
+  }
+  return undefined;
+}
+
+function lookupEnum(scope: Scope | undefined, name: string): EnumDef | undefined {
+  for (let s = scope; s; s = s.parent) {
+    const def = s.enums.get(name);
+    if (def) return def;
+  }
+  return undefined;
+}
+
+/** Properties of one component instance, falling back to `default` assignments from enclosing scopes. */
+interface Props {
+  explicit: Map<string, PropValue>;
+  defaults: Map<string, PropValue>;
+}
+
+function getProp(props: Props, name: string): PropValue | undefined {
+  return props.explicit.get(name) ?? props.defaults.get(name);
+}
+
+function stringProp(props: Props, name: string): string | undefined {
+  const value = getProp(props, name);
+  return typeof value === 'string' && value.trim() ? value.replace(/\s+/g, ' ').trim() : undefined;
+}
+
+function numberProp(props: Props, name: string): bigint | undefined {
+  const value = getProp(props, name);
+  return typeof value === 'bigint' ? value : undefined;
+}
+
+function refProp(props: Props, name: string): string | undefined {
+  const value = getProp(props, name);
+  return typeof value === 'object' ? value.ref : undefined;
+}
+
+/** Properties a component sets on itself, plus assignments made to this instance from its parent. */
+function resolveProps(def: ComponentDef, defaults: Map<string, PropValue>, dynamic: Map<string, PropValue> | undefined): Props {
+  const explicit = new Map<string, PropValue>();
+  for (const item of def.items) {
+    if (item.type === 'property' && !item.isDefault) explicit.set(item.name, item.value);
+  }
+  for (const [name, value] of dynamic ?? []) explicit.set(name, value);
+  return { explicit, defaults };
+}
+
+/** `default` assignments in a component body apply to everything nested inside it. */
+function nestedDefaults(def: ComponentDef, defaults: Map<string, PropValue>): Map<string, PropValue> {
+  const result = new Map(defaults);
+  for (const item of def.items) {
+    if (item.type === 'property' && item.isDefault) result.set(item.name, item.value);
+  }
+  return result;
+}
+
+/** Dynamic assignments (`inst->prop = value`) in a body, keyed by instance name. */
+function dynamicAssignments(items: BodyItem[], notes: string[]): Map<string, Map<string, PropValue>> {
+  const result = new Map<string, Map<string, PropValue>>();
+  for (const item of items) {
+    if (item.type !== 'dynamic') continue;
+    if (item.path.length > 1) {
+      notes.push(`Assignment to ${item.path.join('.')}->${item.name} is not supported`);
+      continue;
+    }
+    const target = result.get(item.path[0]) ?? new Map<string, PropValue>();
+    target.set(item.name, item.value);
+    result.set(item.path[0], target);
+  }
+  return result;
+}
+
+const DESCRIPTION_PROPS = ['name', 'desc'];
+const FIELD_PROPS = new Set([
+  ...DESCRIPTION_PROPS, 'sw', 'hw', 'onwrite', 'woclr', 'woset', 'onread', 'rclr', 'reset', 'encode', 'fieldwidth', TYPE_PROPERTY, VARIANT_PROPERTY,
+]);
+const REG_PROPS = new Set([...DESCRIPTION_PROPS, 'regwidth', 'accesswidth', WIDTH_PROPERTY]);
+const BLOCK_PROPS = new Set([...DESCRIPTION_PROPS]);
+
+function unsupportedProps(props: Props, known: Set<string>, label: string, notes: string[]): void {
+  for (const name of props.explicit.keys()) {
+    if (!known.has(name)) notes.push(`${label}property "${name}" is not supported`);
+  }
+}
+
+function description(props: Props): string | undefined {
+  return stringProp(props, 'desc') ?? stringProp(props, 'name');
+}
+
+function resolveComponent(
+  item: Extract<BodyItem, { type: 'component' | 'instantiate' }>,
+  scope: Scope,
+): ComponentDef | undefined {
+  return item.type === 'component' ? item.def : lookupComponent(scope, item.typeName);
+}
+
+function applyTypeOverride(field: Field, spec: string): Field {
+  const [type, detail = ''] = spec.split(':');
+  const raw: Record<string, unknown> = { ...field, type };
+  if (type === 'integer' && detail) raw.signedness = detail;
+  if (type === 'float') raw.floatType = detail;
+  if (type === 'bitset') raw.bitNames = parseBitNames(detail);
+  if (type === 'fixed-point') {
+    const [m, n] = detail.split('.').map(Number);
+    raw.qFormat = { m, n };
+  }
+  // A 1-bit enum is exported with `encode`, which imports as flag labels
+  if (type === 'enum' && field.type === 'flag' && field.flagLabels) {
+    raw.enumEntries = [{ value: 0, name: field.flagLabels.clear }, { value: 1, name: field.flagLabels.set }];
+  }
+  return sanitizeField(raw);
+}
+
+function enumEntries(def: EnumDef): EnumEntry[] {
+  const entries: EnumEntry[] = [];
+  let nextValue = 0n;
+  for (const entry of def.entries) {
+    const value = entry.value ?? nextValue;
+    entries.push({ value: Number(value), name: entry.name });
+    nextValue = value + 1n;
+  }
+  return entries.sort((a, b) => a.value - b.value);
+}
+
+/** The `onwrite`/`onread` value, also accepting the older boolean shorthands (`woclr;`, `rclr;`). */
+function sideEffect(props: Props, name: 'onwrite' | 'onread', shorthands: string[]): string | undefined {
+  return refProp(props, name) ?? shorthands.find((s) => getProp(props, s) === true);
+}
+
+/** Map `sw`, `onwrite` and `onread` to an access type; read/write maps to undefined. */
+function fieldAccess(props: Props, label: string, lossy: string[]): AccessType | undefined {
+  const sw = refProp(props, 'sw') ?? 'rw';
+  let access: AccessType = 'rw';
+  if (sw === 'r') access = 'ro';
+  else if (sw === 'w') access = 'wo';
+  else if (sw !== 'rw' && sw !== 'wr') lossy.push(`${label}sw access "${sw}" is not supported`);
+
+  const onwrite = sideEffect(props, 'onwrite', ['woclr', 'woset']);
+  if (onwrite === 'woclr' && access === 'rw') access = 'w1c';
+  else if (onwrite === 'woset' && access === 'rw') access = 'w1s';
+  else if (onwrite) lossy.push(`${label}onwrite "${onwrite}" is not supported`);
+
+  const onread = sideEffect(props, 'onread', ['rclr']);
+  if (onread === 'rclr' && (access === 'ro' || access === 'rw')) {
+    if (access === 'rw') lossy.push(`${label}writable clear-on-read field imported as read-only`);
+    access = 'rc';
+  } else if (onread) {
+    lossy.push(`${label}onread "${onread}" is not supported`);
+  }
+  return access === 'rw' ? undefined : access;
+}
+
+/** An imported register with the notes collected while converting it. */
+interface PendingRegister {
+  reg: RegisterDef;
+  resetValue?: bigint;
+  lossy: string[];
+}
+
+interface ElaboratedFields {
+  fields: Field[];
+  resetValue?: bigint;
+  /** Variants of fields exported from one, by field name. */
+  variantOrigins: Map<string, VariantOrigin>;
+}
+
+function elaborateFields(regDef: ComponentDef, scope: Scope, defaults: Map<string, PropValue>, lossy: string[]): ElaboratedFields {
+  const fields: Field[] = [];
+  const variantOrigins = new Map<string, VariantOrigin>();
+  let resetValue: bigint | undefined;
+  let nextLsb = 0;
+  const dynamic = dynamicAssignments(regDef.items, lossy);
+
+  for (const item of regDef.items) {
+    if (item.type === 'unsupported' && item.what) lossy.push(item.what);
+    if (item.type !== 'component' && item.type !== 'instantiate') continue;
+    const def = resolveComponent(item, scope);
+    if (!def) {
+      lossy.push(`Unknown component type "${item.type === 'instantiate' ? item.typeName : ''}"; instance skipped`);
+      continue;
+    }
+    if (def.kind !== 'field') {
+      lossy.push(`${def.kind} inside a register is not supported; skipped`);
+      continue;
+    }
+    const fieldScope = childScope(def.items, scope);
+
+    for (const instance of item.instances) {
+      const props = resolveProps(def, defaults, dynamic.get(instance.name));
+      const label = `"${instance.name}": `;
+      unsupportedProps(props, FIELD_PROPS, label, lossy);
+
+      const range = instance.brackets[0];
+      let msb: number;
+      let lsb: number;
+      if (range && 'msb' in range) {
+        ({ msb, lsb } = range);
+      } else {
+        const width = range ? range.count : Number(numberProp(props, 'fieldwidth') ?? 1n);
+        lsb = instance.at !== undefined ? Number(instance.at) : nextLsb;
+        msb = lsb + width - 1;
+      }
+      nextLsb = msb + 1;
+
+      const base: BaseField = { id: crypto.randomUUID(), name: instance.name, msb, lsb };
+      const access = fieldAccess(props, label, lossy);
+      if (access) base.access = access;
+      const desc = description(props);
+      const withDesc = desc ? { ...base, description: desc } : base;
+
+      let entries: EnumEntry[] = [];
+      const encode = refProp(props, 'encode');
+      if (encode) {
+        const enumDef = lookupEnum(fieldScope, encode);
+        if (enumDef) entries = enumEntries(enumDef);
+        else lossy.push(`${label}enum "${encode}" not found`);
+      }
+
+      let field: Field;
+      if (msb === lsb) {
+        const clear = entries.find((e) => e.value === 0)?.name;
+        const set = entries.find((e) => e.value === 1)?.name;
+        field = clear || set
+          ? { ...withDesc, type: 'flag', flagLabels: { clear: clear ?? 'clear', set: set ?? 'set' } }
+          : { ...withDesc, type: 'flag' };
+      } else if (entries.length > 0) {
+        field = { ...withDesc, type: 'enum', enumEntries: entries };
+      } else {
+        field = { ...withDesc, type: 'integer' };
+      }
+      const typeSpec = stringProp(props, TYPE_PROPERTY);
+      if (typeSpec) field = applyTypeOverride(field, typeSpec);
+      fields.push(field);
+      const variantSpec = stringProp(props, VARIANT_PROPERTY);
+      const origin = variantSpec !== undefined ? parseVariantOrigin(Object.fromEntries(new URLSearchParams(variantSpec))) : undefined;
+      if (origin) variantOrigins.set(field.name, origin);
+
+      const reset = instance.reset ?? getProp(props, 'reset');
+      if (typeof reset === 'bigint') {
+        const mask = (1n << BigInt(msb - lsb + 1)) - 1n;
+        resetValue = (resetValue ?? 0n) | ((reset & mask) << BigInt(lsb));
+      } else if (reset !== undefined) {
+        lossy.push(`${label}non-constant reset is not supported`);
+      }
+    }
+  }
+  return { fields, resetValue, variantOrigins };
+}
+
+function arrayIndices(brackets: InstanceDecl['brackets']): string[] {
+  let suffixes = [''];
+  for (const b of brackets) {
+    if (!('count' in b)) continue;
+    suffixes = suffixes.flatMap((s) => Array.from({ length: b.count }, (_, i) => `${s}_${i}`));
+  }
+  return suffixes;
+}
+
+function alignUp(value: number, alignment: number): number {
+  return Math.ceil(value / alignment) * alignment;
+}
+
+interface ElabContext {
+  pending: PendingRegister[];
+  /** Notes about constructs outside any register. */
+  notes: string[];
+}
+
+/**
+ * Flatten the registers of an addrmap or regfile body into `ctx.pending`.
+ * Offsets are absolute byte addresses. Returns the end address of the block.
+ */
+function elaborateBlock(
+  def: ComponentDef,
+  parentScope: Scope | undefined,
+  defaults: Map<string, PropValue>,
+  baseAddress: number,
+  namePrefix: string,
+  ctx: ElabContext,
+): number {
+  const scope = childScope(def.items, parentScope);
+  const innerDefaults = nestedDefaults(def, defaults);
+  const dynamic = dynamicAssignments(def.items, ctx.notes);
+  let nextAddress = baseAddress;
+  let end = baseAddress;
+
+  for (const item of def.items) {
+    if (item.type === 'unsupported' && item.what) ctx.notes.push(item.what);
+    if (item.type !== 'component' && item.type !== 'instantiate') continue;
+    if (item.instances.length === 0) continue;
+    const child = resolveComponent(item, scope);
+    if (!child) {
+      ctx.notes.push(`Unknown component type "${item.type === 'instantiate' ? item.typeName : ''}"; instance skipped`);
+      continue;
+    }
+
+    for (const instance of item.instances) {
+      if (child.kind === 'reg') {
+        const props = resolveProps(child, innerDefaults, dynamic.get(instance.name));
+        const regWidth = Number(numberProp(props, 'regwidth') ?? 32n);
+        const width = Number(numberProp(props, WIDTH_PROPERTY) ?? BigInt(regWidth));
+        const size = Math.max(1, Math.ceil(regWidth / 8));
+        const stride = instance.stride !== undefined ? Number(instance.stride) : size;
+        let address = instance.at !== undefined ? baseAddress + Number(instance.at) : alignUp(nextAddress, size);
+
+        const lossy: string[] = [];
+        unsupportedProps(props, REG_PROPS, '', lossy);
+        const desc = description(props);
+        const regScope = childScope(child.items, scope);
+        const { fields, resetValue, variantOrigins } = elaborateFields(child, regScope, nestedDefaults(child, innerDefaults), lossy);
+
+        for (const suffix of arrayIndices(instance.brackets)) {
+          const flat: RegisterDef = {
+            id: crypto.randomUUID(),
+            name: `${namePrefix}${instance.name}${suffix}`,
+            width,
+            offset: address,
+            // Each array element needs its own field ids
+            fields: fields.map((f) => ({ ...f, id: crypto.randomUUID() })),
+          };
+          const reg = restoreVariants(flat, (f) => variantOrigins.get(f.name));
+          if (desc) reg.description = desc;
+          ctx.pending.push({ reg, resetValue, lossy: [...lossy] });
+          end = Math.max(end, address + size);
+          address += stride;
+        }
+        nextAddress = address - stride + size;
+      } else if (child.kind === 'regfile' || child.kind === 'addrmap') {
+        const props = resolveProps(child, innerDefaults, dynamic.get(instance.name));
+        unsupportedProps(props, BLOCK_PROPS, `${child.kind} "${instance.name}": `, ctx.notes);
+        let address = instance.at !== undefined ? baseAddress + Number(instance.at) : nextAddress;
+        let stride = instance.stride !== undefined ? Number(instance.stride) : undefined;
+        for (const suffix of arrayIndices(instance.brackets)) {
+          const blockEnd = elaborateBlock(child, scope, innerDefaults, address, `${namePrefix}${instance.name}${suffix}_`, ctx);
+          // Unstrided arrays are packed back to back
+          stride ??= Math.max(1, blockEnd - address);
+          end = Math.max(end, blockEnd);
+          nextAddress = blockEnd;
+          address += stride;
+        }
+      } else {
+        ctx.notes.push(`${child.kind} "${instance.name}" is not supported; skipped`);
+      }
+    }
+  }
+  return end;
+}
+
+/** Names of component types instantiated by name anywhere below `items`. */
+function collectTypeReferences(items: BodyItem[], out: Set<string>): void {
+  for (const item of items) {
+    if (item.type === 'instantiate') out.add(item.typeName);
+    if (item.type === 'component') collectTypeReferences(item.def.items, out);
+  }
+}
+
+/**
+ * Import a SystemRDL description. Supports a practical subset of the language:
+ * `addrmap`, `regfile`, `reg`, `field` and `enum` definitions (named or
+ * anonymous), instance arrays, `@`/`+=` addressing, `sw`/`hw`, `reset`,
+ * `encode`, `default` and simple dynamic (`inst->prop`) assignments. The top
+ * addrmap is the last one not instantiated by another; nested regfiles and
+ * addrmaps are flattened with their instance name as a register name prefix.
+ * Offsets are byte addresses. Constructs that cannot be represented are
+ * reported as warnings.
+ *
+ * Returns null if the source cannot be parsed or has no addrmap.
+ */
+export function importFromSystemRdl(source: string): ImportResult | null {
+  let items: BodyItem[];
+  try {
+    items = parseBody({ tokens: tokenize(source), pos: 0 }, 'eof');
+  } catch (e) {
+    if (e instanceof RdlSyntaxError) return null;
+    throw e;
+  }
+
+  const referenced = new Set<string>();
+  collectTypeReferences(items, referenced);
+  const roots = items.filter(
+    (item): item is Extract<BodyItem, { type: 'component' }> =>
+      item.type === 'component' && item.def.kind === 'addrmap' && !!item.def.name && !referenced.has(item.def.name),
+  );
+  const root = roots[roots.length - 1]?.def;
+  if (!root) return null;
+
+  const ctx: ElabContext = { pending: [], notes: [] };
+  const rootScope = childScope(items);
+  const rootProps = resolveProps(root, new Map(), undefined);
+  unsupportedProps(rootProps, BLOCK_PROPS, '', ctx.notes);
+  elaborateBlock(root, rootScope, new Map(), 0, '', ctx);
+
+  const registers: RegisterDef[] = [];
+  const values: Record<string, bigint> = {};
+  const warnings: ImportWarning[] = [];
+  if (ctx.notes.length > 0) {
+    warnings.push({
+      registerIndex: -1,
+      registerName: root.name!,
+      errors: ctx.notes.map((message) => ({ message })),
+      imported: true,
+    });
+  }
+  ctx.pending.forEach(({ reg, resetValue, lossy }, i) => {
+    const errors = validateRegisterDef(reg);
+    if (errors.length > 0) {
+      warnings.push({ registerIndex: i, registerName: reg.name || `(index ${i})`, errors });
+      return;
+    }
+    if (resetValue !== undefined) {
+      const reset = resetValue & ((1n << BigInt(reg.width)) - 1n);
+      registers.push({ ...reg, resetValue: reset });
+      values[reg.id] = reset;
+    } else {
+      registers.push(reg);
+    }
+    if (lossy.length > 0) {
+      warnings.push({
+        registerIndex: i,
+        registerName: reg.name,
+        errors: lossy.map((message) => ({ message })),
+        imported: true,
+      });
+    }
+  });
+
+  const project: ProjectMetadata = { title: stringProp(rootProps, 'name') ?? root.name };
+  const rootDescription = stringProp(rootProps, 'desc');
+  if (rootDescription) project.description = rootDescription;
+
+  return { registers, values, warnings, project, addressUnitBits: 8 };
+}
+
+// --- Export ---
+
+const RDL_KEYWORDS = new Set([
+  'abstract', 'accesstype', 'addressingtype', 'addrmap', 'alias', 'all', 'bit', 'boolean', 'bothedge',
+  'compact', 'component', 'componentwidth', 'constraint', 'default', 'encode', 'enum', 'external',
+  'false', 'field', 'fullalign', 'hw', 'inside', 'internal', 'level', 'longint', 'mem', 'na', 'negedge',
+  'nonsticky', 'number', 'onreadtype', 'onwritetype', 'posedge', 'property', 'r', 'rclr', 'ref', 'reg',
+  'regalign', 'regfile', 'rset', 'ruser', 'rw', 'rw1', 'sharedextbus', 'signal', 'string', 'struct',
+  'sw', 'this', 'true', 'type', 'unsigned', 'w', 'w1', 'wclr', 'woclr', 'woset', 'wot', 'wr', 'wset',
+  'wuser', 'wzc', 'wzs', 'wzt',
+]);
+
+/** Reduce a name to a SystemRDL identifier, escaping keywords with a backslash. */
+function toRdlIdentifier(name: string, fallback: string): string {
+  let id = name.trim().replace(/[^A-Za-z0-9_]/g, '_');
+  if (!id) id = fallback;
+  if (/^[0-9]/.test(id)) id = `_${id}`;
+  return RDL_KEYWORDS.has(id) ? `\\${id}` : id;
+}
+
+function quote(s: string): string {
+  return `"${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+function hex(value: number | bigint): string {
+  return '0x' + value.toString(16).toUpperCase();
+}
+
+/** Smallest valid `regwidth` (a power of two, at least 8) holding `width` bits. */
+function regWidthFor(width: number): number {
+  let result = 8;
+  while (result < width) result *= 2;
+  return result;
+}
+
+/** The `rv_type` value for field types SystemRDL cannot express, or null if plain SystemRDL round-trips it. */
+function typeSpec(field: Field): string | null {
+  const bitWidth = field.msb - field.lsb + 1;
+  switch (field.type) {
+    case 'flag':
+      return null;
+    case 'enum':
+      return bitWidth === 1 ? 'enum' : null;
+    case 'integer':
+      if (field.signedness) return `integer:${field.signedness}`;
+      return bitWidth === 1 ? 'integer' : null;
+    case 'float':
+      return `float:${field.floatType}`;
+    case 'fixed-point':
+      return `fixed-point:${field.qFormat.m}.${field.qFormat.n}`;
+    case 'bcd':
+    case 'gray':
+    case 'ascii':
+    case 'one-hot':
+      return field.type;
+    case 'bitset':
+      return `bitset:${formatBitNames(field.bitNames)}`;
+  }
+}
+
+function namedValues(field: Field): EnumEntry[] {
+  if (field.type === 'enum') return field.enumEntries;
+  if (field.type === 'flag' && field.flagLabels) {
+    return [{ value: 0, name: field.flagLabels.clear }, { value: 1, name: field.flagLabels.set }];
+  }
+  return [];
+}
+
+/** Field properties expressing an access type; read/write is the SystemRDL default. */
+const ACCESS_PROPS: Record<AccessType, string[]> = {
+  rw: [],
+  ro: ['sw = r;'],
+  wo: ['sw = w;'],
+  w1c: ['onwrite = woclr;'],
+  w1s: ['onwrite = woset;'],
+  rc: ['sw = r;', 'onread = rclr;'],
+};
+
+function fieldLines(
+  field: Field,
+  access: AccessType,
+  reset: bigint | undefined,
+  origin: VariantOrigin | undefined,
+  fieldName: string,
+  indent: string,
+): string[] {
+  const bitWidth = field.msb - field.lsb + 1;
+  const lines: string[] = [];
+  const entries = namedValues(field);
+  const enumName = `${fieldName.replace(/^\\/, '')}_e`;
+  if (entries.length > 0) {
+    const used = new Set<string>();
+    lines.push(`${indent}enum ${enumName} {`);
+    for (const entry of entries) {
+      let name = toRdlIdentifier(entry.name, `VALUE_${entry.value}`);
+      for (let i = 1; used.has(name); i++) name = `${toRdlIdentifier(entry.name, `VALUE_${entry.value}`)}_${i}`;
+      used.add(name);
+      lines.push(`${indent}    ${name} = ${bitWidth}'h${entry.value.toString(16).toUpperCase()};`);
+    }
+    lines.push(`${indent}};`);
+  }
+
+  lines.push(`${indent}field {`);
+  if (field.description) lines.push(`${indent}    desc = ${quote(field.description)};`);
+  for (const prop of ACCESS_PROPS[access]) lines.push(`${indent}    ${prop}`);
+  if (entries.length > 0) lines.push(`${indent}    encode = ${enumName};`);
+  const spec = typeSpec(field);
+  if (spec) lines.push(`${indent}    ${TYPE_PROPERTY} = ${quote(spec)};`);
+  if (origin) {
+    const selector = toRdlIdentifier(origin.selector, 'FIELD').replace(/^\\/, '');
+    const attrs = new URLSearchParams(variantOriginAttrs({ ...origin, selector }));
+    lines.push(`${indent}    ${VARIANT_PROPERTY} = ${quote(attrs.toString())};`);
+  }
+  const resetText = reset !== undefined ? ` = ${bitWidth}'h${reset.toString(16).toUpperCase()}` : '';
+  lines.push(`${indent}} ${fieldName}[${field.msb}:${field.lsb}]${resetText};`);
+  return lines;
+}
+
+function registerLines(reg: RegisterDef, origins: Map<string, VariantOrigin>, name: string, byteOffset: number, indent: string): string[] {
+  const regWidth = regWidthFor(reg.width);
+  const lines = [`${indent}reg {`];
+  if (reg.description) lines.push(`${indent}    desc = ${quote(reg.description)};`);
+  lines.push(`${indent}    regwidth = ${regWidth};`);
+  if (regWidth !== reg.width) lines.push(`${indent}    ${WIDTH_PROPERTY} = ${reg.width};`);
+
+  const reset = hasReset(reg) ? resetValueOf(reg) : undefined;
+  const used = new Set<string>();
+  for (const field of [...reg.fields].sort((a, b) => a.lsb - b.lsb)) {
+    const base = toRdlIdentifier(field.name, 'FIELD');
+    let fieldName = base;
+    for (let i = 1; used.has(fieldName); i++) fieldName = `${base}_${i}`;
+    used.add(fieldName);
+    const fieldReset = reset === undefined ? undefined : extractBits(reset, field.msb, field.lsb);
+    lines.push('', ...fieldLines(field, resolveAccess(field, reg), fieldReset, origins.get(field.id), fieldName, `${indent}    `));
+  }
+  lines.push(`${indent}} ${name} @ ${hex(byteOffset)};`);
+  return lines;
+}
+
+/**
+ * Export the project as a SystemRDL addrmap with one register per
+ * `RegisterDef` or register array instance; grouped registers are prefixed
+ * with the group name. Absolute offsets are converted to byte addresses;
+ * registers without an offset are placed after the highest used address. Field types SystemRDL cannot express are recorded in the
+ * `rv_type` user-defined property so `importFromSystemRdl` can restore them;
+ * variant fields are written as `<variant>_<field>` with their variant in
+ * `rv_variant`.
+ * SystemRDL has no register-level access, so each field carries its
+ * effective access. Split fields are written as one field per slice.
+ */
+export function exportToSystemRdl(state: Pick<AppState, 'registers' | 'groups' | 'project' | 'addressUnitBits'>): string {
+  const { project, addressUnitBits } = state;
+  const flattened = expandRegisters(flattenGroups(state.registers, state.groups))
+    .map((reg) => flattenVariants(withExpandedSplitFields(reg)));
+  const registers = flattened.map((f) => f.register);
+  const mapName = toRdlIdentifier((project?.title ?? '').toLowerCase(), 'registers');
+  const bytesOf = (reg: RegisterDef) => regWidthFor(reg.width) / 8;
+  const toBytes = (offset: number) => (offset * addressUnitBits) / 8;
+
+  let nextFree = registers.reduce(
+    (max, r) => (r.offset != null ? Math.max(max, toBytes(r.offset) + bytesOf(r)) : max), 0,
+  );
+  const usedNames = new Set<string>();
+  const placed = registers.map((reg, i) => {
+    let byteOffset: number;
+    if (reg.offset != null) {
+      byteOffset = toBytes(reg.offset);
+    } else {
+      byteOffset = alignUp(nextFree, bytesOf(reg));
+      nextFree = byteOffset + bytesOf(reg);
+    }
+    const base = toRdlIdentifier(reg.name, 'REGISTER');
+    let name = base;
+    for (let i = 1; usedNames.has(name); i++) name = `${base}_${i}`;
+    usedNames.add(name);
+    return { reg, name, byteOffset, origins: flattened[i].origins };
+  });
+
+  const lines = [
+    '// Generated by Register Viewer',
+    '',
+    `property ${TYPE_PROPERTY} { type = string; component = field; };`,
+    `property ${VARIANT_PROPERTY} { type = string; component = field; };`,
+    `property ${WIDTH_PROPERTY} { type = longint unsigned; component = reg; };`,
+    '',
+    `addrmap ${mapName} {`,
+  ];
+  if (project?.title) lines.push(`    name = ${quote(project.title)};`);
+  if (project?.description) lines.push(`    desc = ${quote(project.description)};`);
+  for (const { reg, name, byteOffset, origins } of placed) {
+    lines.push('', ...registerLines(reg, origins, name, byteOffset, '    '));
+  }
+  lines.push('};', '');
+  return lines.join('\n');
+}
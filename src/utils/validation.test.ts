@@ -1,5 +1,6 @@
 import { validateRegisterDef, validateFieldInput, getFieldWarnings, getRegisterOverlapWarnings } from './validation';
 import { makeRegister, makeField, makeFlagField, makeFloatField, makeFixedPointField } from '../test/helpers';
+import type { Field } from '../types/register';
 
 describe('register-level validation', () => {
   it('returns empty errors for a valid register', () => {
@@ -40,6 +41,14 @@ describe('register-level validation', () => {
     const errors = validateRegisterDef(reg);
     expect(errors.some((e) => e.message.includes('name'))).toBe(true);
   });
+
+  it('accepts a register array and rejects invalid dimensions', () => {
+    expect(validateRegisterDef(makeRegister({ dim: { count: 4, stride: 4 } }))).toEqual([]);
+    expect(validateRegisterDef(makeRegister({ dim: { count: 0, stride: 4 } })).map((e) => e.message))
+      .toEqual(['Array count must be between 1 and 1024 (got 0)']);
+    expect(validateRegisterDef(makeRegister({ dim: { count: 2, stride: 0 } })).map((e) => e.message))
+      .toEqual(['Array stride must be a positive integer (got 0)']);
+  });
 });
 
 describe('field-level validation', () => {
@@ -51,6 +60,39 @@ describe('field-level validation', () => {
     expect(errors.some((e) => e.message.includes('name'))).toBe(true);
   });
 
+  it('returns error when an ASCII field is not whole bytes', () => {
+    const reg = makeRegister({ fields: [{ id: 'f', name: 'ID', msb: 11, lsb: 0, type: 'ascii' }] });
+    expect(validateRegisterDef(reg).map((e) => e.message)).toEqual(['ASCII field width must be a multiple of 8 (got 12)']);
+  });
+
+  it('returns errors for bitset names outside the field or used twice', () => {
+    const reg = makeRegister({
+      fields: [{ id: 'f', name: 'SR', msb: 3, lsb: 0, type: 'bitset', bitNames: [{ bit: 0, name: 'RXNE' }, { bit: 4, name: 'TXE' }, { bit: 1, name: 'RXNE' }] }],
+    });
+    expect(validateRegisterDef(reg).map((e) => e.message)).toEqual([
+      'Bit 4 ("TXE") is outside the 4-bit field',
+      'Bit name "RXNE" is used more than once',
+    ]);
+  });
+
+  it('returns an error for bitset names with attribute separators', () => {
+    const reg = makeRegister({
+      fields: [{ id: 'f', name: 'SR', msb: 3, lsb: 0, type: 'bitset', bitNames: [{ bit: 0, name: 'TX=EMPTY' }, { bit: 1, name: 'A;B' }] }],
+    });
+    expect(validateRegisterDef(reg).map((e) => e.message)).toEqual(['Bit name "TX=EMPTY" must not contain ";" or "="']);
+  });
+
+  it('returns errors for reversed or overlapping slices', () => {
+    const reversed = makeField({ msb: 31, lsb: 0, slices: [{ msb: 3, lsb: 0 }, { msb: 28, lsb: 31 }] });
+    expect(validateRegisterDef(makeRegister({ fields: [reversed] })).map((e) => e.message)).toEqual([
+      'MSB (28) must be >= LSB (31)',
+    ]);
+    const overlapping = makeField({ msb: 7, lsb: 0, slices: [{ msb: 3, lsb: 0 }, { msb: 7, lsb: 2 }] });
+    expect(validateRegisterDef(makeRegister({ fields: [overlapping] })).map((e) => e.message)).toEqual([
+      'Slices of a field must not overlap',
+    ]);
+  });
+
   it('returns error when MSB < LSB', () => {
     const reg = makeRegister({
       fields: [makeField({ msb: 2, lsb: 5 })],
@@ -169,6 +211,17 @@ describe('getFieldWarnings — overlap detection', () => {
     expect(warnings.find((w) => w.message.includes('overlap'))!.fieldIds).toEqual(['f1', 'f2']);
   });
 
+  it('labels overlapping ranges in the requested bit numbering', () => {
+    const reg = makeRegister({
+      width: 8,
+      fields: [
+        makeField({ id: 'f1', name: 'A', msb: 7, lsb: 4 }),
+        makeField({ id: 'f2', name: 'B', msb: 5, lsb: 2 }),
+      ],
+    });
+    expect(getFieldWarnings(reg, 'msb0').map((w) => w.message)).toEqual(['"A" [0:3] and "B" [2:5] overlap']);
+  });
+
   it('partial overlap [7:4] + [5:2] produces an overlap warning', () => {
     const reg = makeRegister({
       fields: [
@@ -200,6 +253,17 @@ describe('getFieldWarnings — overlap detection', () => {
     const overlapWarnings = getFieldWarnings(reg).filter((w) => w.message.includes('overlap'));
     expect(overlapWarnings).toHaveLength(2);
   });
+
+  it('split fields are checked slice by slice', () => {
+    const split = makeField({ id: 'f1', name: 'ADDR', msb: 31, lsb: 8, slices: [{ msb: 31, lsb: 28 }, { msb: 11, lsb: 8 }] });
+    const between = makeField({ id: 'f2', name: 'DATA', msb: 27, lsb: 12 });
+    expect(getFieldWarnings(makeRegister({ fields: [split, between] }))).toEqual([]);
+
+    const clash = makeField({ id: 'f3', name: 'LOW', msb: 9, lsb: 0 });
+    expect(getFieldWarnings(makeRegister({ fields: [split, clash] })).map((w) => w.message)).toEqual([
+      '"ADDR" {11:8, 31:28} and "LOW" [9:0] overlap',
+    ]);
+  });
 });
 
 describe('getFieldWarnings — boundary exceeded', () => {
@@ -234,6 +298,56 @@ describe('getFieldWarnings — boundary exceeded', () => {
   });
 });
 
+describe('getFieldWarnings — variants', () => {
+  const mode = makeField({ id: 'mode', name: 'MODE', msb: 0, lsb: 0 });
+  const variantReg = (overrides = {}) => makeRegister({
+    width: 8,
+    fields: [mode],
+    variantSelectorId: 'mode',
+    variants: [
+      { id: 'a', name: 'PWM', selectorValues: [0], fields: [makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 1 })] },
+      { id: 'b', name: 'CAPTURE', selectorValues: [1], fields: [makeField({ id: 'edge', name: 'EDGE', msb: 2, lsb: 1 })] },
+    ],
+    ...overrides,
+  });
+
+  it('does not flag overlap between fields of different variants', () => {
+    expect(getFieldWarnings(variantReg())).toEqual([]);
+  });
+
+  it('flags variant fields overlapping common fields or each other', () => {
+    const reg = variantReg();
+    reg.variants![0].fields.push(makeField({ id: 'x', name: 'X', msb: 1, lsb: 0 }));
+    const messages = getFieldWarnings(reg).map((w) => w.message);
+    expect(messages).toContain('"DUTY" [7:1] and "X" [1:0] overlap');
+    expect(messages).toContain('"X" [1:0] and "MODE" [0] overlap');
+  });
+
+  it('warns about a missing selector and shared selector values', () => {
+    const reg = variantReg({ variantSelectorId: undefined });
+    reg.variants![1].selectorValues = [0, 1];
+    expect(getFieldWarnings(reg).map((w) => w.message)).toEqual([
+      'Variants need a selector field to become active',
+      'Variants "PWM" and "CAPTURE" both match selector value 0',
+    ]);
+  });
+
+  it('checks variant fields against the register width', () => {
+    const reg = variantReg({ width: 4 });
+    expect(getFieldWarnings(reg).filter((w) => w.message.includes('exceeds')).map((w) => w.fieldIds)).toEqual([['duty']]);
+  });
+
+  it('validates variant names and fields', () => {
+    const reg = variantReg();
+    reg.variants![0].name = ' ';
+    reg.variants![1].fields.push(makeFlagField({ id: 'wide', name: 'WIDE', msb: 3, lsb: 2 }));
+    expect(validateRegisterDef(reg).map((e) => e.message)).toEqual([
+      'Variant name is required',
+      'Flag field must be 1 bit wide (got 2)',
+    ]);
+  });
+});
+
 describe('validateFieldInput — integer', () => {
   it('rejects empty string', () => {
     expect(validateFieldInput('', 'integer')).not.toBeNull();
@@ -356,6 +470,66 @@ describe('validateFieldInput — fixed-point', () => {
   });
 });
 
+describe('validateFieldInput — scaled fields', () => {
+  const millivolts = makeField({ msb: 11, lsb: 0, scaling: { scale: 0.805, offset: 0, unit: 'mV' } });
+
+  it('accepts physical values with or without the unit', () => {
+    expect(validateFieldInput('1650', millivolts)).toBeNull();
+    expect(validateFieldInput('1650 mV', millivolts)).toBeNull();
+  });
+
+  it('rejects other text', () => {
+    expect(validateFieldInput('1650 V', millivolts)).toBe('Not a valid number of mV');
+    expect(validateFieldInput('mV', millivolts)).toBe('Not a valid number of mV');
+  });
+
+  it('reports values outside the field range in physical units', () => {
+    expect(validateFieldInput('3300', millivolts)).toBe('Out of range (0 mV to 3296.48 mV)');
+    expect(validateFieldInput('-1', millivolts)).toBe('Out of range (0 mV to 3296.48 mV)');
+  });
+
+  it('orders the range for negative scales', () => {
+    const field = makeField({ msb: 3, lsb: 0, scaling: { scale: -1, offset: 0 } });
+    expect(validateFieldInput('1', field)).toBe('Out of range (-15 to 0)');
+  });
+});
+
+describe('validateFieldInput — BCD, Gray and ASCII', () => {
+  const field = (type: 'bcd' | 'ascii', msb: number): Field => ({ id: 'f', name: 'F', msb, lsb: 0, type });
+
+  it('accepts decimal digits that fit a BCD field', () => {
+    expect(validateFieldInput('59', 'bcd')).toBeNull();
+    expect(validateFieldInput('5a', 'bcd')).toBe('BCD accepts decimal digits only');
+    expect(validateFieldInput('123', field('bcd', 7))).toBe('Too many digits for 8 bits');
+  });
+
+  it('accepts non-negative integers for Gray code', () => {
+    expect(validateFieldInput('0x1F', 'gray')).toBeNull();
+    expect(validateFieldInput('-1', 'gray')).toBe('Gray code values cannot be negative');
+  });
+
+  it('accepts ASCII text that fits, including spaces and empty text', () => {
+    expect(validateFieldInput(' ', field('ascii', 15))).toBeNull();
+    expect(validateFieldInput('', field('ascii', 15))).toBeNull();
+    expect(validateFieldInput('ABC', field('ascii', 15))).toBe('At most 2 characters');
+    expect(validateFieldInput('°C', 'ascii')).toBe('Only ASCII characters and \\xNN escapes are accepted');
+  });
+});
+
+describe('validateFieldInput — bitset', () => {
+  const field: Field = { id: 'f', name: 'SR', msb: 7, lsb: 0, type: 'bitset', bitNames: [{ bit: 0, name: 'RXNE' }] };
+
+  it('accepts known names, bit numbers and empty input', () => {
+    expect(validateFieldInput('RXNE | bit 3', field)).toBeNull();
+    expect(validateFieldInput('', field)).toBeNull();
+  });
+
+  it('reports unknown names and bits outside the field', () => {
+    expect(validateFieldInput('RXNE | BUSY', field)).toBe('Unknown bit "BUSY"');
+    expect(validateFieldInput('bit 9', field)).toBe('Bit 9 is outside the field');
+  });
+});
+
 describe('validateFieldInput — flag/enum passthrough', () => {
   it('returns null for flag regardless of input', () => {
     expect(validateFieldInput('anything', 'flag')).toBeNull();
@@ -451,6 +625,20 @@ describe('getRegisterOverlapWarnings', () => {
   });
 });
 
+describe('getRegisterOverlapWarnings — register arrays', () => {
+  it('checks each instance, including instances of the same array', () => {
+    const regs = [
+      makeRegister({ id: 'ch', name: 'CH%s', width: 32, offset: 0x00, dim: { count: 3, stride: 4 } }),
+      makeRegister({ id: 'b', name: 'B', width: 32, offset: 0x08 }),
+      makeRegister({ id: 'tight', name: 'T%s', width: 32, offset: 0x20, dim: { count: 2, stride: 2 } }),
+    ];
+    expect(getRegisterOverlapWarnings(regs).map((w) => w.registerIds)).toEqual([
+      ['ch:2', 'b'],
+      ['tight:0', 'tight:1'],
+    ]);
+  });
+});
+
 describe('getRegisterOverlapWarnings — addressUnitBits', () => {
   it('16-bit registers at sequential offsets do NOT overlap with addressUnitBits=16', () => {
     const regs = [
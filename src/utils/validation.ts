@@ -1,5 +1,10 @@
-import type { Field, FieldType, RegisterDef } from '../types/register';
+import type { BitNumbering, Field, FieldType, RegisterDef } from '../types/register';
+import { encodeBcd, parseAsciiText, parseBitset } from './encodings';
+import { fieldBitWidth, fieldSlices, formatBitRange } from './field-slices';
 import { formatOffset } from './format';
+import { expandRegisters, MAX_DIM_COUNT } from './register-array';
+import { formatPhysical, parsePhysical, physicalLimits, physicalToRaw } from './scaling';
+import { allFields } from './variants';
 
 /** Maximum supported register width in bits. */
 export const MAX_REGISTER_WIDTH = 128;
@@ -26,10 +31,28 @@ export function validateRegisterDef(reg: RegisterDef): ValidationError[] {
     errors.push({ message: 'Register name is required' });
   }
 
+  if (reg.dim) {
+    if (!Number.isInteger(reg.dim.count) || reg.dim.count < 1 || reg.dim.count > MAX_DIM_COUNT) {
+      errors.push({ message: `Array count must be between 1 and ${MAX_DIM_COUNT} (got ${reg.dim.count})` });
+    }
+    if (!Number.isInteger(reg.dim.stride) || reg.dim.stride < 1) {
+      errors.push({ message: `Array stride must be a positive integer (got ${reg.dim.stride})` });
+    }
+  }
+
   for (const field of reg.fields) {
     errors.push(...validateField(field));
   }
 
+  for (const variant of reg.variants ?? []) {
+    if (!variant.name.trim()) {
+      errors.push({ message: 'Variant name is required' });
+    }
+    for (const field of variant.fields) {
+      errors.push(...validateField(field));
+    }
+  }
+
   return errors;
 }
 
@@ -41,15 +64,21 @@ function validateField(field: Field): ValidationError[] {
     errors.push({ fieldId: id, message: 'Field name is required' });
   }
 
-  if (field.msb < field.lsb) {
-    errors.push({ fieldId: id, message: `MSB (${field.msb}) must be >= LSB (${field.lsb})` });
+  const slices = fieldSlices(field);
+  for (const slice of slices) {
+    if (slice.msb < slice.lsb) {
+      errors.push({ fieldId: id, message: `MSB (${slice.msb}) must be >= LSB (${slice.lsb})` });
+    }
+    if (slice.lsb < 0) {
+      errors.push({ fieldId: id, message: `LSB cannot be negative` });
+    }
   }
 
-  if (field.lsb < 0) {
-    errors.push({ fieldId: id, message: `LSB cannot be negative` });
+  if (slices.some((a, i) => slices.slice(i + 1).some((b) => a.lsb <= b.msb && b.lsb <= a.msb))) {
+    errors.push({ fieldId: id, message: 'Slices of a field must not overlap' });
   }
 
-  const bitWidth = field.msb - field.lsb + 1;
+  const bitWidth = fieldBitWidth(field);
 
   if (field.type === 'flag' && bitWidth !== 1) {
     errors.push({ fieldId: id, message: `Flag field must be 1 bit wide (got ${bitWidth})` });
@@ -69,15 +98,62 @@ function validateField(field: Field): ValidationError[] {
     }
   }
 
+  if (field.type === 'ascii' && (bitWidth < 8 || bitWidth % 8 !== 0)) {
+    errors.push({ fieldId: id, message: `ASCII field width must be a multiple of 8 (got ${bitWidth})` });
+  }
+
+  if (field.type === 'bitset') {
+    for (const { bit, name } of field.bitNames) {
+      if (bit >= bitWidth) {
+        errors.push({ fieldId: id, message: `Bit ${bit} ("${name}") is outside the ${bitWidth}-bit field` });
+      }
+    }
+    const names = field.bitNames.map((b) => b.name);
+    const duplicate = names.find((n, i) => names.indexOf(n) !== i);
+    if (duplicate !== undefined) {
+      errors.push({ fieldId: id, message: `Bit name "${duplicate}" is used more than once` });
+    }
+    // `;` and `=` separate bit names in the SVD, IP-XACT and SystemRDL type attributes
+    const reserved = names.find((n) => /[;=]/.test(n));
+    if (reserved !== undefined) {
+      errors.push({ fieldId: id, message: `Bit name "${reserved}" must not contain ";" or "="` });
+    }
+  }
+
   return errors;
 }
 
-/** Non-blocking warnings for field overlap and boundary issues. */
-export function getFieldWarnings(reg: RegisterDef): FieldWarning[] {
+/**
+ * Overlap warnings among `fields`, or between `fields` and `others` when
+ * given. Split fields are compared slice by slice, so fields may interleave.
+ */
+function overlapWarnings(fields: Field[], label: (field: Field) => string, others?: Field[]): FieldWarning[] {
+  const warnings: FieldWarning[] = [];
+  fields.forEach((a, i) => {
+    for (const b of others ?? fields.slice(i + 1)) {
+      const overlaps = fieldSlices(a).some((sa) => fieldSlices(b).some((sb) => sa.lsb <= sb.msb && sb.lsb <= sa.msb));
+      if (overlaps) {
+        warnings.push({
+          fieldIds: [a.id, b.id],
+          message: `"${a.name}" ${label(a)} and "${b.name}" ${label(b)} overlap`,
+        });
+      }
+    }
+  });
+  return warnings;
+}
+
+/**
+ * Non-blocking warnings for field overlap and boundary issues. Fields of
+ * different variants are never active together, so they may overlap each
+ * other but not the common fields.
+ */
+export function getFieldWarnings(reg: RegisterDef, numbering: BitNumbering = 'lsb0'): FieldWarning[] {
   const warnings: FieldWarning[] = [];
+  const variants = reg.variants ?? [];
 
   // Check fields exceeding register boundaries
-  for (const field of reg.fields) {
+  for (const field of allFields(reg)) {
     if (field.msb >= reg.width) {
       warnings.push({
         fieldIds: [field.id],
@@ -87,15 +163,26 @@ export function getFieldWarnings(reg: RegisterDef): FieldWarning[] {
   }
 
   // Check for overlapping bit ranges
-  for (let i = 0; i < reg.fields.length; i++) {
-    for (let j = i + 1; j < reg.fields.length; j++) {
-      const a = reg.fields[i];
-      const b = reg.fields[j];
-      if (a.lsb <= b.msb && b.lsb <= a.msb) {
-        warnings.push({
-          fieldIds: [a.id, b.id],
-          message: `"${a.name}" [${a.msb}:${a.lsb}] and "${b.name}" [${b.msb}:${b.lsb}] overlap`,
-        });
+  const label = (field: Field) => formatBitRange(field, numbering, reg.width);
+  warnings.push(...overlapWarnings(reg.fields, label));
+  for (const variant of variants) {
+    warnings.push(...overlapWarnings(variant.fields, label), ...overlapWarnings(variant.fields, label, reg.fields));
+  }
+
+  if (variants.length > 0) {
+    const selector = reg.variantSelectorId !== undefined ? reg.fields.find((f) => f.id === reg.variantSelectorId) : undefined;
+    if (!selector) {
+      warnings.push({ fieldIds: [], message: 'Variants need a selector field to become active' });
+    }
+    for (let i = 0; i < variants.length; i++) {
+      for (let j = i + 1; j < variants.length; j++) {
+        const shared = variants[i].selectorValues.filter((v) => variants[j].selectorValues.includes(v));
+        if (shared.length > 0) {
+          warnings.push({
+            fieldIds: [],
+            message: `Variants "${variants[i].name}" and "${variants[j].name}" both match selector value ${shared.join(', ')}`,
+          });
+        }
       }
     }
   }
@@ -106,15 +193,60 @@ export function getFieldWarnings(reg: RegisterDef): FieldWarning[] {
 /**
  * Validate a user's text input for a field value.
  * Returns null if valid, or a human-readable error message if invalid.
+ * Given a scaled field, the input is a physical value and must fit the field
+ * once the scaling is inverted. Given a BCD or ASCII field, the digits or
+ * characters must fit its width.
  */
-export function validateFieldInput(text: string, fieldType: FieldType): string | null {
-  // Flag and enum use toggle/select controls — no free-text validation needed
-  if (fieldType === 'flag' || fieldType === 'enum') return null;
+export function validateFieldInput(text: string, field: FieldType | Field): string | null {
+  const fieldType = typeof field === 'string' ? field : field.type;
+  // Flag, enum and one-hot use toggle/select controls — no free-text validation needed
+  if (fieldType === 'flag' || fieldType === 'enum' || fieldType === 'one-hot') return null;
+
+  // Spaces are characters of an ASCII field, and empty text is all NUL bytes
+  if (fieldType === 'ascii') {
+    const bytes = parseAsciiText(text);
+    if (!bytes) return 'Only ASCII characters and \\xNN escapes are accepted';
+    const maxChars = typeof field === 'object' ? Math.floor(fieldBitWidth(field) / 8) : Infinity;
+    return bytes.length > maxChars ? `At most ${maxChars} characters` : null;
+  }
+
+  // Empty bitset input clears every bit; names can only be checked against a field
+  if (fieldType === 'bitset') {
+    if (typeof field !== 'object' || field.type !== 'bitset') return null;
+    try {
+      parseBitset(text, field.bitNames, fieldBitWidth(field));
+    } catch (e) {
+      return (e as Error).message;
+    }
+    return null;
+  }
 
   const trimmed = text.trim();
   if (trimmed === '') return 'Value required';
 
-  if (fieldType === 'integer') {
+  if (typeof field === 'object' && (field.type === 'integer' || field.type === 'fixed-point') && field.scaling) {
+    const physical = parsePhysical(trimmed, field.scaling);
+    if (Number.isNaN(physical)) return field.scaling.unit ? `Not a valid number of ${field.scaling.unit}` : 'Not a valid number';
+    if (!Number.isFinite(physical)) return 'Infinity is not accepted';
+    if (physicalToRaw(physical, field, field.scaling) === null) {
+      const [min, max] = physicalLimits(field, field.scaling);
+      const unit = field.scaling.unit;
+      return `Out of range (${formatPhysical({ value: min, unit })} to ${formatPhysical({ value: max, unit })})`;
+    }
+    return null;
+  }
+
+  if (fieldType === 'bcd') {
+    if (!/^[0-9]+$/.test(trimmed)) return 'BCD accepts decimal digits only';
+    if (typeof field === 'object' && encodeBcd(BigInt(trimmed)) >> BigInt(fieldBitWidth(field)) !== 0n) {
+      return `Too many digits for ${fieldBitWidth(field)} bits`;
+    }
+    return null;
+  }
+
+  if (fieldType === 'gray' && trimmed.startsWith('-')) return 'Gray code values cannot be negative';
+
+  if (fieldType === 'integer' || fieldType === 'gray') {
     const pattern = /^-?(0[xX][0-9a-fA-F]+|0[bB][01]+|0[oO][0-7]+|[0-9]+)$/;
     if (!pattern.test(trimmed)) {
       return 'Invalid integer — use decimal, 0x, 0b, or 0o';
@@ -144,13 +276,16 @@ export interface RegisterOverlapWarning {
   message: string;
 }
 
-/** Check if any two registers with offsets overlap in address space. */
+/**
+ * Check if any two registers with offsets overlap in address space. Register
+ * arrays are checked instance by instance, so warnings carry instance ids.
+ */
 export function getRegisterOverlapWarnings(
   registers: RegisterDef[],
   addressUnitBits: number = 8,
 ): RegisterOverlapWarning[] {
   const warnings: RegisterOverlapWarning[] = [];
-  const withOffsets = registers.filter(
+  const withOffsets = expandRegisters(registers).filter(
     (r): r is RegisterDef & { offset: number } => r.offset != null,
   );
 
@@ -0,0 +1,56 @@
+import { diffRegisterValues } from './value-diff';
+import { makeEnumField, makeField, makeFlagField, makeRegister } from '../test/helpers';
+
+describe('diffRegisterValues', () => {
+  const register = makeRegister({
+    id: 'ctrl',
+    name: 'CTRL',
+    width: 8,
+    fields: [
+      makeFlagField({ id: 'en', name: 'EN', msb: 0, lsb: 0 }),
+      makeField({ id: 'div', name: 'DIV', msb: 7, lsb: 4 }),
+    ],
+  });
+
+  it('lists registers and fields whose decoded values differ', () => {
+    const diffs = diffRegisterValues([register], { ctrl: 0x31n }, { ctrl: 0x30n });
+    expect(diffs).toHaveLength(1);
+    expect(diffs[0]).toMatchObject({ a: 0x31n, b: 0x30n });
+    expect(diffs[0].fields.map((f) => [f.field.name, f.a, f.b])).toEqual([['EN', 'true', 'false']]);
+  });
+
+  it('skips equal registers and those neither side has', () => {
+    const other = makeRegister({ id: 'stat', name: 'STAT' });
+    expect(diffRegisterValues([register, other], { ctrl: 1n }, { ctrl: 1n })).toEqual([]);
+  });
+
+  it('reports a register only one side has, without field details', () => {
+    const diffs = diffRegisterValues([register], { ctrl: 1n }, {});
+    expect(diffs).toEqual([{ register, a: 1n, b: undefined, fields: [] }]);
+  });
+
+  it('lists changed bits outside any field as a register difference only', () => {
+    const diffs = diffRegisterValues([register], { ctrl: 0x02n }, { ctrl: 0x04n });
+    expect(diffs[0].fields).toEqual([]);
+  });
+
+  it('decodes each side with its own variant layout', () => {
+    const mode = makeEnumField({ id: 'mode', name: 'MODE', msb: 0, lsb: 0, enumEntries: [{ value: 0, name: 'A' }, { value: 1, name: 'B' }] });
+    const withVariants = makeRegister({
+      id: 'v',
+      width: 8,
+      fields: [mode],
+      variantSelectorId: 'mode',
+      variants: [
+        { id: 'va', name: 'A', selectorValues: [0], fields: [makeField({ id: 'x', name: 'X', msb: 7, lsb: 4 })] },
+        { id: 'vb', name: 'B', selectorValues: [1], fields: [makeField({ id: 'y', name: 'Y', msb: 7, lsb: 4 })] },
+      ],
+    });
+    const diffs = diffRegisterValues([withVariants], { v: 0x10n }, { v: 0x11n });
+    expect(diffs[0].fields.map((f) => [f.field.name, f.a, f.b])).toEqual([
+      ['MODE', 'A (0)', 'B (1)'],
+      ['X', '1', undefined],
+      ['Y', undefined, '1'],
+    ]);
+  });
+});
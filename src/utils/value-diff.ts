@@ -0,0 +1,58 @@
+import type { Field, RegisterDef } from '../types/register';
+import { decodeField, formatDecodedValue } from './decode';
+import { activeLayout } from './variants';
+
+/** A field whose decoded value differs; a side is undefined when its layout lacks the field. */
+export interface FieldDiff {
+  field: Field;
+  a?: string;
+  b?: string;
+}
+
+/** A register whose value differs; a side is undefined when its source has no value for it. */
+export interface RegisterDiff {
+  register: RegisterDef;
+  a?: bigint;
+  b?: bigint;
+  /** Changed fields, in layout order. Empty unless both sides have a value. */
+  fields: FieldDiff[];
+}
+
+function decodedFields(register: RegisterDef, value: bigint): Map<string, { field: Field; text: string }> {
+  return new Map(
+    activeLayout(register, value).fields.map((f) => [f.id, { field: f, text: formatDecodedValue(decodeField(value, f)) }]),
+  );
+}
+
+/**
+ * Compare two sets of register values. Every register whose value differs is
+ * listed, with the fields whose decoded values differ; each side is decoded
+ * with its own variant layout. Registers neither side has a value for are
+ * skipped.
+ */
+export function diffRegisterValues(
+  registers: RegisterDef[],
+  a: Record<string, bigint>,
+  b: Record<string, bigint>,
+): RegisterDiff[] {
+  const diffs: RegisterDiff[] = [];
+  for (const register of registers) {
+    const valueA = a[register.id];
+    const valueB = b[register.id];
+    if (valueA === valueB) continue;
+    const fields: FieldDiff[] = [];
+    if (valueA !== undefined && valueB !== undefined) {
+      const fieldsA = decodedFields(register, valueA);
+      const fieldsB = decodedFields(register, valueB);
+      for (const [id, { field, text }] of fieldsA) {
+        const other = fieldsB.get(id);
+        if (other?.text !== text) fields.push({ field, a: text, b: other?.text });
+      }
+      for (const [id, { field, text }] of fieldsB) {
+        if (!fieldsA.has(id)) fields.push({ field, b: text });
+      }
+    }
+    diffs.push({ register, a: valueA, b: valueB, fields });
+  }
+  return diffs;
+}
@@ -0,0 +1,42 @@
+import { changedBits, recordValueChanges, VALUE_HISTORY_LIMIT } from './value-history';
+
+describe('recordValueChanges', () => {
+  it('adds an entry for each changed register', () => {
+    const history = recordValueChanges({}, { a: 1n, b: 2n }, { a: 3n, b: 2n }, 1000, false);
+    expect(history).toEqual({ a: [{ value: 3n, previous: 1n, time: 1000 }] });
+  });
+
+  it('returns the same history when no value changed', () => {
+    const history = { a: [{ value: 1n, previous: 0n, time: 0 }] };
+    expect(recordValueChanges(history, { a: 1n }, { a: 1n }, 5, false)).toBe(history);
+  });
+
+  it('merges into the last entry and drops it when the value returns', () => {
+    let history = recordValueChanges({}, { a: 0n }, { a: 1n }, 0, false);
+    history = recordValueChanges(history, { a: 1n }, { a: 0x12n }, 100, true);
+    expect(history.a).toEqual([{ value: 0x12n, previous: 0n, time: 100 }]);
+    history = recordValueChanges(history, { a: 0x12n }, { a: 0n }, 200, true);
+    expect(history.a).toEqual([]);
+  });
+
+  it('drops the history of registers that no longer have a value', () => {
+    const history = { a: [{ value: 1n, previous: 0n, time: 0 }] };
+    expect(recordValueChanges(history, { a: 1n }, {}, 5, false)).toEqual({});
+  });
+
+  it('keeps at most VALUE_HISTORY_LIMIT entries per register', () => {
+    let history = {};
+    for (let i = 1; i <= VALUE_HISTORY_LIMIT + 3; i++) {
+      history = recordValueChanges(history, { a: BigInt(i - 1) }, { a: BigInt(i) }, i, false);
+    }
+    const entries = (history as Record<string, { value: bigint }[]>).a;
+    expect(entries).toHaveLength(VALUE_HISTORY_LIMIT);
+    expect(entries[entries.length - 1].value).toBe(BigInt(VALUE_HISTORY_LIMIT + 3));
+  });
+});
+
+describe('changedBits', () => {
+  it('lists the bits set and cleared by a change', () => {
+    expect(changedBits({ value: 0b1010n, previous: 0b0110n, time: 0 })).toEqual({ set: [3], cleared: [2] });
+  });
+});
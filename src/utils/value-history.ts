@@ -0,0 +1,53 @@
+import type { ValueHistoryEntry } from '../types/register';
+import { hotBits } from './encodings';
+
+/** How many changes are kept per register. */
+export const VALUE_HISTORY_LIMIT = 50;
+
+type ValueHistory = Record<string, ValueHistoryEntry[]>;
+
+/**
+ * Add an entry for every register whose value changed between `before` and
+ * `after`. With `merge`, a change extends the register's last entry instead
+ * (rapid typing into one value), and an entry that ends where it started is
+ * dropped. Registers without a value in `after` lose their history.
+ */
+export function recordValueChanges(
+  history: ValueHistory,
+  before: Record<string, bigint>,
+  after: Record<string, bigint>,
+  time: number,
+  merge: boolean,
+): ValueHistory {
+  if (before === after) return history;
+  let result: ValueHistory | undefined;
+  for (const id of Object.keys(history)) {
+    if (!(id in after)) {
+      result ??= { ...history };
+      delete result[id];
+    }
+  }
+  for (const [id, value] of Object.entries(after)) {
+    const previous = before[id] ?? 0n;
+    if (value === previous) continue;
+    result ??= { ...history };
+    const entries = result[id] ?? [];
+    const last = entries[entries.length - 1];
+    if (merge && last && last.value === previous) {
+      result[id] = value === last.previous
+        ? entries.slice(0, -1)
+        : [...entries.slice(0, -1), { value, previous: last.previous, time }];
+    } else {
+      result[id] = [...entries, { value, previous, time }].slice(-VALUE_HISTORY_LIMIT);
+    }
+  }
+  return result ?? history;
+}
+
+/** Bits an entry set and cleared, lowest first. */
+export function changedBits(entry: ValueHistoryEntry): { set: number[]; cleared: number[] } {
+  return {
+    set: hotBits(entry.value & ~entry.previous),
+    cleared: hotBits(entry.previous & ~entry.value),
+  };
+}
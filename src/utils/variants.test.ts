@@ -0,0 +1,88 @@
+import { activeLayout, activeVariant, allFields, flattenVariants, restoreVariants, variantSelector } from './variants';
+import { makeEnumField, makeField, makeRegister } from '../test/helpers';
+
+const mode = makeEnumField({ id: 'mode', name: 'MODE', msb: 1, lsb: 0, enumEntries: [{ value: 0, name: 'PWM' }, { value: 1, name: 'CAPTURE' }] });
+const duty = makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 2 });
+const edge = makeField({ id: 'edge', name: 'EDGE', msb: 3, lsb: 2 });
+const timer = makeRegister({
+  width: 8,
+  fields: [mode],
+  variantSelectorId: 'mode',
+  variants: [
+    { id: 'pwm', name: 'PWM', selectorValues: [0], fields: [duty] },
+    { id: 'cap', name: 'CAPTURE', selectorValues: [1, 2], fields: [edge] },
+  ],
+});
+
+describe('activeVariant', () => {
+  it('picks the variant whose selector values include the selector field value', () => {
+    expect(activeVariant(timer, 0b00n)?.id).toBe('pwm');
+    expect(activeVariant(timer, 0b01n)?.id).toBe('cap');
+    expect(activeVariant(timer, 0b10n)?.id).toBe('cap');
+    expect(activeVariant(timer, 0b11n)).toBeUndefined();
+  });
+
+  it('is undefined without a selector', () => {
+    expect(variantSelector({ ...timer, variantSelectorId: undefined })).toBeUndefined();
+    expect(activeVariant({ ...timer, variantSelectorId: 'gone' }, 0n)).toBeUndefined();
+  });
+});
+
+describe('activeLayout', () => {
+  it('adds the active variant fields to the common fields', () => {
+    expect(activeLayout(timer, 0n).fields.map((f) => f.id)).toEqual(['mode', 'duty']);
+    expect(activeLayout(timer, 1n).fields.map((f) => f.id)).toEqual(['mode', 'edge']);
+    expect(activeLayout(timer, 3n).fields.map((f) => f.id)).toEqual(['mode']);
+  });
+
+  it('returns registers without variants unchanged', () => {
+    const reg = makeRegister({ fields: [mode] });
+    expect(activeLayout(reg, 0n)).toBe(reg);
+  });
+});
+
+describe('allFields', () => {
+  it('lists common fields, then every variant field', () => {
+    expect(allFields(timer).map((f) => f.id)).toEqual(['mode', 'duty', 'edge']);
+  });
+});
+
+describe('flattenVariants', () => {
+  it('moves variant fields to the common fields under prefixed names', () => {
+    const { register, origins } = flattenVariants({ ...timer, variants: [{ ...timer.variants![0], fields: [{ ...duty, resetValue: 3n }] }] });
+    expect(register.variants).toBeUndefined();
+    expect(register.variantSelectorId).toBeUndefined();
+    expect(register.fields.map((f) => f.name)).toEqual(['MODE', 'PWM_DUTY']);
+    expect(origins.get('duty')).toEqual({ variant: 'PWM', selectorValues: [0], selector: 'MODE', name: 'DUTY' });
+  });
+
+  it('keeps the field resets of the variant selected at reset only', () => {
+    const reg = {
+      ...timer,
+      variants: [
+        { ...timer.variants![0], fields: [{ ...duty, resetValue: 3n }] },
+        { ...timer.variants![1], fields: [{ ...edge, resetValue: 1n }] },
+      ],
+    };
+    expect(flattenVariants(reg).register.fields.map((f) => f.resetValue)).toEqual([undefined, 3n, undefined]);
+    const capture = { ...reg, fields: [{ ...mode, resetValue: 1n }] };
+    expect(flattenVariants(capture).register.fields.map((f) => f.resetValue)).toEqual([1n, undefined, 1n]);
+  });
+
+  it('is undone by restoreVariants', () => {
+    const { register, origins } = flattenVariants(timer);
+    const restored = restoreVariants(register, (f) => origins.get(f.id));
+    expect(restored.variantSelectorId).toBe('mode');
+    expect(restored.fields).toEqual([mode]);
+    expect(restored.variants!.map((v) => [v.name, v.selectorValues, v.fields])).toEqual([
+      ['PWM', [0], [duty]],
+      ['CAPTURE', [1, 2], [edge]],
+    ]);
+  });
+
+  it('leaves registers without variants alone', () => {
+    const reg = makeRegister({ fields: [mode] });
+    expect(flattenVariants(reg).register).toBe(reg);
+    expect(restoreVariants(reg, () => undefined)).toBe(reg);
+  });
+});
@@ -0,0 +1,115 @@
+import type { Field, RegisterDef, RegisterVariant } from '../types/register';
+import { extractFieldBits, replaceFieldBits } from './field-slices';
+
+/** The field whose value chooses the active variant, if the register has one. */
+export function variantSelector(register: RegisterDef): Field | undefined {
+  if (register.variantSelectorId === undefined) return undefined;
+  return register.fields.find((f) => f.id === register.variantSelectorId);
+}
+
+/** The variant selected by the register value, if any. The first matching variant wins. */
+export function activeVariant(register: RegisterDef, value: bigint): RegisterVariant | undefined {
+  const selector = variantSelector(register);
+  if (!selector || !register.variants?.length) return undefined;
+  const selected = Number(extractFieldBits(value, selector));
+  return register.variants.find((v) => v.selectorValues.includes(selected));
+}
+
+/**
+ * The register as laid out for a value: the common fields plus the fields of
+ * the active variant. Registers without variants are returned unchanged.
+ */
+export function activeLayout(register: RegisterDef, value: bigint): RegisterDef {
+  if (!register.variants?.length) return register;
+  const variant = activeVariant(register, value);
+  return { ...register, fields: variant ? [...register.fields, ...variant.fields] : register.fields };
+}
+
+/** Every field the register can show: the common fields, then each variant's fields. */
+export function allFields(register: Pick<RegisterDef, 'fields' | 'variants'>): Field[] {
+  return [...register.fields, ...(register.variants ?? []).flatMap((v) => v.fields)];
+}
+
+/** Where a field of a flattened register came from; see `flattenVariants`. */
+export interface VariantOrigin {
+  variant: string;
+  selectorValues: number[];
+  /** Name of the selector field among the common fields. */
+  selector: string;
+  /** The field's own name inside the variant. */
+  name: string;
+}
+
+/**
+ * The register for formats without variants: every variant field joins the
+ * common fields, named `<variant>_<field>` so the variants stay apart.
+ * Only the fields of the variant selected at reset keep their reset values,
+ * so the flattened register resets to the same value. `origins` maps the ids of the moved fields to their variant, for
+ * exporters that record it so `restoreVariants` can undo the flattening.
+ */
+export function flattenVariants(reg: RegisterDef): { register: RegisterDef; origins: Map<string, VariantOrigin> } {
+  const origins = new Map<string, VariantOrigin>();
+  if (!reg.variants?.length) return { register: reg, origins };
+  const selector = variantSelector(reg);
+  const base = reg.resetValue ?? 0n;
+  const atReset = activeVariant(reg, selector?.resetValue === undefined ? base : replaceFieldBits(base, selector, selector.resetValue));
+  const fields = [...reg.fields];
+  for (const variant of reg.variants) {
+    for (const { resetValue, ...field } of variant.fields) {
+      fields.push({ ...field, name: `${variant.name}_${field.name}`, ...(variant === atReset && resetValue !== undefined && { resetValue }) } as Field);
+      if (selector) {
+        origins.set(field.id, { variant: variant.name, selectorValues: variant.selectorValues, selector: selector.name, name: field.name });
+      }
+    }
+  }
+  const { variants: _variants, variantSelectorId: _selectorId, ...rest } = reg;
+  void _variants;
+  void _selectorId;
+  return { register: { ...rest, fields }, origins };
+}
+
+/**
+ * Undo `flattenVariants` on an imported register: fields with an origin move
+ * back into their variant under their own name. Returns the register
+ * unchanged when no field has an origin or the selector field is missing.
+ */
+export function restoreVariants(reg: RegisterDef, originOf: (field: Field) => VariantOrigin | undefined): RegisterDef {
+  const fields: Field[] = [];
+  const variants: RegisterVariant[] = [];
+  let selectorName: string | undefined;
+  for (const field of reg.fields) {
+    const origin = originOf(field);
+    if (!origin) {
+      fields.push(field);
+      continue;
+    }
+    selectorName ??= origin.selector;
+    let variant = variants.find((v) => v.name === origin.variant);
+    if (!variant) {
+      variant = { id: crypto.randomUUID(), name: origin.variant, selectorValues: origin.selectorValues, fields: [] };
+      variants.push(variant);
+    }
+    variant.fields.push({ ...field, name: origin.name });
+  }
+  const selector = fields.find((f) => f.name === selectorName);
+  if (variants.length === 0 || !selector) return reg;
+  return { ...reg, fields, variantSelectorId: selector.id, variants };
+}
+
+/** A variant origin as vendor extension attributes. */
+export function variantOriginAttrs(origin: VariantOrigin): Record<string, string> {
+  return {
+    variant: origin.variant,
+    selectorValues: origin.selectorValues.join(' '),
+    selector: origin.selector,
+    variantField: origin.name,
+  };
+}
+
+/** Read attributes written by `variantOriginAttrs`, or undefined if they hold no variant. */
+export function parseVariantOrigin(attrs: Record<string, string> | null | undefined): VariantOrigin | undefined {
+  if (!attrs?.variant || !attrs.selector || !attrs.variantField) return undefined;
+  const selectorValues = (attrs.selectorValues ?? '').split(/\s+/).filter(Boolean).map(Number);
+  if (selectorValues.some((v) => !Number.isInteger(v) || v < 0)) return undefined;
+  return { variant: attrs.variant, selectorValues, selector: attrs.selector, name: attrs.variantField };
+}
@@ -0,0 +1,74 @@
+import { fieldTrace, parseSamples } from './waveform';
+import { makeEnumField, makeField, makeFlagField, makeRegister } from '../test/helpers';
+
+describe('parseSamples', () => {
+  it('reads one or more values per line', () => {
+    expect(parseSamples('0x1\n0b10 3\n\n0x0004', 8)).toEqual({ values: [1n, 2n, 3n, 4n], skippedLines: [], columns: [] });
+  });
+
+  it('reads CSV values from the column headed value or data', () => {
+    const csv = 'time,value\n0,0x10\n1,"0x20"\n2;0x30';
+    expect(parseSamples(csv, 8)).toEqual({ values: [0x10n, 0x20n, 0x30n], skippedLines: [], columns: ['time', 'value'], column: 1 });
+    expect(parseSamples('DATA,cycle\n0x5,100', 8).values).toEqual([5n]);
+  });
+
+  it('reads a chosen CSV column and skips rows it cannot pick a number from', () => {
+    const csv = 'addr,reading,timestamp\n0x40,0x12,1000\n0x40,,1010';
+    expect(parseSamples(csv, 8, 1)).toMatchObject({ values: [0x12n], skippedLines: [3] });
+    // Without a chosen column or a value header, rows with several numbers are not guessed
+    expect(parseSamples(csv, 8)).toMatchObject({ values: [], skippedLines: [2, 3], columns: ['addr', 'reading', 'timestamp'] });
+    expect(parseSamples('0x1,\n0x2,', 8)).toMatchObject({ values: [1n, 2n], columns: ['Column 1', 'Column 2'] });
+  });
+
+  it('reports lines without values and masks to the register width', () => {
+    const { values, skippedLines } = parseSamples('0x1FF\nnoise here\n0x3', 8);
+    expect(values).toEqual([0xFFn, 3n]);
+    expect(skippedLines).toEqual([2]);
+  });
+});
+
+describe('fieldTrace', () => {
+  const en = makeFlagField({ id: 'en', name: 'EN', msb: 0, lsb: 0 });
+  const mode = makeEnumField({ id: 'mode', name: 'MODE', msb: 2, lsb: 1 });
+  const level = makeField({ id: 'level', name: 'LEVEL', msb: 7, lsb: 4, scaling: { scale: 10, offset: 0, unit: 'mV' } });
+  const register = makeRegister({ width: 8, fields: [en, mode, level] });
+
+  it('draws flags as digital levels', () => {
+    expect(fieldTrace(register, en, [0n, 1n, 1n, 0n])).toEqual({ kind: 'digital', levels: [0, 1, 1, 0] });
+  });
+
+  it('merges equal enum values into bus segments', () => {
+    const trace = fieldTrace(register, mode, [0n, 0n, 0b010n, 0n]);
+    expect(trace).toEqual({
+      kind: 'bus',
+      segments: [
+        { start: 0, end: 2, label: 'A (0)' },
+        { start: 2, end: 3, label: 'B (1)' },
+        { start: 3, end: 4, label: 'A (0)' },
+      ],
+    });
+  });
+
+  it('plots numbers as physical values with their range and unit', () => {
+    expect(fieldTrace(register, level, [0x10n, 0x30n, 0x20n])).toEqual({
+      kind: 'analog',
+      points: [10, 30, 20],
+      min: 10,
+      max: 30,
+      unit: 'mV',
+    });
+  });
+
+  it('leaves gaps where a variant field is not in the layout', () => {
+    const sel = makeEnumField({ id: 'sel', name: 'SEL', msb: 0, lsb: 0 });
+    const duty = makeField({ id: 'duty', name: 'DUTY', msb: 7, lsb: 1 });
+    const timer = makeRegister({
+      width: 8,
+      fields: [sel],
+      variantSelectorId: 'sel',
+      variants: [{ id: 'pwm', name: 'PWM', selectorValues: [0], fields: [duty] }],
+    });
+    const trace = fieldTrace(timer, duty, [0x10n, 0x11n, 0x20n]);
+    expect(trace).toMatchObject({ kind: 'analog', points: [8, null, 16], min: 8, max: 16 });
+  });
+});
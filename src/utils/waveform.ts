@@ -0,0 +1,147 @@
+import type { DecodedValue, Field, RegisterDef } from '../types/register';
+import { clampToWidth } from './bitwise';
+import { decodeField, formatDecodedValue } from './decode';
+import { parseLogNumber } from './log-values';
+import { activeLayout } from './variants';
+
+const CSV_SEPARATOR = /[,;\t]/;
+
+/** Headers taken as the value column when none is chosen. */
+const VALUE_HEADER = /^(value|data)$/i;
+
+function csvCells(line: string): string[] {
+  return line.split(CSV_SEPARATOR).map((cell) => cell.trim().replace(/^"|"$/g, ''));
+}
+
+export interface ParsedSamples {
+  values: bigint[];
+  /** Lines without a value, or CSV rows with several numbers and no column to pick from. */
+  skippedLines: number[];
+  /** CSV column names: the header's cells, or `Column N` without a header. Empty for plain lists. */
+  columns: string[];
+  /** The CSV column the values were read from, if one was chosen or found by its header. */
+  column?: number;
+}
+
+/**
+ * Parse captured register values, one sample after another. CSV text (lines
+ * with `,`, `;` or tabs) is read from one column: `column` if given, else
+ * the one headed `value` or `data`, else the only number of each row; rows
+ * with several numbers and no column to pick are skipped rather than
+ * guessed. Other lines may hold several values separated by spaces. Values
+ * are hex, binary or decimal and are masked to `width` bits.
+ */
+export function parseSamples(text: string, width: number, column?: number): ParsedSamples {
+  const values: bigint[] = [];
+  const skippedLines: number[] = [];
+  let columns: string[] = [];
+  let chosen = column;
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim() === '') return;
+    if (!CSV_SEPARATOR.test(line)) {
+      const tokens = line.trim().split(/\s+/);
+      const numbers = tokens.map(parseLogNumber).filter((n): n is bigint => n !== null);
+      if (numbers.length === tokens.length) values.push(...numbers.map((v) => clampToWidth(v, width)));
+      else skippedLines.push(i + 1);
+      return;
+    }
+    const cells = csvCells(line);
+    const numbers = cells.map((cell) => (cell === '' ? null : parseLogNumber(cell)));
+    const present = numbers.filter((n): n is bigint => n !== null);
+    if (columns.length === 0) {
+      // The first row names the columns when it holds no numbers
+      if (present.length === 0) {
+        columns = cells;
+        if (chosen === undefined) {
+          const found = cells.findIndex((cell) => VALUE_HEADER.test(cell));
+          if (found >= 0) chosen = found;
+        }
+        return;
+      }
+      columns = cells.map((_, c) => `Column ${c + 1}`);
+    }
+    const value = chosen !== undefined ? numbers[chosen] ?? null : present.length === 1 ? present[0] : null;
+    if (value === null) skippedLines.push(i + 1);
+    else values.push(clampToWidth(value, width));
+  });
+  return { values, skippedLines, columns, ...(chosen !== undefined && { column: chosen }) };
+}
+
+/** A run of samples with the same label; `end` is exclusive. */
+export interface BusSegment {
+  start: number;
+  end: number;
+  /** Null where the field is not part of the sample's layout. */
+  label: string | null;
+}
+
+/**
+ * A field over the samples, like a logic analyzer trace. Null entries are
+ * samples where the field is not part of the layout (another variant) or has
+ * no numeric value (an invalid BCD digit, NaN).
+ */
+export type Trace =
+  | { kind: 'digital'; levels: (0 | 1 | null)[] }
+  | { kind: 'bus'; segments: BusSegment[] }
+  | { kind: 'analog'; points: (number | null)[]; min: number; max: number; unit?: string };
+
+function numericValue(decoded: DecodedValue): number | null {
+  switch (decoded.type) {
+    case 'integer':
+      return decoded.physical?.value ?? (decoded.value === '-0' ? 0 : Number(decoded.value));
+    case 'fixed-point':
+      return decoded.physical?.value ?? decoded.value;
+    case 'float':
+      return Number.isFinite(decoded.value) ? decoded.value : null;
+    case 'gray':
+      return Number(decoded.value);
+    case 'bcd':
+      return decoded.value === null ? null : Number(decoded.value);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Decode a field across samples. Flags become digital levels; enums, one-hot
+ * codes, bit sets and ASCII become labelled bus segments; numeric types
+ * become analog points.
+ */
+export function fieldTrace(register: RegisterDef, field: Field, values: bigint[]): Trace {
+  const decoded = values.map((value) =>
+    activeLayout(register, value).fields.some((f) => f.id === field.id) ? decodeField(value, field) : null,
+  );
+  switch (field.type) {
+    case 'flag':
+      return { kind: 'digital', levels: decoded.map((d) => (d === null ? null : d.type === 'flag' && d.value ? 1 : 0)) };
+    case 'enum':
+    case 'one-hot':
+    case 'bitset':
+    case 'ascii': {
+      const segments: BusSegment[] = [];
+      decoded.forEach((d, i) => {
+        const label = d === null ? null : formatDecodedValue(d);
+        const last = segments[segments.length - 1];
+        if (last && last.label === label) last.end = i + 1;
+        else segments.push({ start: i, end: i + 1, label });
+      });
+      return { kind: 'bus', segments };
+    }
+    case 'integer':
+    case 'float':
+    case 'fixed-point':
+    case 'bcd':
+    case 'gray': {
+      const points = decoded.map((d) => (d === null ? null : numericValue(d)));
+      const present = points.filter((p): p is number => p !== null);
+      const unit = field.type === 'integer' || field.type === 'fixed-point' ? field.scaling?.unit : undefined;
+      return {
+        kind: 'analog',
+        points,
+        min: present.length > 0 ? present.reduce((a, b) => Math.min(a, b)) : 0,
+        max: present.length > 0 ? present.reduce((a, b) => Math.max(a, b)) : 0,
+        ...(unit && { unit }),
+      };
+    }
+  }
+}
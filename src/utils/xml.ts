@@ -0,0 +1,52 @@
+/**
+ * Parse an XML string into a Document.
+ * Returns null if the string is not well-formed XML.
+ */
+export function parseXml(xml: string): Document | null {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  return doc;
+}
+
+/** Direct child elements of `parent` whose local name matches `name` (namespace prefixes ignored). */
+export function childElements(parent: Element, name: string): Element[] {
+  const result: Element[] = [];
+  for (const child of Array.from(parent.children)) {
+    if (child.localName === name) result.push(child);
+  }
+  return result;
+}
+
+/** First direct child element of `parent` with the given local name, or null. */
+export function childElement(parent: Element, name: string): Element | null {
+  for (const child of Array.from(parent.children)) {
+    if (child.localName === name) return child;
+  }
+  return null;
+}
+
+/** Trimmed text content of the first child element with the given local name, or undefined. */
+export function childText(parent: Element, name: string): string | undefined {
+  const el = childElement(parent, name);
+  if (!el) return undefined;
+  const text = el.textContent?.trim();
+  return text ? text : undefined;
+}
+
+/** Escape a string for use in XML text content or attribute values. */
+export function escapeXml(s: string): string {
+  return s
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Collapse whitespace runs in description text. XML descriptions are often
+ * hard-wrapped and indented to match the surrounding markup.
+ */
+export function normalizeWhitespace(s: string): string {
+  return s.replace(/\s+/g, ' ').trim();
+}
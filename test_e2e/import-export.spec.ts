@@ -19,7 +19,7 @@ test.describe('Import / Export', () => {
   test('importing a JSON file loads the register', async ({ page }) => {
     // Open the application menu and click Import
     await page.getByRole('button', { name: 'Application menu' }).click();
-    await page.getByRole('menuitem', { name: 'Import' }).click();
+    await page.getByRole('menuitem', { name: 'Import', exact: true }).click();
 
     // Set the file on the hidden file input
     const fileInput = page.locator('input[type="file"]');
@@ -41,7 +41,7 @@ test.describe('Import / Export', () => {
 
     // Intercept the download
     const downloadPromise = page.waitForEvent('download');
-    await page.getByRole('menuitem', { name: 'Export' }).click();
+    await page.getByRole('menuitem', { name: 'Export', exact: true }).click();
     const download = await downloadPromise;
 
     expect(download.suggestedFilename()).toBe('example-project.json');